@@ -0,0 +1,62 @@
+// src/app/[locale]/admin/books/[id]/page.tsx
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { Book } from '../../../../types';
+import BookForm from '../../../../components/BookForm';
+import { useTranslation } from '../../../../lib/useTranslation';
+
+export default function EditBookPage() {
+  const [book, setBook] = useState<Book | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const params = useParams() as { id?: string | string[] | undefined };
+  const router = useRouter();
+  const { t, localize } = useTranslation();
+  const rawId = params?.id;
+  const id = Array.isArray(rawId) ? rawId[0] : (rawId ?? '');
+
+  useEffect(() => {
+    if (!id) return;
+    let mounted = true;
+
+    const fetchBook = async () => {
+      try {
+        setIsLoading(true);
+        const res = await fetch(`/api/books/${encodeURIComponent(id)}`);
+        if (res.status === 404) throw new Error(t('book.notFound'));
+        if (!res.ok) throw new Error(t('book.loadFailed', { status: String(res.status) }));
+        const data = await res.json();
+        if (mounted) setBook(data.book);
+      } catch (err) {
+        console.error(err);
+        if (mounted) setError(err instanceof Error ? err.message : t('book.loadError'));
+      } finally {
+        if (mounted) setIsLoading(false);
+      }
+    };
+
+    fetchBook();
+    return () => { mounted = false; };
+  }, [id, t]);
+
+  if (isLoading) return <div className="text-center py-10">{t('common.loading')}</div>;
+  if (error || !book) {
+    return (
+      <div className="text-center py-10">
+        <p className="text-red-600 mb-4">{t('common.error', { message: error ?? t('book.notFound') })}</p>
+        <Link href={localize('/admin')} className="text-blue-500 hover:underline">{t('admin.backToCatalog')}</Link>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <h1 className="text-3xl font-bold text-gray-800 mb-8">{t('admin.editBook', { title: book.title })}</h1>
+      <BookForm book={book} onSaved={() => router.push(localize('/admin'))} onCancel={() => router.push(localize('/admin'))} />
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+// src/app/[locale]/admin/books/new/page.tsx
+'use client';
+
+import { useRouter } from 'next/navigation';
+import BookForm from '../../../../components/BookForm';
+import { useTranslation } from '../../../../lib/useTranslation';
+
+export default function NewBookPage() {
+  const router = useRouter();
+  const { t, localize } = useTranslation();
+
+  return (
+    <div>
+      <h1 className="text-3xl font-bold text-gray-800 mb-8">{t('admin.addBook')}</h1>
+      <BookForm onSaved={() => router.push(localize('/admin'))} onCancel={() => router.push(localize('/admin'))} />
+    </div>
+  );
+}
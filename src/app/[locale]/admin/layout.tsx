@@ -0,0 +1,49 @@
+// src/app/[locale]/admin/layout.tsx
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { getCurrentUser } from '../../lib/session';
+import { isStaff } from '../../lib/roles';
+import { createTranslator, DEFAULT_LOCALE, isLocale, localizePath } from '../../lib/i18n';
+
+// The back-office is server-gated here; the APIs it calls enforce the same roles
+export default async function AdminLayout({
+  children,
+  params,
+}: {
+  children: React.ReactNode;
+  params: Promise<{ locale: string }>;
+}) {
+  const { locale: requested } = await params;
+  const locale = isLocale(requested) ? requested : DEFAULT_LOCALE;
+  const t = createTranslator(locale);
+
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect(localizePath(locale, `/login?next=${encodeURIComponent(localizePath(locale, '/admin'))}`));
+  }
+
+  if (!isStaff(user)) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center py-12 bg-white rounded-lg shadow-md">
+          <h1 className="text-xl text-gray-600 mb-4">{t('admin.staffOnly')}</h1>
+          <Link href={localizePath(locale, '/')} className="bg-blue-500 text-white px-6 py-3 rounded-md hover:bg-blue-600 transition-colors">{t('admin.backToStore')}</Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex items-center justify-between mb-6">
+        <nav className="flex items-center gap-4 text-sm">
+          <span className="font-semibold uppercase tracking-wide text-gray-500">{t('admin.backOffice')}</span>
+          <Link href={localizePath(locale, '/admin')} className="text-blue-600 hover:underline">{t('admin.catalog')}</Link>
+          <Link href={localizePath(locale, '/admin/reviews')} className="text-blue-600 hover:underline">{t('admin.reviews')}</Link>
+        </nav>
+        <span className="text-sm text-gray-500">{t('admin.signedInAs', { name: user.name, role: t(`roles.${user.role}`) })}</span>
+      </div>
+      {children}
+    </div>
+  );
+}
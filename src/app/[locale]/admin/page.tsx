@@ -0,0 +1,210 @@
+// src/app/[locale]/admin/page.tsx
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Book, PaginatedBooks, User } from '../../types';
+import { toBookQueryString } from '../../lib/bookQuery';
+import { getAvailability } from '../../lib/inventory';
+import { useCurrency } from '../../lib/useCurrency';
+import { useTranslation } from '../../lib/useTranslation';
+import Pagination from '../../components/Pagination';
+
+// Fixed page size, so the pagination below has no items-per-page selector
+const ADMIN_PAGE_SIZE = 20;
+
+export default function AdminCatalogPage() {
+  const [user, setUser] = useState<User | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedSearchQuery, setDebouncedSearchQuery] = useState('');
+  const [currentPage, setCurrentPage] = useState(1);
+  const [pageData, setPageData] = useState<PaginatedBooks | null>(null);
+  // Bumped after a delete so the current page is fetched again
+  const [reloadKey, setReloadKey] = useState(0);
+  const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { formatBase } = useCurrency();
+  const { t, localize, formatNumber } = useTranslation();
+
+  // Only admins can delete books, so the table needs the current role
+  useEffect(() => {
+    let mounted = true;
+    fetch('/api/auth/me')
+      .then(async (res) => {
+        const data = res.ok ? await res.json() : null;
+        if (mounted) setUser(data?.user ?? null);
+      })
+      .catch((err) => console.error(err));
+    return () => { mounted = false; };
+  }, []);
+
+  // Debounce the search box so we don't hit the API on every keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setDebouncedSearchQuery(searchQuery);
+      setCurrentPage(1);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  useEffect(() => {
+    let mounted = true;
+
+    const fetchBooks = async () => {
+      try {
+        setIsLoading(true);
+        const queryString = toBookQueryString({
+          page: currentPage,
+          limit: ADMIN_PAGE_SIZE,
+          q: debouncedSearchQuery.trim() || undefined,
+          sortBy: 'title',
+          sortOrder: 'asc',
+        });
+        const res = await fetch(`/api/books?${queryString}`);
+        if (!res.ok) throw new Error(t('grid.loadFailed', { status: String(res.status) }));
+        const data: PaginatedBooks = await res.json();
+        if (mounted) {
+          setPageData(data);
+          setError(null);
+        }
+      } catch (err) {
+        console.error(err);
+        if (mounted) setError(err instanceof Error ? err.message : t('grid.loadError'));
+      } finally {
+        if (mounted) setIsLoading(false);
+      }
+    };
+
+    fetchBooks();
+    return () => { mounted = false; };
+  }, [currentPage, debouncedSearchQuery, reloadKey, t]);
+
+  const handleDelete = async (book: Book) => {
+    setDeletingId(book.id);
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/books/${encodeURIComponent(book.id)}`, { method: 'DELETE' });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setMessage(data.error || t('admin.deleteFailed', { title: book.title }));
+        return;
+      }
+      setMessage(t('admin.deleted', { title: book.title }));
+      // Step back if that was the last book on the page
+      if (pageData && pageData.books.length === 1 && currentPage > 1) {
+        setCurrentPage(currentPage - 1);
+      } else {
+        setReloadKey((key) => key + 1);
+      }
+    } catch (err) {
+      console.error('Delete book error', err);
+      setMessage(t('admin.deleteFailed', { title: book.title }));
+    } finally {
+      setDeletingId(null);
+      setConfirmingDeleteId(null);
+    }
+  };
+
+  const canDelete = user?.role === 'admin';
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+        <h1 className="text-3xl font-bold text-gray-800">{t('admin.catalog')}</h1>
+        <Link href={localize('/admin/books/new')} className="bg-blue-500 text-white px-4 py-2 rounded-md hover:bg-blue-600 transition-colors">
+          {t('admin.addBook')}
+        </Link>
+      </div>
+
+      <input
+        type="search"
+        value={searchQuery}
+        onChange={(e) => setSearchQuery(e.target.value)}
+        placeholder={t('admin.searchPlaceholder')}
+        aria-label={t('admin.searchLabel')}
+        className="w-full md:w-1/2 px-3 py-2 mb-4 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+
+      {message && <div className="mb-4 p-3 rounded-md bg-blue-50 text-blue-800 text-sm">{message}</div>}
+
+      {error ? (
+        <div className="text-center py-10 text-red-600">{t('common.error', { message: error })}</div>
+      ) : !pageData ? (
+        <div className="text-center py-10">{t('common.loading')}</div>
+      ) : pageData.books.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow-md text-gray-600">{t('admin.noMatches')}</div>
+      ) : (
+        <div className={`bg-white rounded-lg shadow-md overflow-x-auto ${isLoading ? 'opacity-60' : ''}`}>
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-start text-gray-600">
+              <tr>
+                <th className="px-4 py-3 font-semibold">{t('bookForm.title')}</th>
+                <th className="px-4 py-3 font-semibold">{t('bookForm.author')}</th>
+                <th className="px-4 py-3 font-semibold">{t('bookForm.isbn')}</th>
+                <th className="px-4 py-3 font-semibold text-end">{t('admin.price')}</th>
+                <th className="px-4 py-3 font-semibold text-end">{t('bookForm.stock')}</th>
+                <th className="px-4 py-3 font-semibold">{t('admin.featured')}</th>
+                <th className="px-4 py-3 font-semibold text-end">{t('admin.actions')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {pageData.books.map((book) => (
+                <tr key={book.id} className="text-gray-800">
+                  <td className="px-4 py-3">
+                    <Link href={localize(`/book/${book.id}`)} className="font-medium hover:text-blue-500">{book.title}</Link>
+                  </td>
+                  <td className="px-4 py-3">{book.author}</td>
+                  <td className="px-4 py-3 font-mono text-xs">{book.isbn}</td>
+                  <td className="px-4 py-3 text-end">{formatBase(book.price)}</td>
+                  <td className="px-4 py-3 text-end" title={t(`availability.${getAvailability(book)}`)}>{formatNumber(book.stock)}</td>
+                  <td className="px-4 py-3">{book.featured ? t('common.yes') : t('common.no')}</td>
+                  <td className="px-4 py-3 text-end whitespace-nowrap">
+                    {confirmingDeleteId === book.id ? (
+                      <span className="inline-flex items-center gap-2">
+                        <span className="text-gray-600">{t('admin.confirmDelete')}</span>
+                        <button
+                          onClick={() => handleDelete(book)}
+                          disabled={deletingId === book.id}
+                          className="text-red-600 font-semibold hover:underline cursor-pointer disabled:opacity-50 disabled:cursor-wait"
+                        >
+                          {deletingId === book.id ? t('common.deleting') : t('common.confirmDelete')}
+                        </button>
+                        <button onClick={() => setConfirmingDeleteId(null)} className="text-gray-600 hover:underline cursor-pointer">
+                          {t('common.cancel')}
+                        </button>
+                      </span>
+                    ) : (
+                      <span className="inline-flex items-center gap-3">
+                        <Link href={localize(`/admin/books/${book.id}`)} className="text-blue-600 hover:underline">{t('common.edit')}</Link>
+                        {canDelete && (
+                          <button onClick={() => setConfirmingDeleteId(book.id)} className="text-red-600 hover:underline cursor-pointer">
+                            {t('common.delete')}
+                          </button>
+                        )}
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {pageData && pageData.totalPages > 1 && (
+        <div className="mt-6">
+          <Pagination
+            currentPage={currentPage}
+            totalPages={pageData.totalPages}
+            onPageChange={setCurrentPage}
+            itemsPerPage={ADMIN_PAGE_SIZE}
+            totalItems={pageData.totalItems}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+// src/app/[locale]/admin/reviews/page.tsx
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Review, ReviewStatus } from '../../../types';
+import { REVIEW_STATUSES } from '../../../lib/reviews';
+import { useTranslation } from '../../../lib/useTranslation';
+
+export default function ReviewModerationPage() {
+  const [status, setStatus] = useState<ReviewStatus>('pending');
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [reason, setReason] = useState('');
+  // Bumped after a bulk action so the queue is fetched again
+  const [reloadKey, setReloadKey] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { t, localize, formatDate } = useTranslation();
+
+  useEffect(() => {
+    let mounted = true;
+
+    const fetchReviews = async () => {
+      try {
+        setIsLoading(true);
+        const res = await fetch(`/api/reviews/moderation?status=${status}`);
+        if (!res.ok) throw new Error(t('moderation.loadFailed', { status: String(res.status) }));
+        const data = await res.json();
+        if (mounted) {
+          setReviews(data.reviews ?? []);
+          setSelectedIds([]);
+          setError(null);
+        }
+      } catch (err) {
+        console.error(err);
+        if (mounted) setError(err instanceof Error ? err.message : t('moderation.loadError'));
+      } finally {
+        if (mounted) setIsLoading(false);
+      }
+    };
+
+    fetchReviews();
+    return () => { mounted = false; };
+  }, [status, reloadKey, t]);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((selected) => selected !== id) : [...prev, id]));
+  };
+
+  const allSelected = reviews.length > 0 && selectedIds.length === reviews.length;
+
+  const moderate = async (newStatus: 'approved' | 'rejected') => {
+    if (newStatus === 'rejected' && !reason.trim()) {
+      setMessage(t('moderation.reasonRequired'));
+      return;
+    }
+    setIsSubmitting(true);
+    setMessage(null);
+    try {
+      const res = await fetch('/api/reviews/moderation', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ids: selectedIds,
+          status: newStatus,
+          reason: newStatus === 'rejected' ? reason : undefined,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setMessage(data.error || t('moderation.updateFailed'));
+        return;
+      }
+      setMessage(data.message);
+      setReason('');
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      console.error('Moderation error', err);
+      setMessage(t('moderation.updateFailed'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const formatShortDate = (timestamp: string) => formatDate(timestamp, { year: 'numeric', month: 'short', day: 'numeric' });
+
+  return (
+    <div>
+      <h1 className="text-3xl font-bold text-gray-800 mb-6">{t('moderation.title')}</h1>
+
+      <div className="flex gap-2 mb-6" role="tablist">
+        {REVIEW_STATUSES.map((tab) => (
+          <button
+            key={tab}
+            role="tab"
+            aria-selected={status === tab}
+            onClick={() => { setStatus(tab); setMessage(null); }}
+            className={`px-4 py-2 rounded-md text-sm cursor-pointer ${
+              status === tab ? 'bg-blue-500 text-white' : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {t(`reviewStatus.${tab}`)}
+          </button>
+        ))}
+      </div>
+
+      {message && <div className="mb-4 p-3 rounded-md bg-blue-50 text-blue-800 text-sm">{message}</div>}
+
+      {reviews.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3 mb-4 bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+          <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={() => setSelectedIds(allSelected ? [] : reviews.map((review) => review.id))}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            {t('moderation.selectAll', { count: selectedIds.length })}
+          </label>
+          {status !== 'approved' && (
+            <button
+              onClick={() => moderate('approved')}
+              disabled={isSubmitting || selectedIds.length === 0}
+              className="px-4 py-2 rounded-md bg-green-600 text-white text-sm hover:bg-green-700 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {t('moderation.approve')}
+            </button>
+          )}
+          {status !== 'rejected' && (
+            <>
+              <input
+                type="text"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder={t('moderation.reason')}
+                aria-label={t('moderation.reason')}
+                maxLength={500}
+                className="flex-1 min-w-[12rem] px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                onClick={() => moderate('rejected')}
+                disabled={isSubmitting || selectedIds.length === 0}
+                className="px-4 py-2 rounded-md bg-red-600 text-white text-sm hover:bg-red-700 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {t('moderation.reject')}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {error ? (
+        <div className="text-center py-10 text-red-600">{t('common.error', { message: error })}</div>
+      ) : isLoading ? (
+        <div className="text-center py-10">{t('common.loading')}</div>
+      ) : reviews.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow-md text-gray-600">
+          {t(`moderation.empty.${status}`)}
+        </div>
+      ) : (
+        <ul className="space-y-4">
+          {reviews.map((review) => (
+            <li key={review.id} className="bg-white rounded-lg shadow-md p-4 flex gap-4">
+              <input
+                type="checkbox"
+                checked={selectedIds.includes(review.id)}
+                onChange={() => toggleSelected(review.id)}
+                aria-label={t('moderation.selectReview', { title: review.title })}
+                className="mt-1 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <div className="flex-1 min-w-0">
+                <div className="flex flex-wrap items-baseline justify-between gap-2">
+                  <h2 className="font-semibold text-gray-800">{review.title}</h2>
+                  <span className="text-sm text-yellow-500" aria-label={t('yourReview.starsLabel', { count: review.rating })}>
+                    {'★'.repeat(review.rating)}{'☆'.repeat(5 - review.rating)}
+                  </span>
+                </div>
+                <p className="text-gray-700 mt-1 whitespace-pre-line">{review.comment}</p>
+                <p className="text-xs text-gray-500 mt-2">
+                  {review.author} · {formatShortDate(review.timestamp)} ·{' '}
+                  <Link href={localize(`/book/${review.bookId}`)} className="text-blue-600 hover:underline">{t('moderation.viewBook')}</Link>
+                </p>
+                {review.moderationReason && (
+                  <p className="text-xs text-red-700 mt-1">{t('moderation.rejectedReason', { reason: review.moderationReason })}</p>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,367 @@
+// src/app/[locale]/book/[id]/page.tsx
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { Book, RatingSummary, Review, ReviewPage, ReviewSort, StarRating, VoteValue } from '../../../types';
+import AvailabilityBadge from '../../../components/AvailabilityBadge';
+import YourReviewPanel from '../../../components/YourReviewPanel';
+import ReviewHelpfulness from '../../../components/ReviewHelpfulness';
+import RatingHistogram from '../../../components/RatingHistogram';
+import WishlistButton from '../../../components/WishlistButton';
+import { isPurchasable } from '../../../lib/inventory';
+import { useCurrency } from '../../../lib/useCurrency';
+import { useTranslation } from '../../../lib/useTranslation';
+import { isReviewSort, REVIEW_SORTS } from '../../../lib/reviews';
+
+const DEFAULT_REVIEW_SORT: ReviewSort = 'helpful';
+
+// One page of a book's published reviews, plus the signed-in visitor's votes on them
+async function fetchReviewPage(
+  bookId: string,
+  sort: ReviewSort,
+  rating: StarRating | null,
+  cursor: string | null
+): Promise<{ page: ReviewPage; votes: Record<string, VoteValue> }> {
+  const params = new URLSearchParams({ bookId, sort });
+  if (rating) params.set('rating', String(rating));
+  if (cursor) params.set('cursor', cursor);
+  const res = await fetch(`/api/reviews?${params}`);
+  if (!res.ok) throw new Error(`Failed to fetch reviews (${res.status})`);
+  const page: ReviewPage = await res.json();
+  if (page.reviews.length === 0) return { page, votes: {} };
+
+  // 401 when signed out: no votes to show
+  const voteParams = new URLSearchParams(page.reviews.map((review) => ['reviewId', review.id]));
+  const votesRes = await fetch(`/api/reviews/votes?${voteParams}`);
+  const votesData = votesRes.ok ? await votesRes.json() : null;
+  return { page, votes: votesData?.votes ?? {} };
+}
+
+async function fetchRatingSummary(bookId: string): Promise<RatingSummary | null> {
+  const res = await fetch(`/api/reviews/summary?bookId=${encodeURIComponent(bookId)}`);
+  return res.ok ? res.json() : null;
+}
+
+export default function BookDetailPage() {
+  const [book, setBook] = useState<Book | null>(null);
+  const [bookReviews, setBookReviews] = useState<Review[]>([]);
+  const [ratingSummary, setRatingSummary] = useState<RatingSummary | null>(null);
+  const [reviewSort, setReviewSort] = useState<ReviewSort>(DEFAULT_REVIEW_SORT);
+  const [ratingFilter, setRatingFilter] = useState<StarRating | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [myVotes, setMyVotes] = useState<Record<string, VoteValue>>({});
+  const [reviewsVersion, setReviewsVersion] = useState(0); // Bumped to reload the first page
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [quantity, setQuantity] = useState(1);
+  const [cartError, setCartError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const params = useParams() as { id?: string | string[] | undefined };
+  const router = useRouter();
+  const { format } = useCurrency();
+  const { t, localize, formatDate } = useTranslation();
+  const rawId = params?.id;
+  const id = Array.isArray(rawId) ? rawId[0] : (rawId ?? '');
+
+  useEffect(() => {
+    if (!id) return;
+    let mounted = true;
+
+    const fetchBook = async () => {
+      try {
+        setIsLoading(true);
+        // fetch book by id
+        const bookRes = await fetch(`/api/books/${id}`);
+        if (!bookRes.ok) throw new Error(t('book.loadFailed', { status: String(bookRes.status) }));
+        const bookData = await bookRes.json();
+        // server returns { book } in route.ts — handle both shapes
+        const fetchedBook: Book = bookData?.book ?? bookData;
+        const summary = await fetchRatingSummary(id);
+
+        if (mounted) {
+          setBook(fetchedBook || null);
+          setRatingSummary(summary);
+        }
+      } catch (err: any) {
+        console.error(err);
+        if (mounted) setError(err.message || t('book.loadError'));
+      } finally {
+        if (mounted) setIsLoading(false);
+      }
+    };
+
+    fetchBook();
+    return () => { mounted = false; };
+  }, [id, t]);
+
+  // The first page of reviews for the current sort and star filter
+  useEffect(() => {
+    if (!id) return;
+    let mounted = true;
+
+    const fetchFirstPage = async () => {
+      try {
+        const { page, votes } = await fetchReviewPage(id, reviewSort, ratingFilter, null);
+        if (mounted) {
+          setBookReviews(page.reviews);
+          setNextCursor(page.nextCursor);
+          setMyVotes(votes);
+        }
+      } catch (err) {
+        console.error('Fetch reviews error', err);
+      }
+    };
+
+    fetchFirstPage();
+    return () => { mounted = false; };
+  }, [id, reviewSort, ratingFilter, reviewsVersion]);
+
+  // Signing in or out changes which votes are the visitor's
+  useEffect(() => {
+    const authHandler = () => setReviewsVersion((version) => version + 1);
+    window.addEventListener('authChanged', authHandler);
+    return () => window.removeEventListener('authChanged', authHandler);
+  }, []);
+
+  // Re-read the reviews, the histogram and the book's rating after the visitor changes their own review
+  const refreshReviews = async () => {
+    try {
+      const [bookRes, summary] = await Promise.all([fetch(`/api/books/${id}`), fetchRatingSummary(id)]);
+      if (bookRes.ok) {
+        const bookData = await bookRes.json();
+        if (bookData?.book) setBook(bookData.book);
+      }
+      setRatingSummary(summary);
+      setReviewsVersion((version) => version + 1);
+    } catch (err) {
+      console.error('Refresh reviews error', err);
+    }
+  };
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+    setIsLoadingMore(true);
+    try {
+      const { page, votes } = await fetchReviewPage(id, reviewSort, ratingFilter, nextCursor);
+      setBookReviews((prev) => [...prev, ...page.reviews]);
+      setNextCursor(page.nextCursor);
+      setMyVotes((prev) => ({ ...prev, ...votes }));
+    } catch (err) {
+      console.error('Load more reviews error', err);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const handleSortChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const sort = e.target.value;
+    if (isReviewSort(sort)) setReviewSort(sort);
+  };
+
+  // Update the counts in place; the list is re-sorted on the next fetch so it does not jump around
+  const handleVoted = (updated: Review, vote: VoteValue | null) => {
+    setBookReviews((prev) => prev.map((review) => (review.id === updated.id ? updated : review)));
+    setMyVotes((prev) => {
+      const next = { ...prev };
+      if (vote) {
+        next[updated.id] = vote;
+      } else {
+        delete next[updated.id];
+      }
+      return next;
+    });
+  };
+
+  const handleAddToCart = async () => {
+    if (!book) return;
+    setCartError(null);
+    try {
+      const res = await fetch('/api/cart', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ bookId: book.id, quantity }),
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({ error: 'Unknown' }));
+        console.error('Add to cart failed', err);
+        setCartError(err.error || t('book.addToCartFailed'));
+        return;
+      }
+      window.dispatchEvent(new CustomEvent('cartUpdated'));
+      router.push(localize('/cart'));
+    } catch (err) {
+      console.error('Add to cart error', err);
+    }
+  };
+
+  const renderStars = (rating: number) => {
+    const stars = [];
+    for (let i = 1; i <= 5; i++) {
+      stars.push(
+        <span key={i} className={`text-yellow-400 ${i <= rating ? 'fill-current' : 'text-gray-300'}`}>★</span>
+      );
+    }
+    return stars;
+  };
+
+  if (isLoading) return <div className="text-center py-10">{t('common.loading')}</div>;
+  if (error) return (
+    <div className="text-center py-10">
+      <h1 className="text-2xl font-bold text-red-500">{error}</h1>
+      <Link href={localize('/')} className="text-blue-500 hover:underline mt-4 inline-block">{t('common.backToHome')}</Link>
+    </div>
+  );
+  if (!book) return <div className="text-center py-10">{t('book.notFound')}</div>;
+
+  const purchasable = isPurchasable(book);
+  // Backorderable books can be ordered beyond the units on hand
+  const maxQuantity = book.allowBackorder ? undefined : book.stock;
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        <div className="relative h-96 md:h-[600px] w-full shadow-lg rounded-lg overflow-hidden bg-gray-200 flex items-center justify-center">
+          <div className="text-8xl text-gray-400">📚</div>
+        </div>
+
+        <div className="flex flex-col justify-center">
+          <h1 className="text-4xl font-extrabold text-gray-800 mb-2">{book.title}</h1>
+          <p className="text-xl text-gray-600 mb-4">{t('book.by')} {book.author}</p>
+
+          <div className="flex items-center mb-4">
+            {renderStars(book.rating)}
+            <span className="text-md text-gray-500 ms-2">({t('book.reviewCount', { count: book.reviewCount })})</span>
+          </div>
+
+          <p className="text-gray-700 mb-6 leading-relaxed">{book.description}</p>
+
+          <div className="mb-4">
+            {book.genre.map((g) => (
+              <span key={g} className="inline-block bg-gray-200 rounded-full px-3 py-1 text-sm font-semibold text-gray-700 me-2 mb-2">{g}</span>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-4 mb-6">
+            <div className="text-3xl font-bold text-blue-600">{format(book.price)}</div>
+            <AvailabilityBadge book={book} className="text-sm" />
+          </div>
+
+          <div className="flex items-center space-x-4 mb-6">
+            <label htmlFor="quantity" className="font-semibold">{t('book.quantity')}</label>
+            <input
+              type="number"
+              id="quantity"
+              min="1"
+              max={maxQuantity}
+              value={quantity}
+              disabled={!purchasable}
+              onChange={(e) => {
+                const requested = Math.max(1, parseInt(e.target.value, 10) || 1);
+                setQuantity(maxQuantity === undefined ? requested : Math.min(requested, maxQuantity));
+              }}
+              className="w-20 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <button
+            onClick={handleAddToCart}
+            disabled={!purchasable}
+            className="w-full bg-blue-500 text-white py-3 rounded-md hover:bg-blue-600 transition-colors duration-300 text-lg font-semibold disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            {purchasable ? t('book.addToCart') : t('wishlist.outOfStock')}
+          </button>
+          {cartError && <p className="text-sm text-red-600 mt-2">{cartError}</p>}
+
+          <WishlistButton bookId={book.id} showLabel className="mt-4 self-center" />
+
+          <Link href={localize('/')} className="text-blue-500 hover:underline mt-6 text-center">{t('book.backToHome')}</Link>
+        </div>
+      </div>
+
+      <div className="mt-12">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <h2 className="text-2xl font-bold text-gray-800">{t('reviews.title')}</h2>
+          {ratingSummary && ratingSummary.total > 1 && (
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              {t('reviews.sortBy')}
+              <select
+                value={reviewSort}
+                onChange={handleSortChange}
+                className="px-3 py-2 border border-gray-300 rounded-md text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {REVIEW_SORTS.map((sort) => (
+                  <option key={sort} value={sort}>{t(`reviews.sorts.${sort}`)}</option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+
+        <YourReviewPanel bookId={book.id} onChanged={refreshReviews} />
+
+        {ratingSummary && ratingSummary.total > 0 && (
+          <RatingHistogram summary={ratingSummary} selected={ratingFilter} onSelect={setRatingFilter} />
+        )}
+
+        {ratingFilter && (
+          <div className="flex items-center gap-3 mb-4 text-sm text-gray-600">
+            <span>{t('reviews.showingStars', { count: ratingFilter })}</span>
+            <button onClick={() => setRatingFilter(null)} className="text-blue-600 hover:underline cursor-pointer">
+              {t('reviews.showAll')}
+            </button>
+          </div>
+        )}
+
+        {bookReviews.length > 0 ? (
+          <div className="space-y-6">
+            {bookReviews.map((review) => (
+              <div key={review.id} className="bg-white p-6 rounded-lg shadow-md border border-gray-200">
+                <div className="flex items-start justify-between mb-3">
+                  <div className="flex items-center space-x-3">
+                    <div className="flex items-center">{renderStars(review.rating)}</div>
+                    <span className="text-sm text-gray-500">•</span>
+                    <span className="text-sm text-gray-600">{formatDate(review.timestamp)}</span>
+                    {review.verified && (
+                      <>
+                        <span className="text-sm text-gray-500">•</span>
+                        <span className="text-xs bg-green-100 text-green-800 px-2 py-1 rounded-full">{t('reviews.verified')}</span>
+                      </>
+                    )}
+                  </div>
+                </div>
+
+                <h3 className="text-lg font-semibold text-gray-800 mb-2">{review.title}</h3>
+                <p className="text-gray-700 mb-3 leading-relaxed">{review.comment}</p>
+
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <span className="text-sm font-medium text-gray-600">{t('book.by')} {review.author}</span>
+                  <ReviewHelpfulness review={review} vote={myVotes[review.id] ?? null} onVoted={handleVoted} />
+                </div>
+              </div>
+            ))}
+            {nextCursor && (
+              <div className="text-center">
+                <button
+                  onClick={handleLoadMore}
+                  disabled={isLoadingMore}
+                  className="px-6 py-2 rounded-md border border-blue-500 text-blue-600 font-semibold hover:bg-blue-50 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-wait"
+                >
+                  {isLoadingMore ? t('common.loading') : t('reviews.loadMore')}
+                </button>
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="text-center py-8 bg-gray-50 rounded-lg">
+            <p className="text-gray-600">
+              {ratingFilter ? t('reviews.noneWithStars', { count: ratingFilter }) : t('reviews.none')}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
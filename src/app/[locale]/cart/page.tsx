@@ -0,0 +1,310 @@
+// src/app/[locale]/cart/page.tsx
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import CartItem from '../../components/CartItem';
+import SavedCartItem from '../../components/SavedCartItem';
+import CouponForm from '../../components/CouponForm';
+import PriceBreakdown from '../../components/PriceBreakdown';
+import { Book, CartSummary, StockIssue } from '../../types';
+import { HOME_REGION_ID, regions } from '../../data/regions';
+import { describeShippingRule, findRegion } from '../../lib/pricing';
+import { useCurrency } from '../../lib/useCurrency';
+import { MessageKey } from '../../lib/i18n';
+import { useTranslation } from '../../lib/useTranslation';
+
+type CartApiItem = {
+  id: string;        // cart item id
+  bookId: string;    // book id
+  quantity: number;
+  addedAt: string;
+};
+
+type CartRow = { book: Book; quantity: number; cartItemId: string };
+
+export default function CartPage() {
+  const [cartItems, setCartItems] = useState<CartRow[]>([]);
+  const [savedItems, setSavedItems] = useState<CartRow[]>([]);
+  const [savedErrors, setSavedErrors] = useState<Record<string, string>>({}); // Keyed by cart item id
+  const [stockIssues, setStockIssues] = useState<StockIssue[]>([]);
+  const [summary, setSummary] = useState<CartSummary | null>(null);
+  const [regionId, setRegionId] = useState(HOME_REGION_ID); // Where shipping and tax are estimated for
+  const [cartVersion, setCartVersion] = useState(0); // Bumped whenever the totals may have changed
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { format } = useCurrency();
+  const { t, localize } = useTranslation();
+
+  const fetchCart = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      // fetch cart items and saved-for-later items from API
+      const [cartRes, savedRes] = await Promise.all([fetch('/api/cart'), fetch('/api/cart/saved')]);
+      if (!cartRes.ok) throw new Error(t('cart.loadFailed', { status: String(cartRes.status) }));
+      if (!savedRes.ok) throw new Error(t('cart.loadFailed', { status: String(savedRes.status) }));
+      const cartData: CartApiItem[] = await cartRes.json();
+      const savedData: CartApiItem[] = await savedRes.json();
+
+      // fetch the books in both lists and map them by id for quick lookup
+      const uniqueBookIds = [...new Set([...cartData, ...savedData].map(ci => ci.bookId))];
+      const booksList = await Promise.all(uniqueBookIds.map(async (bookId) => {
+        const bookRes = await fetch(`/api/books/${encodeURIComponent(bookId)}`);
+        if (bookRes.status === 404) return null; // book was removed from the catalog
+        if (!bookRes.ok) throw new Error(t('cart.loadFailed', { status: String(bookRes.status) }));
+        const bookData = await bookRes.json();
+        return (bookData?.book ?? null) as Book | null;
+      }));
+      const byId = new Map(booksList.filter((b): b is Book => b !== null).map(b => [b.id, b] as [string, Book]));
+
+      const toRows = (items: CartApiItem[]) => items.map(ci => {
+        const book = byId.get(ci.bookId);
+        return book ? { book, quantity: ci.quantity, cartItemId: ci.id } : null;
+      }).filter((x): x is CartRow => x !== null);
+
+      setCartItems(toRows(cartData));
+      setSavedItems(toRows(savedData));
+
+      // check the quantities against current stock
+      const validateRes = await fetch('/api/cart/validate');
+      if (!validateRes.ok) throw new Error(t('cart.loadFailed', { status: String(validateRes.status) }));
+      const validateData: { issues: StockIssue[] } = await validateRes.json();
+      setStockIssues(validateData.issues);
+      setCartVersion((version) => version + 1);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || t('cart.loadError'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    fetchCart();
+    // update on 'cartUpdated' events (from other pages)
+    const handler = () => fetchCart();
+    window.addEventListener('cartUpdated', handler);
+    window.addEventListener('authChanged', handler);
+    return () => {
+      window.removeEventListener('cartUpdated', handler);
+      window.removeEventListener('authChanged', handler);
+    };
+  }, [fetchCart]);
+
+  // Totals come from the API (the same numbers checkout shows): discounts, shipping and tax
+  useEffect(() => {
+    let mounted = true;
+
+    const fetchSummary = async () => {
+      try {
+        const res = await fetch(`/api/cart/summary?region=${encodeURIComponent(regionId)}`);
+        if (!res.ok) throw new Error(t('cart.summaryFailed', { status: String(res.status) }));
+        const data: CartSummary = await res.json();
+        if (mounted) setSummary(data);
+      } catch (err) {
+        console.error(err);
+        if (mounted) setError(err instanceof Error ? err.message : t('cart.summaryError'));
+      }
+    };
+
+    fetchSummary();
+    return () => { mounted = false; };
+  }, [regionId, cartVersion, t]);
+
+  const updateQuantity = async (cartItemId: string, newQuantity: number) => {
+    if (newQuantity < 1) return;
+    try {
+      const res = await fetch('/api/cart', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ cartItemId, quantity: newQuantity }),
+      });
+      if (!res.ok) {
+        console.error('Failed to update cart item', await res.json().catch(() => ({})));
+        return;
+      }
+      window.dispatchEvent(new CustomEvent('cartUpdated'));
+      await fetchCart();
+    } catch (err) {
+      console.error('Update quantity error', err);
+    }
+  };
+
+  const removeItem = async (cartItemId: string) => {
+    try {
+      const res = await fetch(`/api/cart?cartItemId=${encodeURIComponent(cartItemId)}`, {
+        method: 'DELETE'
+      });
+      if (!res.ok) {
+        console.error('Failed to remove item', await res.json().catch(() => ({})));
+        return;
+      }
+      window.dispatchEvent(new CustomEvent('cartUpdated'));
+      await fetchCart();
+    } catch (err) {
+      console.error('Remove item error', err);
+    }
+  };
+
+  const saveForLater = async (cartItemId: string) => {
+    try {
+      const res = await fetch('/api/cart/saved', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ cartItemId }),
+      });
+      if (!res.ok) {
+        console.error('Failed to save item for later', await res.json().catch(() => ({})));
+        return;
+      }
+      window.dispatchEvent(new CustomEvent('cartUpdated'));
+      await fetchCart();
+    } catch (err) {
+      console.error('Save for later error', err);
+    }
+  };
+
+  const moveToCart = async (cartItemId: string) => {
+    setSavedErrors((prev) => {
+      const next = { ...prev };
+      delete next[cartItemId];
+      return next;
+    });
+    try {
+      const res = await fetch('/api/cart/saved/move-to-cart', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ cartItemId }),
+      });
+      if (!res.ok) {
+        // e.g. not enough stock any more: the item stays saved
+        const data = await res.json().catch(() => ({}));
+        setSavedErrors((prev) => ({ ...prev, [cartItemId]: data.error || t('cart.moveFailed') }));
+        return;
+      }
+      window.dispatchEvent(new CustomEvent('cartUpdated'));
+      await fetchCart();
+    } catch (err) {
+      console.error('Move to cart error', err);
+    }
+  };
+
+  const clearCart = async () => {
+    try {
+      const res = await fetch(`/api/cart?clear=true`, { method: 'DELETE' });
+      if (!res.ok) {
+        console.error('Failed to clear cart', await res.json().catch(() => ({})));
+        return;
+      }
+      window.dispatchEvent(new CustomEvent('cartUpdated'));
+      await fetchCart();
+    } catch (err) {
+      console.error('Clear cart error', err);
+    }
+  };
+
+  const selectedRegion = findRegion(regionId);
+
+  if (isLoading) return <div className="text-center py-10">{t('common.loading')}</div>;
+  if (error) return <div className="text-center py-10 text-red-600">{t('common.error', { message: error })}</div>;
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold text-gray-800 mb-8">{t('cart.title')}</h1>
+
+      {cartItems.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow-md">
+          <h2 className="text-xl text-gray-600 mb-4">{t('cart.empty')}</h2>
+          <Link href={localize('/')} className="bg-blue-500 text-white px-6 py-3 rounded-md hover:bg-blue-600 transition-colors">{t('cart.continueShopping')}</Link>
+        </div>
+      ) : (
+        <>
+          <div className="bg-white rounded-lg shadow-md">
+            {cartItems.map((item) => (
+              <CartItem
+                key={item.cartItemId}
+                item={{ book: item.book, quantity: item.quantity }}
+                onUpdateQuantity={(bookId, qty) => updateQuantity(item.cartItemId, qty)}
+                onRemoveItem={() => removeItem(item.cartItemId)}
+                onSaveForLater={() => saveForLater(item.cartItemId)}
+                stockIssue={stockIssues.find(issue => issue.bookId === item.book.id)}
+              />
+            ))}
+          </div>
+
+          <div className="mt-8 bg-white rounded-lg shadow-md p-6">
+            {stockIssues.length > 0 && (
+              <p className="mb-4 p-3 rounded-md bg-red-50 text-red-700 text-sm">
+                {t('cart.stockWarning')}
+              </p>
+            )}
+            {summary && (
+              <>
+                <CouponForm coupons={summary} onChange={() => setCartVersion((version) => version + 1)} />
+                <div className="mt-6 pt-4 border-t border-gray-200 flex flex-wrap items-center gap-2 text-sm text-gray-600">
+                  <label htmlFor="cart-region">{t('cart.shippingTo')}</label>
+                  <select
+                    id="cart-region"
+                    value={regionId}
+                    onChange={(e) => setRegionId(e.target.value)}
+                    className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {regions.map((region) => (
+                      <option key={region.id} value={region.id}>{t(`regions.${region.id}` as MessageKey)}</option>
+                    ))}
+                  </select>
+                  {selectedRegion && <span>{describeShippingRule(selectedRegion.shipping, t, format)}</span>}
+                  {summary.freeShippingThreshold !== undefined && summary.shipping > 0 && (
+                    <span className="w-full text-blue-700">
+                      {t('cart.freeShippingHint', { amount: format(summary.freeShippingThreshold - summary.itemsTotal) })}
+                    </span>
+                  )}
+                </div>
+                <PriceBreakdown
+                  subtotal={summary.subtotal}
+                  discounts={summary.discounts}
+                  shipping={summary.shipping}
+                  tax={summary.tax}
+                  taxRate={summary.taxRate}
+                  total={summary.total}
+                  format={format}
+                  className="mt-4 mb-4"
+                />
+              </>
+            )}
+
+            <div className="flex flex-col sm:flex-row gap-4">
+              <Link href={localize('/')} className="flex-1 bg-gray-500 text-white text-center py-3 rounded-md hover:bg-gray-600 transition-colors">{t('cart.continueShopping')}</Link>
+              <button onClick={clearCart} className="flex-1 bg-red-500 text-white py-3 rounded-md hover:bg-red-600 transition-colors">{t('cart.clear')}</button>
+            </div>
+
+            {stockIssues.length > 0 ? (
+              <button disabled className="mt-4 w-full bg-gray-300 text-white py-3 rounded-md cursor-not-allowed">{t('cart.checkout')}</button>
+            ) : (
+              <Link href={localize('/checkout')} className="mt-4 block w-full bg-blue-500 text-white text-center py-3 rounded-md hover:bg-blue-600 transition-colors">{t('cart.checkout')}</Link>
+            )}
+          </div>
+        </>
+      )}
+
+      {savedItems.length > 0 && (
+        <section className="mt-12" aria-labelledby="saved-heading">
+          <h2 id="saved-heading" className="text-2xl font-bold text-gray-800 mb-4">
+            {t('cart.savedForLater', { count: savedItems.length })}
+          </h2>
+          <div className="bg-white rounded-lg shadow-md">
+            {savedItems.map((item) => (
+              <SavedCartItem
+                key={item.cartItemId}
+                item={{ book: item.book, quantity: item.quantity }}
+                onMoveToCart={() => moveToCart(item.cartItemId)}
+                onRemoveItem={() => removeItem(item.cartItemId)}
+                error={savedErrors[item.cartItemId]}
+              />
+            ))}
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+// src/app/[locale]/checkout/page.tsx
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import PriceBreakdown from '../../components/PriceBreakdown';
+import { Book, CartItem, CartSummary, ShippingAddress, StockIssue } from '../../types';
+import { describeStockIssue } from '../../lib/inventory';
+import { useCurrency } from '../../lib/useCurrency';
+import { BASE_CURRENCY } from '../../data/currencies';
+import { MessageKey } from '../../lib/i18n';
+import { useTranslation } from '../../lib/useTranslation';
+
+type CheckoutLine = { book: Book; quantity: number };
+
+const EMPTY_ADDRESS: ShippingAddress = {
+  fullName: '',
+  email: '',
+  addressLine1: '',
+  addressLine2: '',
+  city: '',
+  postalCode: '',
+  country: '',
+};
+
+const ADDRESS_FIELDS: { name: keyof ShippingAddress; label: MessageKey; type?: string; required?: boolean }[] = [
+  { name: 'fullName', label: 'checkout.fields.fullName', required: true },
+  { name: 'email', label: 'checkout.fields.email', type: 'email', required: true },
+  { name: 'addressLine1', label: 'checkout.fields.addressLine1', required: true },
+  { name: 'addressLine2', label: 'checkout.fields.addressLine2' },
+  { name: 'city', label: 'checkout.fields.city', required: true },
+  { name: 'postalCode', label: 'checkout.fields.postalCode' },
+  { name: 'country', label: 'checkout.fields.country', required: true },
+];
+
+export default function CheckoutPage() {
+  const [lines, setLines] = useState<CheckoutLine[]>([]);
+  const [address, setAddress] = useState<ShippingAddress>(EMPTY_ADDRESS);
+  const [stockIssues, setStockIssues] = useState<StockIssue[]>([]);
+  const [summary, setSummary] = useState<CartSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+  const { currency, format, formatBase } = useCurrency();
+  const { locale, t, localize } = useTranslation();
+
+  useEffect(() => {
+    let mounted = true;
+
+    const fetchCart = async () => {
+      try {
+        setIsLoading(true);
+        // orders belong to an account; a guest cart is merged into it on sign-in
+        const meRes = await fetch('/api/auth/me');
+        const meData = meRes.ok ? await meRes.json() : null;
+        if (!meData?.user) {
+          router.replace(localize(`/login?next=${encodeURIComponent(localize('/checkout'))}`));
+          return;
+        }
+
+        const cartRes = await fetch('/api/cart');
+        if (!cartRes.ok) throw new Error(t('cart.loadFailed', { status: String(cartRes.status) }));
+        const cartData: CartItem[] = await cartRes.json();
+
+        const combined = await Promise.all(cartData.map(async (item) => {
+          const bookRes = await fetch(`/api/books/${encodeURIComponent(item.bookId)}`);
+          if (!bookRes.ok) return null; // removed books are reported by the order API
+          const bookData = await bookRes.json();
+          return bookData?.book ? { book: bookData.book as Book, quantity: item.quantity } : null;
+        }));
+
+        if (mounted) setLines(combined.filter((line): line is CheckoutLine => line !== null));
+      } catch (err) {
+        console.error(err);
+        if (mounted) setError(err instanceof Error ? err.message : t('cart.loadError'));
+      } finally {
+        if (mounted) setIsLoading(false);
+      }
+    };
+
+    fetchCart();
+    return () => { mounted = false; };
+  }, [router, t, localize]);
+
+  // Shipping and tax depend on the country, so the summary follows the address form
+  // (after a short pause in typing). The order API works out the same numbers.
+  useEffect(() => {
+    let mounted = true;
+
+    const fetchSummary = async () => {
+      try {
+        const res = await fetch(`/api/cart/summary?country=${encodeURIComponent(address.country)}`);
+        if (!res.ok) throw new Error(t('checkout.summaryFailed', { status: String(res.status) }));
+        const data: CartSummary = await res.json();
+        if (mounted) setSummary(data);
+      } catch (err) {
+        console.error(err);
+        if (mounted) setError(err instanceof Error ? err.message : t('checkout.summaryError'));
+      }
+    };
+
+    const timer = setTimeout(fetchSummary, 300);
+    return () => {
+      mounted = false;
+      clearTimeout(timer);
+    };
+  }, [address.country, t]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setAddress(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    setStockIssues([]);
+    try {
+      const res = await fetch('/api/orders', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ shippingAddress: address }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(data.error || t('checkout.placeFailed'));
+        if (Array.isArray(data.issues)) setStockIssues(data.issues);
+        return;
+      }
+      // The order API empties the cart
+      window.dispatchEvent(new CustomEvent('cartUpdated'));
+      router.push(localize(`/orders/${data.order.id}`));
+    } catch (err) {
+      console.error('Place order error', err);
+      setError(t('checkout.placeFailed'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) return <div className="text-center py-10">{t('common.loading')}</div>;
+
+  if (lines.length === 0) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center py-12 bg-white rounded-lg shadow-md">
+          <h2 className="text-xl text-gray-600 mb-4">{t('cart.empty')}</h2>
+          <Link href={localize('/')} className="bg-blue-500 text-white px-6 py-3 rounded-md hover:bg-blue-600 transition-colors">{t('cart.continueShopping')}</Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold text-gray-800 mb-8">{t('checkout.title')}</h1>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <form onSubmit={handleSubmit} className="lg:col-span-2 bg-white rounded-lg shadow-md p-6 space-y-4">
+          <h2 className="text-xl font-semibold text-gray-800">{t('checkout.shippingAddress')}</h2>
+          {ADDRESS_FIELDS.map((field) => (
+            <div key={field.name}>
+              <label htmlFor={field.name} className="block text-sm font-medium text-gray-700 mb-1">{t(field.label)}</label>
+              <input
+                id={field.name}
+                name={field.name}
+                type={field.type ?? 'text'}
+                required={field.required}
+                value={address[field.name] ?? ''}
+                onChange={handleChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          ))}
+
+          {error && (
+            <div className="p-3 rounded-md bg-red-50 text-red-700 text-sm">
+              <p>{error}</p>
+              {stockIssues.length > 0 && (
+                <ul className="list-disc ms-5 mt-2">
+                  {stockIssues.map((issue) => (
+                    <li key={issue.bookId}>
+                      {lines.find(line => line.book.id === issue.bookId)?.book.title ?? t('checkout.unknownBook')}: {describeStockIssue(issue, t)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {stockIssues.length > 0 && (
+                <Link href={localize('/cart')} className="inline-block mt-2 text-blue-600 hover:underline">{t('checkout.updateCart')}</Link>
+              )}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full bg-blue-500 text-white py-3 rounded-md hover:bg-blue-600 transition-colors text-lg font-semibold disabled:bg-blue-300 disabled:cursor-wait"
+          >
+            {isSubmitting ? t('checkout.placingOrder') : t('checkout.placeOrder')}
+          </button>
+        </form>
+
+        <aside className="bg-white rounded-lg shadow-md p-6 h-fit">
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">{t('checkout.orderSummary')}</h2>
+          <ul className="divide-y divide-gray-200">
+            {lines.map((line) => (
+              <li key={line.book.id} className="py-3 flex justify-between gap-4 text-sm">
+                <span className="text-gray-700">{line.book.title} × {line.quantity.toLocaleString(locale)}</span>
+                <span className="font-semibold text-gray-900">{format(line.book.price * line.quantity)}</span>
+              </li>
+            ))}
+          </ul>
+          {summary && (
+            <>
+              <PriceBreakdown
+                subtotal={summary.subtotal}
+                discounts={summary.discounts}
+                shipping={summary.shipping}
+                tax={summary.tax}
+                taxRate={summary.taxRate}
+                total={summary.total}
+                format={format}
+                className="mt-4 pt-4 border-t border-gray-200"
+              />
+              <p className="mt-2 text-xs text-gray-500">
+                {t('checkout.shippingFor', { region: t(`regions.${summary.regionId}` as MessageKey) })}
+                {!address.country.trim() && ` ${t('checkout.enterCountry')}`}
+              </p>
+              {currency !== BASE_CURRENCY && (
+                <p className="mt-1 text-xs text-gray-500">
+                  {t('checkout.chargedInBase', { currency, amount: formatBase(summary.total), base: BASE_CURRENCY })}
+                </p>
+              )}
+            </>
+          )}
+          <Link href={localize('/cart')} className="block text-center text-blue-500 hover:underline mt-4">{t('checkout.backToCart')}</Link>
+        </aside>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,10 @@
+// src/app/[locale]/layout.tsx
 import type { Metadata } from "next";
+import { notFound } from "next/navigation";
 import { Geist, Geist_Mono } from "next/font/google";
-import Navbar from './components/Navbar';
-import "./globals.css";
+import Navbar from '../components/Navbar';
+import { createTranslator, getDirection, isLocale, LOCALES } from '../lib/i18n';
+import "../globals.css";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -13,16 +16,33 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
-export const metadata: Metadata = {
-  title: 'Amana Bookstore',
-  description: 'A modern online bookstore built with Next.js and Tailwind CSS.',
-};
+type LayoutParams = { params: Promise<{ locale: string }> };
 
-export default function RootLayout({
+export function generateStaticParams() {
+  return LOCALES.map((locale) => ({ locale }));
+}
+
+export async function generateMetadata({ params }: LayoutParams): Promise<Metadata> {
+  const { locale } = await params;
+  if (!isLocale(locale)) return {};
+  const t = createTranslator(locale);
+  return {
+    title: t('meta.title'),
+    description: t('meta.description'),
+  };
+}
+
+export default async function RootLayout({
   children,
-}: {
+  params,
+}: LayoutParams & {
   children: React.ReactNode;
 }) {
+  const { locale } = await params;
+  if (!isLocale(locale)) {
+    notFound();
+  }
+
   // NOTE: In a real-world application, cart state would be managed globally using
   // Context API or a state management library like Zustand or Redux.
   // The cart item count for the Navbar is managed on the client-side within the component itself
@@ -30,7 +50,7 @@ export default function RootLayout({
   // Each page interacting with the cart will manage its state via localStorage.
 
   return (
-    <html lang="en">
+    <html lang={locale} dir={getDirection(locale)}>
       <body className={`${geistSans.variable} ${geistMono.variable} antialiased bg-gray-50 pt-16`}>
         <Navbar />
         <main>{children}</main>
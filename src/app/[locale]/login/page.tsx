@@ -0,0 +1,101 @@
+// src/app/[locale]/login/page.tsx
+'use client';
+
+import { Suspense, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { safeNextPath } from '../../lib/accounts';
+import { useTranslation } from '../../lib/useTranslation';
+
+function LoginForm() {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+  const { t, localize } = useTranslation();
+  const next = safeNextPath(useSearchParams().get('next'));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(data.error || t('auth.signInFailed'));
+        return;
+      }
+      window.dispatchEvent(new CustomEvent('authChanged'));
+      router.push(next);
+    } catch (err) {
+      console.error('Sign in error', err);
+      setError(t('auth.signInFailed'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md p-6 space-y-4">
+      <div>
+        <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">{t('auth.email')}</label>
+        <input
+          id="email"
+          type="email"
+          autoComplete="email"
+          required
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+      <div>
+        <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">{t('auth.password')}</label>
+        <input
+          id="password"
+          type="password"
+          autoComplete="current-password"
+          required
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full bg-blue-500 text-white py-3 rounded-md hover:bg-blue-600 transition-colors font-semibold disabled:bg-blue-300 disabled:cursor-wait"
+      >
+        {isSubmitting ? t('auth.signingIn') : t('auth.signIn')}
+      </button>
+
+      <p className="text-sm text-gray-600 text-center">
+        {t('auth.newHere')}{' '}
+        <Link href={localize(`/register?next=${encodeURIComponent(next)}`)} className="text-blue-500 hover:underline">{t('auth.createAccount')}</Link>
+      </p>
+    </form>
+  );
+}
+
+export default function LoginPage() {
+  const { t } = useTranslation();
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-md">
+      <h1 className="text-3xl font-bold text-gray-800 mb-8">{t('auth.signIn')}</h1>
+      {/* useSearchParams needs a Suspense boundary */}
+      <Suspense fallback={<div className="text-center py-10">{t('common.loading')}</div>}>
+        <LoginForm />
+      </Suspense>
+    </div>
+  );
+}
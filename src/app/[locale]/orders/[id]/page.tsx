@@ -0,0 +1,170 @@
+// src/app/[locale]/orders/[id]/page.tsx
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import PriceBreakdown from '../../../components/PriceBreakdown';
+import { Order, OrderStatus } from '../../../types';
+import { useCurrency } from '../../../lib/useCurrency';
+import { useTranslation } from '../../../lib/useTranslation';
+
+const STATUS_STYLES: Record<OrderStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  paid: 'bg-blue-100 text-blue-800',
+  shipped: 'bg-indigo-100 text-indigo-800',
+  delivered: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-200 text-gray-700',
+};
+
+export default function OrderPage() {
+  const [order, setOrder] = useState<Order | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { formatBase } = useCurrency();
+  const { t, localize, formatNumber, formatDate } = useTranslation();
+
+  const params = useParams() as { id?: string | string[] | undefined };
+  const rawId = params?.id;
+  const id = Array.isArray(rawId) ? rawId[0] : (rawId ?? '');
+
+  useEffect(() => {
+    if (!id) return;
+    let mounted = true;
+
+    const fetchOrder = async () => {
+      try {
+        setIsLoading(true);
+        const res = await fetch(`/api/orders/${encodeURIComponent(id)}`);
+        if (!res.ok) throw new Error(res.status === 404 ? t('order.notFound') : t('order.loadFailed', { status: String(res.status) }));
+        const data = await res.json();
+        if (mounted) setOrder(data.order);
+      } catch (err) {
+        console.error(err);
+        if (mounted) setError(err instanceof Error ? err.message : t('order.loadError'));
+      } finally {
+        if (mounted) setIsLoading(false);
+      }
+    };
+
+    fetchOrder();
+    return () => { mounted = false; };
+  }, [id, t]);
+
+  const cancelOrder = async () => {
+    if (!order || !window.confirm(t('order.confirmCancel'))) return;
+    setIsCancelling(true);
+    try {
+      const res = await fetch(`/api/orders/${encodeURIComponent(order.id)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: 'cancelled' }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        console.error('Failed to cancel order', data);
+        setError(data.error || t('order.cancelFailed'));
+        return;
+      }
+      setOrder(data.order);
+    } catch (err) {
+      console.error('Cancel order error', err);
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  const formatDateTime = (timestamp: string) => formatDate(timestamp, { year: 'numeric', month: 'long', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+  if (isLoading) return <div className="text-center py-10">{t('common.loading')}</div>;
+  if (!order) return (
+    <div className="text-center py-10">
+      <h1 className="text-2xl font-bold text-red-500">{error ?? t('order.notFound')}</h1>
+      <Link href={localize('/')} className="text-blue-500 hover:underline mt-4 inline-block">{t('common.backToHome')}</Link>
+    </div>
+  );
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-3xl">
+      {order.status === 'pending' && (
+        <div className="mb-6 p-4 rounded-lg bg-green-50 text-green-800">
+          {t('order.placed')}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-800">{t('orders.number', { id: order.id.slice(-8) })}</h1>
+          <p className="text-sm text-gray-500 mt-1">{t('order.placedOn', { date: formatDateTime(order.createdAt) })}</p>
+        </div>
+        <span className={`px-3 py-1 rounded-full text-sm font-semibold ${STATUS_STYLES[order.status]}`}>
+          {t(`orderStatus.${order.status}`)}
+        </span>
+      </div>
+
+      {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+      <div className="bg-white rounded-lg shadow-md">
+        {order.items.map((item) => (
+          <div key={item.bookId} className="flex justify-between items-center p-4 border-b border-gray-200">
+            <div>
+              <Link href={localize(`/book/${item.bookId}`)} className="font-semibold text-gray-800 hover:text-blue-500">{item.title}</Link>
+              <p className="text-sm text-gray-600">{t('book.by')} {item.author}</p>
+              <p className="text-sm text-gray-500">{formatNumber(item.quantity)} × {formatBase(item.unitPrice)}</p>
+            </div>
+            <p className="font-semibold text-gray-900">{formatBase(item.lineTotal)}</p>
+          </div>
+        ))}
+        <PriceBreakdown
+          subtotal={order.subtotal}
+          discounts={order.discounts}
+          shipping={order.shipping}
+          tax={order.tax}
+          total={order.total}
+          format={formatBase}
+          className="p-4"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6">
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="font-semibold text-gray-800 mb-2">{t('order.shippingTo')}</h2>
+          <address className="not-italic text-sm text-gray-700 leading-relaxed">
+            {order.shippingAddress.fullName}<br />
+            {order.shippingAddress.addressLine1}<br />
+            {order.shippingAddress.addressLine2 && <>{order.shippingAddress.addressLine2}<br /></>}
+            {order.shippingAddress.city}{order.shippingAddress.postalCode ? ` ${order.shippingAddress.postalCode}` : ''}<br />
+            {order.shippingAddress.country}<br />
+            {order.shippingAddress.email}
+          </address>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="font-semibold text-gray-800 mb-2">{t('order.history')}</h2>
+          <ol className="text-sm text-gray-700 space-y-1">
+            {order.statusHistory.map((change) => (
+              <li key={`${change.status}-${change.timestamp}`} className="flex justify-between gap-4">
+                <span>{t(`orderStatus.${change.status}`)}</span>
+                <span className="text-gray-500">{formatDateTime(change.timestamp)}</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-4 mt-8">
+        <Link href={localize('/')} className="flex-1 bg-gray-500 text-white text-center py-3 rounded-md hover:bg-gray-600 transition-colors">{t('cart.continueShopping')}</Link>
+        {order.status === 'pending' && (
+          <button
+            onClick={cancelOrder}
+            disabled={isCancelling}
+            className="flex-1 bg-red-500 text-white py-3 rounded-md hover:bg-red-600 transition-colors disabled:bg-red-300 cursor-pointer"
+          >
+            {isCancelling ? t('order.cancelling') : t('order.cancel')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+// src/app/[locale]/orders/page.tsx
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Order } from '../../types';
+import { useCurrency } from '../../lib/useCurrency';
+import { useTranslation } from '../../lib/useTranslation';
+
+export default function OrdersPage() {
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [needsSignIn, setNeedsSignIn] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { formatBase } = useCurrency();
+  const { t, localize, formatDate } = useTranslation();
+
+  useEffect(() => {
+    let mounted = true;
+
+    const fetchOrders = async () => {
+      try {
+        setIsLoading(true);
+        const res = await fetch('/api/orders');
+        if (res.status === 401) {
+          if (mounted) setNeedsSignIn(true);
+          return;
+        }
+        if (!res.ok) throw new Error(t('orders.loadFailed', { status: String(res.status) }));
+        const data = await res.json();
+        if (mounted) setOrders(data.orders ?? []);
+      } catch (err) {
+        console.error(err);
+        if (mounted) setError(err instanceof Error ? err.message : t('orders.loadError'));
+      } finally {
+        if (mounted) setIsLoading(false);
+      }
+    };
+
+    fetchOrders();
+    return () => { mounted = false; };
+  }, [t]);
+
+  if (isLoading) return <div className="text-center py-10">{t('common.loading')}</div>;
+  if (error) return <div className="text-center py-10 text-red-600">{t('common.error', { message: error })}</div>;
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold text-gray-800 mb-8">{t('orders.title')}</h1>
+
+      {needsSignIn ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow-md">
+          <h2 className="text-xl text-gray-600 mb-4">{t('orders.signInPrompt')}</h2>
+          <Link href={localize(`/login?next=${encodeURIComponent(localize('/orders'))}`)} className="bg-blue-500 text-white px-6 py-3 rounded-md hover:bg-blue-600 transition-colors">{t('nav.signIn')}</Link>
+        </div>
+      ) : orders.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow-md">
+          <h2 className="text-xl text-gray-600 mb-4">{t('orders.empty')}</h2>
+          <Link href={localize('/')} className="bg-blue-500 text-white px-6 py-3 rounded-md hover:bg-blue-600 transition-colors">{t('orders.startShopping')}</Link>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-md divide-y divide-gray-200">
+          {orders.map((order) => (
+            <Link key={order.id} href={localize(`/orders/${order.id}`)} className="flex justify-between items-center p-4 hover:bg-gray-50">
+              <div>
+                <p className="font-semibold text-gray-800">{t('orders.number', { id: order.id.slice(-8) })}</p>
+                <p className="text-sm text-gray-500">
+                  {formatDate(order.createdAt)} · {t('orders.itemCount', { count: order.items.reduce((sum, item) => sum + item.quantity, 0) })}
+                </p>
+              </div>
+              <div className="text-end">
+                <p className="font-bold text-gray-900">{formatBase(order.total)}</p>
+                <p className="text-sm text-gray-600">{t(`orderStatus.${order.status}`)}</p>
+              </div>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+// src/app/[locale]/page.tsx
+'use client';
+
+import BookGrid from '../components/BookGrid';
+import { useTranslation } from '../lib/useTranslation';
+
+export default function HomePage() {
+  const { t } = useTranslation();
+
+  // BookGrid fetches its own pages from /api/books (search, filters, sorting and paging run on the server)
+  // Call API to add item to cart
+const handleAddToCart = async (bookId: string) => {
+  // return the fetch promise so caller can await
+  return fetch('/api/cart', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ bookId, quantity: 1 }),
+  }).then(async (res) => {
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({ error: 'Unknown' }));
+      throw err;
+    }
+    window.dispatchEvent(new CustomEvent('cartUpdated'));
+    return res.json();
+  });
+};
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <section className="text-center bg-blue-100 p-8 rounded-lg mb-12 shadow-md">
+        <h1 className="text-4xl font-extrabold text-gray-800 mb-2">{t('home.title')}</h1>
+        <p className="text-lg text-gray-600">{t('home.subtitle')}</p>
+      </section>
+
+      <BookGrid onAddToCart={handleAddToCart} />
+    </div>
+  );
+}
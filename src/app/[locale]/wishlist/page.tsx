@@ -0,0 +1,156 @@
+// src/app/[locale]/wishlist/page.tsx
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import AvailabilityBadge from '../../components/AvailabilityBadge';
+import WishlistButton from '../../components/WishlistButton';
+import { Book, WishlistItem } from '../../types';
+import { isPurchasable } from '../../lib/inventory';
+import { useCurrency } from '../../lib/useCurrency';
+import { useTranslation } from '../../lib/useTranslation';
+
+type WishlistEntry = { book: Book; addedAt: string };
+
+export default function WishlistPage() {
+  const [entries, setEntries] = useState<WishlistEntry[]>([]);
+  const [itemErrors, setItemErrors] = useState<Record<string, string>>({}); // Keyed by book id
+  const [movingBookId, setMovingBookId] = useState<string | null>(null);
+  const [needsSignIn, setNeedsSignIn] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { format } = useCurrency();
+  const { t, localize } = useTranslation();
+
+  useEffect(() => {
+    let mounted = true;
+
+    const fetchWishlist = async () => {
+      try {
+        const res = await fetch('/api/wishlist');
+        if (res.status === 401) {
+          if (mounted) setNeedsSignIn(true);
+          return;
+        }
+        if (!res.ok) throw new Error(t('wishlist.loadFailed', { status: String(res.status) }));
+        const items: WishlistItem[] = await res.json();
+
+        // fetch the wishlisted books; books removed from the catalog are skipped
+        const books = await Promise.all(items.map(async (item) => {
+          const bookRes = await fetch(`/api/books/${encodeURIComponent(item.bookId)}`);
+          if (bookRes.status === 404) return null;
+          if (!bookRes.ok) throw new Error(t('wishlist.bookFailed', { status: String(bookRes.status) }));
+          const bookData = await bookRes.json();
+          return bookData?.book ? { book: bookData.book as Book, addedAt: item.addedAt } : null;
+        }));
+
+        if (mounted) {
+          setNeedsSignIn(false);
+          setEntries(books.filter((entry): entry is WishlistEntry => entry !== null));
+        }
+      } catch (err) {
+        console.error(err);
+        if (mounted) setError(err instanceof Error ? err.message : t('wishlist.loadError'));
+      } finally {
+        if (mounted) setIsLoading(false);
+      }
+    };
+
+    fetchWishlist();
+    // The heart buttons on this page (and signing in or out) change the list
+    window.addEventListener('wishlistUpdated', fetchWishlist);
+    window.addEventListener('authChanged', fetchWishlist);
+    return () => {
+      mounted = false;
+      window.removeEventListener('wishlistUpdated', fetchWishlist);
+      window.removeEventListener('authChanged', fetchWishlist);
+    };
+  }, [t]);
+
+  const moveToCart = async (bookId: string) => {
+    setMovingBookId(bookId);
+    setItemErrors((prev) => {
+      const next = { ...prev };
+      delete next[bookId];
+      return next;
+    });
+    try {
+      const res = await fetch('/api/wishlist/move-to-cart', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ bookId }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        setItemErrors((prev) => ({ ...prev, [bookId]: data.error || t('wishlist.moveFailed') }));
+        return;
+      }
+      window.dispatchEvent(new CustomEvent('cartUpdated'));
+      window.dispatchEvent(new CustomEvent('wishlistUpdated'));
+    } catch (err) {
+      console.error('Move to cart error', err);
+      setItemErrors((prev) => ({ ...prev, [bookId]: t('wishlist.moveFailed') }));
+    } finally {
+      setMovingBookId(null);
+    }
+  };
+
+  if (isLoading) return <div className="text-center py-10">{t('common.loading')}</div>;
+  if (error) return <div className="text-center py-10 text-red-600">{t('common.error', { message: error })}</div>;
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold text-gray-800 mb-8">{t('wishlist.title')}</h1>
+
+      {needsSignIn ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow-md">
+          <h2 className="text-xl text-gray-600 mb-4">{t('wishlist.signInPrompt')}</h2>
+          <Link href={localize(`/login?next=${encodeURIComponent(localize('/wishlist'))}`)} className="bg-blue-500 text-white px-6 py-3 rounded-md hover:bg-blue-600 transition-colors">{t('nav.signIn')}</Link>
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow-md">
+          <h2 className="text-xl text-gray-600 mb-4">{t('wishlist.empty')}</h2>
+          <Link href={localize('/')} className="bg-blue-500 text-white px-6 py-3 rounded-md hover:bg-blue-600 transition-colors">{t('wishlist.browse')}</Link>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-md divide-y divide-gray-200">
+          {entries.map(({ book }) => {
+            const purchasable = isPurchasable(book);
+            return (
+              <div key={book.id} className="flex flex-col sm:flex-row sm:items-center gap-4 p-4">
+                <Link href={localize(`/book/${book.id}`)} className="flex-shrink-0 cursor-pointer">
+                  <div className="w-15 h-20 bg-gray-200 rounded-md flex items-center justify-center hover:bg-gray-300 transition-colors duration-200">
+                    <div className="text-2xl text-gray-400">📚</div>
+                  </div>
+                </Link>
+
+                <div className="flex-1 min-w-0">
+                  <Link href={localize(`/book/${book.id}`)} className="block group cursor-pointer">
+                    <h3 className="text-lg font-semibold text-gray-800 truncate group-hover:text-blue-600">{book.title}</h3>
+                    <p className="text-sm text-gray-600">{t('book.by')} {book.author}</p>
+                  </Link>
+                  <AvailabilityBadge book={book} className="mt-2" />
+                </div>
+
+                <div className="flex flex-col items-end gap-2">
+                  <p className="text-xl font-bold text-gray-900">{format(book.price)}</p>
+                  <div className="flex items-center gap-3">
+                    <WishlistButton bookId={book.id} />
+                    <button
+                      onClick={() => moveToCart(book.id)}
+                      disabled={!purchasable || movingBookId === book.id}
+                      className="px-4 py-2 text-sm rounded-md bg-blue-600 text-white hover:bg-blue-700 transition-colors cursor-pointer disabled:bg-gray-300 disabled:cursor-not-allowed"
+                    >
+                      {movingBookId === book.id ? t('wishlist.moving') : purchasable ? t('cart.moveToCart') : t('wishlist.outOfStock')}
+                    </button>
+                  </div>
+                  {itemErrors[book.id] && <p className="text-xs text-red-600">{itemErrors[book.id]}</p>}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
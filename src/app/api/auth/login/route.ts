@@ -0,0 +1,33 @@
+// src/app/api/auth/login/route.ts
+import { NextResponse } from "next/server";
+import { authenticate } from "@/app/lib/services/auth";
+import { startSession } from "@/app/lib/session";
+import { validate } from "@/app/lib/validation";
+import { loginSchema } from "@/app/lib/schemas";
+import { readJsonBody, validationErrorResponse } from "@/app/lib/http";
+
+// POST /api/auth/login - Sign in. Body: { email, password }
+export async function POST(request: Request) {
+  try {
+    const parsed = validate(loginSchema, await readJsonBody(request));
+    if ("errors" in parsed) {
+      return validationErrorResponse(parsed.errors);
+    }
+    const { email, password } = parsed.data;
+
+    const user = await authenticate(email, password);
+    if (!user) {
+      // Same message for an unknown email and a wrong password
+      return NextResponse.json({ error: "Invalid email or password." }, { status: 401 });
+    }
+
+    await startSession(user.id);
+    return NextResponse.json({ message: "Signed in successfully", user });
+  } catch (err) {
+    console.error("Error signing in:", err);
+    return NextResponse.json(
+      { error: "An error occurred while signing in." },
+      { status: 500 }
+    );
+  }
+}
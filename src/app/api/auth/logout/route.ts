@@ -0,0 +1,17 @@
+// src/app/api/auth/logout/route.ts
+import { NextResponse } from "next/server";
+import { endSession } from "@/app/lib/session";
+
+// POST /api/auth/logout - Sign out of the current session
+export async function POST() {
+  try {
+    await endSession();
+    return NextResponse.json({ message: "Signed out successfully" });
+  } catch (err) {
+    console.error("Error signing out:", err);
+    return NextResponse.json(
+      { error: "An error occurred while signing out." },
+      { status: 500 }
+    );
+  }
+}
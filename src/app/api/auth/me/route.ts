@@ -0,0 +1,17 @@
+// src/app/api/auth/me/route.ts
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/app/lib/session";
+
+// GET /api/auth/me - The signed-in user, or { user: null }
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    return NextResponse.json({ user });
+  } catch (err) {
+    console.error("Error fetching current user:", err);
+    return NextResponse.json(
+      { error: "An error occurred while fetching the current user." },
+      { status: 500 }
+    );
+  }
+}
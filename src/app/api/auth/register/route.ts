@@ -0,0 +1,37 @@
+// src/app/api/auth/register/route.ts
+import { NextResponse } from "next/server";
+import { registerUser } from "@/app/lib/services/auth";
+import { startSession } from "@/app/lib/session";
+import { validate } from "@/app/lib/validation";
+import { registerSchema } from "@/app/lib/schemas";
+import { readJsonBody, validationErrorResponse } from "@/app/lib/http";
+
+// POST /api/auth/register - Create an account and sign in. Body: { name, email, password }
+export async function POST(request: Request) {
+  try {
+    const parsed = validate(registerSchema, await readJsonBody(request));
+    if ("errors" in parsed) {
+      return validationErrorResponse(parsed.errors);
+    }
+
+    const result = await registerUser(parsed.data);
+    if ("error" in result) {
+      return NextResponse.json(
+        { error: "An account with this email already exists." },
+        { status: 409 }
+      );
+    }
+
+    await startSession(result.user.id);
+    return NextResponse.json(
+      { message: "Account created successfully", user: result.user },
+      { status: 201 }
+    );
+  } catch (err) {
+    console.error("Error registering user:", err);
+    return NextResponse.json(
+      { error: "An error occurred while creating the account." },
+      { status: 500 }
+    );
+  }
+}
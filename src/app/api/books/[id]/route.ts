@@ -1,6 +1,13 @@
 // src/app/api/books/[id]/route.ts
 import { NextResponse } from "next/server";
 import { updateBook, getBookById, deleteBook } from "@/app/lib/services/books";
+import { withRole } from "@/app/lib/authorization";
+import { STAFF_ROLES } from "@/app/lib/roles";
+import { validatePartial } from "@/app/lib/validation";
+import { editableBookSchema } from "@/app/lib/schemas";
+import { readJsonBody, validationErrorResponse } from "@/app/lib/http";
+
+type RouteContext = { params: { id: string } };
 
 export async function GET( req: Request,{ params }: { params: { id: string } }) {
   try {
@@ -21,16 +28,17 @@ export async function GET( req: Request,{ params }: { params: { id: string } })
   }
 }
 
-// PUT /api/books/:id - Update a book by ID
-export async function PUT(
-  req: Request,
-  { params }: { params: { id: string } }
-) {
+// PUT /api/books/:id - Update a book by ID (staff and admins only)
+export const PUT = withRole<RouteContext>(STAFF_ROLES, async (req, { params }) => {
   try {
     const { id } = params;
-    const updates = await req.json();
+    // Only editable Book fields, with the right types, make it into the update
+    const parsed = validatePartial(editableBookSchema, await readJsonBody(req));
+    if ("errors" in parsed) {
+      return validationErrorResponse(parsed.errors);
+    }
 
-    const updated = await updateBook(id, updates);
+    const updated = await updateBook(id, parsed.data);
 
     if (!updated) {
       return NextResponse.json(
@@ -50,12 +58,10 @@ export async function PUT(
       { status: 500 }
     );
   }
-}
+});
 
-export async function DELETE(
-  req: Request,
-  { params }: { params: { id: string } }
-) {
+// DELETE /api/books/:id - Delete a book by ID (admins only)
+export const DELETE = withRole<RouteContext>(["admin"], async (req, { params }) => {
   try {
     console.log("delete function");
 
@@ -85,4 +91,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,62 @@
+// src/app/api/books/export/route.ts
+import { NextResponse } from "next/server";
+import { streamBooks } from "../../../lib/services/books";
+import { parseBookQuery } from "../../../lib/bookQuery";
+import { withRole } from "../../../lib/authorization";
+import { STAFF_ROLES } from "../../../lib/roles";
+import {
+  BOOK_EXPORT_CONTENT_TYPES,
+  BOOK_EXPORT_EXTENSIONS,
+  BOOK_EXPORT_FORMATS,
+  formatBookExport,
+  isBookExportFormat,
+} from "../../../lib/bookExport";
+
+// GET /api/books/export?format=csv|json|onix - Download the catalog (staff and admins only)
+// Accepts the same query params as GET /api/books to export a subset; paging is ignored.
+// The file is streamed as it is read from the store, so large catalogs are never held in memory.
+export const GET = withRole(STAFF_ROLES, async (request) => {
+  const { searchParams } = new URL(request.url);
+  const format = searchParams.get("format") ?? "csv";
+  if (!isBookExportFormat(format)) {
+    return NextResponse.json(
+      { error: `Invalid format. Expected one of: ${BOOK_EXPORT_FORMATS.join(", ")}` },
+      { status: 400 }
+    );
+  }
+  const parsed = parseBookQuery(searchParams);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const chunks = formatBookExport(streamBooks(parsed.query), format, { baseUrl: request.url });
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(value));
+        }
+      } catch (err) {
+        // The headers are already sent, so the download is cut short instead of answering 500
+        console.error("Error exporting books:", err);
+        controller.error(err);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+
+  const date = new Date().toISOString().slice(0, 10);
+  return new Response(body, {
+    headers: {
+      "Content-Type": BOOK_EXPORT_CONTENT_TYPES[format],
+      "Content-Disposition": `attachment; filename="amana-catalog-${date}.${BOOK_EXPORT_EXTENSIONS[format]}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+});
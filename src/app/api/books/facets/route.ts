@@ -0,0 +1,25 @@
+// src/app/api/books/facets/route.ts
+import { NextResponse } from "next/server";
+import { getFacets } from "../../../lib/services/books";
+import { parseBookQuery } from "../../../lib/bookQuery";
+
+// GET /api/books/facets - Facet counts (genre, language, publisher, price, year, rating)
+// Accepts the same query params as GET /api/books; paging and sorting are ignored
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const parsed = parseBookQuery(searchParams);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  try {
+    const facets = await getFacets(parsed.query);
+    return NextResponse.json({ facets });
+  } catch (err) {
+    console.error("Error fetching facets:", err);
+    return NextResponse.json(
+      { error: "An error occurred while fetching facets." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+// src/app/api/books/import/route.ts
+import { NextResponse } from "next/server";
+import { importBooks } from "../../../lib/services/books";
+import { withRole } from "../../../lib/authorization";
+import { STAFF_ROLES } from "../../../lib/roles";
+import { BOOK_IMPORT_FORMATS, MAX_IMPORT_BYTES, isBookImportFormat, parseBookImport } from "../../../lib/bookImport";
+import { readTextBody } from "../../../lib/http";
+
+// POST /api/books/import?format=csv|json&dryRun=true - Create or update books in bulk (staff and admins only)
+// Body: the file itself. Without ?format, a text/csv Content-Type means CSV and anything else JSON.
+// Books are matched by ISBN; every row is reported, and rows with errors are skipped.
+// Files over MAX_IMPORT_BYTES are refused with 413 before they are parsed.
+// With dryRun=true the report shows what would happen and nothing is written.
+export const POST = withRole(STAFF_ROLES, async (request) => {
+  const { searchParams } = new URL(request.url);
+  const contentType = request.headers.get("content-type") ?? "";
+  const format = searchParams.get("format") ?? (contentType.startsWith("text/csv") ? "csv" : "json");
+  if (!isBookImportFormat(format)) {
+    return NextResponse.json(
+      { error: `Invalid format. Expected one of: ${BOOK_IMPORT_FORMATS.join(", ")}` },
+      { status: 400 }
+    );
+  }
+  const dryRun = searchParams.get("dryRun") === "true";
+
+  try {
+    const text = await readTextBody(request, MAX_IMPORT_BYTES);
+    if (text === null) {
+      return NextResponse.json(
+        { error: `The file is too large. Import at most ${MAX_IMPORT_BYTES / (1024 * 1024)} MB at a time.` },
+        { status: 413 }
+      );
+    }
+    const parsed = parseBookImport(text, format);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const report = await importBooks(parsed.records, dryRun);
+    return NextResponse.json(report);
+  } catch (err) {
+    console.error("Error importing books:", err);
+    return NextResponse.json(
+      { error: "An error occurred while importing books." },
+      { status: 500 }
+    );
+  }
+});
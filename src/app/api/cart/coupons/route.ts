@@ -0,0 +1,88 @@
+// src/app/api/cart/coupons/route.ts
+import { NextResponse } from 'next/server';
+import { applyCouponCode, getCartPricing, removeCouponCode } from '../../../lib/services/promotions';
+import { describeCouponIssue, priceCart } from '../../../lib/promotions';
+import { getCartOwner, getOrCreateCartOwner } from '../../../lib/session';
+import { validate } from '../../../lib/validation';
+import { couponSchema } from '../../../lib/schemas';
+import { readJsonBody, validationErrorResponse } from '../../../lib/http';
+import { CouponIssue } from '../../../types';
+
+// 404 when no promotion has the code, 409 when it does not apply to the cart as it is
+function couponIssueResponse(issue: CouponIssue) {
+  return NextResponse.json(
+    { error: describeCouponIssue(issue), issue },
+    { status: issue.reason === 'not_found' ? 404 : 409 }
+  );
+}
+
+// Every handler answers with the visitor's cart pricing: subtotal, one line per promotion
+// that applies (automatic ones included), the total, and the applied codes.
+
+// GET /api/cart/coupons - Get the cart pricing with its discount breakdown
+export async function GET() {
+  try {
+    const owner = await getCartOwner();
+    const pricing = owner ? await getCartPricing(owner) : priceCart([], [], []); // No cart started yet
+    return NextResponse.json(pricing);
+  } catch (err) {
+    console.error('Error pricing the cart:', err);
+    return NextResponse.json(
+      { error: 'An error occurred while pricing the cart.' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/cart/coupons - Apply a coupon code (case-insensitive)
+export async function POST(request: Request) {
+  try {
+    const parsed = validate(couponSchema, await readJsonBody(request));
+    if ('errors' in parsed) {
+      return validationErrorResponse(parsed.errors);
+    }
+
+    const owner = await getOrCreateCartOwner();
+    const result = await applyCouponCode(owner, parsed.data.code);
+    if ('issue' in result) {
+      return couponIssueResponse(result.issue);
+    }
+    return NextResponse.json(result.pricing);
+  } catch (err) {
+    console.error('Error applying coupon code:', err);
+    return NextResponse.json(
+      { error: 'An error occurred while applying the coupon code.' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/cart/coupons?code=... - Remove an applied coupon code
+export async function DELETE(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const code = searchParams.get('code');
+    if (!code) {
+      return NextResponse.json(
+        { error: 'Missing code parameter' },
+        { status: 400 }
+      );
+    }
+
+    const owner = await getCartOwner();
+    const pricing = owner ? await removeCouponCode(owner, code) : null;
+    if (!pricing) {
+      return NextResponse.json(
+        { error: 'Failed to remove the code. It is not applied to your cart.' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(pricing);
+  } catch (err) {
+    console.error('Error removing coupon code:', err);
+    return NextResponse.json(
+      { error: 'An error occurred while removing the coupon code.' },
+      { status: 500 }
+    );
+  }
+}
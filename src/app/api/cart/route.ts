@@ -7,11 +7,29 @@ import {
   removeCartItem,
   clearCart,
 } from '../../lib/services/cart';
+import { describeStockIssue } from '../../lib/inventory';
+import { getCartOwner, getOrCreateCartOwner } from '../../lib/session';
+import { validate } from '../../lib/validation';
+import { cartItemSchema, cartItemUpdateSchema } from '../../lib/schemas';
+import { readJsonBody, validationErrorResponse } from '../../lib/http';
+import { StockIssue } from '../../types';
+
+// 404 when the book is gone, 409 when there is not enough stock
+function stockIssueResponse(issue: StockIssue) {
+  return NextResponse.json(
+    { error: describeStockIssue(issue), issue },
+    { status: issue.reason === 'not_found' ? 404 : 409 }
+  );
+}
+
+// Every handler works on the visitor's own cart: the signed-in user's, or a guest cart
+// identified by a cookie. The guest cookie is only created once something is added.
 
 // GET /api/cart - Get all cart items
 export async function GET(request: Request) {
   try {
-    const cartItems = await getCart(); // No userId needed
+    const owner = await getCartOwner();
+    const cartItems = owner ? await getCart(owner) : []; // No cart started yet
     return NextResponse.json(cartItems);
   } catch (err) {
     console.error('Error fetching cart items:', err);
@@ -25,27 +43,20 @@ export async function GET(request: Request) {
 // POST /api/cart - Add item to cart (or update quantity if exists)
 export async function POST(request: Request) {
   try {
-    const body = await request.json();
-    const { bookId, quantity } = body; // No userId needed
-
-    if (!bookId || quantity === undefined) {
-      return NextResponse.json(
-        { error: 'Missing required fields: bookId, quantity' },
-        { status: 400 }
-      );
-    }
-    
-    if (typeof quantity !== 'number' || quantity <= 0) {
-      return NextResponse.json(
-        { error: 'Quantity must be a positive number' },
-        { status: 400 }
-      );
+    const parsed = validate(cartItemSchema, await readJsonBody(request));
+    if ('errors' in parsed) {
+      return validationErrorResponse(parsed.errors);
     }
+    const { bookId, quantity } = parsed.data;
 
-    const newItem = await addCartItem({ bookId, quantity }); // No userId needed
+    const owner = await getOrCreateCartOwner();
+    const result = await addCartItem(owner, { bookId, quantity });
+    if ('issue' in result) {
+      return stockIssueResponse(result.issue);
+    }
     return NextResponse.json({
       message: 'Item added/updated in cart successfully',
-      item: newItem,
+      item: result.item,
     }, { status: 201 });
 
   } catch (err) {
@@ -60,29 +71,21 @@ export async function POST(request: Request) {
 // PUT /api/cart - Update cart item quantity
 export async function PUT(request: Request) {
   try {
-    const body = await request.json();
-    const { cartItemId, quantity } = body; // No userId needed
-
-    if (!cartItemId || quantity === undefined) {
-      return NextResponse.json(
-        { error: 'Missing required fields: cartItemId, quantity' },
-        { status: 400 }
-      );
-    }
-
-    if (typeof quantity !== 'number' || quantity < 0) {
-      return NextResponse.json(
-        { error: 'Quantity must be a non-negative number' },
-        { status: 400 }
-      );
+    const parsed = validate(cartItemUpdateSchema, await readJsonBody(request));
+    if ('errors' in parsed) {
+      return validationErrorResponse(parsed.errors);
     }
+    const { cartItemId, quantity } = parsed.data;
 
-    const updatedItem = await updateCartItemQuantity(cartItemId, quantity); // No userId needed
+    const owner = await getCartOwner();
+    const result = owner ? await updateCartItemQuantity(owner, cartItemId, quantity) : null;
     
-    if (updatedItem) {
+    if (result && 'issue' in result) {
+      return stockIssueResponse(result.issue);
+    } else if (result) {
       return NextResponse.json({
         message: 'Cart item updated successfully',
-        item: updatedItem,
+        item: result.item,
       });
     } else if (quantity === 0) {
        return NextResponse.json({
@@ -107,13 +110,14 @@ export async function PUT(request: Request) {
 // DELETE /api/cart?clear=true - Clear entire cart
 export async function DELETE(request: Request) {
   try {
+    const owner = await getCartOwner();
     const { searchParams } = new URL(request.url);
     const cartItemId = searchParams.get('cartItemId');
     const clear = searchParams.get('clear');
 
     if (cartItemId) {
       // Remove a single item
-      const deleted = await removeCartItem(cartItemId); // No userId needed
+      const deleted = owner ? await removeCartItem(owner, cartItemId) : false;
       if (deleted) {
         return NextResponse.json({
           message: 'Item removed from cart successfully',
@@ -127,7 +131,7 @@ export async function DELETE(request: Request) {
       }
     } else if (clear === 'true') {
       // Clear the entire cart
-      const deletedCount = await clearCart(); // No userId needed
+      const deletedCount = owner ? await clearCart(owner) : 0;
       return NextResponse.json({
         message: `Cart cleared successfully. ${deletedCount} items removed.`,
         deletedCount,
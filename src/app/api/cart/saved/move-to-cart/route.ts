@@ -0,0 +1,45 @@
+// src/app/api/cart/saved/move-to-cart/route.ts
+import { NextResponse } from 'next/server';
+import { moveSavedItemToCart } from '../../../../lib/services/cart';
+import { describeStockIssue } from '../../../../lib/inventory';
+import { getCartOwner } from '../../../../lib/session';
+import { validate } from '../../../../lib/validation';
+import { cartItemRefSchema } from '../../../../lib/schemas';
+import { readJsonBody, validationErrorResponse } from '../../../../lib/http';
+
+// POST /api/cart/saved/move-to-cart - Put a saved-for-later item back in the cart
+// Checked against stock like POST /api/cart (404 book gone, 409 not enough copies);
+// a rejected item stays saved for later.
+export async function POST(request: Request) {
+  try {
+    const parsed = validate(cartItemRefSchema, await readJsonBody(request));
+    if ('errors' in parsed) {
+      return validationErrorResponse(parsed.errors);
+    }
+
+    const owner = await getCartOwner();
+    const result = owner ? await moveSavedItemToCart(owner, parsed.data.cartItemId) : null;
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Failed to move item. Item not found in saved for later.' },
+        { status: 404 }
+      );
+    }
+    if ('issue' in result) {
+      return NextResponse.json(
+        { error: describeStockIssue(result.issue), issue: result.issue },
+        { status: result.issue.reason === 'not_found' ? 404 : 409 }
+      );
+    }
+    return NextResponse.json({
+      message: 'Item moved to cart',
+      item: result.item,
+    });
+  } catch (err) {
+    console.error('Error moving saved item to cart:', err);
+    return NextResponse.json(
+      { error: 'An error occurred while moving the item to the cart.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+// src/app/api/cart/saved/route.ts
+import { NextResponse } from 'next/server';
+import { getSavedForLater, saveForLater } from '../../../lib/services/cart';
+import { getCartOwner } from '../../../lib/session';
+import { validate } from '../../../lib/validation';
+import { cartItemRefSchema } from '../../../lib/schemas';
+import { readJsonBody, validationErrorResponse } from '../../../lib/http';
+
+// Saved-for-later items live with the visitor's cart (user or guest) but are not part of
+// the total or checkout. Remove one with DELETE /api/cart?cartItemId=...
+
+// GET /api/cart/saved - Get the saved-for-later items
+export async function GET() {
+  try {
+    const owner = await getCartOwner();
+    const items = owner ? await getSavedForLater(owner) : []; // No cart started yet
+    return NextResponse.json(items);
+  } catch (err) {
+    console.error('Error fetching saved items:', err);
+    return NextResponse.json(
+      { error: 'An error occurred while fetching saved items.' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/cart/saved - Move a cart item to saved for later
+// A book that is already saved gets the quantities combined into one item.
+export async function POST(request: Request) {
+  try {
+    const parsed = validate(cartItemRefSchema, await readJsonBody(request));
+    if ('errors' in parsed) {
+      return validationErrorResponse(parsed.errors);
+    }
+
+    const owner = await getCartOwner();
+    const item = owner ? await saveForLater(owner, parsed.data.cartItemId) : null;
+    if (!item) {
+      return NextResponse.json(
+        { error: 'Failed to save item. Item not found in the cart.' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({
+      message: 'Item saved for later',
+      item,
+    });
+  } catch (err) {
+    console.error('Error saving item for later:', err);
+    return NextResponse.json(
+      { error: 'An error occurred while saving the item for later.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+// src/app/api/cart/summary/route.ts
+import { NextResponse } from 'next/server';
+import { getCartSummary } from '../../../lib/services/pricing';
+import { findRegion, resolveRegion } from '../../../lib/pricing';
+import { getCartOwner } from '../../../lib/session';
+
+// GET /api/cart/summary - Get the visitor's cart totals: items, discounts, shipping and tax
+// ?region=AE picks a region from data/regions.ts; ?country=... picks the region that
+// country ships to, the way the order API does for the shipping address. Without either,
+// the estimate is for the home region.
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const regionId = searchParams.get('region');
+    const region = regionId ? findRegion(regionId.toUpperCase()) : resolveRegion(searchParams.get('country'));
+    if (!region) {
+      return NextResponse.json(
+        { error: `Unknown region "${regionId}"` },
+        { status: 400 }
+      );
+    }
+
+    const owner = await getCartOwner();
+    return NextResponse.json(await getCartSummary(owner, region));
+  } catch (err) {
+    console.error('Error fetching the cart summary:', err);
+    return NextResponse.json(
+      { error: 'An error occurred while fetching the cart summary.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,19 @@
+// src/app/api/cart/validate/route.ts
+import { NextResponse } from 'next/server';
+import { validateCart } from '../../../lib/services/cart';
+import { getCartOwner } from '../../../lib/session';
+
+// GET /api/cart/validate - Check every item in the visitor's cart against current stock
+export async function GET() {
+  try {
+    const owner = await getCartOwner();
+    const issues = owner ? await validateCart(owner) : [];
+    return NextResponse.json({ valid: issues.length === 0, issues });
+  } catch (err) {
+    console.error('Error validating cart:', err);
+    return NextResponse.json(
+      { error: 'An error occurred while validating the cart.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+// src/app/api/orders/[id]/route.ts
+import { NextResponse } from "next/server";
+import { getOrderById, updateOrderStatus } from "@/app/lib/services/orders";
+import { withUser } from "@/app/lib/authorization";
+import { isStaff } from "@/app/lib/roles";
+import { forbiddenResponse } from "@/app/lib/session";
+import { validate } from "@/app/lib/validation";
+import { orderStatusSchema } from "@/app/lib/schemas";
+import { readJsonBody, validationErrorResponse } from "@/app/lib/http";
+import { Order, User } from "@/app/types";
+
+type RouteContext = { params: { id: string } };
+
+// Customers only see their own orders; anyone else gets the same 404 as a missing order.
+// Staff and admins can see every order.
+function canView(user: User, order: Order) {
+  return isStaff(user) || order.userId === user.id;
+}
+
+// GET /api/orders/:id - Get a single order
+export const GET = withUser<RouteContext>(async (req, { params }, user) => {
+  try {
+    const { id } = params;
+    const order = await getOrderById(id);
+    if (!order || !canView(user, order)) {
+      return NextResponse.json({ error: "Order not found" }, { status: 404 });
+    }
+    return NextResponse.json({ order });
+  } catch (err) {
+    console.error("Error fetching order:", err);
+    return NextResponse.json(
+      { error: "An error occurred while fetching the order." },
+      { status: 500 }
+    );
+  }
+});
+
+// PATCH /api/orders/:id - Change the order status. Body: { status }
+// Customers can only cancel their own orders; staff and admins move orders through every status
+export const PATCH = withUser<RouteContext>(async (req, { params }, user) => {
+  try {
+    const { id } = params;
+    const parsed = validate(orderStatusSchema, await readJsonBody(req));
+    if ("errors" in parsed) {
+      return validationErrorResponse(parsed.errors);
+    }
+    const { status } = parsed.data;
+
+    const order = await getOrderById(id);
+    if (!order || !canView(user, order)) {
+      return NextResponse.json({ error: "Order not found" }, { status: 404 });
+    }
+    if (status !== "cancelled" && !isStaff(user)) {
+      return forbiddenResponse();
+    }
+
+    const result = await updateOrderStatus(id, status);
+    if ("order" in result) {
+      return NextResponse.json({
+        message: "Order status updated successfully",
+        order: result.order,
+      });
+    }
+    if (result.error === "not_found") {
+      return NextResponse.json({ error: "Order not found" }, { status: 404 });
+    }
+    return NextResponse.json(
+      { error: `Cannot change an order from ${result.from} to ${status}.` },
+      { status: 409 }
+    );
+  } catch (err) {
+    console.error("Error updating order status:", err);
+    return NextResponse.json(
+      { error: "An error occurred while updating the order." },
+      { status: 500 }
+    );
+  }
+});
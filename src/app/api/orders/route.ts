@@ -0,0 +1,73 @@
+// src/app/api/orders/route.ts
+import { NextResponse } from "next/server";
+import { getAllOrders, getOrdersByUserId, placeOrder } from "@/app/lib/services/orders";
+import { withUser } from "@/app/lib/authorization";
+import { isStaff } from "@/app/lib/roles";
+import { forbiddenResponse } from "@/app/lib/session";
+import { validate } from "@/app/lib/validation";
+import { orderSchema } from "@/app/lib/schemas";
+import { readJsonBody, validationErrorResponse } from "@/app/lib/http";
+import { ShippingAddress } from "@/app/types";
+
+// GET /api/orders - List the signed-in user's orders, newest first
+// Staff and admins can pass ?all=true to list every customer's orders
+export const GET = withUser(async (request, ctx, user) => {
+  try {
+    const all = new URL(request.url).searchParams.get("all") === "true";
+    if (all && !isStaff(user)) {
+      return forbiddenResponse();
+    }
+
+    const orders = all ? await getAllOrders() : await getOrdersByUserId(user.id);
+    return NextResponse.json({ orders });
+  } catch (err) {
+    console.error("Error fetching orders:", err);
+    return NextResponse.json(
+      { error: "An error occurred while fetching orders." },
+      { status: 500 }
+    );
+  }
+});
+
+// POST /api/orders - Place an order for the signed-in user's cart
+// Body: { shippingAddress: { fullName, email, addressLine1, addressLine2?, city, postalCode?, country } }
+export const POST = withUser(async (request, ctx, user) => {
+  try {
+    const parsed = validate(orderSchema, await readJsonBody(request));
+    if ("errors" in parsed) {
+      return validationErrorResponse(parsed.errors);
+    }
+
+    // Strings arrive trimmed; empty optional lines are left out
+    const address = parsed.data.shippingAddress;
+    const shippingAddress: ShippingAddress = {
+      ...address,
+      addressLine2: address.addressLine2 || undefined,
+      postalCode: address.postalCode || undefined,
+    };
+
+    const result = await placeOrder(user.id, shippingAddress);
+    if ("order" in result) {
+      return NextResponse.json(
+        { message: "Order placed successfully", order: result.order },
+        { status: 201 }
+      );
+    }
+    if (result.error === "empty_cart") {
+      return NextResponse.json({ error: "Your cart is empty." }, { status: 400 });
+    }
+    return NextResponse.json(
+      {
+        error: "Some items are not available in the quantity requested.",
+        issues: result.issues,
+      },
+      { status: 409 }
+    );
+  } catch (err) {
+    console.error("Error placing order:", err);
+    return NextResponse.json(
+      { error: "An error occurred while placing the order." },
+      { status: 500 }
+    );
+  }
+});
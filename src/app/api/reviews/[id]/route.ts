@@ -2,11 +2,29 @@
 import { NextResponse } from "next/server";
 import {
   getReviewById,
+  getUserReviewForBook,
   updateReview,
   deleteReview,
 } from "@/app/lib/services/reviews";
+import { getBookById } from "@/app/lib/services/books";
+import { withUser } from "@/app/lib/authorization";
+import { isStaff } from "@/app/lib/roles";
+import { isPublished } from "@/app/lib/reviews";
+import { forbiddenResponse, getCurrentUser } from "@/app/lib/session";
+import { validatePartial } from "@/app/lib/validation";
+import { reviewSchema } from "@/app/lib/schemas";
+import { readJsonBody, validationErrorResponse } from "@/app/lib/http";
+import { Review, User } from "@/app/types";
+
+type RouteContext = { params: { id: string } };
+
+// Customers can only change their own reviews; staff and admins can change any review
+function canModify(user: User, review: Review) {
+  return isStaff(user) || (!!review.userId && review.userId === user.id);
+}
 
 // GET /api/reviews/:id - Get a single review by ID
+// Pending and rejected reviews are only visible to their author and to staff
 export async function GET(
   req: Request,
   { params }: { params: { id: string } }
@@ -20,6 +38,12 @@ export async function GET(
     if (!review) {
       return NextResponse.json({ message: "Review not found" }, { status: 404 });
     }
+    if (!isPublished(review)) {
+      const user = await getCurrentUser();
+      if (!user || !canModify(user, review)) {
+        return NextResponse.json({ message: "Review not found" }, { status: 404 });
+      }
+    }
     return NextResponse.json({ review }, { status: 200 });
   } catch (error) {
     return NextResponse.json(
@@ -30,13 +54,51 @@ export async function GET(
 }
 
 // PUT /api/reviews/:id - Update a review by ID
-export async function PUT(
-  req: Request,
-  { params }: { params: { id: string } }
-) {
+export const PUT = withUser<RouteContext>(async (req, { params }, user) => {
   try {
     const { id } = params;
-    const updates = await req.json();
+    const review = await getReviewById(id);
+    if (!review) {
+      return NextResponse.json(
+        { error: "Review not found or invalid ID" },
+        { status: 404 }
+      );
+    }
+    if (!canModify(user, review)) {
+      return forbiddenResponse();
+    }
+
+    // The author of a review never changes (userId is not in the schema) and `verified` is
+    // derived from the reviewer's orders; moving a review to another book is staff-only
+    const parsed = validatePartial(reviewSchema, await readJsonBody(req));
+    if ("errors" in parsed) {
+      return validationErrorResponse(parsed.errors);
+    }
+    const updates: Partial<Omit<Review, "id">> = parsed.data;
+    delete updates.verified;
+    if (!isStaff(user)) {
+      delete updates.bookId;
+      updates.status = "pending"; // Edited reviews are moderated again
+    }
+
+    if (updates.bookId && updates.bookId !== review.bookId && !(await getBookById(updates.bookId))) {
+      return NextResponse.json({ error: "Book not found" }, { status: 404 });
+    }
+
+    // Moving a review must not give its author two reviews of the same book
+    if (updates.bookId && review.userId && updates.bookId !== review.bookId) {
+      const existing = await getUserReviewForBook(review.userId, updates.bookId);
+      if (existing) {
+        return NextResponse.json(
+          {
+            error: "The author has already reviewed that book.",
+            reviewId: existing.id,
+            review: existing,
+          },
+          { status: 409 }
+        );
+      }
+    }
 
     const updated = await updateReview(id, updates);
 
@@ -58,19 +120,27 @@ export async function PUT(
       { status: 500 }
     );
   }
-}
+});
 
 // DELETE /api/reviews/:id - Delete a review by ID
-export async function DELETE(
-  req: Request,
-  { params }: { params: { id: string } }
-) {
+export const DELETE = withUser<RouteContext>(async (req, { params }, user) => {
   try {
     const { id } = params;
     if (!id) {
       return NextResponse.json({ error: "Missing ID" }, { status: 400 });
     }
-    
+
+    const review = await getReviewById(id);
+    if (!review) {
+      return NextResponse.json(
+        { error: "Review not found or failed to delete" },
+        { status: 404 }
+      );
+    }
+    if (!canModify(user, review)) {
+      return forbiddenResponse();
+    }
+
     const deleted = await deleteReview(id);
     
     if (deleted) {
@@ -90,4 +160,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+});
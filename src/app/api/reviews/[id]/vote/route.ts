@@ -0,0 +1,47 @@
+// src/app/api/reviews/[id]/vote/route.ts
+import { NextResponse } from "next/server";
+import { getReviewById, voteOnReview } from "@/app/lib/services/reviews";
+import { withUser } from "@/app/lib/authorization";
+import { isPublished } from "@/app/lib/reviews";
+import { validate } from "@/app/lib/validation";
+import { voteSchema } from "@/app/lib/schemas";
+import { readJsonBody, validationErrorResponse } from "@/app/lib/http";
+
+type RouteContext = { params: { id: string } };
+
+// POST /api/reviews/:id/vote - Vote a published review helpful or unhelpful
+// Body: { vote: "helpful" | "unhelpful" | null }. One vote per user: voting again replaces it,
+// and null withdraws it. Returns the review with its updated counts and the user's vote.
+export const POST = withUser<RouteContext>(async (req, { params }, user) => {
+  try {
+    const parsed = validate(voteSchema, await readJsonBody(req));
+    if ("errors" in parsed) {
+      return validationErrorResponse(parsed.errors);
+    }
+
+    const { id } = params;
+    const review = await getReviewById(id);
+    if (!review || !isPublished(review)) {
+      return NextResponse.json({ message: "Review not found" }, { status: 404 });
+    }
+    if (review.userId && review.userId === user.id) {
+      return NextResponse.json(
+        { error: "You cannot vote on your own review." },
+        { status: 403 }
+      );
+    }
+
+    const vote = parsed.data.vote ?? null;
+    const updated = await voteOnReview(id, user.id, vote);
+    if (!updated) {
+      return NextResponse.json({ message: "Review not found" }, { status: 404 });
+    }
+    return NextResponse.json({ review: updated, vote });
+  } catch (err) {
+    console.error("Error voting on review:", err);
+    return NextResponse.json(
+      { error: "An error occurred while saving your vote." },
+      { status: 500 }
+    );
+  }
+});
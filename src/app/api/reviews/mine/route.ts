@@ -0,0 +1,24 @@
+// src/app/api/reviews/mine/route.ts
+import { NextResponse } from "next/server";
+import { getUserReviewForBook } from "@/app/lib/services/reviews";
+import { withUser } from "@/app/lib/authorization";
+
+// GET /api/reviews/mine?bookId=... - The signed-in user's review of a book in any moderation state
+// Returns { review }, or { review: null } when they have not reviewed it yet
+export const GET = withUser(async (request, ctx, user) => {
+  const bookId = new URL(request.url).searchParams.get("bookId");
+  if (!bookId) {
+    return NextResponse.json({ error: "Missing bookId" }, { status: 400 });
+  }
+
+  try {
+    const review = await getUserReviewForBook(user.id, bookId);
+    return NextResponse.json({ review });
+  } catch (err) {
+    console.error("Error fetching the user's review:", err);
+    return NextResponse.json(
+      { error: "An error occurred while fetching your review." },
+      { status: 500 }
+    );
+  }
+});
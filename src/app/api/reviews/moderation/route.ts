@@ -0,0 +1,58 @@
+// src/app/api/reviews/moderation/route.ts
+import { NextResponse } from "next/server";
+import { getReviewsByStatus, moderateReviews } from "@/app/lib/services/reviews";
+import { withRole } from "@/app/lib/authorization";
+import { STAFF_ROLES } from "@/app/lib/roles";
+import { isReviewStatus, REVIEW_STATUSES } from "@/app/lib/reviews";
+import { validate } from "@/app/lib/validation";
+import { moderationSchema } from "@/app/lib/schemas";
+import { readJsonBody, validationErrorResponse } from "@/app/lib/http";
+
+// GET /api/reviews/moderation?status=pending - Reviews in one moderation state, oldest first (staff only)
+export const GET = withRole(STAFF_ROLES, async (request) => {
+  const status = new URL(request.url).searchParams.get("status") ?? "pending";
+  if (!isReviewStatus(status)) {
+    return NextResponse.json(
+      { error: `Invalid status. Expected one of: ${REVIEW_STATUSES.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const reviews = await getReviewsByStatus(status);
+    return NextResponse.json({ reviews });
+  } catch (err) {
+    console.error("Error fetching the moderation queue:", err);
+    return NextResponse.json(
+      { error: "An error occurred while fetching reviews." },
+      { status: 500 }
+    );
+  }
+});
+
+// POST /api/reviews/moderation - Approve or reject reviews in bulk (staff only)
+// Body: { ids: string[], status: "approved" | "rejected", reason? } - a reason is required to reject
+export const POST = withRole(STAFF_ROLES, async (request) => {
+  try {
+    const parsed = validate(moderationSchema, await readJsonBody(request));
+    if ("errors" in parsed) {
+      return validationErrorResponse(parsed.errors);
+    }
+    const { ids, status, reason } = parsed.data;
+    if (status === "rejected" && !reason) {
+      return validationErrorResponse({ reason: "Is required when rejecting reviews." });
+    }
+
+    const reviews = await moderateReviews(ids, status, reason);
+    return NextResponse.json({
+      message: `${reviews.length} review(s) ${status}.`,
+      reviews,
+    });
+  } catch (err) {
+    console.error("Error moderating reviews:", err);
+    return NextResponse.json(
+      { error: "An error occurred while moderating reviews." },
+      { status: 500 }
+    );
+  }
+});
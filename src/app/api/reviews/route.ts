@@ -2,27 +2,40 @@
 import { NextResponse } from "next/server";
 import {
   getAllReviews,
-  getReviewsByBookId,
+  getReviewPage,
   createReview,
 } from "../../lib/services/reviews";
 import { Review } from "../../types";
+import { withUser } from "../../lib/authorization";
+import { isStaff } from "../../lib/roles";
+import { parseReviewQuery } from "../../lib/reviewQuery";
+import { validate } from "../../lib/validation";
+import { reviewSchema } from "../../lib/schemas";
+import { readJsonBody, validationErrorResponse } from "../../lib/http";
 
-// GET /api/reviews - Get all reviews or reviews for a specific book
+// GET /api/reviews - Get all published reviews, or one page of a book's published reviews
+// With ?bookId=...: returns { reviews, nextCursor, limit }. Query params: sort
+// (helpful|newest|highest|lowest, default newest), limit (default 10, max 50), rating (1-5)
+// and cursor (the nextCursor of the previous page)
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
   const bookId = searchParams.get("bookId");
 
   try {
     if (bookId) {
-      // Get reviews for a specific book
-      const reviews = await getReviewsByBookId(bookId);
-      if (reviews === null) {
+      const parsed = parseReviewQuery(bookId, searchParams);
+      if ("error" in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+      // Get one page of reviews for a specific book
+      const page = await getReviewPage(parsed.query);
+      if (page === null) {
         return NextResponse.json(
           { error: "Invalid Book ID format" },
           { status: 400 }
         );
       }
-      return NextResponse.json(reviews);
+      return NextResponse.json(page);
     } else {
       // Get all reviews
       const reviews = await getAllReviews();
@@ -37,40 +50,48 @@ export async function GET(request: Request) {
   }
 }
 
-// POST /api/reviews - Create a new review
-export async function POST(request: Request) {
+// POST /api/reviews - Create a new review as the signed-in user (one per book; 409 with the existing review otherwise)
+// `author` defaults to the account name. `verified` is ignored: the server sets it when
+// the reviewer has a completed order containing the book.
+// Customer reviews wait for moderation; reviews by staff are published right away.
+export const POST = withUser(async (request, ctx, user) => {
   try {
-    const body = await request.json();
+    const parsed = validate(reviewSchema, await readJsonBody(request));
+    if ("errors" in parsed) {
+      return validationErrorResponse(parsed.errors);
+    }
+    const { bookId, rating, title, comment, author } = parsed.data;
 
-    // Basic validation
-    const requiredFields: (keyof Omit<Review, "id" | "timestamp" | "verified">)[] = [
-      "bookId",
-      "author",
-      "rating",
-      "title",
-      "comment",
-    ];
+    const reviewData: Omit<Review, "id" | "verified" | "helpfulCount" | "unhelpfulCount"> = {
+      bookId,
+      rating,
+      title,
+      comment,
+      userId: user.id,
+      author: author ?? user.name,
+      timestamp: new Date().toISOString(),
+      status: isStaff(user) ? "approved" : "pending",
+    };
 
-    for (const field of requiredFields) {
-      if (body[field] === undefined) {
-        return NextResponse.json(
-          { error: `Missing required field: ${field}` },
-          { status: 400 }
-        );
+    const result = await createReview(reviewData);
+    if ("error" in result) {
+      if (result.error === "book_not_found") {
+        return NextResponse.json({ error: "Book not found" }, { status: 404 });
       }
+      // One review per customer and book: point the client at the review to edit instead
+      return NextResponse.json(
+        {
+          error: "You have already reviewed this book.",
+          reviewId: result.existing.id,
+          review: result.existing,
+        },
+        { status: 409 }
+      );
     }
-    
-    // Add default values for non-required fields if not provided
-    const reviewData: Omit<Review, 'id'> = {
-      ...body,
-      timestamp: new Date().toISOString(),
-      verified: body.verified || false, // Default verified to false
-    };
+    const newReview = result.review;
 
-    const newReview = await createReview(reviewData);
-    
     return NextResponse.json({
-      message: "Review added successfully",
+      message: newReview.status === "pending" ? "Review submitted for moderation" : "Review added successfully",
       review: newReview,
     }, { status: 201 });
 
@@ -81,4 +102,4 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-}
+});
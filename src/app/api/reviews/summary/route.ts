@@ -0,0 +1,29 @@
+// src/app/api/reviews/summary/route.ts
+import { NextResponse } from "next/server";
+import { getRatingSummary } from "@/app/lib/services/reviews";
+
+// GET /api/reviews/summary?bookId=... - Star distribution of a book's published reviews
+// Returns { bookId, average, total, distribution: { 1: n, ..., 5: n } }
+export async function GET(request: Request) {
+  const bookId = new URL(request.url).searchParams.get("bookId");
+  if (!bookId) {
+    return NextResponse.json({ error: "Missing bookId" }, { status: 400 });
+  }
+
+  try {
+    const summary = await getRatingSummary(bookId);
+    if (summary === null) {
+      return NextResponse.json(
+        { error: "Invalid Book ID format" },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(summary);
+  } catch (err) {
+    console.error("Error fetching the rating summary:", err);
+    return NextResponse.json(
+      { error: "An error occurred while fetching the rating summary." },
+      { status: 500 }
+    );
+  }
+}
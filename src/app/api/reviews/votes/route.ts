@@ -0,0 +1,32 @@
+// src/app/api/reviews/votes/route.ts
+import { NextResponse } from "next/server";
+import { getUserVotes } from "@/app/lib/services/reviews";
+import { withUser } from "@/app/lib/authorization";
+
+const MAX_REVIEW_IDS = 100;
+
+// GET /api/reviews/votes?reviewId=...&reviewId=... - The signed-in user's votes on these reviews
+// Returns { votes: { [reviewId]: "helpful" | "unhelpful" } } (reviews without a vote are left out)
+export const GET = withUser(async (request, ctx, user) => {
+  const reviewIds = [...new Set(new URL(request.url).searchParams.getAll("reviewId"))];
+  if (reviewIds.length === 0) {
+    return NextResponse.json({ error: "Missing reviewId" }, { status: 400 });
+  }
+  if (reviewIds.length > MAX_REVIEW_IDS) {
+    return NextResponse.json(
+      { error: `At most ${MAX_REVIEW_IDS} reviewId values are allowed` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const votes = await getUserVotes(user.id, reviewIds);
+    return NextResponse.json({ votes });
+  } catch (err) {
+    console.error("Error fetching review votes:", err);
+    return NextResponse.json(
+      { error: "An error occurred while fetching your votes." },
+      { status: 500 }
+    );
+  }
+});
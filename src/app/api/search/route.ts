@@ -0,0 +1,35 @@
+// src/app/api/search/route.ts
+import { NextResponse } from "next/server";
+import { searchBooks } from "../../lib/services/search";
+import { parseBookQuery } from "../../lib/bookQuery";
+
+// GET /api/search?q=...&page=1&limit=8&genre=... - Relevance-ranked catalog search
+// Results carry highlight segments for the fields that matched
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const q = searchParams.get("q")?.trim();
+  if (!q) {
+    return NextResponse.json(
+      { error: "Missing required query parameter: q" },
+      { status: 400 }
+    );
+  }
+
+  // Paging and facet filters use the same rules as GET /api/books
+  const parsed = parseBookQuery(searchParams);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  const { page, limit, filters } = parsed.query;
+
+  try {
+    const response = await searchBooks(q, { page, limit, filters });
+    return NextResponse.json(response);
+  } catch (err) {
+    console.error("Error searching books:", err);
+    return NextResponse.json(
+      { error: "An error occurred while searching books." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+// src/app/api/wishlist/move-to-cart/route.ts
+import { NextResponse } from 'next/server';
+import { moveWishlistItemToCart } from '../../../lib/services/wishlist';
+import { describeStockIssue } from '../../../lib/inventory';
+import { withUser } from '../../../lib/authorization';
+import { validate } from '../../../lib/validation';
+import { wishlistItemSchema } from '../../../lib/schemas';
+import { readJsonBody, validationErrorResponse } from '../../../lib/http';
+
+// POST /api/wishlist/move-to-cart - Add one copy of a wishlisted book to the cart and
+// take it off the wishlist. When the book cannot be sold (404 gone, 409 out of stock)
+// it stays on the wishlist.
+export const POST = withUser(async (request, ctx, user) => {
+  try {
+    const parsed = validate(wishlistItemSchema, await readJsonBody(request));
+    if ('errors' in parsed) {
+      return validationErrorResponse(parsed.errors);
+    }
+
+    const result = await moveWishlistItemToCart(user.id, parsed.data.bookId);
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Book is not on your wishlist.' },
+        { status: 404 }
+      );
+    }
+    if ('issue' in result) {
+      return NextResponse.json(
+        { error: describeStockIssue(result.issue), issue: result.issue },
+        { status: result.issue.reason === 'not_found' ? 404 : 409 }
+      );
+    }
+    return NextResponse.json({
+      message: 'Book moved to cart',
+      item: result.item,
+    });
+  } catch (err) {
+    console.error('Error moving wishlist item to cart:', err);
+    return NextResponse.json(
+      { error: 'An error occurred while moving the book to the cart.' },
+      { status: 500 }
+    );
+  }
+});
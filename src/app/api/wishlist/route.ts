@@ -0,0 +1,76 @@
+// src/app/api/wishlist/route.ts
+import { NextResponse } from 'next/server';
+import { getWishlist, addToWishlist, removeFromWishlist } from '../../lib/services/wishlist';
+import { withUser } from '../../lib/authorization';
+import { validate } from '../../lib/validation';
+import { wishlistItemSchema } from '../../lib/schemas';
+import { readJsonBody, validationErrorResponse } from '../../lib/http';
+
+// Wishlists belong to signed-in users; every handler works on the caller's own list
+
+// GET /api/wishlist - Get the wishlist items, newest first
+export const GET = withUser(async (request, ctx, user) => {
+  try {
+    const items = await getWishlist(user.id);
+    return NextResponse.json(items);
+  } catch (err) {
+    console.error('Error fetching wishlist:', err);
+    return NextResponse.json(
+      { error: 'An error occurred while fetching the wishlist.' },
+      { status: 500 }
+    );
+  }
+});
+
+// POST /api/wishlist - Add a book to the wishlist (adding it twice keeps one item)
+export const POST = withUser(async (request, ctx, user) => {
+  try {
+    const parsed = validate(wishlistItemSchema, await readJsonBody(request));
+    if ('errors' in parsed) {
+      return validationErrorResponse(parsed.errors);
+    }
+
+    const item = await addToWishlist(user.id, parsed.data.bookId);
+    if (!item) {
+      return NextResponse.json({ error: 'Book not found' }, { status: 404 });
+    }
+    return NextResponse.json({
+      message: 'Book added to wishlist',
+      item,
+    }, { status: 201 });
+  } catch (err) {
+    console.error('Error adding to wishlist:', err);
+    return NextResponse.json(
+      { error: 'An error occurred while adding the book to the wishlist.' },
+      { status: 500 }
+    );
+  }
+});
+
+// DELETE /api/wishlist?bookId=... - Remove a book from the wishlist
+export const DELETE = withUser(async (request, ctx, user) => {
+  const bookId = new URL(request.url).searchParams.get('bookId');
+  if (!bookId) {
+    return NextResponse.json({ error: 'Missing bookId parameter' }, { status: 400 });
+  }
+
+  try {
+    const deleted = await removeFromWishlist(user.id, bookId);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Book is not on your wishlist.' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({
+      message: 'Book removed from wishlist',
+      bookId,
+    });
+  } catch (err) {
+    console.error('Error removing from wishlist:', err);
+    return NextResponse.json(
+      { error: 'An error occurred while removing the book from the wishlist.' },
+      { status: 500 }
+    );
+  }
+});
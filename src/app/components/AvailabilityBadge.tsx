@@ -0,0 +1,30 @@
+// src/app/components/AvailabilityBadge.tsx
+import React from 'react';
+import { Availability, Book } from '../types';
+import { describeAvailability, getAvailability } from '../lib/inventory';
+import { useTranslation } from '../lib/useTranslation';
+
+interface AvailabilityBadgeProps {
+  book: Pick<Book, 'stock' | 'allowBackorder'>;
+  className?: string;
+}
+
+const AVAILABILITY_STYLES: Record<Availability, string> = {
+  in_stock: 'bg-green-100 text-green-800',
+  low_stock: 'bg-yellow-100 text-yellow-800',
+  out_of_stock: 'bg-red-100 text-red-800',
+  backorder: 'bg-blue-100 text-blue-800',
+};
+
+const AvailabilityBadge: React.FC<AvailabilityBadgeProps> = ({ book, className = '' }) => {
+  const { t } = useTranslation();
+  return (
+    <span
+      className={`inline-block text-xs font-medium px-2 py-1 rounded-full ${AVAILABILITY_STYLES[getAvailability(book)]} ${className}`}
+    >
+      {describeAvailability(book, t)}
+    </span>
+  );
+};
+
+export default AvailabilityBadge;
@@ -3,16 +3,29 @@
 
 import React, { useState } from 'react';
 import Link from 'next/link';
-import { Book } from '../types';
+import { Book, BookHighlights } from '../types';
+import Highlight, { getSnippetField } from './Highlight';
+import AvailabilityBadge from './AvailabilityBadge';
+import WishlistButton from './WishlistButton';
+import { isPurchasable } from '../lib/inventory';
+import { useCurrency } from '../lib/useCurrency';
+import { useTranslation } from '../lib/useTranslation';
 
 interface BookCardProps {
   book: Book;
-  onAddToCart?: (bookId: string) => void;
+  onAddToCart?: (bookId: string) => void | Promise<unknown>;
+  // Search highlights from /api/search, when the item is a search result
+  highlights?: BookHighlights;
 }
 
-const BookCard: React.FC<BookCardProps> = ({ book, onAddToCart }) => {
+const BookCard: React.FC<BookCardProps> = ({ book, onAddToCart, highlights }) => {
+  const snippetField = getSnippetField(highlights);
   const [isAddingToCart, setIsAddingToCart] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
+  const [cartError, setCartError] = useState<string | null>(null);
+  const purchasable = isPurchasable(book);
+  const { format } = useCurrency();
+  const { t, localize } = useTranslation();
 
   // Function to render star ratings
   const renderStars = (rating: number) => {
@@ -31,7 +44,8 @@ const BookCard: React.FC<BookCardProps> = ({ book, onAddToCart }) => {
       } else if (i === fullStars + 1 && hasHalfStar) {
         // Half star
         stars.push(
-          <div key={i} className="relative w-4 h-4">
+          // Mirrored in right-to-left layouts so the filled half faces the full stars
+          <div key={i} className="relative w-4 h-4 rtl:-scale-x-100">
             <svg className="w-4 h-4 text-gray-300 fill-current absolute" viewBox="0 0 20 20">
               <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
             </svg>
@@ -59,16 +73,17 @@ const BookCard: React.FC<BookCardProps> = ({ book, onAddToCart }) => {
     e.preventDefault(); // Prevent navigation when clicking the button
     e.stopPropagation();
     
-    if (!book.inStock || isAddingToCart) return;
+    if (!purchasable || isAddingToCart) return;
     
     setIsAddingToCart(true);
+    setCartError(null);
     
     try {
       // Simulate API call delay
       await new Promise(resolve => setTimeout(resolve, 500));
       
       if (onAddToCart) {
-        onAddToCart(book.id);
+        await onAddToCart(book.id);
       }
       
       // Show success feedback
@@ -76,6 +91,8 @@ const BookCard: React.FC<BookCardProps> = ({ book, onAddToCart }) => {
       setTimeout(() => setShowSuccess(false), 2000);
     } catch (error) {
       console.error('Error adding to cart:', error);
+      // The cart API rejects quantities beyond the available stock
+      setCartError((error as { error?: string })?.error ?? t('book.addToCartFailed'));
     } finally {
       setIsAddingToCart(false);
     }
@@ -84,56 +101,65 @@ const BookCard: React.FC<BookCardProps> = ({ book, onAddToCart }) => {
   return (
     <div className="bg-white rounded-lg shadow-md overflow-hidden transform hover:-translate-y-1 transition-transform duration-300">
       {/* Book Cover - Clickable */}
-      <Link href={`/book/${book.id}`} className="block cursor-pointer">
+      <Link href={localize(`/book/${book.id}`)} className="block cursor-pointer">
         <div className="relative h-64 w-full bg-gray-200 flex items-center justify-center hover:bg-gray-300 transition-colors duration-200">
           {/* Book Icon Placeholder */}
           <div className="text-6xl text-gray-400">📚</div>
+          <WishlistButton bookId={book.id} className="absolute top-3 end-3 bg-white/90 rounded-full p-1.5 shadow" />
         </div>
       </Link>
       
       {/* Book Information */}
       <div className="p-4">
-        <Link href={`/book/${book.id}`} className="block cursor-pointer">
-          <h3 className="text-lg font-semibold text-gray-800 truncate hover:text-blue-600 transition-colors duration-200">{book.title}</h3>
-          <p className="text-sm text-gray-600 mt-1">by {book.author}</p>
+        <Link href={localize(`/book/${book.id}`)} className="block cursor-pointer">
+          <h3 className="text-lg font-semibold text-gray-800 truncate hover:text-blue-600 transition-colors duration-200">
+            {highlights?.title ? <Highlight segments={highlights.title} /> : book.title}
+          </h3>
+          <p className="text-sm text-gray-600 mt-1">{t('book.by')} {highlights?.author ? <Highlight segments={highlights.author} /> : book.author}</p>
         </Link>
+
+        {/* Search snippet for matches outside the title/author */}
+        {snippetField && highlights?.[snippetField] && (
+          <p className="text-xs text-gray-600 mt-2 line-clamp-2">
+            <span className="font-medium text-gray-500">{t(`search.fields.${snippetField}`)}: </span>
+            <Highlight segments={highlights[snippetField]} />
+          </p>
+        )}
         
         <div className="flex items-center mt-2">
           {renderStars(book.rating)}
-          <span className="text-xs text-gray-500 ml-2">({book.reviewCount} reviews)</span>
+          <span className="text-xs text-gray-500 ms-2">({t('book.reviewCount', { count: book.reviewCount })})</span>
         </div>
         
         <div className="mt-2">
           {book.genre.slice(0, 2).map((g) => (
-            <span key={g} className="inline-block bg-gray-200 rounded-full px-2 py-1 text-xs font-semibold text-gray-700 mr-2 mb-2">
+            <span key={g} className="inline-block bg-gray-200 rounded-full px-2 py-1 text-xs font-semibold text-gray-700 me-2 mb-2">
               {g}
             </span>
           ))}
           {book.genre.length > 2 && (
-            <span className="text-xs text-gray-500">+{book.genre.length - 2} more</span>
+            <span className="text-xs text-gray-500">{t('book.moreGenres', { count: book.genre.length - 2 })}</span>
           )}
         </div>
         
         <div className="flex items-center justify-between mt-3">
-          <p className="text-xl font-bold text-gray-900">${book.price.toFixed(2)}</p>
-          {!book.inStock && (
-            <span className="text-xs text-red-600 font-medium">Out of Stock</span>
-          )}
+          <p className="text-xl font-bold text-gray-900">{format(book.price)}</p>
+          <AvailabilityBadge book={book} />
         </div>
         
         {/* Action Buttons */}
         <div className="flex gap-2 mt-4">
-          <Link href={`/book/${book.id}`} className="flex-1 cursor-pointer">
+          <Link href={localize(`/book/${book.id}`)} className="flex-1 cursor-pointer">
             <button className="w-full px-3 py-2 text-sm border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors duration-200 cursor-pointer">
-              View Details
+              {t('book.viewDetails')}
             </button>
           </Link>
           
           <button
             onClick={handleAddToCart}
-            disabled={!book.inStock || isAddingToCart}
+            disabled={!purchasable || isAddingToCart}
             className={`flex-1 px-3 py-2 text-sm rounded-md transition-colors duration-200 ${
-              !book.inStock
+              !purchasable
                 ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
                 : showSuccess
                 ? 'bg-green-600 text-white cursor-pointer'
@@ -147,7 +173,7 @@ const BookCard: React.FC<BookCardProps> = ({ book, onAddToCart }) => {
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                 </svg>
-                Added!
+                {t('book.added')}
               </span>
             ) : isAddingToCart ? (
               <span className="flex items-center justify-center gap-1">
@@ -155,13 +181,14 @@ const BookCard: React.FC<BookCardProps> = ({ book, onAddToCart }) => {
                   <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                   <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                 </svg>
-                Adding...
+                {t('book.adding')}
               </span>
             ) : (
-              'Add to Cart'
+              t('book.addToCart')
             )}
           </button>
         </div>
+        {cartError && <p className="text-xs text-red-600 mt-2">{cartError}</p>}
       </div>
     </div>
   );
@@ -0,0 +1,256 @@
+// src/app/components/BookForm.tsx
+'use client';
+
+import React, { useState } from 'react';
+import { Book } from '../types';
+import { editableBookSchema, EditableBookInput } from '../lib/schemas';
+import { FieldErrors, validate } from '../lib/validation';
+import { BASE_CURRENCY } from '../data/currencies';
+import { MessageKey } from '../lib/i18n';
+import { useTranslation } from '../lib/useTranslation';
+import ListEditor from './ListEditor';
+
+// Inputs hold strings while typing, numbers are parsed on submit.
+// rating and reviewCount are derived from the reviews, so they are not editable.
+type BookFormValues = Omit<EditableBookInput, 'price' | 'pages' | 'stock'> & {
+  price: string;
+  pages: string;
+  stock: string;
+};
+
+interface BookFormProps {
+  book?: Book; // Edit this book; omit to create a new one
+  onSaved: (book: Book) => void;
+  onCancel: () => void;
+}
+
+const EMPTY_VALUES: BookFormValues = {
+  title: '',
+  author: '',
+  description: '',
+  price: '',
+  image: '',
+  isbn: '',
+  genre: [],
+  tags: [],
+  datePublished: '',
+  pages: '',
+  language: 'English',
+  publisher: '',
+  stock: '0',
+  allowBackorder: false,
+  featured: false,
+};
+
+const TEXT_FIELDS: { name: 'title' | 'author' | 'isbn' | 'publisher' | 'language' | 'image'; label: MessageKey; placeholder?: string }[] = [
+  { name: 'title', label: 'bookForm.title' },
+  { name: 'author', label: 'bookForm.author' },
+  { name: 'isbn', label: 'bookForm.isbn', placeholder: '978-0123456789' },
+  { name: 'publisher', label: 'bookForm.publisher' },
+  { name: 'language', label: 'bookForm.language' },
+  { name: 'image', label: 'bookForm.image', placeholder: '/images/book1.jpg' },
+];
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+function toFormValues(book: Book): BookFormValues {
+  return {
+    title: book.title,
+    author: book.author,
+    description: book.description,
+    price: String(book.price),
+    image: book.image,
+    isbn: book.isbn,
+    genre: [...book.genre],
+    tags: [...book.tags],
+    datePublished: book.datePublished.slice(0, 10), // <input type="date"> wants YYYY-MM-DD
+    pages: String(book.pages),
+    language: book.language,
+    publisher: book.publisher,
+    stock: String(book.stock),
+    allowBackorder: book.allowBackorder,
+    featured: book.featured,
+  };
+}
+
+// Number inputs are parsed here; everything else is checked by the shared book schema
+function toPayload(values: BookFormValues): Record<string, unknown> {
+  const toNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+  return { ...values, price: toNumber(values.price), pages: toNumber(values.pages), stock: toNumber(values.stock) };
+}
+
+const FieldMessage: React.FC<{ message?: string }> = ({ message }) =>
+  message ? <p className="mt-1 text-xs text-red-600">{message}</p> : null;
+
+const BookForm: React.FC<BookFormProps> = ({ book, onSaved, onCancel }) => {
+  const [values, setValues] = useState<BookFormValues>(() => (book ? toFormValues(book) : EMPTY_VALUES));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const { t, formatNumber } = useTranslation();
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setValues((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleToggle = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, checked } = e.target;
+    setValues((prev) => ({ ...prev, [name]: checked }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    // Same checks as the API, so most mistakes are caught before the request
+    const parsed = validate(editableBookSchema, toPayload(values));
+    if ('errors' in parsed) {
+      setFieldErrors(parsed.errors);
+      setError(t('bookForm.fixFields'));
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    setFieldErrors({});
+    try {
+      // A new book starts at a rating of 0 with no reviews; it is kept in sync from then on
+      const res = book
+        ? await fetch(`/api/books/${encodeURIComponent(book.id)}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(parsed.data),
+          })
+        : await fetch('/api/books', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(parsed.data),
+          });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(data.error || t('bookForm.saveFailed'));
+        if (data.errors) setFieldErrors(data.errors);
+        return;
+      }
+      onSaved(book ? data.book : data.newBook);
+    } catch (err) {
+      console.error('Save book error', err);
+      setError(t('bookForm.saveFailed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md p-6 space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {TEXT_FIELDS.map((field) => (
+          <div key={field.name}>
+            <label htmlFor={field.name} className="block text-sm font-medium text-gray-700 mb-1">{t(field.label)}</label>
+            <input
+              id={field.name}
+              name={field.name}
+              type="text"
+              required
+              placeholder={field.placeholder}
+              value={values[field.name]}
+              onChange={handleChange}
+              className={inputClassName}
+            />
+            <FieldMessage message={fieldErrors[field.name]} />
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-1">{t('bookForm.description')}</label>
+        <textarea
+          id="description"
+          name="description"
+          required
+          rows={4}
+          value={values.description}
+          onChange={handleChange}
+          className={inputClassName}
+        />
+        <FieldMessage message={fieldErrors.description} />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <ListEditor
+          id="genre"
+          label={t('bookForm.genres')}
+          values={values.genre}
+          onChange={(genre) => setValues((prev) => ({ ...prev, genre }))}
+          placeholder={t('bookForm.addGenre')}
+          error={fieldErrors.genre}
+        />
+        <ListEditor
+          id="tags"
+          label={t('bookForm.tags')}
+          values={values.tags}
+          onChange={(tags) => setValues((prev) => ({ ...prev, tags }))}
+          placeholder={t('bookForm.addTag')}
+          error={fieldErrors.tags}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div>
+          <label htmlFor="price" className="block text-sm font-medium text-gray-700 mb-1">{t('bookForm.price', { currency: BASE_CURRENCY })}</label>
+          <input id="price" name="price" type="number" min="0" step="0.01" required value={values.price} onChange={handleChange} className={inputClassName} />
+          <FieldMessage message={fieldErrors.price} />
+        </div>
+        <div>
+          <label htmlFor="pages" className="block text-sm font-medium text-gray-700 mb-1">{t('bookForm.pages')}</label>
+          <input id="pages" name="pages" type="number" min="1" step="1" required value={values.pages} onChange={handleChange} className={inputClassName} />
+          <FieldMessage message={fieldErrors.pages} />
+        </div>
+        <div>
+          <label htmlFor="datePublished" className="block text-sm font-medium text-gray-700 mb-1">{t('bookForm.datePublished')}</label>
+          <input id="datePublished" name="datePublished" type="date" required value={values.datePublished} onChange={handleChange} className={inputClassName} />
+          <FieldMessage message={fieldErrors.datePublished} />
+        </div>
+        <div>
+          <label htmlFor="stock" className="block text-sm font-medium text-gray-700 mb-1">{t('bookForm.stock')}</label>
+          <input id="stock" name="stock" type="number" min="0" step="1" required value={values.stock} onChange={handleChange} className={inputClassName} />
+          <FieldMessage message={fieldErrors.stock} />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-6">
+        <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+          <input type="checkbox" name="featured" checked={values.featured} onChange={handleToggle} className="rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
+          {t('bookForm.featured')}
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+          <input type="checkbox" name="allowBackorder" checked={values.allowBackorder} onChange={handleToggle} className="rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
+          {t('bookForm.allowBackorder')}
+        </label>
+      </div>
+
+      {book && (
+        <p className="text-sm text-gray-500">
+          {t('bookForm.ratingNote', { rating: formatNumber(book.rating, { minimumFractionDigits: 1, maximumFractionDigits: 1 }), count: book.reviewCount })}
+        </p>
+      )}
+
+      {error && <div className="p-3 rounded-md bg-red-50 text-red-700 text-sm">{error}</div>}
+
+      <div className="flex justify-end gap-3">
+        <button type="button" onClick={onCancel} className="px-4 py-2 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 cursor-pointer">
+          {t('common.cancel')}
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="px-6 py-2 rounded-md bg-blue-500 text-white font-semibold hover:bg-blue-600 transition-colors cursor-pointer disabled:bg-blue-300 disabled:cursor-wait"
+        >
+          {isSaving ? t('common.saving') : book ? t('common.saveChanges') : t('bookForm.add')}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default BookForm;
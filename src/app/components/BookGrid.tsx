@@ -1,28 +1,144 @@
 // src/app/components/BookGrid.tsx
 'use client';
 
-import React, { useState, useMemo } from 'react';
-import { Book } from '../types';
+import React, { useState, useMemo, useEffect } from 'react';
+import { Book, BookFacets, BookHighlights, BookSortField, FacetFilters, FacetName, PaginatedBooks, SearchResponse, SortOrder } from '../types';
+import { MAX_PAGE_SIZE, toBookQueryString } from '../lib/bookQuery';
 import BookCard from './BookCard';
 import BookListItem from './BookListItem';
 import Pagination from './Pagination';
+import FacetSidebar from './FacetSidebar';
+import { MessageKey } from '../lib/i18n';
+import { useTranslation } from '../lib/useTranslation';
+
+// One row of the "All Books" list; search results carry highlights
+interface BookGridItem {
+  book: Book;
+  highlights?: BookHighlights;
+}
+
+const SORT_FIELD_LABELS: Record<BookSortField, MessageKey> = {
+  title: 'grid.sortFields.title',
+  author: 'grid.sortFields.author',
+  datePublished: 'grid.sortFields.datePublished',
+  rating: 'grid.sortFields.rating',
+  reviewCount: 'grid.sortFields.reviewCount',
+  price: 'grid.sortFields.price',
+};
 
 interface BookGridProps {
-  books: Book[];
   onAddToCart?: (bookId: string) => void;
 }
 
-const BookGrid: React.FC<BookGridProps> = ({ books, onAddToCart }) => {
+const BookGrid: React.FC<BookGridProps> = ({ onAddToCart }) => {
   const [searchQuery, setSearchQuery] = useState('');
-  const [selectedGenre, setSelectedGenre] = useState('All');
-  const [sortBy, setSortBy] = useState('title');
-  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
+  const [debouncedSearchQuery, setDebouncedSearchQuery] = useState('');
+  const [selectedFacets, setSelectedFacets] = useState<FacetFilters>({});
+  const [sortBy, setSortBy] = useState<BookSortField>('title');
+  const [sortOrder, setSortOrder] = useState<SortOrder>('asc');
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage, setItemsPerPage] = useState(8);
   const [featuredCarouselIndex, setFeaturedCarouselIndex] = useState(0);
 
-  // Memoize featured books to prevent re-calculation on every render
-  const featuredBooks = useMemo(() => books.filter(book => book.featured), [books]);
+  // Server-driven state: the current page of books and the totals reported by
+  // /api/books (browsing) or /api/search (when there is a search query)
+  const [featuredBooks, setFeaturedBooks] = useState<Book[]>([]);
+  const [pageData, setPageData] = useState<{ items: BookGridItem[]; totalItems: number; totalPages: number } | null>(null);
+  const [facets, setFacets] = useState<BookFacets | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { t } = useTranslation();
+
+  // Fetch featured books once for the carousel
+  useEffect(() => {
+    let mounted = true;
+    fetch(`/api/books?${toBookQueryString({ featured: true, limit: MAX_PAGE_SIZE })}`)
+      .then(async (res) => {
+        if (!res.ok) throw new Error(`Failed to fetch featured books (${res.status})`);
+        const data: PaginatedBooks = await res.json();
+        if (mounted) setFeaturedBooks(data.books);
+      })
+      .catch((err) => console.error(err));
+    return () => { mounted = false; };
+  }, []);
+
+  // Debounce the search box so we don't hit the API on every keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearchQuery(searchQuery), 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  const isSearching = debouncedSearchQuery.trim() !== '';
+
+  // Fetch the current page whenever the query changes
+  useEffect(() => {
+    let mounted = true;
+    const fetchPage = async () => {
+      try {
+        setIsLoading(true);
+        if (isSearching) {
+          // Relevance-ranked search; the sort controls don't apply here
+          const queryString = toBookQueryString({
+            page: currentPage,
+            limit: itemsPerPage,
+            filters: selectedFacets,
+            q: debouncedSearchQuery,
+          });
+          const res = await fetch(`/api/search?${queryString}`);
+          if (!res.ok) throw new Error(t('grid.searchFailed', { status: String(res.status) }));
+          const data: SearchResponse = await res.json();
+          if (mounted) {
+            setPageData({
+              items: data.results.map(({ book, highlights }) => ({ book, highlights })),
+              totalItems: data.totalItems,
+              totalPages: data.totalPages,
+            });
+            setError(null);
+          }
+        } else {
+          const queryString = toBookQueryString({
+            page: currentPage,
+            limit: itemsPerPage,
+            filters: selectedFacets,
+            sortBy,
+            sortOrder,
+          });
+          const res = await fetch(`/api/books?${queryString}`);
+          if (!res.ok) throw new Error(t('grid.loadFailed', { status: String(res.status) }));
+          const data: PaginatedBooks = await res.json();
+          if (mounted) {
+            setPageData({
+              items: data.books.map((book) => ({ book })),
+              totalItems: data.totalItems,
+              totalPages: data.totalPages,
+            });
+            setError(null);
+          }
+        }
+      } catch (err) {
+        console.error(err);
+        if (mounted) setError(err instanceof Error ? err.message : t('grid.loadError'));
+      } finally {
+        if (mounted) setIsLoading(false);
+      }
+    };
+    fetchPage();
+    return () => { mounted = false; };
+  }, [currentPage, itemsPerPage, selectedFacets, debouncedSearchQuery, isSearching, sortBy, sortOrder, t]);
+
+  // Refresh facet counts whenever the search or the selected filters change
+  useEffect(() => {
+    let mounted = true;
+    const queryString = toBookQueryString({ filters: selectedFacets, q: debouncedSearchQuery });
+    fetch(`/api/books/facets?${queryString}`)
+      .then(async (res) => {
+        if (!res.ok) throw new Error(`Failed to fetch facets (${res.status})`);
+        const data: { facets: BookFacets } = await res.json();
+        if (mounted) setFacets(data.facets);
+      })
+      .catch((err) => console.error(err));
+    return () => { mounted = false; };
+  }, [selectedFacets, debouncedSearchQuery]);
 
   // Carousel settings for featured books
   const booksPerPage = 4;
@@ -52,72 +168,23 @@ const BookGrid: React.FC<BookGridProps> = ({ books, onAddToCart }) => {
     setFeaturedCarouselIndex(pageIndex);
   };
 
-  // Get all unique genres for the filter dropdown
-  const genres = useMemo(() => {
-    const allGenres = books.flatMap(book => book.genre);
-    return ['All', ...new Set(allGenres)];
-  }, [books]);
-
-  // Filter and sort books based on search query, selected genre, and sorting options
-  const filteredAndSortedBooks = useMemo(() => {
-    // First filter the books
-    const filtered = books.filter(book => {
-      const matchesSearch = 
-        book.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        book.author.toLowerCase().includes(searchQuery.toLowerCase());
-      
-      const matchesGenre = 
-        selectedGenre === 'All' || book.genre.includes(selectedGenre);
-
-      return matchesSearch && matchesGenre;
-    });
-
-    // Then sort the filtered books
-    const sorted = [...filtered].sort((a, b) => {
-      let comparison = 0;
-
-      switch (sortBy) {
-        case 'title':
-          comparison = a.title.localeCompare(b.title);
-          break;
-        case 'author':
-          comparison = a.author.localeCompare(b.author);
-          break;
-        case 'datePublished':
-          comparison = new Date(a.datePublished).getTime() - new Date(b.datePublished).getTime();
-          break;
-        case 'rating':
-          comparison = a.rating - b.rating;
-          break;
-        case 'reviewCount':
-          comparison = a.reviewCount - b.reviewCount;
-          break;
-        case 'price':
-          comparison = a.price - b.price;
-          break;
-        default:
-          comparison = 0;
-      }
-
-      return sortOrder === 'asc' ? comparison : -comparison;
+  // Tick or untick one facet value in the sidebar
+  const toggleFacet = (facet: FacetName, value: string) => {
+    setSelectedFacets(prev => {
+      const current = prev[facet] ?? [];
+      const next = current.includes(value) ? current.filter(v => v !== value) : [...current, value];
+      return { ...prev, [facet]: next };
     });
+  };
 
-    return sorted;
-  }, [books, searchQuery, selectedGenre, sortBy, sortOrder]);
-
-  // Paginate the filtered and sorted books
-  const paginatedBooks = useMemo(() => {
-    const startIndex = (currentPage - 1) * itemsPerPage;
-    const endIndex = startIndex + itemsPerPage;
-    return filteredAndSortedBooks.slice(startIndex, endIndex);
-  }, [filteredAndSortedBooks, currentPage, itemsPerPage]);
-
-  const totalPages = Math.ceil(filteredAndSortedBooks.length / itemsPerPage);
+  const paginatedItems = pageData?.items ?? [];
+  const totalItems = pageData?.totalItems ?? 0;
+  const totalPages = pageData?.totalPages ?? 0;
 
   // Reset to first page when filters or sorting change
   React.useEffect(() => {
     setCurrentPage(1);
-  }, [searchQuery, selectedGenre, sortBy, sortOrder, itemsPerPage]);
+  }, [debouncedSearchQuery, selectedFacets, sortBy, sortOrder, itemsPerPage]);
 
   // Handle page change
   const handlePageChange = (page: number) => {
@@ -135,7 +202,7 @@ const BookGrid: React.FC<BookGridProps> = ({ books, onAddToCart }) => {
       {/* Featured Books Section */}
       <section className="mb-12">
         <div className="flex items-center justify-between mb-6">
-          <h2 className="text-3xl font-bold text-gray-800">Featured Books</h2>
+          <h2 className="text-3xl font-bold text-gray-800">{t('grid.featured')}</h2>
           {totalFeaturedPages > 1 && (
             <div className="flex items-center gap-4">
               {/* Carousel Indicators */}
@@ -149,7 +216,7 @@ const BookGrid: React.FC<BookGridProps> = ({ books, onAddToCart }) => {
                         ? 'bg-blue-600' 
                         : 'bg-gray-300 hover:bg-gray-400'
                     }`}
-                    aria-label={`Go to featured books page ${index + 1}`}
+                    aria-label={t('grid.featuredPage', { page: index + 1 })}
                   />
                 ))}
               </div>
@@ -159,18 +226,19 @@ const BookGrid: React.FC<BookGridProps> = ({ books, onAddToCart }) => {
                 <button
                   onClick={goToPreviousFeatured}
                   className="p-2 rounded-full bg-white border border-gray-300 hover:bg-gray-50 transition-colors duration-200 cursor-pointer"
-                  aria-label="Previous featured books"
+                  aria-label={t('grid.previousFeatured')}
                 >
-                  <svg className="w-4 h-4 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  {/* Chevrons point the other way in right-to-left layouts */}
+                  <svg className="w-4 h-4 text-gray-600 rtl:rotate-180" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
                   </svg>
                 </button>
                 <button
                   onClick={goToNextFeatured}
                   className="p-2 rounded-full bg-white border border-gray-300 hover:bg-gray-50 transition-colors duration-200 cursor-pointer"
-                  aria-label="Next featured books"
+                  aria-label={t('grid.nextFeatured')}
                 >
-                  <svg className="w-4 h-4 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <svg className="w-4 h-4 text-gray-600 rtl:rotate-180" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
                   </svg>
                 </button>
@@ -190,7 +258,11 @@ const BookGrid: React.FC<BookGridProps> = ({ books, onAddToCart }) => {
           {/* Show current page info */}
           {totalFeaturedPages > 1 && (
             <div className="text-center mt-4 text-sm text-gray-600">
-              Showing {featuredCarouselIndex * booksPerPage + 1} - {Math.min((featuredCarouselIndex + 1) * booksPerPage, featuredBooks.length)} of {featuredBooks.length} featured books
+              {t('grid.featuredRange', {
+                from: featuredCarouselIndex * booksPerPage + 1,
+                to: Math.min((featuredCarouselIndex + 1) * booksPerPage, featuredBooks.length),
+                count: featuredBooks.length,
+              })}
             </div>
           )}
         </div>
@@ -198,79 +270,64 @@ const BookGrid: React.FC<BookGridProps> = ({ books, onAddToCart }) => {
 
       {/* Search, Filter, and Sort Controls */}
       <section className="mb-8 space-y-4">
-        {/* Search and Genre Filter Row */}
+        {/* Search Row */}
         <div className="flex flex-col md:flex-row justify-between items-center gap-4">
           <div className="w-full md:w-1/2">
             <input
               type="text"
-              placeholder="Search by title or author..."
+              placeholder={t('grid.searchPlaceholder')}
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
             />
           </div>
-          <div className="w-full md:w-1/4">
-            <label htmlFor="genreFilter" className="block text-sm font-medium text-gray-700 mb-2">
-              Filter by Genre:
-            </label>
-            <select
-              id="genreFilter"
-              value={selectedGenre}
-              onChange={(e) => setSelectedGenre(e.target.value)}
-              className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white"
-            >
-              {genres.map(genre => (
-                <option key={genre} value={genre}>{genre}</option>
-              ))}
-            </select>
-          </div>
         </div>
 
         {/* Sorting Controls Row */}
         <div className="flex flex-col sm:flex-row justify-between items-center gap-4">
           <div className="flex items-center gap-2 text-sm text-gray-600">
-            <span>Showing {filteredAndSortedBooks.length} books</span>
+            <span>{t('grid.total', { count: totalItems })}{isSearching && ` ${t('grid.byRelevance')}`}</span>
           </div>
           <div className="flex items-center gap-4">
             {/* Sort By Dropdown */}
             <div className="flex items-center gap-2">
               <label htmlFor="sortBy" className="text-sm text-gray-600 whitespace-nowrap">
-                Sort by:
+                {t('grid.sortBy')}
               </label>
               <select
                 id="sortBy"
                 value={sortBy}
-                onChange={(e) => setSortBy(e.target.value)}
-                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-sm"
+                onChange={(e) => setSortBy(e.target.value as BookSortField)}
+                disabled={isSearching}
+                title={isSearching ? t('grid.sortedByRelevance') : undefined}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-sm disabled:opacity-50"
               >
-                <option value="title">Title</option>
-                <option value="author">Author</option>
-                <option value="datePublished">Release Date</option>
-                <option value="rating">Rating</option>
-                <option value="reviewCount">Review Count</option>
-                <option value="price">Price</option>
+                {(Object.keys(SORT_FIELD_LABELS) as BookSortField[]).map((field) => (
+                  <option key={field} value={field}>{t(SORT_FIELD_LABELS[field])}</option>
+                ))}
               </select>
             </div>
 
             {/* Sort Order Toggle */}
             <button
               onClick={() => setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc')}
-              className="flex items-center gap-1 px-3 py-2 border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm cursor-pointer"
-              aria-label={`Sort ${sortOrder === 'asc' ? 'descending' : 'ascending'}`}
+              disabled={isSearching}
+              className="flex items-center gap-1 px-3 py-2 border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+              aria-label={sortOrder === 'asc' ? t('grid.sortDescending') : t('grid.sortAscending')}
             >
               {sortOrder === 'asc' ? (
                 <>
                   <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
                   </svg>
-                  <span>Asc</span>
+                  <span>{t('grid.asc')}</span>
                 </>
               ) : (
                 <>
                   <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
                   </svg>
-                  <span>Desc</span>
+                  <span>{t('grid.desc')}</span>
                 </>
               )}
             </button>
@@ -280,27 +337,46 @@ const BookGrid: React.FC<BookGridProps> = ({ books, onAddToCart }) => {
 
       {/* All Books List */}
       <section>
-        <h2 className="text-3xl font-bold text-gray-800 mb-6">All Books</h2>
-        {filteredAndSortedBooks.length > 0 ? (
-          <>
-            <div className="space-y-3 md:space-y-0 md:grid md:grid-cols-2 lg:grid-cols-2 gap-2">
-              {paginatedBooks.map(book => (
-                <BookListItem key={book.id} book={book} onAddToCart={onAddToCart} />
-              ))}
-            </div>
-            
-            {/* Pagination */}
-            <Pagination
-              currentPage={currentPage}
-              totalPages={totalPages}
-              onPageChange={handlePageChange}
-              itemsPerPage={itemsPerPage}
-              totalItems={filteredAndSortedBooks.length}
+        <h2 className="text-3xl font-bold text-gray-800 mb-6">{t('grid.allBooks')}</h2>
+        <div className="flex flex-col lg:flex-row gap-6">
+          {/* Facet Sidebar */}
+          <div className="w-full lg:w-64 flex-shrink-0">
+            <FacetSidebar
+              facets={facets}
+              selected={selectedFacets}
+              onToggle={toggleFacet}
+              onClear={() => setSelectedFacets({})}
             />
-          </>
-        ) : (
-          <p className="text-center text-gray-500 text-lg">No books found matching your criteria.</p>
-        )}
+          </div>
+
+          <div className="flex-1 min-w-0">
+            {error ? (
+              <p className="text-center text-red-600 text-lg">{t('common.error', { message: error })}</p>
+            ) : isLoading && !pageData ? (
+              <p className="text-center text-gray-500 text-lg">{t('grid.loading')}</p>
+            ) : paginatedItems.length > 0 ? (
+              <>
+                <div className={`space-y-3 md:space-y-0 md:grid md:grid-cols-1 xl:grid-cols-2 gap-2 ${isLoading ? 'opacity-60' : ''}`}>
+                  {paginatedItems.map(({ book, highlights }) => (
+                    <BookListItem key={book.id} book={book} highlights={highlights} onAddToCart={onAddToCart} />
+                  ))}
+                </div>
+            
+                {/* Pagination */}
+                <Pagination
+                  currentPage={currentPage}
+                  totalPages={totalPages}
+                  onPageChange={handlePageChange}
+                  itemsPerPage={itemsPerPage}
+                  totalItems={totalItems}
+                  onItemsPerPageChange={handleItemsPerPageChange}
+                />
+              </>
+            ) : (
+              <p className="text-center text-gray-500 text-lg">{t('grid.empty')}</p>
+            )}
+          </div>
+        </div>
       </section>
     </div>
   );
@@ -3,16 +3,29 @@
 
 import React, { useState } from 'react';
 import Link from 'next/link';
-import { Book } from '../types';
+import { Book, BookHighlights } from '../types';
+import Highlight, { getSnippetField } from './Highlight';
+import AvailabilityBadge from './AvailabilityBadge';
+import WishlistButton from './WishlistButton';
+import { isPurchasable } from '../lib/inventory';
+import { useCurrency } from '../lib/useCurrency';
+import { useTranslation } from '../lib/useTranslation';
 
 interface BookListItemProps {
   book: Book;
-  onAddToCart?: (bookId: string) => void;
+  onAddToCart?: (bookId: string) => void | Promise<unknown>;
+  // Search highlights from /api/search, when the item is a search result
+  highlights?: BookHighlights;
 }
 
-const BookListItem: React.FC<BookListItemProps> = ({ book, onAddToCart }) => {
+const BookListItem: React.FC<BookListItemProps> = ({ book, onAddToCart, highlights }) => {
+  const snippetField = getSnippetField(highlights);
   const [isAddingToCart, setIsAddingToCart] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
+  const [cartError, setCartError] = useState<string | null>(null);
+  const purchasable = isPurchasable(book);
+  const { format } = useCurrency();
+  const { t, localize, formatNumber } = useTranslation();
 
   // Function to render star ratings
   const renderStars = (rating: number) => {
@@ -31,7 +44,8 @@ const BookListItem: React.FC<BookListItemProps> = ({ book, onAddToCart }) => {
       } else if (i === fullStars + 1 && hasHalfStar) {
         // Half star
         stars.push(
-          <div key={i} className="relative w-4 h-4">
+          // Mirrored in right-to-left layouts so the filled half faces the full stars
+          <div key={i} className="relative w-4 h-4 rtl:-scale-x-100">
             <svg className="w-4 h-4 text-gray-300 fill-current absolute" viewBox="0 0 20 20">
               <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
             </svg>
@@ -59,21 +73,24 @@ const BookListItem: React.FC<BookListItemProps> = ({ book, onAddToCart }) => {
     e.preventDefault();
     e.stopPropagation();
     
-    if (!book.inStock || isAddingToCart) return;
+    if (!purchasable || isAddingToCart) return;
     
     setIsAddingToCart(true);
+    setCartError(null);
     
     try {
       await new Promise(resolve => setTimeout(resolve, 500));
       
       if (onAddToCart) {
-        onAddToCart(book.id);
+        await onAddToCart(book.id);
       }
       
       setShowSuccess(true);
       setTimeout(() => setShowSuccess(false), 2000);
     } catch (error) {
       console.error('Error adding to cart:', error);
+      // The cart API rejects quantities beyond the available stock
+      setCartError((error as { error?: string })?.error ?? t('book.addToCartFailed'));
     } finally {
       setIsAddingToCart(false);
     }
@@ -83,7 +100,7 @@ const BookListItem: React.FC<BookListItemProps> = ({ book, onAddToCart }) => {
     <div className="bg-white rounded-lg shadow-sm border border-gray-200 hover:shadow-md transition-shadow duration-200">
       <div className="flex items-center p-4 gap-4">
         {/* Book Cover/Icon - Left Side */}
-        <Link href={`/book/${book.id}`} className="flex-shrink-0 cursor-pointer">
+        <Link href={localize(`/book/${book.id}`)} className="flex-shrink-0 cursor-pointer">
           <div className="w-15 h-20 bg-gray-200 rounded-md flex items-center justify-center hover:bg-gray-300 transition-colors duration-200">
             <div className="text-2xl text-gray-400">📚</div>
           </div>
@@ -94,18 +111,26 @@ const BookListItem: React.FC<BookListItemProps> = ({ book, onAddToCart }) => {
           <div className="flex items-start justify-between gap-4">
             {/* Main Info */}
             <div className="flex-1 min-w-0">
-              <Link href={`/book/${book.id}`} className="block group cursor-pointer">
+              <Link href={localize(`/book/${book.id}`)} className="block group cursor-pointer">
                 <h3 className="text-lg font-semibold text-gray-800 truncate group-hover:text-blue-600 transition-colors duration-200">
-                  {book.title}
+                  {highlights?.title ? <Highlight segments={highlights.title} /> : book.title}
                 </h3>
-                <p className="text-sm text-gray-400 mt-1">by {book.author}</p>
+                <p className="text-sm text-gray-400 mt-1">{t('book.by')} {highlights?.author ? <Highlight segments={highlights.author} /> : book.author}</p>
               </Link>
 
+              {/* Search snippet for matches outside the title/author */}
+              {snippetField && highlights?.[snippetField] && (
+                <p className="text-xs text-gray-600 mt-2 line-clamp-2">
+                  <span className="font-medium text-gray-500">{t(`search.fields.${snippetField}`)}: </span>
+                  <Highlight segments={highlights[snippetField]} />
+                </p>
+              )}
+
               {/* Rating and Reviews */}
               <div className="flex items-center mt-2 gap-2">
                 {renderStars(book.rating)}
                 <span className="text-sm text-gray-500">
-                  {book.rating.toFixed(1)} ({book.reviewCount.toLocaleString()} reviews)
+                  {formatNumber(book.rating, { minimumFractionDigits: 1, maximumFractionDigits: 1 })} ({t('book.reviewCount', { count: book.reviewCount })})
                 </span>
               </div>
 
@@ -121,43 +146,42 @@ const BookListItem: React.FC<BookListItemProps> = ({ book, onAddToCart }) => {
                 ))}
                 {book.genre.length > 3 && (
                   <span className="text-xs text-gray-500 px-2 py-1">
-                    +{book.genre.length - 3} more
+                    {t('book.moreGenres', { count: book.genre.length - 3 })}
                   </span>
                 )}
               </div>
 
               {/* Stock Status */}
-              {!book.inStock && (
-                <span className="inline-block bg-red-100 text-red-800 text-xs font-medium px-2 py-1 rounded-full mt-2">
-                  Out of Stock
-                </span>
-              )}
+              <AvailabilityBadge book={book} className="mt-2" />
             </div>
 
             {/* Price and Actions */}
             <div className="flex flex-col items-end gap-3">
-              <div className="text-right">
-                <p className="text-xl font-bold text-gray-900">${book.price.toFixed(2)}</p>
+              <div className="text-end">
+                <div className="flex items-center justify-end gap-2">
+                  <WishlistButton bookId={book.id} />
+                  <p className="text-xl font-bold text-gray-900">{format(book.price)}</p>
+                </div>
                 {book.featured && (
                   <span className="inline-block bg-blue-100 text-blue-800 text-xs font-medium px-2 py-1 rounded-full mt-1">
-                    Featured
+                    {t('book.featured')}
                   </span>
                 )}
               </div>
 
               {/* Action Buttons */}
               <div className="flex flex-col gap-2 min-w-[120px]">
-                <Link href={`/book/${book.id}`} className="cursor-pointer">
+                <Link href={localize(`/book/${book.id}`)} className="cursor-pointer">
                   <button className="w-full px-3 py-2 text-sm border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors duration-200 cursor-pointer">
-                    View Details
+                    {t('book.viewDetails')}
                   </button>
                 </Link>
                 
                 <button
                   onClick={handleAddToCart}
-                  disabled={!book.inStock || isAddingToCart}
+                  disabled={!purchasable || isAddingToCart}
                   className={`w-full px-3 py-2 text-sm rounded-md transition-colors duration-200 ${
-                    !book.inStock
+                    !purchasable
                       ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
                       : showSuccess
                       ? 'bg-green-600 text-white cursor-pointer'
@@ -171,7 +195,7 @@ const BookListItem: React.FC<BookListItemProps> = ({ book, onAddToCart }) => {
                       <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                       </svg>
-                      Added!
+                      {t('book.added')}
                     </span>
                   ) : isAddingToCart ? (
                     <span className="flex items-center justify-center gap-1">
@@ -179,12 +203,13 @@ const BookListItem: React.FC<BookListItemProps> = ({ book, onAddToCart }) => {
                         <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                         <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                       </svg>
-                      Adding...
+                      {t('book.adding')}
                     </span>
                   ) : (
-                    'Add to Cart'
+                    t('book.addToCart')
                   )}
                 </button>
+                {cartError && <p className="text-xs text-red-600 max-w-[120px]">{cartError}</p>}
               </div>
             </div>
           </div>
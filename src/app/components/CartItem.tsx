@@ -3,19 +3,29 @@
 
 import React from 'react';
 import Link from 'next/link';
-import { Book } from '../types';
+import { Book, StockIssue } from '../types';
+import AvailabilityBadge from './AvailabilityBadge';
+import { canFulfill, describeStockIssue } from '../lib/inventory';
+import { useCurrency } from '../lib/useCurrency';
+import { useTranslation } from '../lib/useTranslation';
 
 interface CartItemProps {
   item: { book: Book; quantity: number };
   onUpdateQuantity: (bookId: string, quantity: number) => void;
   onRemoveItem: (bookId: string) => void;
+  onSaveForLater?: () => void;
+  // Set when the quantity in the cart is more than can currently be sold
+  stockIssue?: StockIssue;
 }
 
-const CartItem: React.FC<CartItemProps> = ({ item, onUpdateQuantity, onRemoveItem }) => {
+const CartItem: React.FC<CartItemProps> = ({ item, onUpdateQuantity, onRemoveItem, onSaveForLater, stockIssue }) => {
   const { book, quantity } = item;
+  const canIncrease = canFulfill(book, quantity + 1);
+  const { format } = useCurrency();
+  const { t, localize, formatNumber } = useTranslation();
 
   // Calculate subtotal for the cart item
-  const subtotal = (book.price * quantity).toFixed(2);
+  const subtotal = format(book.price * quantity);
 
   return (
     <div className="flex items-center justify-between p-4 border-b border-gray-200">
@@ -25,11 +35,13 @@ const CartItem: React.FC<CartItemProps> = ({ item, onUpdateQuantity, onRemoveIte
           <div className="text-2xl text-gray-400">📚</div>
         </div>
         <div>
-          <Link href={`/book/${book.id}`} className="text-lg font-semibold text-gray-800 hover:text-blue-500 cursor-pointer">
+          <Link href={localize(`/book/${book.id}`)} className="text-lg font-semibold text-gray-800 hover:text-blue-500 cursor-pointer">
             {book.title}
           </Link>
-          <p className="text-sm text-gray-600">by {book.author}</p>
-          <p className="text-md font-bold text-gray-900 mt-1">${book.price.toFixed(2)}</p>
+          <p className="text-sm text-gray-600">{t('book.by')} {book.author}</p>
+          <p className="text-md font-bold text-gray-900 mt-1">{format(book.price)}</p>
+          <AvailabilityBadge book={book} className="mt-1" />
+          {stockIssue && <p className="text-sm text-red-600 mt-1">{describeStockIssue(stockIssue, t)}</p>}
         </div>
       </div>
       <div className="flex items-center space-x-4">
@@ -37,25 +49,35 @@ const CartItem: React.FC<CartItemProps> = ({ item, onUpdateQuantity, onRemoveIte
           <button 
             onClick={() => onUpdateQuantity(book.id, quantity - 1)}
             disabled={quantity <= 1}
-            className="px-2 border rounded-r-full rounded-l-full hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+            aria-label={t('cart.decrease')}
+            className="px-2 border rounded-full hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
           >
            <div className="w-2">-</div>
           </button>
-          <span>{quantity}</span>
+          <span>{formatNumber(quantity)}</span>
           <button 
             onClick={() => onUpdateQuantity(book.id, quantity + 1)}
-            className="px-2 border rounded-r-full rounded-l-full hover:bg-gray-100 cursor-pointer"
+            disabled={!canIncrease}
+            aria-label={t('cart.increase')}
+            className="px-2 border rounded-full hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
           >
             <div className="w-2">+</div>
           </button>
         </div>
-        <p className="text-md font-semibold w-20 text-right">${subtotal}</p>
-        <button 
-          onClick={() => onRemoveItem(book.id)}
-          className="text-red-500 hover:text-red-700 font-semibold cursor-pointer"
-        >
-          Remove
-        </button>
+        <p className="text-md font-semibold min-w-20 text-end whitespace-nowrap">{subtotal}</p>
+        <div className="flex flex-col items-end gap-1">
+          <button 
+            onClick={() => onRemoveItem(book.id)}
+            className="text-red-500 hover:text-red-700 font-semibold cursor-pointer"
+          >
+            {t('cart.remove')}
+          </button>
+          {onSaveForLater && (
+            <button onClick={onSaveForLater} className="text-sm text-blue-600 hover:underline cursor-pointer">
+              {t('cart.saveForLater')}
+            </button>
+          )}
+        </div>
       </div>
     </div>
   );
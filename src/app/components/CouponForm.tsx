@@ -0,0 +1,111 @@
+// src/app/components/CouponForm.tsx
+'use client';
+
+import React, { useState } from 'react';
+import { CartPricing } from '../types';
+import { describeCouponIssue } from '../lib/promotions';
+import { useCurrency } from '../lib/useCurrency';
+import { useTranslation } from '../lib/useTranslation';
+
+interface CouponFormProps {
+  coupons: Pick<CartPricing, 'couponCodes' | 'couponIssues'>;
+  onChange: () => void; // The cart totals need fetching again
+}
+
+// Enter coupon codes for the cart and take them off again
+const CouponForm: React.FC<CouponFormProps> = ({ coupons, onChange }) => {
+  const [code, setCode] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { format } = useCurrency();
+  const { t } = useTranslation();
+
+  const handleApply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/cart/coupons', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(data.error || t('coupons.applyFailed'));
+        return;
+      }
+      setCode('');
+      onChange();
+    } catch (err) {
+      console.error('Apply coupon error', err);
+      setError(t('coupons.applyFailed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (appliedCode: string) => {
+    setError(null);
+    try {
+      const res = await fetch(`/api/cart/coupons?code=${encodeURIComponent(appliedCode)}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        setError(data.error || t('coupons.removeFailed'));
+        return;
+      }
+      onChange();
+    } catch (err) {
+      console.error('Remove coupon error', err);
+      setError(t('coupons.removeFailed'));
+    }
+  };
+
+  return (
+    <div>
+      <form onSubmit={handleApply} className="flex gap-2">
+        <label htmlFor="coupon-code" className="sr-only">{t('coupons.label')}</label>
+        <input
+          id="coupon-code"
+          type="text"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder={t('coupons.label')}
+          maxLength={50}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md uppercase focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={isSaving || !code.trim()}
+          className="px-4 py-2 rounded-md bg-gray-800 text-white hover:bg-gray-900 transition-colors cursor-pointer disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          {isSaving ? t('coupons.applying') : t('coupons.apply')}
+        </button>
+      </form>
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+
+      {coupons.couponCodes.length > 0 && (
+        <ul className="mt-3 space-y-2">
+          {coupons.couponCodes.map((appliedCode) => {
+            const issue = coupons.couponIssues.find((item) => item.code === appliedCode);
+            return (
+              <li key={appliedCode} className="text-sm">
+                <span className={`font-mono px-2 py-0.5 rounded ${issue ? 'bg-yellow-100 text-yellow-800' : 'bg-green-100 text-green-800'}`}>
+                  {appliedCode}
+                </span>
+                <button onClick={() => handleRemove(appliedCode)} className="ms-2 text-red-500 hover:text-red-700 cursor-pointer">
+                  {t('cart.remove')}
+                </button>
+                {/* Still applied, but nothing comes off until the cart qualifies again */}
+                {issue && <p className="mt-1 text-yellow-800">{describeCouponIssue(issue, t, format)}</p>}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CouponForm;
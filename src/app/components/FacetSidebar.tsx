@@ -0,0 +1,108 @@
+// src/app/components/FacetSidebar.tsx
+'use client';
+
+import React, { useState } from 'react';
+import { BookFacets, FacetCount, FacetFilters, FacetName } from '../types';
+import { FACET_BANDS, FACET_NAMES, FacetBand } from '../lib/facets';
+import { useCurrency } from '../lib/useCurrency';
+import { useTranslation } from '../lib/useTranslation';
+
+interface FacetSidebarProps {
+  facets: BookFacets | null;
+  selected: FacetFilters;
+  onToggle: (facet: FacetName, value: string) => void;
+  onClear: () => void;
+}
+
+// Long facets (genre, publisher) are collapsed to this many entries until expanded
+const COLLAPSED_FACET_SIZE = 6;
+
+const FacetSidebar: React.FC<FacetSidebarProps> = ({ facets, selected, onToggle, onClear }) => {
+  const [expanded, setExpanded] = useState<Partial<Record<FacetName, boolean>>>({});
+  const { format } = useCurrency();
+  const { t, formatNumber } = useTranslation();
+
+  // Band labels come from the API in English and US dollars; rebuild them for the page
+  const describeBand = (facet: FacetName, band: FacetBand) => {
+    const formatBound = (value: number) =>
+      facet === 'price' ? format(value) : formatNumber(value, { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+    if (band.min === undefined) return t(facet === 'price' ? 'facets.under' : 'facets.below', { value: formatBound(band.max ?? 0) });
+    if (band.max === undefined) return t(facet === 'price' ? 'facets.andAbove' : 'facets.andUp', { value: formatBound(band.min) });
+    return t('facets.between', { min: formatBound(band.min), max: formatBound(band.max) });
+  };
+
+  const entryLabel = (facet: FacetName, entry: FacetCount) => {
+    const band = FACET_BANDS[facet]?.find((candidate) => candidate.value === entry.value);
+    return band ? describeBand(facet, band) : entry.label;
+  };
+
+  const hasSelection = FACET_NAMES.some((facet) => (selected[facet]?.length ?? 0) > 0);
+
+  return (
+    <aside className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 space-y-6" aria-label={t('facets.ariaLabel')}>
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-800">{t('facets.title')}</h3>
+        {hasSelection && (
+          <button onClick={onClear} className="text-sm text-blue-600 hover:underline cursor-pointer">
+            {t('facets.clearAll')}
+          </button>
+        )}
+      </div>
+
+      {!facets ? (
+        <p className="text-sm text-gray-500">{t('facets.loading')}</p>
+      ) : (
+        FACET_NAMES.map((facet) => {
+          const entries = facets[facet];
+          if (entries.length === 0) return null;
+
+          const isExpanded = expanded[facet] ?? false;
+          const visible = isExpanded ? entries : entries.slice(0, COLLAPSED_FACET_SIZE);
+
+          return (
+            <fieldset key={facet}>
+              <legend className="text-sm font-semibold text-gray-700 mb-2">{t(`facets.names.${facet}`)}</legend>
+              <ul className="space-y-1">
+                {visible.map((entry) => {
+                  const isChecked = selected[facet]?.includes(entry.value) ?? false;
+                  const id = `facet-${facet}-${entry.value}`;
+                  return (
+                    <li key={entry.value} className="flex items-center justify-between gap-2 text-sm">
+                      <label
+                        htmlFor={id}
+                        className={`flex items-center gap-2 min-w-0 cursor-pointer ${
+                          entry.count === 0 && !isChecked ? 'text-gray-400' : 'text-gray-700'
+                        }`}
+                      >
+                        <input
+                          id={id}
+                          type="checkbox"
+                          checked={isChecked}
+                          disabled={entry.count === 0 && !isChecked}
+                          onChange={() => onToggle(facet, entry.value)}
+                          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                        <span className="truncate">{entryLabel(facet, entry)}</span>
+                      </label>
+                      <span className="text-xs text-gray-500">{formatNumber(entry.count)}</span>
+                    </li>
+                  );
+                })}
+              </ul>
+              {entries.length > COLLAPSED_FACET_SIZE && (
+                <button
+                  onClick={() => setExpanded((prev) => ({ ...prev, [facet]: !isExpanded }))}
+                  className="mt-1 text-xs text-blue-600 hover:underline cursor-pointer"
+                >
+                  {isExpanded ? t('facets.showLess') : t('facets.showAll', { count: entries.length })}
+                </button>
+              )}
+            </fieldset>
+          );
+        })
+      )}
+    </aside>
+  );
+};
+
+export default FacetSidebar;
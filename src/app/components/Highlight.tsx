@@ -0,0 +1,31 @@
+// src/app/components/Highlight.tsx
+import React from 'react';
+import { BookHighlights, HighlightSegment, SearchField } from '../types';
+
+interface HighlightProps {
+  segments: HighlightSegment[];
+}
+
+// Renders search highlight segments, wrapping matched text in <mark>
+const Highlight: React.FC<HighlightProps> = ({ segments }) => (
+  <>
+    {segments.map((segment, index) =>
+      segment.match ? (
+        <mark key={index} className="bg-yellow-200 text-inherit rounded-sm px-0.5">
+          {segment.text}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      )
+    )}
+  </>
+);
+
+export default Highlight;
+
+// Fields shown as a "matched in" snippet under the title/author of a search result
+const SNIPPET_FIELDS: SearchField[] = ['description', 'tags', 'publisher', 'isbn'];
+
+export function getSnippetField(highlights?: BookHighlights): SearchField | undefined {
+  return SNIPPET_FIELDS.find((field) => highlights?.[field]);
+}
@@ -0,0 +1,72 @@
+// src/app/components/ListEditor.tsx
+'use client';
+
+import React, { useState } from 'react';
+import { useTranslation } from '../lib/useTranslation';
+
+interface ListEditorProps {
+  id: string;
+  label: string;
+  values: string[];
+  onChange: (values: string[]) => void;
+  placeholder?: string;
+  error?: string;
+}
+
+// Editable list of short strings (genres, tags): Enter or "Add" appends, × removes
+const ListEditor: React.FC<ListEditorProps> = ({ id, label, values, onChange, placeholder, error }) => {
+  const [draft, setDraft] = useState('');
+  const { t } = useTranslation();
+
+  const addDraft = () => {
+    const value = draft.trim();
+    // Case-insensitive duplicates would show up as separate facet values
+    if (value && !values.some((existing) => existing.toLowerCase() === value.toLowerCase())) {
+      onChange([...values, value]);
+    }
+    setDraft('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addDraft();
+    } else if (e.key === 'Backspace' && !draft && values.length > 0) {
+      onChange(values.slice(0, -1));
+    }
+  };
+
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+      <div className="flex flex-wrap items-center gap-2 px-3 py-2 border border-gray-300 rounded-md focus-within:ring-2 focus-within:ring-blue-500">
+        {values.map((value) => (
+          <span key={value} className="inline-flex items-center gap-1 bg-blue-100 text-blue-800 text-sm px-2 py-0.5 rounded-full">
+            {value}
+            <button
+              type="button"
+              onClick={() => onChange(values.filter((existing) => existing !== value))}
+              className="text-blue-600 hover:text-blue-900 cursor-pointer"
+              aria-label={t('common.removeValue', { value })}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <input
+          id={id}
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={addDraft}
+          placeholder={placeholder}
+          className="flex-1 min-w-[8rem] outline-none text-sm"
+        />
+      </div>
+      {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default ListEditor;
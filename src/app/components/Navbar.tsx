@@ -2,15 +2,27 @@
 'use client';
 
 import Link from 'next/link';
-import { usePathname } from 'next/navigation';
+import { usePathname, useRouter } from 'next/navigation';
 
 import { useState, useEffect } from 'react';
-import { CartItem } from '../types';
+import { Locale, User } from '../types';
+import { isStaff } from '../lib/roles';
+import { currencies, RATES_UPDATED_AT } from '../data/currencies';
+import { isCurrencyCode, storeCurrency } from '../lib/currency';
+import { useCurrency } from '../lib/useCurrency';
+import { LOCALE_NAMES, LOCALES, localizePath, splitLocalePath, storeLocale } from '../lib/i18n';
+import { useTranslation } from '../lib/useTranslation';
 
 const Navbar: React.FC = () => {
   const [cartItemCount, setCartItemCount] = useState(0);
+  const [wishlistCount, setWishlistCount] = useState(0);
   const [loading, setLoading] = useState<boolean>(true);
+  const [user, setUser] = useState<User | null>(null);
   const pathname = usePathname();
+  const router = useRouter();
+  const { currency } = useCurrency();
+  const { locale, t, localize, formatNumber } = useTranslation();
+  const { path } = splitLocalePath(pathname); // Without the locale prefix, for highlighting the current page
 
     async function fetchCartCount() {
     try {
@@ -33,31 +45,129 @@ const Navbar: React.FC = () => {
     }
   }
 
+  // Wishlists need an account; signed out the API answers 401 and the count is 0
+  async function fetchWishlistCount() {
+    try {
+      const res = await fetch('/api/wishlist');
+      const data = res.ok ? await res.json() : [];
+      setWishlistCount(Array.isArray(data) ? data.length : 0);
+    } catch (err) {
+      console.error('Error fetching wishlist', err);
+      setWishlistCount(0);
+    }
+  }
+
+  async function fetchUser() {
+    try {
+      const res = await fetch('/api/auth/me');
+      const data = res.ok ? await res.json() : null;
+      setUser(data?.user ?? null);
+    } catch (err) {
+      console.error('Error fetching account', err);
+      setUser(null);
+    }
+  }
+
+  async function signOut() {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } catch (err) {
+      console.error('Error signing out', err);
+    }
+    window.dispatchEvent(new CustomEvent('authChanged'));
+    router.push(localize('/'));
+  }
+
+  // Same page in the other language; the choice is remembered for unprefixed links
+  function switchLocale(nextLocale: Locale) {
+    storeLocale(nextLocale);
+    router.push(`${localizePath(nextLocale, path)}${window.location.search}`);
+  }
+
   useEffect(() => {
     fetchCartCount();
+    fetchWishlistCount();
+    fetchUser();
     const handler = () => fetchCartCount();
+    const wishlistHandler = () => fetchWishlistCount();
+    // signing in or out changes the account, the cart and the wishlist
+    const authHandler = () => {
+      fetchUser();
+      fetchCartCount();
+      fetchWishlistCount();
+    };
     window.addEventListener('cartUpdated', handler);
-    return () => window.removeEventListener('cartUpdated', handler);
+    window.addEventListener('wishlistUpdated', wishlistHandler);
+    window.addEventListener('authChanged', authHandler);
+    return () => {
+      window.removeEventListener('cartUpdated', handler);
+      window.removeEventListener('wishlistUpdated', wishlistHandler);
+      window.removeEventListener('authChanged', authHandler);
+    };
   }, []);
   
   return (
     <nav className="bg-white shadow-md fixed w-full top-0 z-10">
       <div className="container mx-auto px-6 py-3 flex justify-between items-center">
-        <Link href="/" className="text-2xl font-bold text-gray-800 cursor-pointer">
-          Amana Bookstore
+        <Link href={localize('/')} className="text-2xl font-bold text-gray-800 cursor-pointer">
+          {t('nav.brand')}
         </Link>
         <div className="flex items-center space-x-4">
-          <Link href="/" className={`text-gray-600 hover:text-blue-500 cursor-pointer ${pathname === '/' ? 'text-blue-500 font-semibold' : ''}`}>
-            Home
+          <Link href={localize('/')} className={`text-gray-600 hover:text-blue-500 cursor-pointer ${path === '/' ? 'text-blue-500 font-semibold' : ''}`}>
+            {t('nav.home')}
           </Link>
-          <Link href="/cart" className={`text-gray-600 hover:text-blue-500 flex items-center cursor-pointer ${pathname === '/cart' ? 'text-blue-500 font-semibold' : ''}`}>
-            My Cart
+          <Link href={localize('/cart')} className={`text-gray-600 hover:text-blue-500 flex items-center cursor-pointer ${path === '/cart' ? 'text-blue-500 font-semibold' : ''}`}>
+            {t('nav.cart')}
             {cartItemCount > 0 && (
-              <span className="ml-2 bg-blue-500 text-white text-xs font-bold rounded-full h-5 w-5 flex items-center justify-center">
-                {cartItemCount}
+              <span className="ms-2 bg-blue-500 text-white text-xs font-bold rounded-full h-5 w-5 flex items-center justify-center">
+                {formatNumber(cartItemCount)}
               </span>
             )}
           </Link>
+          <select
+            aria-label={t('nav.currency')}
+            title={t('nav.ratesAsOf', { date: RATES_UPDATED_AT })}
+            value={currency}
+            onChange={(e) => isCurrencyCode(e.target.value) && storeCurrency(e.target.value)}
+            className="text-sm text-gray-600 border border-gray-300 rounded-md px-2 py-1 cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {currencies.map((option) => (
+              <option key={option.code} value={option.code} title={t(`currencies.${option.code}`)}>{option.code}</option>
+            ))}
+          </select>
+          {LOCALES.filter((option) => option !== locale).map((option) => (
+            <button key={option} lang={option} onClick={() => switchLocale(option)} className="text-sm text-gray-600 hover:text-blue-500 cursor-pointer">
+              {LOCALE_NAMES[option]}
+            </button>
+          ))}
+          {user ? (
+            <>
+              <Link href={localize('/wishlist')} className={`text-gray-600 hover:text-blue-500 flex items-center cursor-pointer ${path === '/wishlist' ? 'text-blue-500 font-semibold' : ''}`}>
+                {t('nav.wishlist')}
+                {wishlistCount > 0 && (
+                  <span className="ms-2 bg-red-500 text-white text-xs font-bold rounded-full h-5 w-5 flex items-center justify-center">
+                    {formatNumber(wishlistCount)}
+                  </span>
+                )}
+              </Link>
+              <Link href={localize('/orders')} className={`text-gray-600 hover:text-blue-500 cursor-pointer ${path.startsWith('/orders') ? 'text-blue-500 font-semibold' : ''}`}>
+                {t('nav.orders')}
+              </Link>
+              {isStaff(user) && (
+                <Link href={localize('/admin')} className={`text-gray-600 hover:text-blue-500 cursor-pointer ${path.startsWith('/admin') ? 'text-blue-500 font-semibold' : ''}`}>
+                  {t('nav.admin')}
+                </Link>
+              )}
+              <span className="text-gray-800 font-medium" title={user.email}>{t('nav.greeting', { name: user.name.split(' ')[0] })}</span>
+              <button onClick={signOut} className="text-gray-600 hover:text-blue-500 cursor-pointer">
+                {t('nav.signOut')}
+              </button>
+            </>
+          ) : (
+            <Link href={localize(`/login?next=${encodeURIComponent(pathname)}`)} className={`text-gray-600 hover:text-blue-500 cursor-pointer ${path === '/login' ? 'text-blue-500 font-semibold' : ''}`}>
+              {t('nav.signIn')}
+            </Link>
+          )}
         </div>
       </div>
     </nav>
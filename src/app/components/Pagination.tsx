@@ -2,6 +2,7 @@
 'use client';
 
 import React from 'react';
+import { useTranslation } from '../lib/useTranslation';
 
 interface PaginationProps {
   currentPage: number;
@@ -9,6 +10,7 @@ interface PaginationProps {
   onPageChange: (page: number) => void;
   itemsPerPage: number;
   totalItems: number;
+  // Shows the items-per-page selector; leave it out for lists with a fixed page size
   onItemsPerPageChange?: (itemsPerPage: number) => void;
 }
 
@@ -20,6 +22,8 @@ const Pagination: React.FC<PaginationProps> = ({
   totalItems,
   onItemsPerPageChange,
 }) => {
+  const { t, formatNumber } = useTranslation();
+
   // Calculate range of items being displayed
   const startItem = (currentPage - 1) * itemsPerPage + 1;
   const endItem = Math.min(currentPage * itemsPerPage, totalItems);
@@ -73,7 +77,7 @@ const Pagination: React.FC<PaginationProps> = ({
     <div className="flex flex-col items-center space-y-4 mt-8">
       {/* Items info */}
       <div className="text-sm text-gray-600">
-        Showing {startItem} to {endItem} of {totalItems} books
+        {t('pagination.range', { from: startItem, to: endItem, count: totalItems })}
       </div>
 
       {/* Pagination controls */}
@@ -87,9 +91,9 @@ const Pagination: React.FC<PaginationProps> = ({
               ? 'bg-gray-100 text-gray-400 border-gray-200 cursor-not-allowed'
               : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50 hover:border-gray-400 cursor-pointer'
           }`}
-          aria-label="Previous page"
+          aria-label={t('pagination.previousPage')}
         >
-          Previous
+          {t('pagination.previous')}
         </button>
 
         {/* Page numbers */}
@@ -106,10 +110,10 @@ const Pagination: React.FC<PaginationProps> = ({
                       ? 'bg-blue-600 text-white border-blue-600'
                       : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50 hover:border-gray-400'
                   }`}
-                  aria-label={`Go to page ${page}`}
+                  aria-label={t('pagination.goToPage', { page: page as number })}
                   aria-current={currentPage === page ? 'page' : undefined}
                 >
-                  {page}
+                  {formatNumber(page as number)}
                 </button>
               )}
             </React.Fragment>
@@ -125,30 +129,29 @@ const Pagination: React.FC<PaginationProps> = ({
               ? 'bg-gray-100 text-gray-400 border-gray-200 cursor-not-allowed'
               : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50 hover:border-gray-400 cursor-pointer'
           }`}
-          aria-label="Next page"
+          aria-label={t('pagination.nextPage')}
         >
-          Next
+          {t('pagination.next')}
         </button>
       </div>
 
       {/* Items per page selector */}
-      <div className="flex items-center space-x-2 text-sm text-gray-600">
-        <span>Items per page:</span>
-        <select
-          value={itemsPerPage}
-          onChange={(e) => {
-            // Reset to page 1 when changing items per page
-            onPageChange(1);
-            // The parent component should handle the itemsPerPage change
-          }}
-          className="px-2 py-1 border border-gray-300 rounded text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-        >
-          <option value={8}>8</option>
-          <option value={12}>12</option>
-          <option value={16}>16</option>
-          <option value={24}>24</option>
-        </select>
-      </div>
+      {onItemsPerPageChange && (
+        <div className="flex items-center space-x-2 text-sm text-gray-600">
+          <span>{t('pagination.perPage')}</span>
+          <select
+            value={itemsPerPage}
+            // The parent refetches with the new page size and resets to page 1
+            onChange={(e) => onItemsPerPageChange(Number(e.target.value))}
+            className="px-2 py-1 border border-gray-300 rounded text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value={8}>8</option>
+            <option value={12}>12</option>
+            <option value={16}>16</option>
+            <option value={24}>24</option>
+          </select>
+        </div>
+      )}
     </div>
   );
 };
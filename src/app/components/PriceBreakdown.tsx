@@ -0,0 +1,58 @@
+// src/app/components/PriceBreakdown.tsx
+import React from 'react';
+import { DiscountLine } from '../types';
+import { formatPrice } from '../lib/currency';
+import { useTranslation } from '../lib/useTranslation';
+
+interface PriceBreakdownProps {
+  subtotal: number;
+  discounts: DiscountLine[];
+  shipping?: number; // Left out, the shipping and tax lines are not shown
+  tax?: number;
+  taxRate?: number;
+  total: number;
+  format?: (amount: number) => string; // Defaults to the base currency (what orders are charged in)
+  className?: string;
+}
+
+// Subtotal, one line per promotion, shipping, tax and the total, as shown on the cart, checkout and order pages
+const PriceBreakdown: React.FC<PriceBreakdownProps> = ({ subtotal, discounts, shipping, tax, taxRate, total, format = formatPrice, className = '' }) => {
+  const { t, formatNumber } = useTranslation();
+  return (
+    <div className={`space-y-2 ${className}`}>
+      {(discounts.length > 0 || shipping !== undefined) && (
+        <div className="flex justify-between text-gray-700">
+          <span>{t('pricing.subtotal')}</span>
+          <span>{format(subtotal)}</span>
+        </div>
+      )}
+      {discounts.map((discount) => (
+        <div key={discount.promotionId} className="flex justify-between gap-4 text-sm text-green-700">
+          <span>
+            {discount.description}
+            {discount.code && <span className="ms-2 px-2 py-0.5 rounded bg-green-100 font-mono text-xs">{discount.code}</span>}
+          </span>
+          <span className="whitespace-nowrap">-{format(discount.amount)}</span>
+        </div>
+      ))}
+      {shipping !== undefined && (
+        <div className="flex justify-between text-gray-700">
+          <span>{t('pricing.shipping')}</span>
+          <span>{shipping === 0 ? t('pricing.free') : format(shipping)}</span>
+        </div>
+      )}
+      {tax !== undefined && (
+        <div className="flex justify-between text-gray-700">
+          <span>{taxRate !== undefined ? t('pricing.taxAtRate', { rate: formatNumber(taxRate, { style: 'percent', maximumFractionDigits: 1 }) }) : t('pricing.tax')}</span>
+          <span>{format(tax)}</span>
+        </div>
+      )}
+      <div className="flex justify-between items-center text-xl font-bold text-gray-800">
+        <span>{t('pricing.total')}</span>
+        <span>{format(total)}</span>
+      </div>
+    </div>
+  );
+};
+
+export default PriceBreakdown;
@@ -0,0 +1,63 @@
+// src/app/components/RatingHistogram.tsx
+'use client';
+
+import React from 'react';
+import { RatingSummary, StarRating } from '../types';
+import { STAR_RATINGS } from '../lib/reviews';
+import { useTranslation } from '../lib/useTranslation';
+
+interface RatingHistogramProps {
+  summary: RatingSummary;
+  selected: StarRating | null;
+  onSelect: (rating: StarRating | null) => void;
+}
+
+// 5-to-1 star distribution of a book's reviews. Clicking a bar filters the reviews to that
+// star value; clicking the selected bar again clears the filter.
+const RatingHistogram: React.FC<RatingHistogramProps> = ({ summary, selected, onSelect }) => {
+  const { t, formatNumber } = useTranslation();
+
+  return (
+    <div className="mb-8 p-6 bg-white rounded-lg shadow-md border border-gray-200 flex flex-col sm:flex-row gap-6">
+      <div className="text-center sm:w-40 shrink-0">
+        <div className="text-4xl font-bold text-gray-800">{formatNumber(summary.average, { minimumFractionDigits: 1, maximumFractionDigits: 1 })}</div>
+        <div className="text-yellow-400 text-lg" aria-hidden="true">
+          {'★'.repeat(Math.round(summary.average))}
+          <span className="text-gray-300">{'★'.repeat(5 - Math.round(summary.average))}</span>
+        </div>
+        <div className="text-sm text-gray-600">
+          {t('reviews.count', { count: summary.total })}
+        </div>
+      </div>
+
+      <ul className="flex-1 space-y-2">
+        {STAR_RATINGS.map((stars) => {
+          const count = summary.distribution[stars];
+          const percent = summary.total > 0 ? Math.round((count / summary.total) * 100) : 0;
+          const isSelected = selected === stars;
+          return (
+            <li key={stars}>
+              <button
+                onClick={() => onSelect(isSelected ? null : stars)}
+                disabled={count === 0 && !isSelected}
+                aria-pressed={isSelected}
+                aria-label={t('reviews.starBar', { stars, reviews: t('reviews.count', { count }) })}
+                className={`w-full flex items-center gap-3 px-2 py-1 rounded-md text-sm transition-colors cursor-pointer disabled:cursor-default disabled:opacity-50 ${
+                  isSelected ? 'bg-blue-50 ring-1 ring-blue-300' : 'hover:bg-gray-50'
+                }`}
+              >
+                <span className="w-12 text-start text-gray-700">{formatNumber(stars)} ★</span>
+                <span className="flex-1 h-3 bg-gray-200 rounded-full overflow-hidden">
+                  <span className="block h-full bg-yellow-400" style={{ width: `${percent}%` }} />
+                </span>
+                <span className="w-16 text-end text-gray-600">{formatNumber(percent / 100, { style: 'percent' })}</span>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default RatingHistogram;
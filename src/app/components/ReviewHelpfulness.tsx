@@ -0,0 +1,88 @@
+// src/app/components/ReviewHelpfulness.tsx
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { Review, VoteValue } from '../types';
+import { MessageKey } from '../lib/i18n';
+import { useTranslation } from '../lib/useTranslation';
+
+interface ReviewHelpfulnessProps {
+  review: Review;
+  vote: VoteValue | null; // The signed-in visitor's vote, if any
+  onVoted: (review: Review, vote: VoteValue | null) => void;
+}
+
+const VOTE_OPTIONS: { value: VoteValue; label: MessageKey; countKey: 'helpfulCount' | 'unhelpfulCount' }[] = [
+  { value: 'helpful', label: 'reviews.yes', countKey: 'helpfulCount' },
+  { value: 'unhelpful', label: 'reviews.no', countKey: 'unhelpfulCount' },
+];
+
+// "Was this review helpful?" with Yes / No buttons. Clicking the current vote again withdraws it.
+const ReviewHelpfulness: React.FC<ReviewHelpfulnessProps> = ({ review, vote, onVoted }) => {
+  const [isSaving, setIsSaving] = useState(false);
+  const [needsSignIn, setNeedsSignIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { t, localize, formatNumber } = useTranslation();
+
+  const handleVote = async (value: VoteValue) => {
+    const nextVote = vote === value ? null : value;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/reviews/${encodeURIComponent(review.id)}/vote`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ vote: nextVote }),
+      });
+      if (res.status === 401) {
+        setNeedsSignIn(true);
+        return;
+      }
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(data.error || data.message || t('reviews.voteFailed'));
+        return;
+      }
+      setNeedsSignIn(false);
+      onVoted(data.review, data.vote ?? null);
+    } catch (err) {
+      console.error('Vote error', err);
+      setError(t('reviews.voteFailed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+      <span>{t('reviews.wasHelpful')}</span>
+      {VOTE_OPTIONS.map(({ value, label, countKey }) => (
+        <button
+          key={value}
+          onClick={() => handleVote(value)}
+          disabled={isSaving}
+          aria-pressed={vote === value}
+          className={`px-3 py-1 rounded-full border transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-wait ${
+            vote === value
+              ? 'bg-blue-500 border-blue-500 text-white'
+              : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+          }`}
+        >
+          {t(label)} ({formatNumber(review[countKey])})
+        </button>
+      ))}
+      {needsSignIn && (
+        <span>
+          <Link href={localize(`/login?next=${encodeURIComponent(localize(`/book/${review.bookId}`))}`)} className="text-blue-600 hover:underline">
+            {t('reviews.signIn')}
+          </Link>{' '}
+          {t('reviews.toVote')}
+        </span>
+      )}
+      {error && <span className="text-red-600">{error}</span>}
+    </div>
+  );
+};
+
+export default ReviewHelpfulness;
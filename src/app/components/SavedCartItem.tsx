@@ -0,0 +1,62 @@
+// src/app/components/SavedCartItem.tsx
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { Book } from '../types';
+import AvailabilityBadge from './AvailabilityBadge';
+import { isPurchasable } from '../lib/inventory';
+import { useCurrency } from '../lib/useCurrency';
+import { useTranslation } from '../lib/useTranslation';
+
+interface SavedCartItemProps {
+  item: { book: Book; quantity: number };
+  onMoveToCart: () => void;
+  onRemoveItem: () => void;
+  error?: string | null; // Why the item could not go back into the cart
+}
+
+// A saved-for-later row under the cart: no quantity controls and no subtotal
+const SavedCartItem: React.FC<SavedCartItemProps> = ({ item, onMoveToCart, onRemoveItem, error }) => {
+  const { book, quantity } = item;
+  const purchasable = isPurchasable(book);
+  const { format } = useCurrency();
+  const { t, localize, formatNumber } = useTranslation();
+
+  return (
+    <div className="flex items-center justify-between p-4 border-b border-gray-200">
+      <div className="flex items-center space-x-4">
+        <div className="relative h-24 w-16 bg-gray-200 flex items-center justify-center rounded-md">
+          {/* Book Icon Placeholder */}
+          <div className="text-2xl text-gray-400">📚</div>
+        </div>
+        <div>
+          <Link href={localize(`/book/${book.id}`)} className="text-lg font-semibold text-gray-800 hover:text-blue-500 cursor-pointer">
+            {book.title}
+          </Link>
+          <p className="text-sm text-gray-600">{t('book.by')} {book.author}</p>
+          <p className="text-md font-bold text-gray-900 mt-1">
+            {format(book.price)}
+            {quantity > 1 && <span className="text-sm font-normal text-gray-600"> × {formatNumber(quantity)}</span>}
+          </p>
+          <AvailabilityBadge book={book} className="mt-1" />
+          {error && <p className="text-sm text-red-600 mt-1">{error}</p>}
+        </div>
+      </div>
+      <div className="flex flex-col items-end gap-2">
+        <button
+          onClick={onMoveToCart}
+          disabled={!purchasable}
+          className="px-4 py-2 text-sm rounded-md bg-blue-500 text-white hover:bg-blue-600 transition-colors cursor-pointer disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          {t('cart.moveToCart')}
+        </button>
+        <button onClick={onRemoveItem} className="text-red-500 hover:text-red-700 font-semibold cursor-pointer">
+          {t('cart.remove')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SavedCartItem;
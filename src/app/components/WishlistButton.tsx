@@ -0,0 +1,135 @@
+// src/app/components/WishlistButton.tsx
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { WishlistItem } from '../types';
+import { useTranslation } from '../lib/useTranslation';
+
+interface WishlistButtonProps {
+  bookId: string;
+  showLabel?: boolean; // "Add to Wishlist" text next to the heart (book page)
+  className?: string;
+}
+
+// Book ids on the signed-in visitor's wishlist, or null when signed out. Shared by every
+// WishlistButton on the page so a grid of books makes a single request.
+let wishlistRequest: Promise<Set<string> | null> | null = null;
+
+function fetchWishlistBookIds(): Promise<Set<string> | null> {
+  if (!wishlistRequest) {
+    wishlistRequest = fetch('/api/wishlist')
+      .then(async (res) => {
+        if (!res.ok) return null; // 401 when signed out
+        const items: WishlistItem[] = await res.json();
+        return new Set(items.map((item) => item.bookId));
+      })
+      .catch((err) => {
+        console.error('Error fetching wishlist', err);
+        wishlistRequest = null;
+        return null;
+      });
+  }
+  return wishlistRequest;
+}
+
+// Registered once, before any button's own listener, so the buttons re-read fresh data
+if (typeof window !== 'undefined') {
+  const resetWishlist = () => {
+    wishlistRequest = null;
+  };
+  window.addEventListener('wishlistUpdated', resetWishlist);
+  window.addEventListener('authChanged', resetWishlist);
+}
+
+// Heart toggle that adds a book to, or removes it from, the visitor's wishlist.
+// Signed-out visitors are sent to the sign-in page.
+const WishlistButton: React.FC<WishlistButtonProps> = ({ bookId, showLabel = false, className = '' }) => {
+  const [isSignedIn, setIsSignedIn] = useState(false);
+  const [isWishlisted, setIsWishlisted] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const pathname = usePathname();
+  const router = useRouter();
+  const { t, localize } = useTranslation();
+
+  useEffect(() => {
+    let mounted = true;
+
+    const syncState = async () => {
+      const bookIds = await fetchWishlistBookIds();
+      if (mounted) {
+        setIsSignedIn(bookIds !== null);
+        setIsWishlisted(bookIds?.has(bookId) ?? false);
+      }
+    };
+
+    syncState();
+    window.addEventListener('wishlistUpdated', syncState);
+    window.addEventListener('authChanged', syncState);
+    return () => {
+      mounted = false;
+      window.removeEventListener('wishlistUpdated', syncState);
+      window.removeEventListener('authChanged', syncState);
+    };
+  }, [bookId]);
+
+  const goToSignIn = () => router.push(localize(`/login?next=${encodeURIComponent(pathname)}`));
+
+  const handleClick = async (e: React.MouseEvent) => {
+    e.preventDefault(); // The button sits inside book links on the cards
+    e.stopPropagation();
+    if (isSaving) return;
+    if (!isSignedIn) {
+      goToSignIn();
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const res = isWishlisted
+        ? await fetch(`/api/wishlist?bookId=${encodeURIComponent(bookId)}`, { method: 'DELETE' })
+        : await fetch('/api/wishlist', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ bookId }),
+          });
+      if (res.status === 401) {
+        goToSignIn();
+        return;
+      }
+      if (!res.ok) {
+        console.error('Failed to update wishlist', await res.json().catch(() => ({})));
+        return;
+      }
+      setIsWishlisted(!isWishlisted);
+      window.dispatchEvent(new CustomEvent('wishlistUpdated'));
+    } catch (err) {
+      console.error('Wishlist error', err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const label = isWishlisted ? t('wishlist.remove') : t('wishlist.add');
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={isSaving}
+      aria-pressed={isWishlisted}
+      aria-label={label}
+      title={label}
+      className={`inline-flex items-center gap-2 cursor-pointer disabled:cursor-wait transition-colors ${
+        isWishlisted ? 'text-red-500 hover:text-red-600' : 'text-gray-400 hover:text-red-500'
+      } ${className}`}
+    >
+      <svg className="w-6 h-6" viewBox="0 0 24 24" fill={isWishlisted ? 'currentColor' : 'none'} stroke="currentColor" strokeWidth={2}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" />
+      </svg>
+      {showLabel && <span className="text-sm font-medium">{label}</span>}
+    </button>
+  );
+};
+
+export default WishlistButton;
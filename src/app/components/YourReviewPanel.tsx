@@ -0,0 +1,256 @@
+// src/app/components/YourReviewPanel.tsx
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Review, User } from '../types';
+import { useTranslation } from '../lib/useTranslation';
+
+interface YourReviewPanelProps {
+  bookId: string;
+  onChanged: () => void; // A write may change the published reviews and the book's rating
+}
+
+type ReviewDraft = { rating: number; title: string; comment: string };
+
+const EMPTY_DRAFT: ReviewDraft = { rating: 5, title: '', comment: '' };
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const STATUS_BADGE_CLASSES: Record<Review['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+};
+
+// Field errors from the API, flattened for display
+function describeErrors(data: { error?: string; errors?: Record<string, string> }, fallback: string): string {
+  if (data.errors) {
+    return Object.entries(data.errors).map(([field, message]) => `${field}: ${message}`).join(' ');
+  }
+  return data.error || fallback;
+}
+
+// The signed-in visitor's own review of a book: write it, or edit and delete it
+const YourReviewPanel: React.FC<YourReviewPanelProps> = ({ bookId, onChanged }) => {
+  const [user, setUser] = useState<User | null>(null);
+  const [review, setReview] = useState<Review | null>(null);
+  const [draft, setDraft] = useState<ReviewDraft>(EMPTY_DRAFT);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const { t, localize, formatNumber } = useTranslation();
+
+  useEffect(() => {
+    let mounted = true;
+
+    const fetchOwnReview = async () => {
+      try {
+        setIsLoading(true);
+        const meRes = await fetch('/api/auth/me');
+        const meData = meRes.ok ? await meRes.json() : null;
+        if (!meData?.user) {
+          if (mounted) setUser(null);
+          return;
+        }
+        const res = await fetch(`/api/reviews/mine?bookId=${encodeURIComponent(bookId)}`);
+        if (!res.ok) throw new Error(t('yourReview.loadFailed', { status: String(res.status) }));
+        const data = await res.json();
+        if (mounted) {
+          setUser(meData.user);
+          setReview(data.review ?? null);
+        }
+      } catch (err) {
+        console.error(err);
+        if (mounted) setError(err instanceof Error ? err.message : t('yourReview.loadError'));
+      } finally {
+        if (mounted) setIsLoading(false);
+      }
+    };
+
+    fetchOwnReview();
+    // Signing in or out from the navbar changes whose review this is
+    const authHandler = () => fetchOwnReview();
+    window.addEventListener('authChanged', authHandler);
+    return () => {
+      mounted = false;
+      window.removeEventListener('authChanged', authHandler);
+    };
+  }, [bookId, t]);
+
+  const startEditing = () => {
+    if (review) setDraft({ rating: review.rating, title: review.title, comment: review.comment });
+    setIsEditing(true);
+    setMessage(null);
+    setError(null);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setDraft((prev) => ({ ...prev, [name]: name === 'rating' ? Number(value) : value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setMessage(null);
+    setError(null);
+    try {
+      const res = review
+        ? await fetch(`/api/reviews/${encodeURIComponent(review.id)}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(draft),
+          })
+        : await fetch('/api/reviews', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ...draft, bookId }),
+          });
+      const data = await res.json().catch(() => ({}));
+      if (res.status === 409 && data.review) {
+        // Already reviewed (e.g. from another tab): show that review instead
+        setReview(data.review);
+        setIsEditing(false);
+        setMessage(t('yourReview.alreadyReviewed'));
+        return;
+      }
+      if (!res.ok) {
+        setError(describeErrors(data, t('yourReview.saveFailed')));
+        return;
+      }
+      setReview(data.review);
+      setIsEditing(false);
+      setMessage(data.review.status === 'pending' ? t('yourReview.awaitingApproval') : null);
+      onChanged();
+    } catch (err) {
+      console.error('Save review error', err);
+      setError(t('yourReview.saveFailed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!review) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/reviews/${encodeURIComponent(review.id)}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        setError(data.error || t('yourReview.deleteFailed'));
+        return;
+      }
+      setReview(null);
+      setDraft(EMPTY_DRAFT);
+      setMessage(t('yourReview.deleted'));
+      onChanged();
+    } catch (err) {
+      console.error('Delete review error', err);
+      setError(t('yourReview.deleteFailed'));
+    } finally {
+      setIsSaving(false);
+      setIsConfirmingDelete(false);
+    }
+  };
+
+  if (isLoading) return null;
+
+  if (!user) {
+    return (
+      <div className="mb-8 p-4 bg-white rounded-lg shadow-sm border border-gray-200 text-gray-600">
+        <Link href={localize(`/login?next=${encodeURIComponent(localize(`/book/${bookId}`))}`)} className="text-blue-600 hover:underline">
+          {t('reviews.signIn')}
+        </Link>{' '}
+        {t('yourReview.toReview')}
+      </div>
+    );
+  }
+
+  const showForm = !review || isEditing;
+
+  return (
+    <section className="mb-8 p-6 bg-white rounded-lg shadow-md border border-blue-100" aria-labelledby="your-review-heading">
+      <h3 id="your-review-heading" className="text-lg font-semibold text-gray-800 mb-4">
+        {review ? t('yourReview.title') : t('yourReview.write')}
+      </h3>
+
+      {message && <p className="mb-4 text-sm text-blue-800 bg-blue-50 p-3 rounded-md">{message}</p>}
+
+      {showForm ? (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="review-rating" className="block text-sm font-medium text-gray-700 mb-1">{t('yourReview.rating')}</label>
+            <select id="review-rating" name="rating" value={draft.rating} onChange={handleChange} className={`${inputClassName} w-auto`}>
+              {[5, 4, 3, 2, 1].map((value) => (
+                <option key={value} value={value}>{'★'.repeat(value)} ({formatNumber(value)})</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="review-title" className="block text-sm font-medium text-gray-700 mb-1">{t('yourReview.reviewTitle')}</label>
+            <input id="review-title" name="title" type="text" required maxLength={200} value={draft.title} onChange={handleChange} className={inputClassName} />
+          </div>
+          <div>
+            <label htmlFor="review-comment" className="block text-sm font-medium text-gray-700 mb-1">{t('yourReview.comment')}</label>
+            <textarea id="review-comment" name="comment" required rows={4} maxLength={5000} value={draft.comment} onChange={handleChange} className={inputClassName} />
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-6 py-2 rounded-md bg-blue-500 text-white font-semibold hover:bg-blue-600 transition-colors cursor-pointer disabled:bg-blue-300 disabled:cursor-wait"
+            >
+              {isSaving ? t('common.saving') : review ? t('common.saveChanges') : t('yourReview.submit')}
+            </button>
+            {review && (
+              <button type="button" onClick={() => setIsEditing(false)} className="px-4 py-2 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 cursor-pointer">
+                {t('common.cancel')}
+              </button>
+            )}
+          </div>
+        </form>
+      ) : review && (
+        <div>
+          <div className="flex flex-wrap items-center gap-2 mb-2">
+            <span className="text-yellow-400" aria-label={t('yourReview.starsLabel', { count: review.rating })}>
+              {'★'.repeat(review.rating)}<span className="text-gray-300">{'★'.repeat(5 - review.rating)}</span>
+            </span>
+            <span className={`text-xs px-2 py-1 rounded-full ${STATUS_BADGE_CLASSES[review.status]}`}>
+              {review.status === 'approved' ? t('yourReview.published') : t(`reviewStatus.${review.status}`)}
+            </span>
+            {review.verified && <span className="text-xs bg-green-100 text-green-800 px-2 py-1 rounded-full">{t('reviews.verified')}</span>}
+          </div>
+          <h4 className="font-semibold text-gray-800">{review.title}</h4>
+          <p className="text-gray-700 mt-1 whitespace-pre-line">{review.comment}</p>
+          {review.status === 'rejected' && review.moderationReason && (
+            <p className="mt-2 text-sm text-red-700">{t('yourReview.rejected', { reason: review.moderationReason })}</p>
+          )}
+          {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+          <div className="flex items-center gap-4 mt-4 text-sm">
+            <button onClick={startEditing} className="text-blue-600 hover:underline cursor-pointer">{t('common.edit')}</button>
+            {isConfirmingDelete ? (
+              <span className="inline-flex items-center gap-2">
+                <span className="text-gray-600">{t('yourReview.confirmDelete')}</span>
+                <button onClick={handleDelete} disabled={isSaving} className="text-red-600 font-semibold hover:underline cursor-pointer disabled:opacity-50">
+                  {isSaving ? t('common.deleting') : t('common.confirmDelete')}
+                </button>
+                <button onClick={() => setIsConfirmingDelete(false)} className="text-gray-600 hover:underline cursor-pointer">{t('common.cancel')}</button>
+              </span>
+            ) : (
+              <button onClick={() => setIsConfirmingDelete(true)} className="text-red-600 hover:underline cursor-pointer">{t('common.delete')}</button>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default YourReviewPanel;
@@ -19,7 +19,8 @@ export const books: Book[] = [
     publisher: 'Al-Biruni Academic Press',
     rating: 4.8,
     reviewCount: 23,
-    inStock: true,
+    stock: 31,
+    allowBackorder: false,
     featured: true,
   },
   {
@@ -38,7 +39,8 @@ export const books: Book[] = [
     publisher: 'Al-Biruni Academic Press',
     rating: 4.8,
     reviewCount: 23,
-    inStock: true,
+    stock: 3,
+    allowBackorder: false,
     featured: true,
   },
   {
@@ -57,7 +59,8 @@ export const books: Book[] = [
     publisher: 'Ibn Sina Publications',
     rating: 4.9,
     reviewCount: 18,
-    inStock: true,
+    stock: 15,
+    allowBackorder: false,
     featured: true,
   },
   // Astronomy Textbooks
@@ -77,7 +80,8 @@ export const books: Book[] = [
     publisher: 'Al-Sufi Astronomical Society',
     rating: 4.7,
     reviewCount: 12,
-    inStock: false,
+    stock: 0,
+    allowBackorder: false,
     featured: false,
   },
   {
@@ -96,7 +100,8 @@ export const books: Book[] = [
     publisher: 'Al-Kindi Scientific Press',
     rating: 4.8,
     reviewCount: 9,
-    inStock: true,
+    stock: 8,
+    allowBackorder: false,
     featured: true,
   },
   // Architecture Textbooks
@@ -116,7 +121,8 @@ export const books: Book[] = [
     publisher: 'Al-Muhandis Publications',
     rating: 4.9,
     reviewCount: 15,
-    inStock: true,
+    stock: 2,
+    allowBackorder: false,
     featured: false,
   },
   {
@@ -135,7 +141,8 @@ export const books: Book[] = [
     publisher: 'Al-Madina Urban Studies',
     rating: 4.6,
     reviewCount: 2,
-    inStock: true,
+    stock: 31,
+    allowBackorder: false,
     featured: false,
   },
   // Mathematics Textbooks
@@ -155,7 +162,8 @@ export const books: Book[] = [
     publisher: 'Al-Khwarizmi Mathematical Society',
     rating: 4.7,
     reviewCount: 21,
-    inStock: true,
+    stock: 12,
+    allowBackorder: false,
     featured: false,
   },
   {
@@ -174,7 +182,8 @@ export const books: Book[] = [
     publisher: 'Ibn Qurra Academic Press',
     rating: 4.8,
     reviewCount: 16,
-    inStock: true,
+    stock: 5,
+    allowBackorder: false,
     featured: true,
   },
   // Biology Textbooks
@@ -194,7 +203,8 @@ export const books: Book[] = [
     publisher: 'Al-Zahrawi Medical Sciences',
     rating: 4.9,
     reviewCount: 14,
-    inStock: true,
+    stock: 19,
+    allowBackorder: false,
     featured: true,
   },
   {
@@ -213,7 +223,8 @@ export const books: Book[] = [
     publisher: 'Al-Jahiz Environmental Studies',
     rating: 4.6,
     reviewCount: 10,
-    inStock: true,
+    stock: 24,
+    allowBackorder: false,
     featured: false,
   },
   // Chemistry Textbooks
@@ -233,7 +244,8 @@ export const books: Book[] = [
     publisher: 'Al-Kindi Chemical Sciences',
     rating: 4.8,
     reviewCount: 17,
-    inStock: true,
+    stock: 3,
+    allowBackorder: false,
     featured: true,
   },
   {
@@ -252,7 +264,8 @@ export const books: Book[] = [
     publisher: 'Ibn Hayyan Publications',
     rating: 4.7,
     reviewCount: 13,
-    inStock: false,
+    stock: 0,
+    allowBackorder: true,
     featured: false,
   },
   // Computer Science
@@ -272,7 +285,8 @@ export const books: Book[] = [
     publisher: 'Al-Khawarizmi Computing',
     rating: 4.9,
     reviewCount: 22,
-    inStock: true,
+    stock: 40,
+    allowBackorder: false,
     featured: true,
   },
   // Engineering
@@ -292,7 +306,8 @@ export const books: Book[] = [
     publisher: 'Al-Muhandis Technical Press',
     rating: 4.7,
     reviewCount: 15,
-    inStock: true,
+    stock: 8,
+    allowBackorder: false,
     featured: false,
   },
   // Earth Sciences
@@ -312,7 +327,8 @@ export const books: Book[] = [
     publisher: 'Al-Biruni Earth Sciences',
     rating: 4.8,
     reviewCount: 9,
-    inStock: true,
+    stock: 2,
+    allowBackorder: false,
     featured: true,
   },
   // Additional Physics Books
@@ -332,7 +348,8 @@ export const books: Book[] = [
     publisher: 'Al-Farabi Physics Press',
     rating: 3.8,
     reviewCount: 18,
-    inStock: true,
+    stock: 31,
+    allowBackorder: false,
     featured: false,
   },
   {
@@ -351,7 +368,8 @@ export const books: Book[] = [
     publisher: 'Ibn Sina Scientific',
     rating: 4.5,
     reviewCount: 21,
-    inStock: false,
+    stock: 0,
+    allowBackorder: false,
     featured: true,
   },
   // Additional Mathematics Books
@@ -371,7 +389,8 @@ export const books: Book[] = [
     publisher: 'Al-Kindi Mathematical Institute',
     rating: 4.2,
     reviewCount: 16,
-    inStock: true,
+    stock: 5,
+    allowBackorder: false,
     featured: false,
   },
   {
@@ -390,7 +409,8 @@ export const books: Book[] = [
     publisher: 'Al-Jabir Cryptographic Press',
     rating: 4.7,
     reviewCount: 9,
-    inStock: true,
+    stock: 19,
+    allowBackorder: false,
     featured: true,
   },
   {
@@ -409,7 +429,8 @@ export const books: Book[] = [
     publisher: 'Al-Biruni Advanced Mathematics',
     rating: 3.6,
     reviewCount: 3,
-    inStock: true,
+    stock: 24,
+    allowBackorder: false,
     featured: false,
   },
   // Additional Biology Books
@@ -429,7 +450,8 @@ export const books: Book[] = [
     publisher: 'Al-Razi Medical Sciences',
     rating: 4.8,
     reviewCount: 23,
-    inStock: true,
+    stock: 3,
+    allowBackorder: false,
     featured: true,
   },
   {
@@ -448,7 +470,8 @@ export const books: Book[] = [
     publisher: 'Ibn Sina Medical Press',
     rating: 4.3,
     reviewCount: 15,
-    inStock: true,
+    stock: 15,
+    allowBackorder: false,
     featured: false,
   },
   {
@@ -467,7 +490,8 @@ export const books: Book[] = [
     publisher: 'Al-Jahiz Botanical Society',
     rating: 4.1,
     reviewCount: 12,
-    inStock: false,
+    stock: 0,
+    allowBackorder: false,
     featured: false,
   },
   // Additional Chemistry Books
@@ -487,7 +511,8 @@ export const books: Book[] = [
     publisher: 'Al-Kindi Analytical Sciences',
     rating: 4.4,
     reviewCount: 18,
-    inStock: true,
+    stock: 8,
+    allowBackorder: false,
     featured: false,
   },
   {
@@ -506,7 +531,8 @@ export const books: Book[] = [
     publisher: 'Ibn Hayyan Materials Institute',
     rating: 3.9,
     reviewCount: 14,
-    inStock: true,
+    stock: 2,
+    allowBackorder: false,
     featured: false,
   },
   // Additional Computer Science Books
@@ -526,7 +552,8 @@ export const books: Book[] = [
     publisher: 'Al-Jazari AI Institute',
     rating: 4.6,
     reviewCount: 32,
-    inStock: true,
+    stock: 31,
+    allowBackorder: false,
     featured: true,
   },
   {
@@ -545,7 +572,8 @@ export const books: Book[] = [
     publisher: 'Al-Kindi Data Sciences',
     rating: 4.2,
     reviewCount: 21,
-    inStock: true,
+    stock: 12,
+    allowBackorder: false,
     featured: false,
   },
   {
@@ -564,7 +592,8 @@ export const books: Book[] = [
     publisher: 'Al-Biruni Network Systems',
     rating: 4.0,
     reviewCount: 16,
-    inStock: true,
+    stock: 5,
+    allowBackorder: false,
     featured: false,
   },
   // Additional Engineering Books
@@ -584,7 +613,8 @@ export const books: Book[] = [
     publisher: 'Al-Jazari Engineering Press',
     rating: 4.5,
     reviewCount: 19,
-    inStock: true,
+    stock: 19,
+    allowBackorder: false,
     featured: true,
   },
   {
@@ -603,7 +633,8 @@ export const books: Book[] = [
     publisher: 'Al-Kindi Electrical Institute',
     rating: 4.3,
     reviewCount: 21,
-    inStock: false,
+    stock: 0,
+    allowBackorder: true,
     featured: false,
   },
   {
@@ -622,7 +653,8 @@ export const books: Book[] = [
     publisher: 'Al-Muhandis Technical Press',
     rating: 4.1,
     reviewCount: 15,
-    inStock: true,
+    stock: 3,
+    allowBackorder: false,
     featured: false,
   },
   // Additional Specialized Sciences
@@ -642,7 +674,8 @@ export const books: Book[] = [
     publisher: 'Al-Jahiz Environmental Press',
     rating: 4.4,
     reviewCount: 18,
-    inStock: true,
+    stock: 15,
+    allowBackorder: false,
     featured: false,
   },
   {
@@ -661,7 +694,8 @@ export const books: Book[] = [
     publisher: 'Al-Kindi Nanoscience Institute',
     rating: 4.7,
     reviewCount: 14,
-    inStock: true,
+    stock: 40,
+    allowBackorder: false,
     featured: true,
   },
   {
@@ -680,7 +714,8 @@ export const books: Book[] = [
     publisher: 'Al-Biruni Marine Institute',
     rating: 3.8,
     reviewCount: 10,
-    inStock: true,
+    stock: 8,
+    allowBackorder: false,
     featured: false,
   },
   {
@@ -699,7 +734,8 @@ export const books: Book[] = [
     publisher: 'Al-Sufi Atmospheric Sciences',
     rating: 4.0,
     reviewCount: 12,
-    inStock: false,
+    stock: 0,
+    allowBackorder: false,
     featured: false,
   },
   // Additional Medical Sciences
@@ -719,7 +755,8 @@ export const books: Book[] = [
     publisher: 'Al-Razi Medical Education',
     rating: 4.6,
     reviewCount: 28,
-    inStock: true,
+    stock: 31,
+    allowBackorder: false,
     featured: true,
   },
   {
@@ -738,7 +775,8 @@ export const books: Book[] = [
     publisher: 'Ibn Sina Pharmaceutical Press',
     rating: 4.2,
     reviewCount: 19,
-    inStock: true,
+    stock: 12,
+    allowBackorder: false,
     featured: false,
   },
   // Additional Interdisciplinary Sciences
@@ -758,7 +796,8 @@ export const books: Book[] = [
     publisher: 'Al-Khwarizmi Bioinformatics',
     rating: 4.4,
     reviewCount: 15,
-    inStock: true,
+    stock: 5,
+    allowBackorder: false,
     featured: false,
   },
   {
@@ -777,7 +816,8 @@ export const books: Book[] = [
     publisher: 'Al-Farabi Theoretical Physics',
     rating: 3.7,
     reviewCount: 0,
-    inStock: true,
+    stock: 19,
+    allowBackorder: false,
     featured: false,
   },
   {
@@ -796,7 +836,8 @@ export const books: Book[] = [
     publisher: 'Al-Kindi Economic Mathematics',
     rating: 4.1,
     reviewCount: 0,
-    inStock: true,
+    stock: 24,
+    allowBackorder: false,
     featured: false,
   },
   {
@@ -815,7 +856,8 @@ export const books: Book[] = [
     publisher: 'Al-Farabi Cognitive Institute',
     rating: 4.3,
     reviewCount: 21,
-    inStock: false,
+    stock: 0,
+    allowBackorder: false,
     featured: false,
   },
   {
@@ -834,7 +876,8 @@ export const books: Book[] = [
     publisher: 'Al-Jazari Energy Institute',
     rating: 4.5,
     reviewCount: 18,
-    inStock: true,
+    stock: 15,
+    allowBackorder: false,
     featured: true,
   },
   {
@@ -853,7 +896,8 @@ export const books: Book[] = [
     publisher: 'Al-Battani Space Sciences',
     rating: 4.2,
     reviewCount: 14,
-    inStock: true,
+    stock: 40,
+    allowBackorder: false,
     featured: false,
   },
   {
@@ -872,7 +916,8 @@ export const books: Book[] = [
     publisher: 'Al-Jazari Robotics Institute',
     rating: 4.6,
     reviewCount: 1,
-    inStock: true,
+    stock: 8,
+    allowBackorder: false,
     featured: true,
   },
   {
@@ -891,7 +936,8 @@ export const books: Book[] = [
     publisher: 'Al-Kindi Quantum Institute',
     rating: 4.8,
     reviewCount: 16,
-    inStock: true,
+    stock: 2,
+    allowBackorder: false,
     featured: true,
   }
 ];
@@ -0,0 +1,16 @@
+// src/app/data/currencies.ts
+import { Currency, CurrencyCode } from '../types';
+
+// Book prices, carts and orders are stored in the base currency; the other currencies are
+// for display only. There is no live feed: update the rates here when they move.
+export const BASE_CURRENCY: CurrencyCode = 'USD';
+
+export const RATES_UPDATED_AT = '2026-10-01';
+
+export const currencies: Currency[] = [
+  { code: 'USD', name: 'US Dollar', locale: 'en-US', rate: 1 },
+  { code: 'JOD', name: 'Jordanian Dinar', locale: 'en-JO', rate: 0.709 },
+  { code: 'SAR', name: 'Saudi Riyal', locale: 'en-SA', rate: 3.75 },
+  { code: 'AED', name: 'UAE Dirham', locale: 'en-AE', rate: 3.6725 },
+  { code: 'EGP', name: 'Egyptian Pound', locale: 'en-EG', rate: 48.6 },
+];
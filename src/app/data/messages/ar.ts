@@ -0,0 +1,450 @@
+// src/app/data/messages/ar.ts
+import type { MessageCatalog } from '../../lib/i18n';
+
+// Arabic UI messages. Counted messages use the Arabic plural forms (zero, one, two, few, many, other).
+const ar: MessageCatalog = {
+  meta: {
+    title: 'مكتبة أمانة',
+    description: 'مكتبة إلكترونية حديثة مبنية باستخدام Next.js و Tailwind CSS.',
+  },
+  common: {
+    loading: 'جارٍ التحميل...',
+    error: 'خطأ: {message}',
+    backToHome: 'العودة إلى الرئيسية',
+    cancel: 'إلغاء',
+    edit: 'تعديل',
+    delete: 'حذف',
+    confirmDelete: 'نعم، احذف',
+    deleting: 'جارٍ الحذف...',
+    saving: 'جارٍ الحفظ...',
+    saveChanges: 'حفظ التغييرات',
+    yes: 'نعم',
+    no: 'لا',
+    removeValue: 'إزالة {value}',
+  },
+  nav: {
+    brand: 'مكتبة أمانة',
+    home: 'الرئيسية',
+    cart: 'سلتي',
+    currency: 'العملة',
+    ratesAsOf: 'أسعار الصرف بتاريخ {date}',
+    wishlist: 'المفضلة',
+    orders: 'طلباتي',
+    admin: 'الإدارة',
+    greeting: 'مرحبًا، {name}',
+    signOut: 'تسجيل الخروج',
+    signIn: 'تسجيل الدخول',
+  },
+  currencies: {
+    USD: 'دولار أمريكي',
+    JOD: 'دينار أردني',
+    SAR: 'ريال سعودي',
+    AED: 'درهم إماراتي',
+    EGP: 'جنيه مصري',
+  },
+  home: {
+    title: 'أهلًا بك في مكتبة أمانة!',
+    subtitle: 'وجهتك الأولى لأفضل الكتب. اكتشف عوالم ومغامرات جديدة.',
+  },
+  grid: {
+    featured: 'كتب مميزة',
+    featuredPage: 'الانتقال إلى صفحة الكتب المميزة {page}',
+    previousFeatured: 'الكتب المميزة السابقة',
+    nextFeatured: 'الكتب المميزة التالية',
+    featuredRange: {
+      one: 'عرض {from} - {to} من كتاب مميز واحد',
+      two: 'عرض {from} - {to} من كتابين مميزين',
+      few: 'عرض {from} - {to} من {count} كتب مميزة',
+      other: 'عرض {from} - {to} من {count} كتابًا مميزًا',
+    },
+    searchPlaceholder: 'ابحث بالعنوان أو المؤلف أو الوصف أو الوسوم أو الناشر أو ISBN...',
+    total: {
+      zero: 'لا توجد كتب',
+      one: 'عرض كتاب واحد',
+      two: 'عرض كتابين',
+      few: 'عرض {count} كتب',
+      other: 'عرض {count} كتابًا',
+    },
+    byRelevance: '(مرتبة حسب الصلة)',
+    sortBy: 'الترتيب حسب:',
+    sortedByRelevance: 'نتائج البحث مرتبة حسب الصلة',
+    sortFields: {
+      title: 'العنوان',
+      author: 'المؤلف',
+      datePublished: 'تاريخ الإصدار',
+      rating: 'التقييم',
+      reviewCount: 'عدد المراجعات',
+      price: 'السعر',
+    },
+    sortAscending: 'ترتيب تصاعدي',
+    sortDescending: 'ترتيب تنازلي',
+    asc: 'تصاعدي',
+    desc: 'تنازلي',
+    allBooks: 'جميع الكتب',
+    loading: 'جارٍ تحميل الكتب...',
+    empty: 'لا توجد كتب تطابق معايير البحث.',
+    searchFailed: 'تعذر البحث عن الكتب ({status})',
+    loadFailed: 'تعذر جلب الكتب ({status})',
+    loadError: 'تعذر تحميل الكتب',
+  },
+  pagination: {
+    range: 'عرض {from} إلى {to} من {count}',
+    previousPage: 'الصفحة السابقة',
+    previous: 'السابق',
+    goToPage: 'الانتقال إلى الصفحة {page}',
+    nextPage: 'الصفحة التالية',
+    next: 'التالي',
+    perPage: 'عدد العناصر في الصفحة:',
+  },
+  facets: {
+    ariaLabel: 'تصفية الكتب',
+    title: 'عوامل التصفية',
+    clearAll: 'مسح الكل',
+    loading: 'جارٍ تحميل عوامل التصفية...',
+    names: {
+      genre: 'التصنيف',
+      language: 'اللغة',
+      publisher: 'الناشر',
+      price: 'السعر',
+      year: 'سنة النشر',
+      rating: 'التقييم',
+    },
+    under: 'أقل من {value}',
+    below: 'أقل من {value}',
+    andAbove: '{value} فأكثر',
+    andUp: '{value} فأعلى',
+    between: '{min} – {max}',
+    showLess: 'عرض أقل',
+    showAll: 'عرض الكل ({count})',
+  },
+  search: {
+    fields: {
+      title: 'العنوان',
+      author: 'المؤلف',
+      description: 'الوصف',
+      tags: 'الوسوم',
+      publisher: 'الناشر',
+      isbn: 'ISBN',
+    },
+  },
+  book: {
+    by: 'تأليف',
+    reviewCount: {
+      zero: 'لا مراجعات',
+      one: 'مراجعة واحدة',
+      two: 'مراجعتان',
+      few: '{count} مراجعات',
+      other: '{count} مراجعة',
+    },
+    moreGenres: '+{count} أخرى',
+    featured: 'مميز',
+    viewDetails: 'عرض التفاصيل',
+    addToCart: 'أضف إلى السلة',
+    adding: 'جارٍ الإضافة...',
+    added: 'تمت الإضافة!',
+    addToCartFailed: 'تعذرت الإضافة إلى السلة.',
+    quantity: 'الكمية:',
+    backToHome: '→ العودة إلى الرئيسية',
+    notFound: 'الكتاب غير موجود',
+    loadFailed: 'تعذر جلب الكتاب ({status})',
+    loadError: 'تعذر تحميل الكتاب',
+  },
+  availability: {
+    in_stock: 'متوفر',
+    low_stock: 'كمية محدودة',
+    out_of_stock: 'نفدت الكمية',
+    backorder: 'متاح للطلب المسبق',
+    onlyLeft: 'بقي {count} فقط',
+  },
+  stockIssues: {
+    notFound: 'هذا الكتاب لم يعد متاحًا.',
+    outOfStock: 'نفدت كمية هذا الكتاب.',
+    onlyAvailable: {
+      one: 'تتوفر نسخة واحدة فقط.',
+      two: 'تتوفر نسختان فقط.',
+      few: 'تتوفر {count} نسخ فقط.',
+      other: 'تتوفر {count} نسخة فقط.',
+    },
+  },
+  reviews: {
+    title: 'مراجعات العملاء',
+    sortBy: 'الترتيب حسب',
+    sorts: {
+      helpful: 'الأكثر فائدة',
+      newest: 'الأحدث',
+      highest: 'الأعلى تقييمًا',
+      lowest: 'الأقل تقييمًا',
+    },
+    count: {
+      zero: 'لا مراجعات',
+      one: 'مراجعة واحدة',
+      two: 'مراجعتان',
+      few: '{count} مراجعات',
+      other: '{count} مراجعة',
+    },
+    starBar: '{stars} نجوم: {reviews}',
+    showingStars: {
+      one: 'عرض مراجعات النجمة الواحدة',
+      two: 'عرض مراجعات النجمتين',
+      other: 'عرض مراجعات {count} نجوم',
+    },
+    showAll: 'عرض جميع المراجعات',
+    verified: 'عملية شراء موثقة',
+    loadMore: 'تحميل المزيد من المراجعات',
+    none: 'لا توجد مراجعات بعد. كن أول من يراجع هذا الكتاب!',
+    noneWithStars: {
+      one: 'لا توجد مراجعات بنجمة واحدة بعد.',
+      two: 'لا توجد مراجعات بنجمتين بعد.',
+      other: 'لا توجد مراجعات بـ {count} نجوم بعد.',
+    },
+    wasHelpful: 'هل كانت هذه المراجعة مفيدة؟',
+    yes: 'نعم',
+    no: 'لا',
+    voteFailed: 'تعذر حفظ تصويتك',
+    signIn: 'سجّل الدخول',
+    toVote: 'للتصويت.',
+  },
+  yourReview: {
+    title: 'مراجعتك',
+    write: 'اكتب مراجعة',
+    rating: 'التقييم',
+    reviewTitle: 'العنوان',
+    comment: 'المراجعة',
+    submit: 'إرسال المراجعة',
+    starsLabel: '{count} من 5 نجوم',
+    published: 'منشورة',
+    rejected: 'لم تُنشر: {reason}. عدّل مراجعتك لإرسالها مرة أخرى.',
+    confirmDelete: 'حذف مراجعتك؟',
+    toReview: 'لمراجعة هذا الكتاب.',
+    alreadyReviewed: 'لقد راجعت هذا الكتاب من قبل. يمكنك تعديل مراجعتك أدناه.',
+    awaitingApproval: 'شكرًا لك! ستظهر مراجعتك بعد الموافقة عليها.',
+    deleted: 'تم حذف مراجعتك.',
+    loadFailed: 'تعذر جلب مراجعتك ({status})',
+    loadError: 'تعذر تحميل مراجعتك',
+    saveFailed: 'تعذر حفظ مراجعتك',
+    deleteFailed: 'تعذر حذف مراجعتك',
+  },
+  reviewStatus: {
+    pending: 'قيد المراجعة',
+    approved: 'مقبولة',
+    rejected: 'مرفوضة',
+  },
+  wishlist: {
+    title: 'قائمة المفضلة',
+    add: 'أضف إلى المفضلة',
+    remove: 'إزالة من المفضلة',
+    signInPrompt: 'سجّل الدخول لعرض قائمة المفضلة',
+    empty: 'قائمة المفضلة فارغة',
+    browse: 'تصفح الكتب',
+    moving: 'جارٍ النقل...',
+    outOfStock: 'نفدت الكمية',
+    moveFailed: 'تعذر النقل إلى السلة.',
+    loadFailed: 'تعذر جلب قائمة المفضلة ({status})',
+    bookFailed: 'تعذر جلب الكتاب ({status})',
+    loadError: 'تعذر تحميل قائمة المفضلة',
+  },
+  cart: {
+    title: 'سلة التسوق',
+    empty: 'سلتك فارغة',
+    continueShopping: 'متابعة التسوق',
+    stockWarning: 'بعض المنتجات لم تعد متوفرة بالكمية المطلوبة. عدّلها قبل إتمام الشراء.',
+    shippingTo: 'الشحن إلى',
+    freeShippingHint: 'أنفق {amount} إضافية لتحصل على شحن مجاني.',
+    clear: 'إفراغ السلة',
+    checkout: 'المتابعة لإتمام الشراء',
+    savedForLater: 'محفوظ لوقت لاحق ({count})',
+    decrease: 'إنقاص الكمية',
+    increase: 'زيادة الكمية',
+    remove: 'إزالة',
+    saveForLater: 'حفظ لوقت لاحق',
+    moveToCart: 'نقل إلى السلة',
+    moveFailed: 'تعذر النقل إلى السلة.',
+    loadFailed: 'تعذر جلب السلة ({status})',
+    loadError: 'تعذر تحميل السلة',
+    summaryFailed: 'تعذر جلب ملخص السلة ({status})',
+    summaryError: 'تعذر تحميل ملخص السلة',
+  },
+  regions: {
+    AE: 'الإمارات العربية المتحدة',
+    SA: 'المملكة العربية السعودية',
+    EG: 'مصر',
+    GB: 'المملكة المتحدة',
+    INTL: 'بقية دول العالم',
+  },
+  coupons: {
+    label: 'رمز القسيمة',
+    apply: 'تطبيق',
+    applying: 'جارٍ التطبيق...',
+    applyFailed: 'تعذر تطبيق الرمز',
+    removeFailed: 'تعذرت إزالة الرمز',
+  },
+  couponIssues: {
+    notFound: 'هذا الرمز غير صالح.',
+    inactive: 'هذا الرمز لم يعد متاحًا.',
+    notStarted: 'هذا الرمز غير صالح بعد.',
+    expired: 'انتهت صلاحية هذا الرمز.',
+    noEligibleItems: 'هذا الرمز لا ينطبق على أي منتج في سلتك.',
+    minSpend: 'أنفق {amount} أو أكثر على المنتجات المشمولة لاستخدام هذا الرمز.',
+    minQuantity: 'أضف {count} منتجات مشمولة على الأقل لاستخدام هذا الرمز.',
+    tooManyCodes: 'يمكن استخدام {count} رموز كحد أقصى في المرة الواحدة.',
+  },
+  pricing: {
+    subtotal: 'المجموع الفرعي',
+    shipping: 'الشحن',
+    free: 'مجاني',
+    tax: 'الضريبة',
+    taxAtRate: 'الضريبة ({rate})',
+    total: 'الإجمالي',
+  },
+  shippingRules: {
+    flat: 'سعر ثابت',
+    weight: 'حسب الوزن ({base} + {perKg} لكل كغ)',
+    pages: 'حسب عدد الصفحات ({base} + {per100Pages} لكل 100 صفحة)',
+  },
+  checkout: {
+    title: 'إتمام الشراء',
+    shippingAddress: 'عنوان الشحن',
+    fields: {
+      fullName: 'الاسم الكامل',
+      email: 'البريد الإلكتروني',
+      addressLine1: 'العنوان',
+      addressLine2: 'الشقة، الجناح، إلخ (اختياري)',
+      city: 'المدينة',
+      postalCode: 'الرمز البريدي (اختياري)',
+      country: 'الدولة',
+    },
+    unknownBook: 'كتاب في سلتك',
+    updateCart: 'تعديل السلة',
+    placeOrder: 'تأكيد الطلب',
+    placingOrder: 'جارٍ تأكيد الطلب...',
+    orderSummary: 'ملخص الطلب',
+    shippingFor: 'الشحن والضريبة إلى {region}',
+    enterCountry: '(أدخل دولتك للتحديث)',
+    chargedInBase: 'الأسعار بـ {currency} تقديرية؛ سيتم تحصيل {amount} ({base}).',
+    backToCart: '→ العودة إلى السلة',
+    placeFailed: 'تعذر تأكيد الطلب',
+    summaryFailed: 'تعذر جلب ملخص الطلب ({status})',
+    summaryError: 'تعذر تحميل ملخص الطلب',
+  },
+  orders: {
+    title: 'طلباتي',
+    signInPrompt: 'سجّل الدخول لعرض طلباتك',
+    empty: 'لم تقدّم أي طلبات بعد',
+    startShopping: 'ابدأ التسوق',
+    number: 'الطلب رقم {id}',
+    itemCount: {
+      zero: 'لا منتجات',
+      one: 'منتج واحد',
+      two: 'منتجان',
+      few: '{count} منتجات',
+      other: '{count} منتجًا',
+    },
+    loadFailed: 'تعذر جلب الطلبات ({status})',
+    loadError: 'تعذر تحميل الطلبات',
+  },
+  order: {
+    placed: 'شكرًا لك! تم تقديم طلبك.',
+    placedOn: 'تاريخ الطلب {date}',
+    shippingTo: 'الشحن إلى',
+    history: 'السجل',
+    cancel: 'إلغاء الطلب',
+    cancelling: 'جارٍ الإلغاء...',
+    confirmCancel: 'هل تريد إلغاء هذا الطلب؟',
+    notFound: 'الطلب غير موجود',
+    cancelFailed: 'تعذر إلغاء الطلب',
+    loadFailed: 'تعذر جلب الطلب ({status})',
+    loadError: 'تعذر تحميل الطلب',
+  },
+  orderStatus: {
+    pending: 'قيد الانتظار',
+    paid: 'مدفوع',
+    shipped: 'تم الشحن',
+    delivered: 'تم التسليم',
+    cancelled: 'ملغى',
+  },
+  auth: {
+    signIn: 'تسجيل الدخول',
+    signingIn: 'جارٍ تسجيل الدخول...',
+    signInFailed: 'تعذر تسجيل الدخول',
+    email: 'البريد الإلكتروني',
+    password: 'كلمة المرور',
+    name: 'الاسم',
+    passwordHint: '{count} أحرف على الأقل.',
+    newHere: 'جديد في مكتبة أمانة؟',
+    createAccount: 'أنشئ حسابًا',
+    createAccountButton: 'إنشاء حساب',
+    creatingAccount: 'جارٍ إنشاء الحساب...',
+    registerFailed: 'تعذر إنشاء الحساب',
+    haveAccount: 'لديك حساب بالفعل؟',
+    signInLink: 'سجّل الدخول',
+  },
+  roles: {
+    customer: 'عميل',
+    staff: 'موظف',
+    admin: 'مدير',
+  },
+  admin: {
+    backOffice: 'لوحة الإدارة',
+    catalog: 'الكتالوج',
+    reviews: 'المراجعات',
+    signedInAs: 'مسجّل الدخول باسم {name} ({role})',
+    staffOnly: 'لوحة الإدارة متاحة للموظفين فقط',
+    backToStore: 'العودة إلى المتجر',
+    addBook: 'إضافة كتاب',
+    editBook: 'تعديل «{title}»',
+    backToCatalog: '→ العودة إلى الكتالوج',
+    searchPlaceholder: 'ابحث بالعنوان أو المؤلف...',
+    searchLabel: 'البحث في الكتب',
+    noMatches: 'لا توجد كتب تطابق بحثك.',
+    price: 'السعر',
+    featured: 'مميز',
+    actions: 'الإجراءات',
+    confirmDelete: 'حذف هذا الكتاب؟',
+    deleted: 'تم حذف «{title}».',
+    deleteFailed: 'تعذر حذف «{title}»',
+  },
+  bookForm: {
+    title: 'العنوان',
+    author: 'المؤلف',
+    isbn: 'ISBN',
+    publisher: 'الناشر',
+    language: 'اللغة',
+    image: 'رابط صورة الغلاف',
+    description: 'الوصف',
+    genres: 'التصنيفات',
+    addGenre: 'أضف تصنيفًا واضغط Enter',
+    tags: 'الوسوم',
+    addTag: 'أضف وسمًا واضغط Enter',
+    price: 'السعر ({currency})',
+    pages: 'عدد الصفحات',
+    datePublished: 'تاريخ النشر',
+    stock: 'المخزون',
+    featured: 'مميز في الصفحة الرئيسية',
+    allowBackorder: 'السماح بالطلب المسبق عند نفاد الكمية',
+    ratingNote: 'التقييم {rating} من {count} مراجعة (محسوب من المراجعات).',
+    add: 'إضافة الكتاب',
+    fixFields: 'يرجى تصحيح الحقول المميزة.',
+    saveFailed: 'تعذر حفظ الكتاب',
+  },
+  moderation: {
+    title: 'الإشراف على المراجعات',
+    selectAll: 'تحديد الكل ({count} محدد)',
+    selectReview: 'تحديد المراجعة «{title}»',
+    approve: 'قبول',
+    reject: 'رفض',
+    reason: 'سبب الرفض',
+    reasonRequired: 'أدخل سببًا قبل رفض المراجعات.',
+    empty: {
+      pending: 'لا توجد مراجعات قيد المراجعة.',
+      approved: 'لا توجد مراجعات مقبولة.',
+      rejected: 'لا توجد مراجعات مرفوضة.',
+    },
+    viewBook: 'عرض الكتاب',
+    rejectedReason: 'مرفوضة: {reason}',
+    updateFailed: 'تعذر تحديث المراجعات',
+    loadFailed: 'تعذر جلب المراجعات ({status})',
+    loadError: 'تعذر تحميل المراجعات',
+  },
+};
+
+export default ar;
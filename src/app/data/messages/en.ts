@@ -0,0 +1,432 @@
+// src/app/data/messages/en.ts
+
+// English UI messages; the other catalogs must have the same keys (see MessageCatalog in lib/i18n.ts).
+// {name} placeholders are filled in by t(); messages with one/other forms are picked by {count}.
+const en = {
+  meta: {
+    title: 'Amana Bookstore',
+    description: 'A modern online bookstore built with Next.js and Tailwind CSS.',
+  },
+  common: {
+    loading: 'Loading...',
+    error: 'Error: {message}',
+    backToHome: 'Back to Home',
+    cancel: 'Cancel',
+    edit: 'Edit',
+    delete: 'Delete',
+    confirmDelete: 'Yes, delete',
+    deleting: 'Deleting...',
+    saving: 'Saving...',
+    saveChanges: 'Save Changes',
+    yes: 'Yes',
+    no: 'No',
+    removeValue: 'Remove {value}',
+  },
+  nav: {
+    brand: 'Amana Bookstore',
+    home: 'Home',
+    cart: 'My Cart',
+    currency: 'Currency',
+    ratesAsOf: 'Exchange rates as of {date}',
+    wishlist: 'Wishlist',
+    orders: 'My Orders',
+    admin: 'Admin',
+    greeting: 'Hi, {name}',
+    signOut: 'Sign Out',
+    signIn: 'Sign In',
+  },
+  currencies: {
+    USD: 'US Dollar',
+    JOD: 'Jordanian Dinar',
+    SAR: 'Saudi Riyal',
+    AED: 'UAE Dirham',
+    EGP: 'Egyptian Pound',
+  },
+  home: {
+    title: 'Welcome to the Amana Bookstore!',
+    subtitle: 'Your one-stop shop for the best books. Discover new worlds and adventures.',
+  },
+  grid: {
+    featured: 'Featured Books',
+    featuredPage: 'Go to featured books page {page}',
+    previousFeatured: 'Previous featured books',
+    nextFeatured: 'Next featured books',
+    featuredRange: {
+      one: 'Showing {from} - {to} of {count} featured book',
+      other: 'Showing {from} - {to} of {count} featured books',
+    },
+    searchPlaceholder: 'Search by title, author, description, tags, publisher or ISBN...',
+    total: {
+      one: 'Showing {count} book',
+      other: 'Showing {count} books',
+    },
+    byRelevance: '(sorted by relevance)',
+    sortBy: 'Sort by:',
+    sortedByRelevance: 'Search results are sorted by relevance',
+    sortFields: {
+      title: 'Title',
+      author: 'Author',
+      datePublished: 'Release Date',
+      rating: 'Rating',
+      reviewCount: 'Review Count',
+      price: 'Price',
+    },
+    sortAscending: 'Sort ascending',
+    sortDescending: 'Sort descending',
+    asc: 'Asc',
+    desc: 'Desc',
+    allBooks: 'All Books',
+    loading: 'Loading books...',
+    empty: 'No books found matching your criteria.',
+    searchFailed: 'Failed to search books ({status})',
+    loadFailed: 'Failed to fetch books ({status})',
+    loadError: 'Failed to load books',
+  },
+  pagination: {
+    range: 'Showing {from} to {to} of {count} books',
+    previousPage: 'Previous page',
+    previous: 'Previous',
+    goToPage: 'Go to page {page}',
+    nextPage: 'Next page',
+    next: 'Next',
+    perPage: 'Items per page:',
+  },
+  facets: {
+    ariaLabel: 'Filter books',
+    title: 'Filters',
+    clearAll: 'Clear all',
+    loading: 'Loading filters...',
+    names: {
+      genre: 'Genre',
+      language: 'Language',
+      publisher: 'Publisher',
+      price: 'Price',
+      year: 'Publication Year',
+      rating: 'Rating',
+    },
+    under: 'Under {value}',
+    below: 'Below {value}',
+    andAbove: '{value} & above',
+    andUp: '{value} & up',
+    between: '{min} – {max}',
+    showLess: 'Show less',
+    showAll: 'Show all {count}',
+  },
+  search: {
+    fields: {
+      title: 'Title',
+      author: 'Author',
+      description: 'Description',
+      tags: 'Tags',
+      publisher: 'Publisher',
+      isbn: 'ISBN',
+    },
+  },
+  book: {
+    by: 'by',
+    reviewCount: {
+      one: '{count} review',
+      other: '{count} reviews',
+    },
+    moreGenres: '+{count} more',
+    featured: 'Featured',
+    viewDetails: 'View Details',
+    addToCart: 'Add to Cart',
+    adding: 'Adding...',
+    added: 'Added!',
+    addToCartFailed: 'Could not add to cart.',
+    quantity: 'Quantity:',
+    backToHome: '← Back to Home',
+    notFound: 'Book not found',
+    loadFailed: 'Failed to fetch book ({status})',
+    loadError: 'Failed to load book',
+  },
+  availability: {
+    in_stock: 'In Stock',
+    low_stock: 'Low Stock',
+    out_of_stock: 'Out of Stock',
+    backorder: 'Available on Backorder',
+    onlyLeft: 'Only {count} left',
+  },
+  stockIssues: {
+    notFound: 'This book is no longer available.',
+    outOfStock: 'This book is out of stock.',
+    onlyAvailable: {
+      one: 'Only {count} copy is available.',
+      other: 'Only {count} copies are available.',
+    },
+  },
+  reviews: {
+    title: 'Customer Reviews',
+    sortBy: 'Sort by',
+    sorts: {
+      helpful: 'Most helpful',
+      newest: 'Newest',
+      highest: 'Highest rating',
+      lowest: 'Lowest rating',
+    },
+    count: {
+      one: '{count} review',
+      other: '{count} reviews',
+    },
+    starBar: '{stars} stars: {reviews}',
+    showingStars: {
+      one: 'Showing {count}-star reviews',
+      other: 'Showing {count}-star reviews',
+    },
+    showAll: 'Show all reviews',
+    verified: 'Verified Purchase',
+    loadMore: 'Load more reviews',
+    none: 'No reviews yet. Be the first to review this book!',
+    noneWithStars: {
+      one: 'No {count}-star reviews yet.',
+      other: 'No {count}-star reviews yet.',
+    },
+    wasHelpful: 'Was this review helpful?',
+    yes: 'Yes',
+    no: 'No',
+    voteFailed: 'Failed to save your vote',
+    signIn: 'Sign in',
+    toVote: 'to vote.',
+  },
+  yourReview: {
+    title: 'Your review',
+    write: 'Write a review',
+    rating: 'Rating',
+    reviewTitle: 'Title',
+    comment: 'Review',
+    submit: 'Submit Review',
+    starsLabel: '{count} out of 5 stars',
+    published: 'Published',
+    rejected: 'Not published: {reason}. Edit your review to submit it again.',
+    confirmDelete: 'Delete your review?',
+    toReview: 'to review this book.',
+    alreadyReviewed: 'You have already reviewed this book. You can edit your review below.',
+    awaitingApproval: 'Thanks! Your review will appear once it has been approved.',
+    deleted: 'Your review was deleted.',
+    loadFailed: 'Failed to fetch your review ({status})',
+    loadError: 'Failed to load your review',
+    saveFailed: 'Failed to save your review',
+    deleteFailed: 'Failed to delete your review',
+  },
+  reviewStatus: {
+    pending: 'Pending',
+    approved: 'Approved',
+    rejected: 'Rejected',
+  },
+  wishlist: {
+    title: 'My Wishlist',
+    add: 'Add to Wishlist',
+    remove: 'Remove from Wishlist',
+    signInPrompt: 'Sign in to see your wishlist',
+    empty: 'Your wishlist is empty',
+    browse: 'Browse Books',
+    moving: 'Moving...',
+    outOfStock: 'Out of Stock',
+    moveFailed: 'Could not move to cart.',
+    loadFailed: 'Failed to fetch wishlist ({status})',
+    bookFailed: 'Failed to fetch book ({status})',
+    loadError: 'Failed to load wishlist',
+  },
+  cart: {
+    title: 'Shopping Cart',
+    empty: 'Your cart is empty',
+    continueShopping: 'Continue Shopping',
+    stockWarning: 'Some items are no longer available in the quantity requested. Update them before checking out.',
+    shippingTo: 'Shipping to',
+    freeShippingHint: 'Spend {amount} more for free shipping.',
+    clear: 'Clear Cart',
+    checkout: 'Proceed to Checkout',
+    savedForLater: 'Saved for Later ({count})',
+    decrease: 'Decrease quantity',
+    increase: 'Increase quantity',
+    remove: 'Remove',
+    saveForLater: 'Save for later',
+    moveToCart: 'Move to Cart',
+    moveFailed: 'Could not move to cart.',
+    loadFailed: 'Failed to fetch cart ({status})',
+    loadError: 'Failed to load cart',
+    summaryFailed: 'Failed to fetch the cart summary ({status})',
+    summaryError: 'Failed to load the cart summary',
+  },
+  regions: {
+    AE: 'United Arab Emirates',
+    SA: 'Saudi Arabia',
+    EG: 'Egypt',
+    GB: 'United Kingdom',
+    INTL: 'Rest of the world',
+  },
+  coupons: {
+    label: 'Coupon code',
+    apply: 'Apply',
+    applying: 'Applying...',
+    applyFailed: 'Failed to apply the code',
+    removeFailed: 'Failed to remove the code',
+  },
+  couponIssues: {
+    notFound: 'This code is not valid.',
+    inactive: 'This code is no longer available.',
+    notStarted: 'This code is not valid yet.',
+    expired: 'This code has expired.',
+    noEligibleItems: 'This code does not apply to any item in your cart.',
+    minSpend: 'Spend {amount} or more on eligible items to use this code.',
+    minQuantity: 'Add at least {count} eligible items to use this code.',
+    tooManyCodes: 'Up to {count} codes can be used at once.',
+  },
+  pricing: {
+    subtotal: 'Subtotal',
+    shipping: 'Shipping',
+    free: 'Free',
+    tax: 'Tax',
+    taxAtRate: 'Tax ({rate})',
+    total: 'Total',
+  },
+  shippingRules: {
+    flat: 'Flat rate',
+    weight: 'By weight ({base} + {perKg} per kg)',
+    pages: 'By page count ({base} + {per100Pages} per 100 pages)',
+  },
+  checkout: {
+    title: 'Checkout',
+    shippingAddress: 'Shipping Address',
+    fields: {
+      fullName: 'Full name',
+      email: 'Email',
+      addressLine1: 'Address',
+      addressLine2: 'Apartment, suite, etc. (optional)',
+      city: 'City',
+      postalCode: 'Postal code (optional)',
+      country: 'Country',
+    },
+    unknownBook: 'A book in your cart',
+    updateCart: 'Update your cart',
+    placeOrder: 'Place Order',
+    placingOrder: 'Placing Order...',
+    orderSummary: 'Order Summary',
+    shippingFor: 'Shipping and tax for {region}',
+    enterCountry: '(enter your country to update)',
+    chargedInBase: 'Prices in {currency} are estimates; you will be charged {amount} ({base}).',
+    backToCart: '← Back to Cart',
+    placeFailed: 'Failed to place order',
+    summaryFailed: 'Failed to fetch the order summary ({status})',
+    summaryError: 'Failed to load the order summary',
+  },
+  orders: {
+    title: 'My Orders',
+    signInPrompt: 'Sign in to see your orders',
+    empty: 'You have not placed any orders yet',
+    startShopping: 'Start Shopping',
+    number: 'Order #{id}',
+    itemCount: {
+      one: '{count} item',
+      other: '{count} items',
+    },
+    loadFailed: 'Failed to fetch orders ({status})',
+    loadError: 'Failed to load orders',
+  },
+  order: {
+    placed: 'Thank you! Your order has been placed.',
+    placedOn: 'Placed {date}',
+    shippingTo: 'Shipping to',
+    history: 'History',
+    cancel: 'Cancel Order',
+    cancelling: 'Cancelling...',
+    confirmCancel: 'Cancel this order?',
+    notFound: 'Order not found',
+    cancelFailed: 'Failed to cancel order',
+    loadFailed: 'Failed to fetch order ({status})',
+    loadError: 'Failed to load order',
+  },
+  orderStatus: {
+    pending: 'Pending',
+    paid: 'Paid',
+    shipped: 'Shipped',
+    delivered: 'Delivered',
+    cancelled: 'Cancelled',
+  },
+  auth: {
+    signIn: 'Sign In',
+    signingIn: 'Signing In...',
+    signInFailed: 'Failed to sign in',
+    email: 'Email',
+    password: 'Password',
+    name: 'Name',
+    passwordHint: 'At least {count} characters.',
+    newHere: 'New to Amana Bookstore?',
+    createAccount: 'Create an account',
+    createAccountButton: 'Create Account',
+    creatingAccount: 'Creating Account...',
+    registerFailed: 'Failed to create account',
+    haveAccount: 'Already have an account?',
+    signInLink: 'Sign in',
+  },
+  roles: {
+    customer: 'customer',
+    staff: 'staff',
+    admin: 'admin',
+  },
+  admin: {
+    backOffice: 'Back-office',
+    catalog: 'Catalog',
+    reviews: 'Reviews',
+    signedInAs: 'Signed in as {name} ({role})',
+    staffOnly: 'The back-office is only available to staff',
+    backToStore: 'Back to the Store',
+    addBook: 'Add a Book',
+    editBook: 'Edit “{title}”',
+    backToCatalog: '← Back to the catalog',
+    searchPlaceholder: 'Search by title or author...',
+    searchLabel: 'Search books',
+    noMatches: 'No books match your search.',
+    price: 'Price',
+    featured: 'Featured',
+    actions: 'Actions',
+    confirmDelete: 'Delete this book?',
+    deleted: 'Deleted "{title}".',
+    deleteFailed: 'Failed to delete "{title}"',
+  },
+  bookForm: {
+    title: 'Title',
+    author: 'Author',
+    isbn: 'ISBN',
+    publisher: 'Publisher',
+    language: 'Language',
+    image: 'Cover image URL',
+    description: 'Description',
+    genres: 'Genres',
+    addGenre: 'Add a genre and press Enter',
+    tags: 'Tags',
+    addTag: 'Add a tag and press Enter',
+    price: 'Price ({currency})',
+    pages: 'Pages',
+    datePublished: 'Published',
+    stock: 'Stock',
+    featured: 'Featured on the home page',
+    allowBackorder: 'Allow backorders when out of stock',
+    ratingNote: 'Rating {rating} from {count} reviews (calculated from the reviews).',
+    add: 'Add Book',
+    fixFields: 'Please fix the highlighted fields.',
+    saveFailed: 'Failed to save the book',
+  },
+  moderation: {
+    title: 'Review Moderation',
+    selectAll: 'Select all ({count} selected)',
+    selectReview: 'Select review "{title}"',
+    approve: 'Approve',
+    reject: 'Reject',
+    reason: 'Reason for rejecting',
+    reasonRequired: 'Enter a reason before rejecting reviews.',
+    empty: {
+      pending: 'No pending reviews.',
+      approved: 'No approved reviews.',
+      rejected: 'No rejected reviews.',
+    },
+    viewBook: 'View book',
+    rejectedReason: 'Rejected: {reason}',
+    updateFailed: 'Failed to update the reviews',
+    loadFailed: 'Failed to fetch reviews ({status})',
+    loadError: 'Failed to load reviews',
+  },
+};
+
+export default en;
@@ -0,0 +1,75 @@
+// src/app/data/promotions.ts
+import { Promotion } from '../types';
+
+export const promotions: Promotion[] = [
+  {
+    id: 'promo-1',
+    code: 'WELCOME10',
+    description: '10% off orders of $50 or more',
+    rule: { kind: 'percentage', percentOff: 10 },
+    minSpend: 50,
+    active: true,
+  },
+  {
+    id: 'promo-2',
+    code: 'SAVE15',
+    description: '$15 off orders of $120 or more',
+    rule: { kind: 'fixed', amountOff: 15 },
+    minSpend: 120,
+    expiresAt: '2027-12-31T23:59:59.000Z',
+    active: true,
+  },
+  {
+    id: 'promo-3',
+    code: 'PHYSICS20',
+    description: '20% off Physics books',
+    rule: { kind: 'percentage', percentOff: 20 },
+    scope: { genres: ['Physics'] },
+    active: true,
+  },
+  {
+    id: 'promo-4',
+    code: 'ALKINDI5',
+    description: '$5 off titles from the Al-Kindi presses',
+    rule: { kind: 'fixed', amountOff: 5 },
+    scope: {
+      publishers: [
+        'Al-Kindi Analytical Sciences',
+        'Al-Kindi Chemical Sciences',
+        'Al-Kindi Data Sciences',
+        'Al-Kindi Economic Mathematics',
+        'Al-Kindi Electrical Institute',
+        'Al-Kindi Mathematical Institute',
+        'Al-Kindi Nanoscience Institute',
+        'Al-Kindi Quantum Institute',
+        'Al-Kindi Scientific Press',
+      ],
+    },
+    active: true,
+  },
+  {
+    id: 'promo-5',
+    code: 'MATH3FOR2',
+    description: 'Mathematics: buy 2, get the 3rd free',
+    rule: { kind: 'buy_x_get_y', buyQuantity: 2, freeQuantity: 1 },
+    scope: { genres: ['Mathematics'] },
+    active: true,
+  },
+  {
+    id: 'promo-6',
+    code: 'SUMMER24',
+    description: '25% off everything (summer 2024)',
+    rule: { kind: 'percentage', percentOff: 25 },
+    startsAt: '2024-06-01T00:00:00.000Z',
+    expiresAt: '2024-08-31T23:59:59.000Z',
+    active: true,
+  },
+  // Applied automatically, no code needed
+  {
+    id: 'promo-7',
+    description: 'Computer Science week: 5% off',
+    rule: { kind: 'percentage', percentOff: 5 },
+    scope: { genres: ['Computer Science'] },
+    active: true,
+  },
+];
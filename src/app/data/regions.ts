@@ -0,0 +1,53 @@
+// src/app/data/regions.ts
+import { PricingRegion } from '../types';
+
+// Tax and shipping per destination. A shipping address is matched to a region by its
+// country (name or ISO code, case-insensitive); anything else ships as INTL.
+export const HOME_REGION_ID = 'AE'; // Used for estimates before an address is known
+export const FALLBACK_REGION_ID = 'INTL';
+
+export const regions: PricingRegion[] = [
+  {
+    id: 'AE',
+    name: 'United Arab Emirates',
+    countries: ['AE', 'UAE', 'United Arab Emirates'],
+    taxRate: 0.05,
+    taxShipping: true,
+    shipping: { kind: 'flat', amount: 4.99 },
+    freeShippingThreshold: 75,
+  },
+  {
+    id: 'SA',
+    name: 'Saudi Arabia',
+    countries: ['SA', 'KSA', 'Saudi Arabia'],
+    taxRate: 0.15,
+    taxShipping: true,
+    shipping: { kind: 'weight', base: 6, perKg: 2 },
+    freeShippingThreshold: 150,
+  },
+  {
+    id: 'EG',
+    name: 'Egypt',
+    countries: ['EG', 'Egypt'],
+    taxRate: 0.14,
+    taxShipping: false,
+    shipping: { kind: 'pages', base: 5, per100Pages: 0.75 },
+  },
+  {
+    id: 'GB',
+    name: 'United Kingdom',
+    countries: ['GB', 'UK', 'United Kingdom', 'Great Britain', 'England', 'Scotland', 'Wales', 'Northern Ireland'],
+    taxRate: 0, // Books are zero-rated
+    taxShipping: false,
+    shipping: { kind: 'weight', base: 9, perKg: 3 },
+    freeShippingThreshold: 200,
+  },
+  {
+    id: FALLBACK_REGION_ID,
+    name: 'Rest of the world',
+    countries: [],
+    taxRate: 0, // Import duties are settled by the customer on delivery
+    taxShipping: false,
+    shipping: { kind: 'weight', base: 15, perKg: 5 },
+  },
+];
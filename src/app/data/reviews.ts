@@ -11,7 +11,10 @@ export const reviews: Review[] = [
     title: 'Excellent foundation for physics students',
     comment: 'Dr. Al-Kindi has created a comprehensive introduction to classical mechanics. The mathematical derivations are clear and the problem sets are well-designed for understanding core principles.',
     timestamp: '2024-01-15T10:30:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-2',
@@ -21,7 +24,10 @@ export const reviews: Review[] = [
     title: 'Clear explanations of complex concepts',
     comment: 'The treatment of rotational dynamics and oscillations is particularly well done. Some sections could use more worked examples, but overall a solid textbook for undergraduate physics.',
     timestamp: '2024-02-03T14:22:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-3',
@@ -31,7 +37,10 @@ export const reviews: Review[] = [
     title: 'Perfect for engineering applications',
     comment: 'I use this textbook for my mechanics course. Students appreciate the real-world applications and the clear connection between theory and practice.',
     timestamp: '2024-02-20T09:15:00Z',
-    verified: false
+    verified: false,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-4',
@@ -41,7 +50,10 @@ export const reviews: Review[] = [
     title: 'Good mathematical rigor',
     comment: 'The mathematical treatment is appropriate for upper-level undergraduates. The conservation laws chapter is particularly well-written.',
     timestamp: '2024-03-01T16:45:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-5',
@@ -51,7 +63,10 @@ export const reviews: Review[] = [
     title: 'Essential for physics majors',
     comment: 'Used this throughout my undergraduate studies. The progression from basic concepts to advanced topics is logical and well-paced.',
     timestamp: '2024-03-12T11:20:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
 
   // Reviews for Quantum Physics (book-2)
@@ -63,7 +78,10 @@ export const reviews: Review[] = [
     title: 'Outstanding quantum mechanics text',
     comment: 'Prof. Al-Haytham presents quantum mechanics with remarkable clarity. The treatment of wave functions and uncertainty principles is particularly insightful.',
     timestamp: '2024-01-08T13:30:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-7',
@@ -73,7 +91,10 @@ export const reviews: Review[] = [
     title: 'Advanced but accessible',
     comment: 'Challenging material made accessible through excellent explanations. The applications to modern technology are fascinating and relevant.',
     timestamp: '2024-01-25T08:45:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-8',
@@ -83,7 +104,10 @@ export const reviews: Review[] = [
     title: 'Comprehensive quantum theory',
     comment: 'This textbook covers everything from basic principles to advanced applications. The mathematical framework is presented with exceptional clarity.',
     timestamp: '2024-02-14T15:10:00Z',
-    verified: false
+    verified: false,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-9',
@@ -93,7 +117,10 @@ export const reviews: Review[] = [
     title: 'Excellent for graduate students',
     comment: 'Dense material but well-organized. The quantum applications section provides valuable insight into current research directions.',
     timestamp: '2024-02-28T12:00:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-10',
@@ -103,7 +130,10 @@ export const reviews: Review[] = [
     title: 'Modern approach to quantum mechanics',
     comment: 'Bridges the gap between classical and quantum physics beautifully. Essential reading for anyone serious about quantum theory.',
     timestamp: '2024-03-05T17:30:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
 
   // Reviews for Stellar Astrophysics (book-3)
@@ -115,7 +145,10 @@ export const reviews: Review[] = [
     title: 'Comprehensive stellar evolution coverage',
     comment: 'Dr. Al-Battani masterfully explains stellar formation, evolution, and death. The observational techniques section is particularly valuable.',
     timestamp: '2024-01-20T09:00:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-12',
@@ -125,7 +158,10 @@ export const reviews: Review[] = [
     title: 'Great for astrophysics students',
     comment: 'Excellent treatment of galactic dynamics and cosmological structures. Some chapters are quite technical but rewarding for serious students.',
     timestamp: '2024-02-05T14:15:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-13',
@@ -135,7 +171,10 @@ export const reviews: Review[] = [
     title: 'Strong theoretical framework',
     comment: 'The theoretical foundations are solid and the connection to observational astronomy is well-made. Could use more recent discoveries.',
     timestamp: '2024-02-18T10:45:00Z',
-    verified: false
+    verified: false,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-14',
@@ -145,7 +184,10 @@ export const reviews: Review[] = [
     title: 'Excellent for research preparation',
     comment: 'This book prepared me well for graduate research in astrophysics. The mathematical treatment is rigorous yet accessible.',
     timestamp: '2024-03-02T16:20:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-15',
@@ -155,7 +197,10 @@ export const reviews: Review[] = [
     title: 'Comprehensive galactic structure analysis',
     comment: 'Outstanding coverage of galactic dynamics. The stellar evolution chapters are particularly well-written and informative.',
     timestamp: '2024-03-15T13:30:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
 
   // Reviews for Planetary Sciences (book-4)
@@ -167,7 +212,10 @@ export const reviews: Review[] = [
     title: 'Excellent planetary formation coverage',
     comment: 'Prof. Al-Zarqali provides comprehensive coverage of planetary formation and dynamics. The exoplanet section is particularly current and engaging.',
     timestamp: '2024-01-12T11:00:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-17',
@@ -177,7 +225,10 @@ export const reviews: Review[] = [
     title: 'Great atmospheric dynamics section',
     comment: 'The atmospheric dynamics chapters are exceptional. Good balance between theoretical principles and observational data.',
     timestamp: '2024-01-28T15:45:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-18',
@@ -187,7 +238,10 @@ export const reviews: Review[] = [
     title: 'Modern approach to planetary science',
     comment: 'Excellent integration of solar system and exoplanet studies. The comparative planetology approach is very effective.',
     timestamp: '2024-02-10T08:30:00Z',
-    verified: false
+    verified: false,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-19',
@@ -197,7 +251,10 @@ export const reviews: Review[] = [
     title: 'Comprehensive but dense',
     comment: 'Covers a lot of ground in planetary sciences. Some sections are quite technical, but the content is thorough and up-to-date.',
     timestamp: '2024-02-25T12:15:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-20',
@@ -207,7 +264,10 @@ export const reviews: Review[] = [
     title: 'Essential for planetary studies',
     comment: 'This textbook is now a standard reference in our department. The treatment of both terrestrial and gas giant planets is excellent.',
     timestamp: '2024-03-08T14:00:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
 
   // Reviews for Islamic Architecture (book-5)
@@ -219,7 +279,10 @@ export const reviews: Review[] = [
     title: 'Masterful analysis of Islamic geometry',
     comment: 'Al-Andalusi brilliantly explains the mathematical principles underlying Islamic architectural design. The geometric analysis is particularly insightful.',
     timestamp: '2024-01-05T10:20:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-22',
@@ -229,7 +292,10 @@ export const reviews: Review[] = [
     title: 'Excellent design principles',
     comment: 'Comprehensive coverage of Islamic architectural traditions. The contemporary applications section shows how classical principles remain relevant.',
     timestamp: '2024-01-22T16:30:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-23',
@@ -239,7 +305,10 @@ export const reviews: Review[] = [
     title: 'Essential for architecture students',
     comment: 'This book opened my eyes to the mathematical beauty of Islamic architecture. The geometric patterns are explained with remarkable clarity.',
     timestamp: '2024-02-07T09:45:00Z',
-    verified: false
+    verified: false,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-24',
@@ -249,7 +318,10 @@ export const reviews: Review[] = [
     title: 'Rich historical context',
     comment: 'Excellent historical context for understanding Islamic architectural development. The case studies of famous buildings are particularly valuable.',
     timestamp: '2024-02-21T13:10:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-25',
@@ -259,7 +331,10 @@ export const reviews: Review[] = [
     title: 'Beautiful integration of math and art',
     comment: 'Shows how mathematics and art come together in Islamic architecture. Essential reading for understanding cultural and technical aspects.',
     timestamp: '2024-03-10T11:25:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
 
   // Reviews for Sustainable Urban Planning (book-6)
@@ -271,7 +346,10 @@ export const reviews: Review[] = [
     title: 'Excellent green architecture principles',
     comment: 'Dr. Al-Dimashqi provides a comprehensive guide to sustainable urban development. The green building technologies section is particularly valuable.',
     timestamp: '2024-01-18T14:40:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-27',
@@ -281,7 +359,10 @@ export const reviews: Review[] = [
     title: 'Practical sustainability approaches',
     comment: 'Good balance between theoretical principles and practical applications. The case studies of sustainable cities are inspiring.',
     timestamp: '2024-02-01T10:15:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-28',
@@ -291,7 +372,10 @@ export const reviews: Review[] = [
     title: 'Modern urban planning concepts',
     comment: 'Addresses current challenges in urban development with innovative solutions. The environmental impact assessment chapter is excellent.',
     timestamp: '2024-02-16T15:50:00Z',
-    verified: false
+    verified: false,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-29',
@@ -301,7 +385,10 @@ export const reviews: Review[] = [
     title: 'Essential for urban planners',
     comment: 'This book should be required reading for all urban planning students. The sustainable design principles are clearly explained and actionable.',
     timestamp: '2024-03-01T08:20:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-30',
@@ -311,7 +398,10 @@ export const reviews: Review[] = [
     title: 'Comprehensive green technology coverage',
     comment: 'Excellent coverage of green building technologies and sustainable infrastructure. The future cities section is particularly thought-provoking.',
     timestamp: '2024-03-14T12:35:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
 
   // Reviews for Advanced Calculus (book-7)
@@ -323,7 +413,10 @@ export const reviews: Review[] = [
     title: 'Rigorous mathematical analysis',
     comment: 'Prof. Al-Jabir presents advanced calculus with exceptional rigor. The real analysis sections are particularly well-developed.',
     timestamp: '2024-01-10T13:25:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-32',
@@ -333,7 +426,10 @@ export const reviews: Review[] = [
     title: 'Excellent for engineering applications',
     comment: 'Strong mathematical foundation with good engineering applications. The multivariable calculus treatment is comprehensive.',
     timestamp: '2024-01-30T09:40:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-33',
@@ -343,7 +439,10 @@ export const reviews: Review[] = [
     title: 'Challenging but rewarding',
     comment: 'Dense mathematical content but excellent pedagogical approach. The problem sets are challenging and well-designed.',
     timestamp: '2024-02-12T16:10:00Z',
-    verified: false
+    verified: false,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-34',
@@ -353,7 +452,10 @@ export const reviews: Review[] = [
     title: 'Outstanding mathematical techniques',
     comment: 'The advanced mathematical techniques are presented clearly. Essential for physics and engineering students.',
     timestamp: '2024-02-26T11:55:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-35',
@@ -363,7 +465,10 @@ export const reviews: Review[] = [
     title: 'Solid theoretical foundation',
     comment: 'Provides excellent theoretical foundation for advanced mathematics. The proof techniques are particularly well-explained.',
     timestamp: '2024-03-11T14:20:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
 
   // Reviews for Linear Algebra (book-8)
@@ -375,7 +480,10 @@ export const reviews: Review[] = [
     title: 'Excellent vector space treatment',
     comment: 'Dr. Al-Isfahani presents linear algebra concepts with remarkable clarity. The vector space and linear transformation chapters are outstanding.',
     timestamp: '2024-01-14T10:05:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-37',
@@ -385,7 +493,10 @@ export const reviews: Review[] = [
     title: 'Great for computer science applications',
     comment: 'Strong emphasis on computational applications. The eigenvalue sections are particularly well-done for CS students.',
     timestamp: '2024-02-04T15:30:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-38',
@@ -395,7 +506,10 @@ export const reviews: Review[] = [
     title: 'Perfect balance of theory and practice',
     comment: 'Excellent balance between theoretical rigor and practical applications. The matrix theory chapters are exceptionally clear.',
     timestamp: '2024-02-19T12:45:00Z',
-    verified: false
+    verified: false,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-39',
@@ -405,7 +519,10 @@ export const reviews: Review[] = [
     title: 'Comprehensive linear algebra coverage',
     comment: 'Covers all essential topics in linear algebra. The engineering applications make abstract concepts more concrete.',
     timestamp: '2024-03-03T09:15:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-40',
@@ -415,7 +532,10 @@ export const reviews: Review[] = [
     title: 'Essential for STEM students',
     comment: 'This textbook is now our standard reference for linear algebra. The progression from basic concepts to advanced topics is perfect.',
     timestamp: '2024-03-16T16:40:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
 
   // Reviews for Molecular Biology (book-9)
@@ -427,7 +547,10 @@ export const reviews: Review[] = [
     title: 'Cutting-edge molecular biology',
     comment: 'Prof. Al-Razi presents modern molecular biology with exceptional depth. The genetic engineering sections are particularly current and relevant.',
     timestamp: '2024-01-12T11:15:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-42',
@@ -437,7 +560,10 @@ export const reviews: Review[] = [
     title: 'Excellent biotechnology applications',
     comment: 'Strong coverage of DNA technology and protein synthesis. The biotechnology applications are fascinating and well-explained.',
     timestamp: '2024-02-08T14:30:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-43',
@@ -447,7 +573,10 @@ export const reviews: Review[] = [
     title: 'Comprehensive molecular techniques',
     comment: 'Outstanding coverage of modern molecular biology techniques. Essential for anyone working in biotechnology or medicine.',
     timestamp: '2024-02-22T09:20:00Z',
-    verified: false
+    verified: false,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-44',
@@ -457,7 +586,10 @@ export const reviews: Review[] = [
     title: 'Advanced but accessible',
     comment: 'Complex material presented in an accessible way. The medical applications sections are particularly valuable.',
     timestamp: '2024-03-05T16:45:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-45',
@@ -467,7 +599,10 @@ export const reviews: Review[] = [
     title: 'Modern genetic engineering focus',
     comment: 'Excellent integration of classical molecular biology with modern genetic engineering. Perfect for graduate students.',
     timestamp: '2024-03-18T13:10:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
 
   // Reviews for Ecology (book-10)
@@ -479,7 +614,10 @@ export const reviews: Review[] = [
     title: 'Comprehensive ecological principles',
     comment: 'Dr. Al-Baghdadi masterfully explains ecological principles and their applications. The conservation sections are particularly timely.',
     timestamp: '2024-01-25T10:40:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-47',
@@ -489,7 +627,10 @@ export const reviews: Review[] = [
     title: 'Excellent environmental focus',
     comment: 'Strong emphasis on environmental conservation and biodiversity. The population dynamics chapters are well-written.',
     timestamp: '2024-02-14T15:20:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-48',
@@ -499,7 +640,10 @@ export const reviews: Review[] = [
     title: 'Good balance of theory and application',
     comment: 'Excellent balance between ecological theory and practical conservation applications. The case studies are particularly valuable.',
     timestamp: '2024-02-28T12:35:00Z',
-    verified: false
+    verified: false,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-49',
@@ -509,7 +653,10 @@ export const reviews: Review[] = [
     title: 'Essential for environmental science',
     comment: 'This textbook covers all essential topics in ecology and environmental biology. Perfect for undergraduate environmental science courses.',
     timestamp: '2024-03-12T09:50:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-50',
@@ -519,7 +666,10 @@ export const reviews: Review[] = [
     title: 'Strong conservation emphasis',
     comment: 'Excellent coverage of conservation biology and environmental impact assessment. Current and relevant to today\'s environmental challenges.',
     timestamp: '2024-03-20T14:25:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
 
   // Additional reviews for remaining books (11-15) following the same pattern...
@@ -532,7 +682,10 @@ export const reviews: Review[] = [
     title: 'Outstanding reaction mechanisms',
     comment: 'Prof. Al-Dimashqi presents organic chemistry with exceptional clarity. The reaction mechanism sections are particularly well-explained.',
     timestamp: '2024-02-05T11:30:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-52',
@@ -542,7 +695,10 @@ export const reviews: Review[] = [
     title: 'Excellent synthesis strategies',
     comment: 'Comprehensive coverage of synthesis strategies and spectroscopic analysis. Great resource for organic chemistry students.',
     timestamp: '2024-02-18T16:15:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
 
   // Reviews for Physical Chemistry (book-12)
@@ -554,7 +710,10 @@ export const reviews: Review[] = [
     title: 'Exceptional thermodynamics treatment',
     comment: 'Dr. Al-Turani provides excellent coverage of thermodynamics and kinetics. The quantum chemistry sections are particularly strong.',
     timestamp: '2024-01-30T14:20:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-54',
@@ -564,7 +723,10 @@ export const reviews: Review[] = [
     title: 'Advanced physical chemistry concepts',
     comment: 'Rigorous treatment of physical chemistry principles. The statistical mechanics chapter is excellent.',
     timestamp: '2024-02-25T10:45:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
 
   // Reviews for Algorithms (book-13)
@@ -576,7 +738,10 @@ export const reviews: Review[] = [
     title: 'Excellent algorithmic foundations',
     comment: 'Prof. Al-Jazari presents algorithms and data structures with remarkable clarity. Essential for computer science students.',
     timestamp: '2024-02-10T13:40:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-56',
@@ -586,7 +751,10 @@ export const reviews: Review[] = [
     title: 'Comprehensive complexity analysis',
     comment: 'Outstanding coverage of algorithm complexity and computational problem-solving. The programming examples are well-chosen.',
     timestamp: '2024-03-01T15:30:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
 
   // Reviews for Engineering Thermodynamics (book-14)
@@ -598,7 +766,10 @@ export const reviews: Review[] = [
     title: 'Excellent engineering applications',
     comment: 'Dr. Al-Karkhi provides excellent coverage of thermodynamics with strong engineering focus. The heat transfer sections are particularly valuable.',
     timestamp: '2024-01-20T12:10:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-58',
@@ -608,7 +779,10 @@ export const reviews: Review[] = [
     title: 'Comprehensive energy systems coverage',
     comment: 'Solid coverage of energy conversion systems and heat transfer mechanisms. Good balance of theory and practical applications.',
     timestamp: '2024-02-28T09:25:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
 
   // Reviews for Geophysics (book-15)
@@ -620,7 +794,10 @@ export const reviews: Review[] = [
     title: 'Outstanding Earth science coverage',
     comment: 'Prof. Al-Mashriqiya provides comprehensive coverage of Earth\'s physical processes. The seismology sections are particularly excellent.',
     timestamp: '2024-02-15T14:50:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   },
   {
     id: 'review-60',
@@ -630,6 +807,9 @@ export const reviews: Review[] = [
     title: 'Excellent climate science integration',
     comment: 'Great integration of geophysics with climate science. The plate tectonics chapters are well-written and current.',
     timestamp: '2024-03-08T11:40:00Z',
-    verified: true
+    verified: true,
+    status: 'approved',
+    helpfulCount: 0,
+    unhelpfulCount: 0,
   }
 ];
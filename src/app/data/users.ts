@@ -0,0 +1,10 @@
+// src/app/data/users.ts
+import { Role } from '../types';
+
+// Demo back-office accounts for the in-memory data store (DATA_STORE=memory), so staff and
+// admin features can be tried without a database. They are never written to MongoDB, and
+// are left out when NODE_ENV is production; promote real accounts with `npm run set-role`.
+export const demoUsers: { name: string; email: string; password: string; role: Role }[] = [
+  { name: 'Store Staff', email: 'staff@amana.local', password: 'staff-password', role: 'staff' },
+  { name: 'Store Admin', email: 'admin@amana.local', password: 'admin-password', role: 'admin' },
+];
@@ -0,0 +1,23 @@
+// src/app/lib/accounts.ts
+// Account rules shared by the auth routes and the sign-in/register pages
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Deliberately loose: one "@" with something on both sides and a dot in the domain
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Only follow same-site paths from ?next=, so a link cannot bounce users to another site.
+// The path is resolved the way a browser would (so "//evil.com" and "/\evil.com" point off-site)
+// and only kept when it stays on the same origin. Runs during server rendering too, hence the
+// placeholder origin instead of window.location.
+const SAME_SITE_ORIGIN = 'http://same-site.invalid';
+
+export function safeNextPath(next: string | null): string {
+  if (!next || !next.startsWith('/')) return '/';
+  try {
+    const url = new URL(next, SAME_SITE_ORIGIN);
+    return url.origin === SAME_SITE_ORIGIN ? url.pathname + url.search + url.hash : '/';
+  } catch {
+    return '/';
+  }
+}
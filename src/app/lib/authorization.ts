@@ -0,0 +1,29 @@
+// src/app/lib/authorization.ts
+// Route handler wrappers that resolve the signed-in user and enforce roles.
+// Every protected route answers the same way: 401 when signed out, 403 when the role is not enough.
+import { getCurrentUser, forbiddenResponse, signInRequiredResponse } from './session';
+import { hasRole } from './roles';
+import { Role, User } from '../types';
+
+type AuthorizedHandler<C> = (req: Request, ctx: C, user: User) => Promise<Response>;
+
+// Require a signed-in user of any role
+export function withUser<C>(handler: AuthorizedHandler<C>) {
+  return async (req: Request, ctx: C): Promise<Response> => {
+    const user = await getCurrentUser();
+    if (!user) {
+      return signInRequiredResponse();
+    }
+    return handler(req, ctx, user);
+  };
+}
+
+// Require a signed-in user with one of `roles`
+export function withRole<C>(roles: Role[], handler: AuthorizedHandler<C>) {
+  return withUser<C>(async (req, ctx, user) => {
+    if (!hasRole(user, roles)) {
+      return forbiddenResponse();
+    }
+    return handler(req, ctx, user);
+  });
+}
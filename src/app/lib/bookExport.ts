@@ -0,0 +1,257 @@
+// src/app/lib/bookExport.ts
+// Writing the catalog out for partners and marketplaces (GET /api/books/export). Each format is
+// produced as a sequence of text chunks so the route can stream it without building the whole file.
+// CSV and JSON use the same fields as the import (lib/bookImport.ts), so an export can be re-imported.
+import { Book, BookExportFormat } from '@/app/types';
+import { BASE_CURRENCY } from '../data/currencies';
+import { CSV_LIST_SEPARATOR, normalizeIsbn } from './bookImport';
+import { formatCsvRow } from './csv';
+import { getAvailability } from './inventory';
+
+export const BOOK_EXPORT_FORMATS: BookExportFormat[] = ['csv', 'json', 'onix'];
+
+export const BOOK_EXPORT_CONTENT_TYPES: Record<BookExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  onix: 'application/xml; charset=utf-8',
+};
+
+export const BOOK_EXPORT_EXTENSIONS: Record<BookExportFormat, string> = {
+  csv: 'csv',
+  json: 'json',
+  onix: 'xml',
+};
+
+// CSV columns, in order. id, rating and reviewCount are informational: the import ignores them.
+export const BOOK_EXPORT_COLUMNS: (keyof Book)[] = [
+  'id',
+  'title',
+  'author',
+  'description',
+  'price',
+  'image',
+  'isbn',
+  'genre',
+  'tags',
+  'datePublished',
+  'pages',
+  'language',
+  'publisher',
+  'stock',
+  'allowBackorder',
+  'featured',
+  'rating',
+  'reviewCount',
+];
+
+const SENDER_NAME = 'Amana Bookstore';
+
+export function isBookExportFormat(value: unknown): value is BookExportFormat {
+  return typeof value === 'string' && (BOOK_EXPORT_FORMATS as string[]).includes(value);
+}
+
+// Options for the ONIX message
+export interface OnixOptions {
+  baseUrl: string; // Origin that relative image paths are resolved against
+  sentAt?: Date;
+}
+
+// The export file, chunk by chunk
+export async function* formatBookExport(
+  books: AsyncIterable<Book>,
+  format: BookExportFormat,
+  options: OnixOptions
+): AsyncGenerator<string> {
+  switch (format) {
+    case 'csv':
+      yield formatCsvRow(BOOK_EXPORT_COLUMNS);
+      for await (const book of books) {
+        yield formatCsvRow(BOOK_EXPORT_COLUMNS.map((column) => toCsvCell(book[column])));
+      }
+      return;
+    case 'json': {
+      // An array of books, one per line
+      let first = true;
+      for await (const book of books) {
+        yield (first ? '[\n' : ',\n') + JSON.stringify(book);
+        first = false;
+      }
+      yield first ? '[]\n' : '\n]\n';
+      return;
+    }
+    case 'onix':
+      yield onixHeader(options.sentAt ?? new Date());
+      for await (const book of books) {
+        yield onixProduct(book, options.baseUrl);
+      }
+      yield '</ONIXMessage>\n';
+      return;
+  }
+}
+
+function toCsvCell(value: Book[keyof Book]): string {
+  return Array.isArray(value) ? value.join(CSV_LIST_SEPARATOR) : String(value);
+}
+
+// --- ONIX for Books 3.0 (reference tags) ---
+// Code values are from the EDItEUR code lists; the list number is noted next to each one.
+
+// ISO 639-2/B codes (code list 74) for the language names used in the catalog
+const ONIX_LANGUAGE_CODES: Record<string, string> = {
+  english: 'eng',
+  arabic: 'ara',
+  french: 'fre',
+  german: 'ger',
+  spanish: 'spa',
+  turkish: 'tur',
+  persian: 'per',
+  urdu: 'urd',
+};
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab and line breaks are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+}
+
+function element(name: string, value: string | number): string {
+  return `<${name}>${escapeXml(String(value))}</${name}>`;
+}
+
+// YYYYMMDDThhmmssZ
+function onixDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+}
+
+// YYYYMMDD from the YYYY-MM-DD (or longer ISO) dates in the catalog, or null when it is not one
+function onixDate(value: string): string | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+  return match ? match[1] + match[2] + match[3] : null;
+}
+
+function onixLanguageCode(language: string): string | null {
+  const value = language.trim().toLowerCase();
+  if (/^[a-z]{3}$/.test(value)) return value;
+  return ONIX_LANGUAGE_CODES[value] ?? null;
+}
+
+// The author field may name several people: "A and B", "A & B" or "A; B"
+function splitContributors(author: string): string[] {
+  return author
+    .split(/\s*(?:;|&|\band\b)\s*/)
+    .map((name) => name.trim())
+    .filter(Boolean);
+}
+
+function onixHeader(sentAt: Date): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<ONIXMessage release="3.0" xmlns="http://ns.editeur.org/onix/3.0/reference">',
+    '  <Header>',
+    `    <Sender>${element('SenderName', SENDER_NAME)}</Sender>`,
+    `    ${element('SentDateTime', onixDateTime(sentAt))}`,
+    `    ${element('DefaultCurrencyCode', BASE_CURRENCY)}`,
+    '  </Header>',
+    '',
+  ].join('\n');
+}
+
+function onixProduct(book: Book, baseUrl: string): string {
+  const lines: string[] = ['  <Product>'];
+  const add = (indent: number, line: string) => lines.push(' '.repeat(indent * 2) + line);
+
+  add(2, element('RecordReference', `amana-bookstore-${book.id}`));
+  add(2, element('NotificationType', '03')); // List 1: notification confirmed on publication
+
+  // List 5: 15 = ISBN-13, 02 = ISBN-10, 01 = proprietary (our own id)
+  const isbn = normalizeIsbn(book.isbn);
+  const isbnType = /^\d{13}$/.test(isbn) ? '15' : /^\d{9}[\dX]$/.test(isbn) ? '02' : null;
+  if (isbnType) {
+    add(2, `<ProductIdentifier>${element('ProductIDType', isbnType)}${element('IDValue', isbn)}</ProductIdentifier>`);
+  }
+  add(
+    2,
+    `<ProductIdentifier>${element('ProductIDType', '01')}${element('IDTypeName', SENDER_NAME)}${element('IDValue', book.id)}</ProductIdentifier>`
+  );
+
+  add(2, '<DescriptiveDetail>');
+  add(3, element('ProductComposition', '00')); // List 2: single-item product
+  add(3, element('ProductForm', 'BA')); // List 150: book, form unspecified
+  add(
+    3,
+    `<TitleDetail>${element('TitleType', '01')}<TitleElement>${element('TitleElementLevel', '01')}${element('TitleText', book.title)}</TitleElement></TitleDetail>`
+  );
+  splitContributors(book.author).forEach((name, index) => {
+    // List 17: A01 = by (author)
+    add(
+      3,
+      `<Contributor>${element('SequenceNumber', index + 1)}${element('ContributorRole', 'A01')}${element('PersonName', name)}</Contributor>`
+    );
+  });
+  const languageCode = onixLanguageCode(book.language);
+  if (languageCode) {
+    // List 22: 01 = language of text
+    add(3, `<Language>${element('LanguageRole', '01')}${element('LanguageCode', languageCode)}</Language>`);
+  }
+  // List 23: 00 = main content page count; list 24: 03 = pages
+  add(3, `<Extent>${element('ExtentType', '00')}${element('ExtentValue', book.pages)}${element('ExtentUnit', '03')}</Extent>`);
+  book.genre.forEach((genre, index) => {
+    // List 26: 24 = proprietary scheme; the first genre is the main subject
+    add(
+      3,
+      `<Subject>${index === 0 ? '<MainSubject/>' : ''}${element('SubjectSchemeIdentifier', '24')}${element('SubjectSchemeName', `${SENDER_NAME} genre`)}${element('SubjectHeadingText', genre)}</Subject>`
+    );
+  });
+  if (book.tags.length > 0) {
+    // List 26: 20 = keywords, separated by semicolons
+    add(3, `<Subject>${element('SubjectSchemeIdentifier', '20')}${element('SubjectHeadingText', book.tags.join('; '))}</Subject>`);
+  }
+  add(2, '</DescriptiveDetail>');
+
+  add(2, '<CollateralDetail>');
+  // List 153: 03 = description; list 154: 00 = unrestricted
+  add(3, `<TextContent>${element('TextType', '03')}${element('ContentAudience', '00')}${element('Text', book.description)}</TextContent>`);
+  if (book.image) {
+    // List 158: 01 = front cover; list 159: 03 = image; list 161: 02 = downloadable file
+    add(
+      3,
+      `<SupportingResource>${element('ResourceContentType', '01')}${element('ContentAudience', '00')}${element('ResourceMode', '03')}<ResourceVersion>${element('ResourceForm', '02')}${element('ResourceLink', new URL(book.image, baseUrl).href)}</ResourceVersion></SupportingResource>`
+    );
+  }
+  add(2, '</CollateralDetail>');
+
+  add(2, '<PublishingDetail>');
+  // List 45: 01 = publisher
+  add(3, `<Publisher>${element('PublishingRole', '01')}${element('PublisherName', book.publisher)}</Publisher>`);
+  add(3, element('PublishingStatus', '04')); // List 64: active
+  const published = onixDate(book.datePublished);
+  if (published) {
+    // List 163: 01 = publication date
+    add(3, `<PublishingDate>${element('PublishingDateRole', '01')}${element('Date', published)}</PublishingDate>`);
+  }
+  add(2, '</PublishingDetail>');
+
+  // List 65: 21 = in stock, 22 = to order, 31 = out of stock
+  const availability = getAvailability(book);
+  const availabilityCode = availability === 'backorder' ? '22' : availability === 'out_of_stock' ? '31' : '21';
+  add(2, '<ProductSupply>');
+  add(3, '<SupplyDetail>');
+  // List 93: 00 = unspecified
+  add(4, `<Supplier>${element('SupplierRole', '00')}${element('SupplierName', SENDER_NAME)}</Supplier>`);
+  add(4, element('ProductAvailability', availabilityCode));
+  add(4, `<Stock>${element('OnHand', Math.max(book.stock, 0))}</Stock>`);
+  // List 58: 01 = recommended retail price, excluding tax (tax depends on the destination)
+  add(
+    4,
+    `<Price>${element('PriceType', '01')}${element('PriceAmount', book.price.toFixed(2))}${element('CurrencyCode', BASE_CURRENCY)}</Price>`
+  );
+  add(3, '</SupplyDetail>');
+  add(2, '</ProductSupply>');
+
+  lines.push('  </Product>', '');
+  return lines.join('\n');
+}
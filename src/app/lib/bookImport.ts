@@ -0,0 +1,112 @@
+// src/app/lib/bookImport.ts
+// Turning an uploaded CSV or JSON file into book records for the import (see importBooks in
+// services/books.ts). Records are only reshaped here; they are validated row by row later.
+import { BookImportFormat } from '@/app/types';
+import { parseCsv } from './csv';
+import { editableBookSchema } from './schemas';
+import { FieldRule } from './validation';
+
+export const BOOK_IMPORT_FORMATS: BookImportFormat[] = ['csv', 'json'];
+
+export const MAX_IMPORT_ROWS = 1000;
+
+// Largest import file accepted; well above MAX_IMPORT_ROWS books with long descriptions
+export const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+
+// Separates the entries of a list column (genre, tags) in a CSV cell
+export const CSV_LIST_SEPARATOR = '|';
+
+// Present in exports but derived by the store, so they are ignored rather than rejected
+const IGNORED_FIELDS = ['id', 'rating', 'reviewCount'];
+
+const FIELD_RULES = editableBookSchema as Record<string, FieldRule>;
+
+export function isBookImportFormat(value: unknown): value is BookImportFormat {
+  return typeof value === 'string' && (BOOK_IMPORT_FORMATS as string[]).includes(value);
+}
+
+// Books are matched on the ISBN digits, so "978-0-12-345678-9" and "9780123456789" are the same book
+export function normalizeIsbn(isbn: string): string {
+  return isbn.replace(/[\s-]/g, '').toUpperCase();
+}
+
+// A CSV cell as the JSON value the schema expects. Empty cells count as missing; values that
+// do not convert are passed through as text so validation reports them against their field.
+function fromCsvCell(rule: FieldRule, cell: string): unknown {
+  const value = cell.trim();
+  if (value === '') return undefined;
+  switch (rule.type) {
+    case 'number':
+      return Number.isFinite(Number(value)) ? Number(value) : value;
+    case 'boolean':
+      if (/^(true|yes|1)$/i.test(value)) return true;
+      if (/^(false|no|0)$/i.test(value)) return false;
+      return value;
+    case 'stringArray':
+      return value.split(CSV_LIST_SEPARATOR).map((item) => item.trim()).filter(Boolean);
+    default:
+      return value;
+  }
+}
+
+function recordsFromCsv(text: string): { records: Record<string, unknown>[] } | { error: string } {
+  const parsed = parseCsv(text);
+  if ('error' in parsed) return parsed;
+  const [header, ...rows] = parsed.rows;
+  if (!header) return { error: 'The file is empty' };
+
+  const columns = header.map((name) => name.trim());
+  const unknown = columns.filter((name) => !(name in FIELD_RULES) && !IGNORED_FIELDS.includes(name));
+  if (unknown.length > 0) {
+    return { error: `Unknown column(s): ${unknown.join(', ')}. Expected: ${Object.keys(FIELD_RULES).join(', ')}` };
+  }
+
+  const records = rows.map((cells) => {
+    const record: Record<string, unknown> = {};
+    columns.forEach((name, index) => {
+      const rule = FIELD_RULES[name];
+      if (!rule) return;
+      const value = fromCsvCell(rule, cells[index] ?? '');
+      if (value !== undefined) record[name] = value;
+    });
+    return record;
+  });
+  return { records };
+}
+
+// An array of book objects, or { books: [...] }
+function recordsFromJson(text: string): { records: unknown[] } | { error: string } {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { error: 'The file is not valid JSON' };
+  }
+  const items = Array.isArray(data) ? data : (data as { books?: unknown } | null)?.books;
+  if (!Array.isArray(items)) {
+    return { error: 'Expected a JSON array of books, or an object with a "books" array' };
+  }
+
+  // Non-objects are kept as they are so they get a row error of their own
+  const records = items.map((item) => {
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) return item;
+    const record = { ...(item as Record<string, unknown>) };
+    for (const field of IGNORED_FIELDS) delete record[field];
+    return record;
+  });
+  return { records };
+}
+
+// Parse an import file into one record per book. Returns an error message instead when the
+// file as a whole cannot be read (bad syntax, unknown CSV columns, too many rows).
+export function parseBookImport(text: string, format: BookImportFormat): { records: unknown[] } | { error: string } {
+  const parsed = format === 'csv' ? recordsFromCsv(text) : recordsFromJson(text);
+  if ('error' in parsed) return parsed;
+  if (parsed.records.length === 0) {
+    return { error: 'The file has no books' };
+  }
+  if (parsed.records.length > MAX_IMPORT_ROWS) {
+    return { error: `Import at most ${MAX_IMPORT_ROWS} books at a time` };
+  }
+  return parsed;
+}
@@ -0,0 +1,91 @@
+// src/app/lib/bookQuery.ts
+import { BookQuery, BookSortField, FacetFilters, SortOrder } from '@/app/types';
+import { FACET_NAMES, isValidFacetValue } from './facets';
+
+export const BOOK_SORT_FIELDS: BookSortField[] = [
+  'title',
+  'author',
+  'datePublished',
+  'rating',
+  'reviewCount',
+  'price',
+];
+
+export const DEFAULT_PAGE_SIZE = 8;
+export const MAX_PAGE_SIZE = 100;
+
+// Parse the query string of GET /api/books into a BookQuery.
+// Returns an error message instead when a parameter is present but invalid.
+export function parseBookQuery(searchParams: URLSearchParams): { query: BookQuery } | { error: string } {
+  const page = parseInt(searchParams.get('page') || '1', 10);
+  if (!Number.isInteger(page) || page < 1) {
+    return { error: 'page must be a positive integer' };
+  }
+
+  const limit = parseInt(searchParams.get('limit') || String(DEFAULT_PAGE_SIZE), 10);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return { error: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}` };
+  }
+
+  const sortBy = (searchParams.get('sortBy') || 'title') as BookSortField;
+  if (!BOOK_SORT_FIELDS.includes(sortBy)) {
+    return { error: `sortBy must be one of: ${BOOK_SORT_FIELDS.join(', ')}` };
+  }
+
+  const sortOrder = (searchParams.get('sortOrder') || 'asc') as SortOrder;
+  if (sortOrder !== 'asc' && sortOrder !== 'desc') {
+    return { error: 'sortOrder must be asc or desc' };
+  }
+
+  const featured = searchParams.get('featured');
+  if (featured !== null && featured !== 'true' && featured !== 'false') {
+    return { error: 'featured must be true or false' };
+  }
+
+  // Facet filters repeat their parameter for multi-select, e.g. ?genre=Physics&genre=Chemistry
+  const filters: FacetFilters = {};
+  for (const facet of FACET_NAMES) {
+    const values = searchParams
+      .getAll(facet)
+      .map((value) => value.trim())
+      .filter((value) => value && value !== 'All'); // 'All' means no filter
+    const invalid = values.find((value) => !isValidFacetValue(facet, value));
+    if (invalid !== undefined) {
+      return { error: `Invalid ${facet} filter: ${invalid}` };
+    }
+    if (values.length > 0) {
+      filters[facet] = [...new Set(values)];
+    }
+  }
+
+  const q = searchParams.get('q')?.trim();
+
+  return {
+    query: {
+      page,
+      limit,
+      filters,
+      q: q || undefined,
+      featured: featured === null ? undefined : featured === 'true',
+      sortBy,
+      sortOrder,
+    },
+  };
+}
+
+// Build the query string for a BookQuery (used by the client components)
+export function toBookQueryString(query: Partial<BookQuery>): string {
+  const { filters, ...rest } = query;
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(rest)) {
+    if (value !== undefined && value !== '') {
+      params.set(key, String(value));
+    }
+  }
+  for (const facet of FACET_NAMES) {
+    for (const value of filters?.[facet] ?? []) {
+      params.append(facet, value);
+    }
+  }
+  return params.toString();
+}
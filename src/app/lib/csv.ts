@@ -0,0 +1,60 @@
+// src/app/lib/csv.ts
+// CSV as described in RFC 4180: comma-separated, fields optionally wrapped in double quotes
+// (a quote inside a quoted field is written twice), CRLF or LF line endings.
+
+// Split CSV text into rows of fields. Blank lines are skipped.
+// Returns an error message instead when a quoted field is never closed.
+export function parseCsv(text: string): { rows: string[][] } | { error: string } {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text; // Spreadsheets often add a BOM
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let quoteStartLine = 1;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+      quoteStartLine = line;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      line++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    return { error: `Unclosed quoted field starting on line ${quoteStartLine}` };
+  }
+  endRow();
+  return { rows };
+}
+
+// Format one row of CSV, ending in CRLF. Fields with a comma, quote or line break are quoted.
+export function formatCsvRow(fields: string[]): string {
+  return fields.map((field) => (/[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field)).join(',') + '\r\n';
+}
@@ -0,0 +1,50 @@
+// src/app/lib/currency.ts
+// The one place prices are turned into text. Amounts passed in are always in the base
+// currency; they are converted with the table in data/currencies.ts for display only.
+import { Currency, CurrencyCode } from '../types';
+import { BASE_CURRENCY, currencies } from '../data/currencies';
+
+// localStorage key and window event for the visitor's display currency
+export const CURRENCY_STORAGE_KEY = 'amana_currency';
+export const CURRENCY_CHANGED_EVENT = 'currencyChanged';
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+export function isCurrencyCode(value: unknown): value is CurrencyCode {
+  return typeof value === 'string' && currencies.some((currency) => currency.code === value);
+}
+
+export function getCurrency(code: CurrencyCode): Currency {
+  return currencies.find((currency) => currency.code === code) ?? currencies.find((currency) => currency.code === BASE_CURRENCY)!;
+}
+
+export function convertFromBase(amount: number, code: CurrencyCode): number {
+  return amount * getCurrency(code).rate;
+}
+
+// e.g. formatPrice(10, 'JOD') -> "JOD 7.090"; the locale decides symbol placement and separators
+// and the currency its decimals. Pass a locale to format for another language.
+export function formatPrice(amount: number, code: CurrencyCode = BASE_CURRENCY, locale?: string): string {
+  const currency = getCurrency(code);
+  const formatLocale = locale ?? currency.locale;
+  const key = `${formatLocale}:${currency.code}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(formatLocale, { style: 'currency', currency: currency.code });
+    formatters.set(key, formatter);
+  }
+  return formatter.format(convertFromBase(amount, currency.code));
+}
+
+// The visitor's display currency (browser only; the server always renders the base currency)
+export function getStoredCurrency(): CurrencyCode {
+  if (typeof window === 'undefined') return BASE_CURRENCY;
+  const stored = window.localStorage.getItem(CURRENCY_STORAGE_KEY);
+  return isCurrencyCode(stored) ? stored : BASE_CURRENCY;
+}
+
+// Remember the display currency and tell every price on the page to re-render
+export function storeCurrency(code: CurrencyCode): void {
+  window.localStorage.setItem(CURRENCY_STORAGE_KEY, code);
+  window.dispatchEvent(new CustomEvent(CURRENCY_CHANGED_EVENT));
+}
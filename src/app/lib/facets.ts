@@ -0,0 +1,111 @@
+// src/app/lib/facets.ts
+import { Book, BookFacets, FacetCount, FacetFilters, FacetName } from '@/app/types';
+
+export const FACET_NAMES: FacetName[] = ['genre', 'language', 'publisher', 'price', 'year', 'rating'];
+
+// A numeric range facet value. `min` is inclusive, `max` is exclusive.
+export interface FacetBand {
+  value: string;
+  label: string;
+  min?: number;
+  max?: number;
+}
+
+export const PRICE_BANDS: FacetBand[] = [
+  { value: 'under-25', label: 'Under $25', max: 25 },
+  { value: '25-50', label: '$25 – $50', min: 25, max: 50 },
+  { value: '50-100', label: '$50 – $100', min: 50, max: 100 },
+  { value: '100-150', label: '$100 – $150', min: 100, max: 150 },
+  { value: '150-plus', label: '$150 & above', min: 150 },
+];
+
+export const RATING_BANDS: FacetBand[] = [
+  { value: '4.5-plus', label: '4.5 & up', min: 4.5 },
+  { value: '4-4.5', label: '4.0 – 4.5', min: 4, max: 4.5 },
+  { value: '3-4', label: '3.0 – 4.0', min: 3, max: 4 },
+  { value: 'under-3', label: 'Below 3.0', max: 3 },
+];
+
+export const FACET_BANDS: Partial<Record<FacetName, FacetBand[]>> = {
+  price: PRICE_BANDS,
+  rating: RATING_BANDS,
+};
+
+function inBand(band: FacetBand, value: number): boolean {
+  return (band.min === undefined || value >= band.min) && (band.max === undefined || value < band.max);
+}
+
+// Check a facet value coming from the query string
+export function isValidFacetValue(facet: FacetName, value: string): boolean {
+  const bands = FACET_BANDS[facet];
+  if (bands) {
+    return bands.some((band) => band.value === value);
+  }
+  if (facet === 'year') {
+    return /^\d{4}$/.test(value);
+  }
+  return value.length > 0;
+}
+
+// The facet values a book belongs to
+export function bookFacetValues(book: Book, facet: FacetName): string[] {
+  switch (facet) {
+    case 'genre':
+      return book.genre;
+    case 'language':
+      return [book.language];
+    case 'publisher':
+      return [book.publisher];
+    case 'year':
+      return [book.datePublished.slice(0, 4)];
+    case 'price':
+      return PRICE_BANDS.filter((band) => inBand(band, book.price)).map((band) => band.value);
+    case 'rating':
+      return RATING_BANDS.filter((band) => inBand(band, book.rating)).map((band) => band.value);
+  }
+}
+
+// Does the book satisfy every selected facet (optionally ignoring one facet)?
+export function matchesFacetFilters(book: Book, filters: FacetFilters, except?: FacetName): boolean {
+  return FACET_NAMES.every((facet) => {
+    const selected = filters[facet];
+    if (facet === except || !selected || selected.length === 0) {
+      return true;
+    }
+    return bookFacetValues(book, facet).some((value) => selected.includes(value));
+  });
+}
+
+// Turn raw counts into labelled, ordered facet entries.
+// Bands keep their defined order (including empty bands), years go newest first,
+// and everything else is sorted by count. Selected values are always listed so they can be unticked.
+export function toFacetCounts(facet: FacetName, counts: Map<string, number>, selected: string[] = []): FacetCount[] {
+  const bands = FACET_BANDS[facet];
+  if (bands) {
+    return bands.map((band) => ({ value: band.value, label: band.label, count: counts.get(band.value) ?? 0 }));
+  }
+
+  const values = new Set([...counts.keys(), ...selected]);
+  const entries = Array.from(values, (value) => ({ value, label: value, count: counts.get(value) ?? 0 }));
+  if (facet === 'year') {
+    return entries.sort((a, b) => b.value.localeCompare(a.value));
+  }
+  return entries.sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+}
+
+// Disjunctive facet counts: each facet is counted against every filter except its own,
+// so selecting one genre still shows how many books the other genres would add.
+export function countFacets(books: Book[], filters: FacetFilters): BookFacets {
+  const facets = {} as BookFacets;
+  for (const facet of FACET_NAMES) {
+    const counts = new Map<string, number>();
+    for (const book of books) {
+      if (!matchesFacetFilters(book, filters, facet)) continue;
+      for (const value of bookFacetValues(book, facet)) {
+        counts.set(value, (counts.get(value) ?? 0) + 1);
+      }
+    }
+    facets[facet] = toFacetCounts(facet, counts, filters[facet]);
+  }
+  return facets;
+}
@@ -0,0 +1,44 @@
+// src/app/lib/http.ts
+// Request/response helpers shared by the API routes
+import { NextResponse } from 'next/server';
+import { FieldErrors } from './validation';
+
+// The parsed JSON body, or undefined when it is missing or malformed
+// (validation then reports it as a field error on "body")
+export async function readJsonBody(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    return undefined;
+  }
+}
+
+// The body as text, or null when it is larger than maxBytes. A declared Content-Length over the
+// limit is refused before reading; otherwise reading stops as soon as the limit is passed.
+export async function readTextBody(request: Request, maxBytes: number): Promise<string | null> {
+  const declared = Number(request.headers.get('content-length'));
+  if (declared > maxBytes) return null;
+  if (!request.body) return '';
+
+  const reader = request.body.getReader();
+  const decoder = new TextDecoder();
+  let size = 0;
+  let text = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+  return text + decoder.decode();
+}
+
+// Every route answers an invalid payload the same way:
+// 400 { error, errors: { field: message } }
+export function validationErrorResponse(errors: FieldErrors) {
+  return NextResponse.json({ error: 'Validation failed.', errors }, { status: 400 });
+}
@@ -0,0 +1,141 @@
+// src/app/lib/i18n.ts
+// Message catalogs, locale-prefixed paths and locale-aware number and date formatting.
+// Server components call createTranslator(locale); client components use useTranslation().
+import { Locale, PluralMessage } from '../types';
+import en from '../data/messages/en';
+import ar from '../data/messages/ar';
+
+export const LOCALES: Locale[] = ['en', 'ar'];
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Remembers the visitor's language so unprefixed links (e.g. /cart) land in it
+export const LOCALE_COOKIE = 'amana_locale';
+
+const RTL_LOCALES: Locale[] = ['ar'];
+
+// Names shown in the language switcher, each in its own language
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  ar: 'العربية',
+};
+
+// A catalog with the same keys as the English one; plural messages may use other plural forms
+export type MessageCatalog<T = typeof en> = {
+  [K in keyof T]: T[K] extends string ? string : T[K] extends PluralMessage ? PluralMessage : MessageCatalog<T[K]>;
+};
+
+type MessagePaths<T> = {
+  [K in keyof T & string]: T[K] extends string | PluralMessage ? K : `${K}.${MessagePaths<T[K]>}`;
+}[keyof T & string];
+
+// Dotted path of a message, e.g. 'cart.title'
+export type MessageKey = MessagePaths<typeof en>;
+
+export type MessageValues = Record<string, string | number>;
+
+export type Translator = (key: MessageKey, values?: MessageValues) => string;
+
+const catalogs: Record<Locale, MessageCatalog> = { en, ar };
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as string[]).includes(value);
+}
+
+export function getDirection(locale: Locale): 'ltr' | 'rtl' {
+  return RTL_LOCALES.includes(locale) ? 'rtl' : 'ltr';
+}
+
+function lookup(catalog: MessageCatalog, key: string): string | PluralMessage | undefined {
+  let node: unknown = catalog;
+  for (const part of key.split('.')) {
+    node = (node as Record<string, unknown> | undefined)?.[part];
+  }
+  return typeof node === 'string' || (typeof node === 'object' && node !== null && 'other' in node)
+    ? (node as string | PluralMessage)
+    : undefined;
+}
+
+// Fill in {name} placeholders; numbers are formatted for the locale
+function interpolate(template: string, locale: Locale, values?: MessageValues): string {
+  if (!values) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = values[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? formatNumber(value, locale) : value;
+  });
+}
+
+export function translate(locale: Locale, key: MessageKey, values?: MessageValues): string {
+  // Falls back to English, then to the key itself, so a missing message never breaks a page
+  const message = lookup(catalogs[locale], key) ?? lookup(catalogs[DEFAULT_LOCALE], key) ?? key;
+  if (typeof message === 'string') {
+    return interpolate(message, locale, values);
+  }
+  const form = new Intl.PluralRules(locale).select(Number(values?.count ?? 0));
+  return interpolate(message[form] ?? message.other, locale, values);
+}
+
+const translators = new Map<Locale, Translator>();
+
+export function createTranslator(locale: Locale): Translator {
+  let translator = translators.get(locale);
+  if (!translator) {
+    translator = (key, values) => translate(locale, key, values);
+    translators.set(locale, translator);
+  }
+  return translator;
+}
+
+// '/cart' -> '/ar/cart'; the path keeps its query string
+export function localizePath(locale: Locale, path: string): string {
+  return path === '/' ? `/${locale}` : `/${locale}${path}`;
+}
+
+// '/ar/cart' -> { locale: 'ar', path: '/cart' }; a path without a locale prefix has locale null
+export function splitLocalePath(pathname: string): { locale: Locale | null; path: string } {
+  const [, first, ...rest] = pathname.split('/');
+  if (!isLocale(first)) {
+    return { locale: null, path: pathname };
+  }
+  return { locale: first, path: `/${rest.join('/')}` };
+}
+
+// The first supported language in an Accept-Language header, e.g. 'ar-JO,ar;q=0.9,en;q=0.8'
+export function matchAcceptLanguage(header: string | null): Locale | null {
+  if (!header) return null;
+  const ranked = header
+    .split(',')
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(';');
+      const quality = params.find((param) => param.trim().startsWith('q='));
+      return { language: tag.split('-')[0].toLowerCase(), q: quality ? Number(quality.trim().slice(2)) : 1 };
+    })
+    .sort((a, b) => b.q - a.q);
+  return ranked.map((entry) => entry.language).find(isLocale) ?? null;
+}
+
+const numberFormatters = new Map<string, Intl.NumberFormat>();
+
+export function formatNumber(value: number, locale: Locale, options: Intl.NumberFormatOptions = {}): string {
+  const key = `${locale}:${JSON.stringify(options)}`;
+  let formatter = numberFormatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(locale, options);
+    numberFormatters.set(key, formatter);
+  }
+  return formatter.format(value);
+}
+
+// e.g. "March 5, 2024" or "5 مارس 2024"
+export function formatDate(
+  timestamp: string,
+  locale: Locale,
+  options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'long', day: 'numeric' }
+): string {
+  return new Date(timestamp).toLocaleString(locale, options);
+}
+
+// Remember the language for the next visit (browser only)
+export function storeLocale(locale: Locale): void {
+  document.cookie = `${LOCALE_COOKIE}=${locale}; path=/; max-age=31536000; samesite=lax`;
+}
@@ -0,0 +1,36 @@
+// src/app/lib/inventory.ts
+import { Availability, Book, StockIssue } from '../types';
+import { createTranslator, DEFAULT_LOCALE, Translator } from './i18n';
+
+// At or below this many units a book is shown as "low stock"
+export const LOW_STOCK_THRESHOLD = 5;
+
+type StockFields = Pick<Book, 'stock' | 'allowBackorder'>;
+
+export function getAvailability(book: StockFields): Availability {
+  if (book.stock > LOW_STOCK_THRESHOLD) return 'in_stock';
+  if (book.stock > 0) return 'low_stock';
+  return book.allowBackorder ? 'backorder' : 'out_of_stock';
+}
+
+// Short customer-facing text, e.g. "Only 3 left"
+export function describeAvailability(book: StockFields, t: Translator = createTranslator(DEFAULT_LOCALE)): string {
+  const availability = getAvailability(book);
+  return availability === 'low_stock' ? t('availability.onlyLeft', { count: book.stock }) : t(`availability.${availability}`);
+}
+
+export function isPurchasable(book: StockFields): boolean {
+  return book.stock > 0 || book.allowBackorder;
+}
+
+// Whether `quantity` units can be sold. Backorderable books have no upper limit.
+export function canFulfill(book: StockFields, quantity: number): boolean {
+  return book.allowBackorder || quantity <= book.stock;
+}
+
+// The API answers in English; pages pass their own translator
+export function describeStockIssue(issue: StockIssue, t: Translator = createTranslator(DEFAULT_LOCALE)): string {
+  if (issue.reason === 'not_found') return t('stockIssues.notFound');
+  if (issue.available === 0) return t('stockIssues.outOfStock');
+  return t('stockIssues.onlyAvailable', { count: issue.available });
+}
@@ -1,32 +1,57 @@
 // src/lib/mongodb.ts
-import { MongoClient, Db } from 'mongodb';
-
-// Retrieve the MongoDB connection string from environment variables
-const MONGODB_URI = process.env.MONGODB_URI || '';
-if (!MONGODB_URI) {
-  throw new Error('Please define the MONGODB_URI environment variable inside .env.local');
-}
+import { MongoClient, Db, ClientSession } from 'mongodb';
+import { ensureIndexes } from './repositories/mongo/indexes';
 
 // Global is used here to maintain a cached connection across hot reloads in development.
 // This prevents connections from growing exponentially during API Route usage.
-let cachedClient: MongoClient | null = null;
-let cachedDb: Db | null = null;
+// The promise is cached, so concurrent first requests share one connection.
+let cachedConnection: Promise<{ client: MongoClient; db: Db }> | null = null;
+
+export function connectToDatabase(): Promise<{ client: MongoClient; db: Db }> {
+  // If a cached connection exists (or is being opened), return it
+  if (!cachedConnection) {
+    cachedConnection = openConnection().catch((err) => {
+      // Let the next call try again
+      cachedConnection = null;
+      throw err;
+    });
+  }
+  return cachedConnection;
+}
 
-export async function connectToDatabase() {
-  // If a cached connection exists, return it
-  if (cachedClient && cachedDb) {
-    return { client: cachedClient, db: cachedDb };
+async function openConnection() {
+  // Retrieve the MongoDB connection string from environment variables.
+  // This is checked on first connection (not at import time) so the in-memory
+  // data store can run without any MongoDB configuration.
+  const MONGODB_URI = process.env.MONGODB_URI || '';
+  if (!MONGODB_URI) {
+    throw new Error('Please define the MONGODB_URI environment variable inside .env.local');
   }
 
-  // If no cached connection, create a new one
   const client = await MongoClient.connect(MONGODB_URI);
-  
+
   // The database name is extracted from the URI
   const db = client.db();
 
-  // Cache the new connection
-  cachedClient = client;
-  cachedDb = db;
+  // Existing databases get new indexes without a reseed. A failure (e.g. duplicates under a
+  // new unique index) is logged rather than taking the store down.
+  try {
+    await ensureIndexes(db);
+  } catch (err) {
+    console.error('Error ensuring MongoDB indexes:', err);
+  }
 
   return { client, db };
-}
\ No newline at end of file
+}
+
+// Run `fn` inside a multi-document transaction.
+// Transactions need a replica set or sharded cluster (MongoDB Atlas provides one by default).
+export async function withTransaction<T>(fn: (session: ClientSession, db: Db) => Promise<T>): Promise<T> {
+  const { client, db } = await connectToDatabase();
+  const session = client.startSession();
+  try {
+    return await session.withTransaction(() => fn(session, db));
+  } finally {
+    await session.endSession();
+  }
+}
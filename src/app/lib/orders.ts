@@ -0,0 +1,30 @@
+// src/app/lib/orders.ts
+import { OrderStatus } from '../types';
+
+export const ORDER_STATUSES: OrderStatus[] = ['pending', 'paid', 'shipped', 'delivered', 'cancelled'];
+
+// Allowed next statuses. An order can be cancelled until it ships;
+// delivered and cancelled are final.
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['paid', 'cancelled'],
+  paid: ['shipped', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: [],
+  cancelled: [],
+};
+
+// Orders that count as a completed purchase, e.g. for "Verified Purchase" reviews
+export const COMPLETED_ORDER_STATUSES: OrderStatus[] = ['delivered'];
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return typeof value === 'string' && (ORDER_STATUSES as string[]).includes(value);
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
+
+// Round to whole cents so totals do not pick up floating point noise
+export function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
@@ -0,0 +1,87 @@
+// src/app/lib/pricing.ts
+import { Book, CartPricing, CartSummary, PricingRegion, ShippingRule } from '../types';
+import { FALLBACK_REGION_ID, HOME_REGION_ID, regions } from '../data/regions';
+import { roundMoney } from './orders';
+import { formatPrice } from './currency';
+import { createTranslator, DEFAULT_LOCALE, Translator } from './i18n';
+
+// Books carry a page count but no weight; shipping by weight uses this estimate
+const GRAMS_PER_PAGE = 2.5;
+const COVER_GRAMS = 150;
+
+// One active cart line as the shipping rules see it
+export type ShippableLine = { book: Pick<Book, 'pages'>; quantity: number };
+
+export function findRegion(id: string): PricingRegion | null {
+  return regions.find((region) => region.id === id) ?? null;
+}
+
+// The region a shipping address's country belongs to. No country yet means the home region
+// (for estimates); a country no region lists ships as FALLBACK_REGION_ID.
+export function resolveRegion(country?: string | null): PricingRegion {
+  const normalized = country?.trim().toLowerCase();
+  if (!normalized) {
+    return findRegion(HOME_REGION_ID)!;
+  }
+  const match = regions.find((region) => region.countries.some((name) => name.toLowerCase() === normalized));
+  return match ?? findRegion(FALLBACK_REGION_ID)!;
+}
+
+export function estimateWeightKg(lines: ShippableLine[]): number {
+  const grams = lines.reduce((sum, line) => sum + (COVER_GRAMS + line.book.pages * GRAMS_PER_PAGE) * line.quantity, 0);
+  return grams / 1000;
+}
+
+export function calculateShipping(rule: ShippingRule, lines: ShippableLine[]): number {
+  switch (rule.kind) {
+    case 'flat':
+      return rule.amount;
+    case 'weight':
+      return roundMoney(rule.base + Math.ceil(estimateWeightKg(lines)) * rule.perKg);
+    case 'pages': {
+      const pages = lines.reduce((sum, line) => sum + line.book.pages * line.quantity, 0);
+      return roundMoney(rule.base + Math.ceil(pages / 100) * rule.per100Pages);
+    }
+  }
+}
+
+// Short customer-facing text, e.g. "Flat rate" or "By weight ($6.00 + $2.00 per kg)"
+export function describeShippingRule(
+  rule: ShippingRule,
+  t: Translator = createTranslator(DEFAULT_LOCALE),
+  format: (amount: number) => string = formatPrice
+): string {
+  switch (rule.kind) {
+    case 'flat':
+      return t('shippingRules.flat');
+    case 'weight':
+      return t('shippingRules.weight', { base: format(rule.base), perKg: format(rule.perKg) });
+    case 'pages':
+      return t('shippingRules.pages', { base: format(rule.base), per100Pages: format(rule.per100Pages) });
+  }
+}
+
+// Add shipping and tax for `region` to the priced cart. An empty cart ships for free.
+export function summarizeCart(pricing: CartPricing, lines: ShippableLine[], region: PricingRegion): CartSummary {
+  const itemsTotal = pricing.total;
+  const qualifiesForFreeShipping =
+    region.freeShippingThreshold !== undefined && itemsTotal >= region.freeShippingThreshold;
+  const shipping = lines.length === 0 || qualifiesForFreeShipping ? 0 : calculateShipping(region.shipping, lines);
+  const tax = roundMoney((itemsTotal + (region.taxShipping ? shipping : 0)) * region.taxRate);
+
+  return {
+    subtotal: pricing.subtotal,
+    discounts: pricing.discounts,
+    discountTotal: pricing.discountTotal,
+    couponCodes: pricing.couponCodes,
+    couponIssues: pricing.couponIssues,
+    itemsTotal,
+    regionId: region.id,
+    regionName: region.name,
+    shipping,
+    ...(region.freeShippingThreshold !== undefined ? { freeShippingThreshold: region.freeShippingThreshold } : {}),
+    taxRate: region.taxRate,
+    tax,
+    total: roundMoney(itemsTotal + shipping + tax),
+  };
+}
@@ -0,0 +1,189 @@
+// src/app/lib/promotions.ts
+import { Book, CartPricing, CouponIssue, CouponIssueReason, DiscountLine, Promotion, PromotionKind } from '../types';
+import { roundMoney } from './orders';
+import { formatPrice } from './currency';
+import { createTranslator, DEFAULT_LOCALE, Translator } from './i18n';
+
+// How many codes one cart can carry at a time
+export const MAX_COUPON_CODES = 3;
+
+// One active cart line as the promotion rules see it
+export type PricedLine = { book: Pick<Book, 'id' | 'price' | 'genre' | 'publisher'>; quantity: number };
+
+// A code applied to the cart; promotion is null when no promotion has that code (any more)
+export type AppliedCoupon = { code: string; promotion: Promotion | null };
+
+// Free units first, then percentages, then fixed amounts off what is left
+const KIND_ORDER: Record<PromotionKind, number> = { buy_x_get_y: 0, percentage: 1, fixed: 2 };
+
+// Codes are matched case-insensitively
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+export function isInScope(promotion: Promotion, book: PricedLine['book']): boolean {
+  const { genres = [], publishers = [] } = promotion.scope ?? {};
+  if (genres.length === 0 && publishers.length === 0) return true;
+  return book.genre.some((genre) => genres.includes(genre)) || publishers.includes(book.publisher);
+}
+
+// Returns why the promotion cannot be used at `now`, or null when it can
+function checkSchedule(promotion: Promotion, now: Date): CouponIssueReason | null {
+  if (!promotion.active) return 'inactive';
+  if (promotion.startsAt && now < new Date(promotion.startsAt)) return 'not_started';
+  if (promotion.expiresAt && now > new Date(promotion.expiresAt)) return 'expired';
+  return null;
+}
+
+// Amount off each eligible line (keyed by book id), never more than what is left of the line
+function computeDiscounts(promotion: Promotion, eligible: PricedLine[], remaining: Map<string, number>): Map<string, number> {
+  const amounts = new Map<string, number>();
+  const { rule } = promotion;
+
+  if (rule.kind === 'percentage') {
+    for (const line of eligible) {
+      amounts.set(line.book.id, roundMoney((remaining.get(line.book.id)! * rule.percentOff) / 100));
+    }
+  } else if (rule.kind === 'fixed') {
+    // Spread the amount over the lines in proportion to what is left of each
+    const left = roundMoney(eligible.reduce((sum, line) => sum + remaining.get(line.book.id)!, 0));
+    if (left <= 0) return amounts;
+    const amountOff = Math.min(rule.amountOff, left);
+    let unallocated = amountOff;
+    eligible.forEach((line, index) => {
+      const share = index === eligible.length - 1
+        ? unallocated
+        : roundMoney((amountOff * remaining.get(line.book.id)!) / left);
+      amounts.set(line.book.id, share);
+      unallocated = roundMoney(unallocated - share);
+    });
+  } else {
+    // Most expensive units first, so the free units of each group are its cheapest
+    const units = eligible
+      .flatMap((line) => Array.from({ length: line.quantity }, () => line.book))
+      .sort((a, b) => b.price - a.price);
+    const groupSize = rule.buyQuantity + rule.freeQuantity;
+    units.forEach((book, index) => {
+      if (index % groupSize >= rule.buyQuantity && index - (index % groupSize) + groupSize <= units.length) {
+        amounts.set(book.id, roundMoney((amounts.get(book.id) ?? 0) + book.price));
+      }
+    });
+  }
+
+  for (const [bookId, amount] of amounts) {
+    amounts.set(bookId, Math.max(0, Math.min(amount, remaining.get(bookId)!)));
+  }
+  return amounts;
+}
+
+// Price the active cart. Automatic promotions and coupon codes stack: each one is taken off
+// what the earlier ones left, in KIND_ORDER, so no line ever drops below zero.
+export function priceCart(
+  lines: PricedLine[],
+  automatic: Promotion[],
+  coupons: AppliedCoupon[],
+  now: Date = new Date()
+): CartPricing {
+  const subtotal = roundMoney(lines.reduce((sum, line) => sum + line.book.price * line.quantity, 0));
+  const remaining = new Map(lines.map((line) => [line.book.id, roundMoney(line.book.price * line.quantity)]));
+  const discounts: DiscountLine[] = [];
+  const couponIssues: CouponIssue[] = [];
+
+  const candidates: { promotion: Promotion; code?: string }[] = [];
+  for (const { code, promotion } of coupons) {
+    if (promotion) {
+      candidates.push({ promotion, code });
+    } else {
+      couponIssues.push({ code, reason: 'not_found' });
+    }
+  }
+  // Automatic promotions go ahead of codes of the same kind
+  candidates.unshift(...automatic.map((promotion) => ({ promotion })));
+  candidates.sort((a, b) => KIND_ORDER[a.promotion.rule.kind] - KIND_ORDER[b.promotion.rule.kind]);
+
+  for (const { promotion, code } of candidates) {
+    // Automatic promotions that do not apply are simply left out
+    const reject = (issue: Omit<CouponIssue, 'code'>) => {
+      if (code) couponIssues.push({ code, ...issue });
+    };
+
+    const scheduleIssue = checkSchedule(promotion, now);
+    if (scheduleIssue) {
+      reject({ reason: scheduleIssue });
+      continue;
+    }
+    const eligible = lines.filter((line) => isInScope(promotion, line.book));
+    if (eligible.length === 0) {
+      reject({ reason: 'no_eligible_items' });
+      continue;
+    }
+    const eligibleSubtotal = eligible.reduce((sum, line) => sum + line.book.price * line.quantity, 0);
+    if (promotion.minSpend && roundMoney(eligibleSubtotal) < promotion.minSpend) {
+      reject({ reason: 'min_spend', minSpend: promotion.minSpend });
+      continue;
+    }
+    const { rule } = promotion;
+    if (rule.kind === 'buy_x_get_y') {
+      const minQuantity = rule.buyQuantity + rule.freeQuantity;
+      if (eligible.reduce((sum, line) => sum + line.quantity, 0) < minQuantity) {
+        reject({ reason: 'min_quantity', minQuantity });
+        continue;
+      }
+    }
+
+    const amounts = computeDiscounts(promotion, eligible, remaining);
+    const amount = roundMoney(Array.from(amounts.values()).reduce((sum, value) => sum + value, 0));
+    if (amount <= 0) {
+      // Earlier promotions already took everything off these items
+      reject({ reason: 'no_eligible_items' });
+      continue;
+    }
+    for (const [bookId, value] of amounts) {
+      remaining.set(bookId, roundMoney(remaining.get(bookId)! - value));
+    }
+    discounts.push({
+      promotionId: promotion.id,
+      ...(code ? { code } : {}),
+      description: promotion.description,
+      amount,
+      bookIds: Array.from(amounts.keys()).filter((bookId) => amounts.get(bookId)! > 0),
+    });
+  }
+
+  const discountTotal = roundMoney(discounts.reduce((sum, line) => sum + line.amount, 0));
+  return {
+    subtotal,
+    discounts,
+    discountTotal,
+    total: roundMoney(subtotal - discountTotal),
+    couponCodes: coupons.map((coupon) => coupon.code),
+    couponIssues,
+  };
+}
+
+// Short customer-facing text, e.g. "Spend $50.00 or more on eligible items to use this code."
+// The API answers in English; pages pass their own translator and currency formatter.
+export function describeCouponIssue(
+  issue: CouponIssue,
+  t: Translator = createTranslator(DEFAULT_LOCALE),
+  format: (amount: number) => string = formatPrice
+): string {
+  switch (issue.reason) {
+    case 'not_found':
+      return t('couponIssues.notFound');
+    case 'inactive':
+      return t('couponIssues.inactive');
+    case 'not_started':
+      return t('couponIssues.notStarted');
+    case 'expired':
+      return t('couponIssues.expired');
+    case 'no_eligible_items':
+      return t('couponIssues.noEligibleItems');
+    case 'min_spend':
+      return t('couponIssues.minSpend', { amount: format(issue.minSpend ?? 0) });
+    case 'min_quantity':
+      return t('couponIssues.minQuantity', { count: issue.minQuantity ?? 0 });
+    case 'too_many_codes':
+      return t('couponIssues.tooManyCodes', { count: MAX_COUPON_CODES });
+  }
+}
@@ -0,0 +1,15 @@
+// src/app/lib/ratings.ts
+
+// Book ratings are stored with one decimal place (e.g. 4.8)
+export function roundRating(average: number): number {
+  return Math.round(average * 10) / 10;
+}
+
+// Aggregate rating and review count for a set of review ratings
+export function summarizeRatings(ratings: number[]): { rating: number; reviewCount: number } {
+  if (ratings.length === 0) {
+    return { rating: 0, reviewCount: 0 };
+  }
+  const total = ratings.reduce((sum, rating) => sum + rating, 0);
+  return { rating: roundRating(total / ratings.length), reviewCount: ratings.length };
+}
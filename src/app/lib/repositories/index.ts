@@ -0,0 +1,80 @@
+// src/app/lib/repositories/index.ts
+import { Repositories } from './types';
+import { mongoBookRepository } from './mongo/books';
+import { mongoReviewRepository } from './mongo/reviews';
+import { mongoCartRepository } from './mongo/cart';
+import { mongoWishlistRepository } from './mongo/wishlist';
+import { mongoPromotionRepository } from './mongo/promotions';
+import { mongoOrderRepository } from './mongo/orders';
+import { mongoSessionRepository, mongoUserRepository } from './mongo/users';
+import { memoryBookRepository } from './memory/books';
+import { memoryReviewRepository } from './memory/reviews';
+import { memoryCartRepository } from './memory/cart';
+import { memoryWishlistRepository } from './memory/wishlist';
+import { memoryPromotionRepository } from './memory/promotions';
+import { memoryOrderRepository } from './memory/orders';
+import { memorySessionRepository, memoryUserRepository } from './memory/users';
+
+export type DataStore = 'mongo' | 'memory';
+
+const mongoRepositories: Repositories = {
+  books: mongoBookRepository,
+  reviews: mongoReviewRepository,
+  cart: mongoCartRepository,
+  wishlist: mongoWishlistRepository,
+  promotions: mongoPromotionRepository,
+  orders: mongoOrderRepository,
+  users: mongoUserRepository,
+  sessions: mongoSessionRepository,
+};
+
+const memoryRepositories: Repositories = {
+  books: memoryBookRepository,
+  reviews: memoryReviewRepository,
+  cart: memoryCartRepository,
+  wishlist: memoryWishlistRepository,
+  promotions: memoryPromotionRepository,
+  orders: memoryOrderRepository,
+  users: memoryUserRepository,
+  sessions: memorySessionRepository,
+};
+
+// Pick the backend from DATA_STORE ('mongo' | 'memory').
+// When it is not set we use MongoDB if a connection string is configured. Outside production we
+// fall back to the in-memory store; in production a missing MONGODB_URI is a configuration error,
+// since everything written to the memory store is lost on restart.
+export function getDataStore(): DataStore {
+  const configured = process.env.DATA_STORE;
+  if (configured === 'mongo' || configured === 'memory') {
+    return configured;
+  }
+  if (configured) {
+    throw new Error(`Invalid DATA_STORE "${configured}". Expected "mongo" or "memory".`);
+  }
+  if (process.env.MONGODB_URI) {
+    return 'mongo';
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('MONGODB_URI is not set. Configure MongoDB, or set DATA_STORE=memory to run on the in-memory store.');
+  }
+  return 'memory';
+}
+
+export function getRepositories(): Repositories {
+  return getDataStore() === 'mongo' ? mongoRepositories : memoryRepositories;
+}
+
+export type {
+  BookRepository,
+  ReviewRepository,
+  CartRepository,
+  WishlistRepository,
+  PromotionRepository,
+  OrderRepository,
+  CreateOrderResult,
+  UserRepository,
+  UserRecord,
+  SessionRepository,
+  SessionRecord,
+  Repositories,
+} from './types';
@@ -0,0 +1,116 @@
+// src/app/lib/repositories/memory/books.ts
+import { Book, BookQuery, SearchCandidateFilter } from '@/app/types';
+import { countFacets, matchesFacetFilters } from '../../facets';
+import { BookRepository } from '../types';
+import { generateId, getMemoryStore } from './store';
+
+// Same semantics as the MongoDB filter: featured flag and a case-insensitive
+// substring match on title or author (facet filters are checked separately)
+function matchesBaseQuery(book: Book, query: BookQuery): boolean {
+  if (query.featured !== undefined && book.featured !== query.featured) {
+    return false;
+  }
+  if (query.q) {
+    const needle = query.q.toLowerCase();
+    return book.title.toLowerCase().includes(needle) || book.author.toLowerCase().includes(needle);
+  }
+  return true;
+}
+
+// Same semantics as the MongoDB candidate filter
+function matchesSearchCandidate(book: Book, filter: SearchCandidateFilter): boolean {
+  if (filter.isbnDigits && book.isbn.replace(/[^0-9xX]/g, '').toLowerCase().includes(filter.isbnDigits)) {
+    return true;
+  }
+  const text = [book.title, book.author, ...book.tags, book.publisher, book.description].join('\n').toLowerCase();
+  return filter.terms.every((fragments) => fragments.some((fragment) => text.includes(fragment)));
+}
+
+function compareBooks(a: Book, b: Book, query: BookQuery): number {
+  let comparison = 0;
+  switch (query.sortBy) {
+    case 'title':
+      comparison = a.title.localeCompare(b.title);
+      break;
+    case 'author':
+      comparison = a.author.localeCompare(b.author);
+      break;
+    case 'datePublished':
+      comparison = new Date(a.datePublished).getTime() - new Date(b.datePublished).getTime();
+      break;
+    default:
+      comparison = a[query.sortBy] - b[query.sortBy];
+  }
+  return query.sortOrder === 'asc' ? comparison : -comparison;
+}
+
+export const memoryBookRepository: BookRepository = {
+  // READ: Get all books
+  async findAll() {
+    const { books } = getMemoryStore();
+    return Array.from(books.values(), (book) => structuredClone(book));
+  },
+
+  // READ: Get one page of books matching the query
+  async findPage(query) {
+    const { books } = getMemoryStore();
+    // Array.prototype.sort is stable, so ties keep insertion order
+    const matching = Array.from(books.values())
+      .filter((book) => matchesBaseQuery(book, query) && matchesFacetFilters(book, query.filters))
+      .sort((a, b) => compareBooks(a, b, query));
+
+    const start = (query.page - 1) * query.limit;
+    return {
+      books: matching.slice(start, start + query.limit).map((book) => structuredClone(book)),
+      page: query.page,
+      limit: query.limit,
+      totalItems: matching.length,
+      totalPages: Math.ceil(matching.length / query.limit),
+    };
+  },
+
+  // READ: Get facet counts for the books matching the query
+  async findFacets(query) {
+    const { books } = getMemoryStore();
+    const matching = Array.from(books.values()).filter((book) => matchesBaseQuery(book, query));
+    return countFacets(matching, query.filters);
+  },
+
+  // READ: Get the books that may match a search
+  async findSearchCandidates(filter) {
+    const { books } = getMemoryStore();
+    return Array.from(books.values())
+      .filter((book) => matchesSearchCandidate(book, filter))
+      .map((book) => structuredClone(book));
+  },
+
+  // READ: Get a single book by its ID
+  async findById(id) {
+    const book = getMemoryStore().books.get(id);
+    return book ? structuredClone(book) : null;
+  },
+
+  // CREATE: Add a new book
+  async create(bookData) {
+    const newBook: Book = { ...structuredClone(bookData), id: generateId() };
+    getMemoryStore().books.set(newBook.id, newBook);
+    return structuredClone(newBook);
+  },
+
+  // UPDATE: Modify an existing book
+  async update(id, updates) {
+    const { books } = getMemoryStore();
+    const existing = books.get(id);
+    if (!existing) {
+      return null;
+    }
+    const updated: Book = { ...existing, ...structuredClone(updates), id };
+    books.set(id, updated);
+    return structuredClone(updated);
+  },
+
+  // DELETE: Remove a book
+  async delete(id) {
+    return getMemoryStore().books.delete(id);
+  },
+};
@@ -0,0 +1,134 @@
+// src/app/lib/repositories/memory/cart.ts
+import { CartItem, CartOwner } from '@/app/types';
+import { CartRepository } from '../types';
+import { generateId, getMemoryStore } from './store';
+
+// Key of the owner's entry in store.cartCoupons
+function ownerKey(owner: CartOwner): string {
+  return 'userId' in owner ? `user:${owner.userId}` : `guest:${owner.guestId}`;
+}
+
+function isOwnedBy(item: CartItem, owner: CartOwner): boolean {
+  return 'userId' in owner ? item.userId === owner.userId : item.guestId === owner.guestId;
+}
+
+// Look up a cart item, but only if it belongs to `owner`
+function findOwnedItem(owner: CartOwner, cartItemId: string): CartItem | undefined {
+  const item = getMemoryStore().cart.get(cartItemId);
+  return item && isOwnedBy(item, owner) ? item : undefined;
+}
+
+// The owner's item for a book in the active cart or in the saved-for-later list
+function findListItem(owner: CartOwner, bookId: string, savedForLater: boolean): CartItem | undefined {
+  return Array.from(getMemoryStore().cart.values()).find(
+    (item) => isOwnedBy(item, owner) && item.bookId === bookId && item.savedForLater === savedForLater
+  );
+}
+
+function findList(owner: CartOwner, savedForLater: boolean): CartItem[] {
+  return Array.from(getMemoryStore().cart.values())
+    .filter((item) => isOwnedBy(item, owner) && item.savedForLater === savedForLater)
+    .map((item) => structuredClone(item));
+}
+
+export const memoryCartRepository: CartRepository = {
+  // READ: Get the owner's active cart items
+  async findAll(owner) {
+    return findList(owner, false);
+  },
+
+  // READ: Get the owner's saved-for-later items
+  async findSaved(owner) {
+    return findList(owner, true);
+  },
+
+  // CREATE: Add an item to the cart, or update quantity if it already exists
+  async addItem(owner, itemData) {
+    if (!itemData.bookId) {
+      throw new Error('Invalid Book ID');
+    }
+    const savedForLater = itemData.savedForLater ?? false;
+
+    const existingItem = findListItem(owner, itemData.bookId, savedForLater);
+    if (existingItem) {
+      existingItem.quantity += itemData.quantity;
+      return structuredClone(existingItem);
+    }
+
+    const newItem: CartItem = {
+      id: generateId(),
+      ...owner,
+      bookId: itemData.bookId,
+      quantity: itemData.quantity,
+      addedAt: new Date().toISOString(),
+      savedForLater,
+    };
+    getMemoryStore().cart.set(newItem.id, newItem);
+    return structuredClone(newItem);
+  },
+
+  // UPDATE: Update a cart item's quantity
+  async updateQuantity(owner, cartItemId, quantity) {
+    const item = findOwnedItem(owner, cartItemId);
+    if (!item) {
+      return null;
+    }
+    item.quantity = quantity;
+    return structuredClone(item);
+  },
+
+  // UPDATE: Move an item between the active cart and the saved-for-later list
+  async setSavedForLater(owner, cartItemId, savedForLater) {
+    const item = findOwnedItem(owner, cartItemId);
+    if (!item) {
+      return null;
+    }
+    if (item.savedForLater === savedForLater) {
+      return structuredClone(item);
+    }
+    const target = findListItem(owner, item.bookId, savedForLater);
+    if (target) {
+      target.quantity += item.quantity;
+      getMemoryStore().cart.delete(item.id);
+      return structuredClone(target);
+    }
+    item.savedForLater = savedForLater;
+    return structuredClone(item);
+  },
+
+  // DELETE: Remove a specific item from the cart
+  async removeItem(owner, cartItemId) {
+    if (!findOwnedItem(owner, cartItemId)) {
+      return false;
+    }
+    return getMemoryStore().cart.delete(cartItemId);
+  },
+
+  // DELETE: Clear the owner's active cart items (saved-for-later items stay)
+  async clear(owner) {
+    const { cart } = getMemoryStore();
+    let deletedCount = 0;
+    for (const item of Array.from(cart.values())) {
+      if (isOwnedBy(item, owner) && !item.savedForLater) {
+        cart.delete(item.id);
+        deletedCount++;
+      }
+    }
+    return deletedCount;
+  },
+
+  // READ: Get the coupon codes applied to the owner's cart
+  async findCouponCodes(owner) {
+    return [...(getMemoryStore().cartCoupons.get(ownerKey(owner)) ?? [])];
+  },
+
+  // UPDATE: Replace the coupon codes applied to the owner's cart
+  async setCouponCodes(owner, codes) {
+    const { cartCoupons } = getMemoryStore();
+    if (codes.length > 0) {
+      cartCoupons.set(ownerKey(owner), [...codes]);
+    } else {
+      cartCoupons.delete(ownerKey(owner));
+    }
+  },
+};
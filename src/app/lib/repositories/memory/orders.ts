@@ -0,0 +1,77 @@
+// src/app/lib/repositories/memory/orders.ts
+import { Order } from '@/app/types';
+import { canFulfill } from '../../inventory';
+import { OrderRepository } from '../types';
+import { generateId, getMemoryStore } from './store';
+
+export const memoryOrderRepository: OrderRepository = {
+  // READ: Get all orders, newest first
+  async findAll() {
+    const { orders } = getMemoryStore();
+    return Array.from(orders.values(), (order) => structuredClone(order)).sort((a, b) =>
+      b.createdAt.localeCompare(a.createdAt)
+    );
+  },
+
+  // READ: Get a user's orders, newest first
+  async findByUserId(userId) {
+    const { orders } = getMemoryStore();
+    return Array.from(orders.values())
+      .filter((order) => order.userId === userId)
+      .map((order) => structuredClone(order))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  },
+
+  // READ: Get a single order by its ID
+  async findById(id) {
+    const order = getMemoryStore().orders.get(id);
+    return order ? structuredClone(order) : null;
+  },
+
+  // CREATE: Check every line first, then take the stock and store the order.
+  // There is no await in between, so no other request can interleave.
+  async create(orderData) {
+    const { books, orders } = getMemoryStore();
+
+    for (const item of orderData.items) {
+      const book = books.get(item.bookId);
+      if (!book) {
+        return { issue: { bookId: item.bookId, reason: 'not_found', requested: item.quantity, available: 0 } };
+      }
+      if (!canFulfill(book, item.quantity)) {
+        return {
+          issue: { bookId: item.bookId, reason: 'insufficient_stock', requested: item.quantity, available: book.stock },
+        };
+      }
+    }
+
+    for (const item of orderData.items) {
+      books.get(item.bookId)!.stock -= item.quantity;
+    }
+    const newOrder: Order = { ...structuredClone(orderData), id: generateId() };
+    orders.set(newOrder.id, newOrder);
+    return { order: structuredClone(newOrder) };
+  },
+
+  // UPDATE: Move an order to a new status, restocking on cancellation
+  async updateStatus(id, from, to) {
+    const { books, orders } = getMemoryStore();
+    const order = orders.get(id);
+    if (!order || order.status !== from) {
+      return null;
+    }
+
+    const timestamp = new Date().toISOString();
+    order.status = to;
+    order.statusHistory.push({ status: to, timestamp });
+    order.updatedAt = timestamp;
+
+    if (to === 'cancelled') {
+      for (const item of order.items) {
+        const book = books.get(item.bookId);
+        if (book) book.stock += item.quantity; // The book may have been deleted since
+      }
+    }
+    return structuredClone(order);
+  },
+};
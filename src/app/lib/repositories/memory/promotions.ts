@@ -0,0 +1,16 @@
+// src/app/lib/repositories/memory/promotions.ts
+import { PromotionRepository } from '../types';
+import { getMemoryStore } from './store';
+
+export const memoryPromotionRepository: PromotionRepository = {
+  // READ: Get every promotion
+  async findAll() {
+    return Array.from(getMemoryStore().promotions.values()).map((promotion) => structuredClone(promotion));
+  },
+
+  // READ: Get the promotion with this code
+  async findByCode(code) {
+    const promotion = Array.from(getMemoryStore().promotions.values()).find((item) => item.code === code);
+    return promotion ? structuredClone(promotion) : null;
+  },
+};
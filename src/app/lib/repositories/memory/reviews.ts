@@ -0,0 +1,194 @@
+// src/app/lib/repositories/memory/reviews.ts
+import { Review, ReviewVote, StarRating, VoteValue } from '@/app/types';
+import { compareToCursor, sortReviews } from '../../reviews';
+import { ReviewRepository } from '../types';
+import { generateId, getMemoryStore, refreshBookStats } from './store';
+
+const COUNT_FIELDS: Record<VoteValue, 'helpfulCount' | 'unhelpfulCount'> = {
+  helpful: 'helpfulCount',
+  unhelpful: 'unhelpfulCount',
+};
+
+function findUserReview(reviews: Map<string, Review>, userId: string, bookId: string): Review | undefined {
+  return Array.from(reviews.values()).find((review) => review.userId === userId && review.bookId === bookId);
+}
+
+export const memoryReviewRepository: ReviewRepository = {
+  // READ: Get all reviews, optionally only those with a given status
+  async findAll(status) {
+    const { reviews } = getMemoryStore();
+    return Array.from(reviews.values())
+      .filter((review) => !status || review.status === status)
+      .map((review) => structuredClone(review));
+  },
+
+  // READ: Get a single review by its ID
+  async findById(id) {
+    const review = getMemoryStore().reviews.get(id);
+    return review ? structuredClone(review) : null;
+  },
+
+  // READ: Get all reviews for a specific book, optionally only those with a given status
+  async findByBookId(bookId, status) {
+    const { reviews } = getMemoryStore();
+    return Array.from(reviews.values())
+      .filter((review) => review.bookId === bookId && (!status || review.status === status))
+      .map((review) => structuredClone(review));
+  },
+
+  // READ: Get one page of a book's reviews
+  async findPage({ bookId, sort, limit, rating, cursor }, status) {
+    const { reviews } = getMemoryStore();
+    const matching = Array.from(reviews.values()).filter(
+      (review) =>
+        review.bookId === bookId && (!status || review.status === status) && (!rating || review.rating === rating)
+    );
+    const after = sortReviews(matching, sort).filter((review) => !cursor || compareToCursor(review, cursor, sort) > 0);
+    return {
+      reviews: after.slice(0, limit).map((review) => structuredClone(review)),
+      hasMore: after.length > limit,
+    };
+  },
+
+  // READ: Count a book's reviews per star value
+  async countByRating(bookId, status) {
+    const counts: Record<StarRating, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+    for (const review of getMemoryStore().reviews.values()) {
+      if (review.bookId === bookId && (!status || review.status === status)) {
+        counts[review.rating as StarRating]++;
+      }
+    }
+    return counts;
+  },
+
+  // READ: Get a user's review of a book
+  async findByUserAndBook(userId, bookId) {
+    const review = findUserReview(getMemoryStore().reviews, userId, bookId);
+    return review ? structuredClone(review) : null;
+  },
+
+  // CREATE: Add a new review and refresh the book's rating (one review per user and book)
+  async create(reviewData) {
+    const store = getMemoryStore();
+    if (reviewData.userId && findUserReview(store.reviews, reviewData.userId, reviewData.bookId)) {
+      return null;
+    }
+    const newReview: Review = {
+      ...structuredClone(reviewData),
+      id: generateId(),
+      timestamp: new Date().toISOString(), // Ensure timestamp is current
+      verified: reviewData.verified || false,
+      helpfulCount: 0,
+      unhelpfulCount: 0,
+    };
+    store.reviews.set(newReview.id, newReview);
+    refreshBookStats(store, newReview.bookId);
+    return structuredClone(newReview);
+  },
+
+  // UPDATE: Modify an existing review and refresh the affected book ratings
+  async update(id, updates) {
+    const store = getMemoryStore();
+    const existing = store.reviews.get(id);
+    if (!existing) {
+      return null;
+    }
+    const updated: Review = { ...existing, ...structuredClone(updates), id };
+    store.reviews.set(id, updated);
+    refreshBookStats(store, existing.bookId);
+    if (updated.bookId !== existing.bookId) {
+      refreshBookStats(store, updated.bookId);
+    }
+    return structuredClone(updated);
+  },
+
+  // DELETE: Remove a review and refresh the book's rating
+  async delete(id) {
+    const store = getMemoryStore();
+    const existing = store.reviews.get(id);
+    if (!existing) {
+      return false;
+    }
+    store.reviews.delete(id);
+    for (const [key, vote] of store.reviewVotes) {
+      if (vote.reviewId === id) store.reviewVotes.delete(key);
+    }
+    refreshBookStats(store, existing.bookId);
+    return true;
+  },
+
+  // UPDATE: Approve or reject several reviews and refresh the affected book ratings
+  async setStatus(ids, status, reason) {
+    const store = getMemoryStore();
+    const moderatedAt = new Date().toISOString();
+    const updated: Review[] = [];
+    const bookIds = new Set<string>();
+    for (const id of new Set(ids)) {
+      const review = store.reviews.get(id);
+      if (!review) continue;
+      review.status = status;
+      review.moderatedAt = moderatedAt;
+      if (status === 'rejected' && reason) {
+        review.moderationReason = reason;
+      } else {
+        delete review.moderationReason;
+      }
+      bookIds.add(review.bookId);
+      updated.push(structuredClone(review));
+    }
+    for (const bookId of bookIds) {
+      refreshBookStats(store, bookId);
+    }
+    return updated;
+  },
+
+  // UPDATE: Flag a user's reviews of these books as verified purchases
+  async markVerified(userId, bookIds) {
+    let count = 0;
+    for (const review of getMemoryStore().reviews.values()) {
+      if (review.userId === userId && bookIds.includes(review.bookId) && !review.verified) {
+        review.verified = true;
+        count++;
+      }
+    }
+    return count;
+  },
+
+  // UPDATE: Record, change or withdraw a user's vote and update the review's counts
+  async setVote(reviewId, userId, value) {
+    const store = getMemoryStore();
+    const review = store.reviews.get(reviewId);
+    if (!review) {
+      return null;
+    }
+    const key = `${reviewId}:${userId}`;
+    const previous = store.reviewVotes.get(key);
+    if (previous) {
+      review[COUNT_FIELDS[previous.value]]--;
+      store.reviewVotes.delete(key);
+    }
+    if (value) {
+      review[COUNT_FIELDS[value]]++;
+      store.reviewVotes.set(key, { reviewId, userId, value, createdAt: new Date().toISOString() });
+    }
+    return structuredClone(review);
+  },
+
+  // READ: Get the user's votes on any of these reviews
+  async findVotes(userId, reviewIds) {
+    const { reviewVotes } = getMemoryStore();
+    return reviewIds
+      .map((reviewId) => reviewVotes.get(`${reviewId}:${userId}`))
+      .filter((vote): vote is ReviewVote => vote !== undefined)
+      .map((vote) => structuredClone(vote));
+  },
+
+  // Recompute rating and reviewCount for every book
+  async rebuildBookStats() {
+    const store = getMemoryStore();
+    for (const bookId of store.books.keys()) {
+      refreshBookStats(store, bookId);
+    }
+    return store.books.size;
+  },
+};
@@ -0,0 +1,99 @@
+// src/app/lib/repositories/memory/store.ts
+import { randomUUID } from 'crypto';
+import { books as seedBooks } from '@/app/data/books';
+import { reviews as seedReviews } from '@/app/data/reviews';
+import { initialCart } from '@/app/data/cart';
+import { promotions as seedPromotions } from '@/app/data/promotions';
+import { demoUsers } from '@/app/data/users';
+import { Book, CartItem, Order, Promotion, Review, ReviewVote, WishlistItem } from '@/app/types';
+import { summarizeRatings } from '../../ratings';
+import { isPublished } from '../../reviews';
+import { hashPasswordSync } from '../../passwords';
+import { SessionRecord, UserRecord } from '../types';
+
+// In-memory tables, keyed by id. Map preserves insertion order, which mirrors
+// the natural order MongoDB returns for an unsorted find().
+export interface MemoryStore {
+  books: Map<string, Book>;
+  reviews: Map<string, Review>;
+  reviewVotes: Map<string, ReviewVote>; // Keyed by `${reviewId}:${userId}`
+  cart: Map<string, CartItem>;
+  cartCoupons: Map<string, string[]>; // Keyed by `user:${userId}` or `guest:${guestId}`
+  promotions: Map<string, Promotion>;
+  wishlist: Map<string, WishlistItem>;
+  orders: Map<string, Order>;
+  users: Map<string, UserRecord>;
+  sessions: Map<string, SessionRecord>; // Keyed by tokenHash
+}
+
+function byId<T extends { id: string }>(items: T[]): Map<string, T> {
+  // structuredClone so writes never leak back into the static seed data
+  return new Map(items.map((item) => [item.id, structuredClone(item)]));
+}
+
+// Recompute a book's rating and reviewCount from its approved reviews in the store
+export function refreshBookStats(store: MemoryStore, bookId: string): void {
+  const book = store.books.get(bookId);
+  if (!book) return;
+  const ratings = Array.from(store.reviews.values())
+    .filter((review) => review.bookId === bookId && isPublished(review))
+    .map((review) => review.rating);
+  Object.assign(book, summarizeRatings(ratings));
+}
+
+// Hash the demo account passwords; the rest of the record is copied as-is
+// The demo passwords are public, so a production build never gets these accounts
+function seedUsers(): Map<string, UserRecord> {
+  if (process.env.NODE_ENV === 'production') {
+    return new Map();
+  }
+  const createdAt = new Date().toISOString();
+  return byId(
+    demoUsers.map(({ password, ...user }) => ({
+      ...user,
+      id: generateId(),
+      passwordHash: hashPasswordSync(password),
+      createdAt,
+    }))
+  );
+}
+
+function createStore(): MemoryStore {
+  const store: MemoryStore = {
+    books: byId(seedBooks),
+    reviews: byId(seedReviews),
+    reviewVotes: new Map(),
+    cart: byId(initialCart),
+    cartCoupons: new Map(),
+    promotions: byId(seedPromotions),
+    wishlist: new Map(),
+    orders: new Map(),
+    users: seedUsers(),
+    sessions: new Map(),
+  };
+  // The seed files carry placeholder ratings; derive them from the seeded reviews instead
+  for (const bookId of store.books.keys()) {
+    refreshBookStats(store, bookId);
+  }
+  return store;
+}
+
+// The store lives on globalThis so every route handler (and hot reloads in development)
+// share the same data for the lifetime of the server process.
+const globalForStore = globalThis as typeof globalThis & { __amanaMemoryStore?: MemoryStore };
+
+export function getMemoryStore(): MemoryStore {
+  if (!globalForStore.__amanaMemoryStore) {
+    globalForStore.__amanaMemoryStore = createStore();
+  }
+  return globalForStore.__amanaMemoryStore;
+}
+
+// Drop all writes and go back to the seed data
+export function resetMemoryStore(): void {
+  globalForStore.__amanaMemoryStore = createStore();
+}
+
+export function generateId(): string {
+  return randomUUID();
+}
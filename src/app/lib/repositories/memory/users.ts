@@ -0,0 +1,66 @@
+// src/app/lib/repositories/memory/users.ts
+import { SessionRepository, UserRecord, UserRepository } from '../types';
+import { generateId, getMemoryStore } from './store';
+
+export const memoryUserRepository: UserRepository = {
+  // READ: Get a single user by ID
+  async findById(id) {
+    const user = getMemoryStore().users.get(id);
+    return user ? structuredClone(user) : null;
+  },
+
+  // READ: Get a single user by (lower-cased) email
+  async findByEmail(email) {
+    const { users } = getMemoryStore();
+    const user = Array.from(users.values()).find((candidate) => candidate.email === email);
+    return user ? structuredClone(user) : null;
+  },
+
+  // CREATE: Register a user unless the email is taken
+  async create(userData) {
+    const { users } = getMemoryStore();
+    if (Array.from(users.values()).some((user) => user.email === userData.email)) {
+      return null;
+    }
+    const newUser: UserRecord = { ...structuredClone(userData), id: generateId() };
+    users.set(newUser.id, newUser);
+    return structuredClone(newUser);
+  },
+
+  // UPDATE: Change a user's role
+  async setRole(email, role) {
+    const { users } = getMemoryStore();
+    const user = Array.from(users.values()).find((candidate) => candidate.email === email);
+    if (!user) {
+      return null;
+    }
+    user.role = role;
+    return structuredClone(user);
+  },
+};
+
+export const memorySessionRepository: SessionRepository = {
+  // CREATE: Store a new session
+  async create(session) {
+    getMemoryStore().sessions.set(session.tokenHash, structuredClone(session));
+  },
+
+  // READ: Get a session that has not expired yet
+  async findByTokenHash(tokenHash) {
+    const { sessions } = getMemoryStore();
+    const session = sessions.get(tokenHash);
+    if (!session) {
+      return null;
+    }
+    if (new Date(session.expiresAt).getTime() <= Date.now()) {
+      sessions.delete(tokenHash); // Clean up lazily
+      return null;
+    }
+    return structuredClone(session);
+  },
+
+  // DELETE: End a session
+  async delete(tokenHash) {
+    return getMemoryStore().sessions.delete(tokenHash);
+  },
+};
@@ -0,0 +1,38 @@
+// src/app/lib/repositories/memory/wishlist.ts
+import { WishlistItem } from '@/app/types';
+import { WishlistRepository } from '../types';
+import { generateId, getMemoryStore } from './store';
+
+function findUserItem(wishlist: Map<string, WishlistItem>, userId: string, bookId: string): WishlistItem | undefined {
+  return Array.from(wishlist.values()).find((item) => item.userId === userId && item.bookId === bookId);
+}
+
+export const memoryWishlistRepository: WishlistRepository = {
+  // READ: Get a user's wishlist, newest first
+  async findByUserId(userId) {
+    const { wishlist } = getMemoryStore();
+    return Array.from(wishlist.values())
+      .filter((item) => item.userId === userId)
+      .sort((a, b) => b.addedAt.localeCompare(a.addedAt))
+      .map((item) => structuredClone(item));
+  },
+
+  // CREATE: Add a book to the wishlist (no-op when it is already there)
+  async add(userId, bookId) {
+    const { wishlist } = getMemoryStore();
+    const existing = findUserItem(wishlist, userId, bookId);
+    if (existing) {
+      return structuredClone(existing);
+    }
+    const newItem: WishlistItem = { id: generateId(), userId, bookId, addedAt: new Date().toISOString() };
+    wishlist.set(newItem.id, newItem);
+    return structuredClone(newItem);
+  },
+
+  // DELETE: Remove a book from the wishlist
+  async remove(userId, bookId) {
+    const { wishlist } = getMemoryStore();
+    const existing = findUserItem(wishlist, userId, bookId);
+    return existing ? wishlist.delete(existing.id) : false;
+  },
+};
@@ -0,0 +1,284 @@
+// src/app/lib/repositories/mongo/books.ts
+import { Collection, Document, Filter, ObjectId, Sort, WithId } from 'mongodb';
+import { connectToDatabase } from '../../mongodb';
+import { Book, BookFacets, BookQuery, FacetFilters, FacetName, SearchCandidateFilter } from '@/app/types';
+import { FACET_BANDS, FACET_NAMES, FacetBand, toFacetCounts } from '../../facets';
+import { BookRepository } from '../types';
+
+type BookDocument = Omit<Book, 'id'>;
+
+// Helper function to get the 'books' collection
+async function getBooksCollection(): Promise<Collection<BookDocument>> {
+  const { db } = await connectToDatabase();
+  // We use Omit<Book, 'id'> because MongoDB uses `_id` and we'll map it to `id`
+  return db.collection<BookDocument>('books');
+}
+
+// Books stored before stock tracking only have an inStock flag (see migrateLegacyStock)
+type LegacyStockFields = { inStock?: boolean };
+
+// Units assumed on hand for a legacy book marked in stock: enough to show as "In Stock"
+export const LEGACY_IN_STOCK_UNITS = 10;
+
+// Helper to map MongoDB's _id to our desired id field
+function mapMongoId(doc: WithId<BookDocument & LegacyStockFields>): Book {
+  const { _id, inStock, ...rest } = doc;
+  return {
+    id: _id.toHexString(),
+    ...rest,
+    // Legacy documents read as they would after migrateLegacyStock
+    stock: rest.stock ?? (inStock ? LEGACY_IN_STOCK_UNITS : 0),
+    allowBackorder: rest.allowBackorder ?? false,
+  };
+}
+
+// Give books stored before stock tracking real stock fields and drop their inStock flag, so
+// checkout can take them out of stock. Returns the number of books updated; safe to run again.
+export async function migrateLegacyStock(): Promise<number> {
+  const collection = await getBooksCollection();
+  const result = await collection.updateMany({ stock: { $exists: false } }, [
+    {
+      $set: {
+        stock: { $cond: [{ $eq: ['$inStock', true] }, LEGACY_IN_STOCK_UNITS, 0] },
+        allowBackorder: { $ifNull: ['$allowBackorder', false] },
+      },
+    },
+    { $unset: 'inStock' },
+  ]);
+  return result.modifiedCount;
+}
+
+// Escape user input before embedding it in a $regex
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Range condition for a price/rating band (min inclusive, max exclusive)
+function bandCondition(field: 'price' | 'rating', band: FacetBand): Filter<BookDocument> {
+  const range: { $gte?: number; $lt?: number } = {};
+  if (band.min !== undefined) range.$gte = band.min;
+  if (band.max !== undefined) range.$lt = band.max;
+  return { [field]: range };
+}
+
+// Conditions for the selected facet values, optionally leaving one facet out
+function buildFacetConditions(filters: FacetFilters, except?: FacetName): Filter<BookDocument>[] {
+  const conditions: Filter<BookDocument>[] = [];
+  for (const facet of FACET_NAMES) {
+    const selected = filters[facet];
+    if (facet === except || !selected || selected.length === 0) continue;
+
+    switch (facet) {
+      case 'genre':
+        conditions.push({ genre: { $in: selected } }); // Matches when the genre array contains any value
+        break;
+      case 'language':
+      case 'publisher':
+        conditions.push({ [facet]: { $in: selected } });
+        break;
+      case 'year':
+        // datePublished is an ISO date string, so a year is a string range
+        conditions.push({
+          $or: selected.map((year) => ({ datePublished: { $gte: year, $lt: String(Number(year) + 1) } })),
+        });
+        break;
+      case 'price':
+      case 'rating': {
+        const bands = FACET_BANDS[facet]!.filter((band) => selected.includes(band.value));
+        conditions.push({ $or: bands.map((band) => bandCondition(facet, band)) });
+        break;
+      }
+    }
+  }
+  return conditions;
+}
+
+// Translate the filter part of a BookQuery (without facets) into a MongoDB filter
+function buildBaseFilter(query: BookQuery): Filter<BookDocument> {
+  const filter: Filter<BookDocument> = {};
+  if (query.featured !== undefined) {
+    filter.featured = query.featured;
+  }
+  if (query.q) {
+    const pattern = { $regex: escapeRegex(query.q), $options: 'i' };
+    filter.$or = [{ title: pattern }, { author: pattern }];
+  }
+  return filter;
+}
+
+// Fields a search term is looked for in (the ISBN is matched on its digits instead)
+const SEARCH_TEXT_FIELDS = ['title', 'author', 'tags', 'publisher', 'description'] as const;
+
+// Translate a SearchCandidateFilter into a MongoDB filter
+function buildSearchCandidateFilter(filter: SearchCandidateFilter): Filter<BookDocument> {
+  const termConditions: Filter<BookDocument> = {
+    $and: filter.terms.map((fragments) => ({
+      $or: fragments.flatMap((fragment) =>
+        SEARCH_TEXT_FIELDS.map((field) => ({ [field]: { $regex: escapeRegex(fragment), $options: 'i' } }))
+      ),
+    })),
+  };
+  if (!filter.isbnDigits) {
+    return termConditions;
+  }
+  // ISBNs may be stored with hyphens or spaces between the digits
+  const isbnPattern = filter.isbnDigits.split('').map(escapeRegex).join('[-\\s]*');
+  return { $or: [{ isbn: { $regex: isbnPattern, $options: 'i' } }, termConditions] };
+}
+
+// Full filter for a BookQuery: base conditions plus every selected facet
+function buildBookFilter(query: BookQuery): Filter<BookDocument> {
+  const conditions = [buildBaseFilter(query), ...buildFacetConditions(query.filters)];
+  return { $and: conditions };
+}
+
+// Aggregation expression mapping a numeric field to its band value
+function bandSwitch(field: 'price' | 'rating', bands: FacetBand[]): Document {
+  return {
+    $switch: {
+      branches: bands.map((band) => ({
+        case: {
+          $and: [
+            band.min !== undefined ? { $gte: [`$${field}`, band.min] } : true,
+            band.max !== undefined ? { $lt: [`$${field}`, band.max] } : true,
+          ],
+        },
+        then: band.value,
+      })),
+      default: null,
+    },
+  };
+}
+
+// The $group key for each facet
+const FACET_GROUP_KEYS: Record<FacetName, Document | string> = {
+  genre: '$genre', // after $unwind
+  language: '$language',
+  publisher: '$publisher',
+  year: { $substrCP: ['$datePublished', 0, 4] },
+  price: bandSwitch('price', FACET_BANDS.price!),
+  rating: bandSwitch('rating', FACET_BANDS.rating!),
+};
+
+export const mongoBookRepository: BookRepository = {
+  // READ: Get all books
+  async findAll() {
+    const collection = await getBooksCollection();
+    const documents = await collection.find({}).toArray();
+    return documents.map(mapMongoId);
+  },
+
+  // READ: Get one page of books matching the query
+  async findPage(query) {
+    const collection = await getBooksCollection();
+    const filter = buildBookFilter(query);
+    const direction = query.sortOrder === 'asc' ? 1 : -1;
+    // Tie-break on _id so paging is stable when sort values are equal
+    const sort: Sort = { [query.sortBy]: direction, _id: 1 };
+
+    const [documents, totalItems] = await Promise.all([
+      collection
+        .find(filter)
+        .collation({ locale: 'en' }) // Case-insensitive ordering for title/author
+        .sort(sort)
+        .skip((query.page - 1) * query.limit)
+        .limit(query.limit)
+        .toArray(),
+      collection.countDocuments(filter),
+    ]);
+
+    return {
+      books: documents.map(mapMongoId),
+      page: query.page,
+      limit: query.limit,
+      totalItems,
+      totalPages: Math.ceil(totalItems / query.limit),
+    };
+  },
+
+  // READ: Get facet counts for the books matching the query
+  // Each facet is counted against every filter except its own (disjunctive faceting)
+  async findFacets(query) {
+    const collection = await getBooksCollection();
+    const facetPipelines: Record<string, Document[]> = {};
+    for (const facet of FACET_NAMES) {
+      const conditions = buildFacetConditions(query.filters, facet);
+      facetPipelines[facet] = [
+        ...(conditions.length > 0 ? [{ $match: { $and: conditions } }] : []),
+        ...(facet === 'genre' ? [{ $unwind: '$genre' }] : []),
+        { $group: { _id: FACET_GROUP_KEYS[facet], count: { $sum: 1 } } },
+      ];
+    }
+
+    const [result] = await collection
+      .aggregate<Record<FacetName, { _id: string | null; count: number }[]>>([
+        { $match: buildBaseFilter(query) },
+        { $facet: facetPipelines },
+      ])
+      .toArray();
+
+    const facets = {} as BookFacets;
+    for (const facet of FACET_NAMES) {
+      const counts = new Map<string, number>();
+      for (const { _id, count } of result?.[facet] ?? []) {
+        if (_id !== null) counts.set(_id, count);
+      }
+      facets[facet] = toFacetCounts(facet, counts, query.filters[facet]);
+    }
+    return facets;
+  },
+
+  // READ: Get the books that may match a search
+  async findSearchCandidates(filter) {
+    const collection = await getBooksCollection();
+    const documents = await collection.find(buildSearchCandidateFilter(filter)).toArray();
+    return documents.map(mapMongoId);
+  },
+
+  // READ: Get a single book by its ID
+  async findById(id) {
+    if (!ObjectId.isValid(id)) {
+      return null; // Invalid ID format
+    }
+    const collection = await getBooksCollection();
+    const document = await collection.findOne({ _id: new ObjectId(id) });
+    return document ? mapMongoId(document) : null;
+  },
+
+  // CREATE: Add a new book
+  async create(bookData) {
+    const collection = await getBooksCollection();
+    const result = await collection.insertOne(bookData);
+
+    // Fetch the newly created document to return it
+    const newBook = await collection.findOne({ _id: result.insertedId });
+    if (!newBook) {
+      throw new Error('Failed to create and retrieve the new book.');
+    }
+    return mapMongoId(newBook);
+  },
+
+  // UPDATE: Modify an existing book
+  async update(id, updates) {
+    if (!ObjectId.isValid(id)) {
+      return null;
+    }
+    const collection = await getBooksCollection();
+    const result = await collection.findOneAndUpdate(
+      { _id: new ObjectId(id) },
+      { $set: updates },
+      { returnDocument: 'after' } // Returns the document after the update
+    );
+    return result ? mapMongoId(result) : null;
+  },
+
+  // DELETE: Remove a book
+  async delete(id) {
+    if (!ObjectId.isValid(id)) {
+      return false;
+    }
+    const collection = await getBooksCollection();
+    const result = await collection.deleteOne({ _id: new ObjectId(id) });
+    return result.deletedCount === 1;
+  },
+};
@@ -0,0 +1,202 @@
+// src/app/lib/repositories/mongo/cart.ts
+import { Collection, Filter, ObjectId, WithId } from 'mongodb';
+import { connectToDatabase, withTransaction } from '../../mongodb';
+import { CartItem, CartOwner } from '@/app/types';
+import { CartRepository } from '../types';
+
+// Define the shape of the cart item in the database
+// This is separate from the CartItem type to handle ObjectId
+interface CartItemDocument {
+  userId?: string; // Owner of the cart: a user...
+  guestId?: string; // ...or an anonymous visitor
+  bookId: ObjectId; // Store bookId as ObjectId
+  quantity: number;
+  addedAt: string;
+  savedForLater?: boolean; // Missing on items stored before save-for-later existed
+}
+
+// The coupon codes applied to one owner's cart
+interface CartCouponsDocument {
+  userId?: string;
+  guestId?: string;
+  codes: string[];
+}
+
+// Helper function to get the 'cart' collection
+async function getCartCollection(): Promise<Collection<CartItemDocument>> {
+  const { db } = await connectToDatabase();
+  return db.collection<CartItemDocument>('cart');
+}
+
+async function getCartCouponsCollection(): Promise<Collection<CartCouponsDocument>> {
+  const { db } = await connectToDatabase();
+  return db.collection<CartCouponsDocument>('cart_coupons');
+}
+
+// Matches the owner's items. CartOwner has exactly one of userId / guestId, which is
+// also how the owner is stored on the document.
+function ownerFilter(owner: CartOwner): Filter<CartItemDocument> & Filter<CartCouponsDocument> {
+  return 'userId' in owner ? { userId: owner.userId } : { guestId: owner.guestId };
+}
+
+// Items in the active cart, or in the saved-for-later list
+function listFilter(savedForLater: boolean): Filter<CartItemDocument> {
+  return savedForLater ? { savedForLater: true } : { savedForLater: { $ne: true } };
+}
+
+// Helper to map MongoDB's _id to our desired id field
+function mapMongoId(doc: WithId<CartItemDocument>): CartItem {
+  const { _id, ...rest } = doc;
+  return {
+    id: _id.toHexString(),
+    ...rest,
+    bookId: rest.bookId.toHexString(), // Convert bookId back to string
+    savedForLater: rest.savedForLater ?? false,
+  };
+}
+
+export const mongoCartRepository: CartRepository = {
+  // READ: Get the owner's active cart items
+  async findAll(owner) {
+    const collection = await getCartCollection();
+    const documents = await collection.find({ ...ownerFilter(owner), ...listFilter(false) }).toArray();
+    return documents.map(mapMongoId);
+  },
+
+  // READ: Get the owner's saved-for-later items
+  async findSaved(owner) {
+    const collection = await getCartCollection();
+    const documents = await collection.find({ ...ownerFilter(owner), ...listFilter(true) }).toArray();
+    return documents.map(mapMongoId);
+  },
+
+  // CREATE: Add an item to the cart, or update quantity if it already exists
+  async addItem(owner, itemData) {
+    if (!ObjectId.isValid(itemData.bookId)) {
+      throw new Error('Invalid Book ID');
+    }
+
+    const collection = await getCartCollection();
+    const bookObjectId = new ObjectId(itemData.bookId);
+    const savedForLater = itemData.savedForLater ?? false;
+
+    // Check if the item already exists in the same list
+    const existingItem = await collection.findOne({
+      ...ownerFilter(owner),
+      ...listFilter(savedForLater),
+      bookId: bookObjectId,
+    });
+
+    if (existingItem) {
+      // Update quantity
+      const newQuantity = existingItem.quantity + itemData.quantity;
+      const result = await collection.findOneAndUpdate(
+        { _id: existingItem._id },
+        { $set: { quantity: newQuantity } },
+        { returnDocument: 'after' }
+      );
+      if (!result) throw new Error('Failed to update cart item');
+      return mapMongoId(result);
+    } else {
+      // Insert new item
+      const newItemDocument: CartItemDocument = {
+        ...owner,
+        bookId: bookObjectId,
+        quantity: itemData.quantity,
+        addedAt: new Date().toISOString(),
+        savedForLater,
+      };
+      const result = await collection.insertOne(newItemDocument);
+
+      // Fetch and return the new item
+      const newItem = await collection.findOne({ _id: result.insertedId });
+      if (!newItem) throw new Error('Failed to create and retrieve cart item');
+      return mapMongoId(newItem);
+    }
+  },
+
+  // UPDATE: Update a cart item's quantity
+  async updateQuantity(owner, cartItemId, quantity) {
+    if (!ObjectId.isValid(cartItemId)) {
+      return null;
+    }
+    const collection = await getCartCollection();
+    const result = await collection.findOneAndUpdate(
+      { _id: new ObjectId(cartItemId), ...ownerFilter(owner) }, // Only the owner's item
+      { $set: { quantity: quantity } },
+      { returnDocument: 'after' }
+    );
+    return result ? mapMongoId(result) : null;
+  },
+
+  // UPDATE: Move an item between the active cart and the saved-for-later list.
+  // Merging into an existing item of the other list happens in one transaction.
+  async setSavedForLater(owner, cartItemId, savedForLater) {
+    if (!ObjectId.isValid(cartItemId)) {
+      return null;
+    }
+    return withTransaction(async (session, db) => {
+      const collection = db.collection<CartItemDocument>('cart');
+      const item = await collection.findOne({ _id: new ObjectId(cartItemId), ...ownerFilter(owner) }, { session });
+      if (!item) {
+        return null;
+      }
+      if ((item.savedForLater ?? false) === savedForLater) {
+        return mapMongoId(item);
+      }
+
+      const merged = await collection.findOneAndUpdate(
+        { ...ownerFilter(owner), ...listFilter(savedForLater), bookId: item.bookId },
+        { $inc: { quantity: item.quantity } },
+        { returnDocument: 'after', session }
+      );
+      if (merged) {
+        await collection.deleteOne({ _id: item._id }, { session });
+        return mapMongoId(merged);
+      }
+
+      const moved = await collection.findOneAndUpdate(
+        { _id: item._id },
+        { $set: { savedForLater } },
+        { returnDocument: 'after', session }
+      );
+      return moved ? mapMongoId(moved) : null;
+    });
+  },
+
+  // DELETE: Remove a specific item from the cart
+  async removeItem(owner, cartItemId) {
+    if (!ObjectId.isValid(cartItemId)) {
+      return false;
+    }
+    const collection = await getCartCollection();
+    const result = await collection.deleteOne({
+      _id: new ObjectId(cartItemId),
+      ...ownerFilter(owner), // Only the owner's item
+    });
+    return result.deletedCount === 1;
+  },
+
+  // DELETE: Clear the owner's active cart items (saved-for-later items stay)
+  async clear(owner) {
+    const collection = await getCartCollection();
+    const result = await collection.deleteMany({ ...ownerFilter(owner), ...listFilter(false) });
+    return result.deletedCount;
+  },
+  // READ: Get the coupon codes applied to the owner's cart
+  async findCouponCodes(owner) {
+    const collection = await getCartCouponsCollection();
+    const document = await collection.findOne(ownerFilter(owner));
+    return document?.codes ?? [];
+  },
+
+  // UPDATE: Replace the coupon codes applied to the owner's cart
+  async setCouponCodes(owner, codes) {
+    const collection = await getCartCouponsCollection();
+    if (codes.length > 0) {
+      await collection.updateOne(ownerFilter(owner), { $set: { codes } }, { upsert: true });
+    } else {
+      await collection.deleteOne(ownerFilter(owner));
+    }
+  },
+};
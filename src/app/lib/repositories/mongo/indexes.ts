@@ -0,0 +1,65 @@
+// src/app/lib/repositories/mongo/indexes.ts
+// Indexes the MongoDB repositories rely on: unique constraints (one review per user and book,
+// one vote per user and review, ...), the session TTL and the common lookups. They are created
+// whenever a connection is opened (see lib/mongodb.ts), so existing databases get them without
+// a reseed. createIndex does nothing when an identical index already exists.
+import { CreateIndexesOptions, Db } from 'mongodb';
+
+export interface MongoIndex {
+  collection: string;
+  key: Record<string, 1 | -1>; // Field -> direction
+  options?: CreateIndexesOptions;
+}
+
+export const MONGO_INDEXES: MongoIndex[] = [
+  { collection: 'users', key: { email: 1 }, options: { unique: true } },
+  { collection: 'sessions', key: { tokenHash: 1 }, options: { unique: true } },
+  // Expired sessions are removed by MongoDB
+  { collection: 'sessions', key: { expiresAt: 1 }, options: { expireAfterSeconds: 0 } },
+  { collection: 'cart', key: { userId: 1, bookId: 1 }, options: { sparse: true } },
+  { collection: 'cart', key: { guestId: 1, bookId: 1 }, options: { sparse: true } },
+  {
+    collection: 'cart_coupons',
+    key: { userId: 1 },
+    options: { unique: true, partialFilterExpression: { userId: { $exists: true } } },
+  },
+  {
+    collection: 'cart_coupons',
+    key: { guestId: 1 },
+    options: { unique: true, partialFilterExpression: { guestId: { $exists: true } } },
+  },
+  {
+    collection: 'promotions',
+    key: { code: 1 },
+    options: { unique: true, partialFilterExpression: { code: { $exists: true } } },
+  },
+  { collection: 'wishlist', key: { userId: 1, bookId: 1 }, options: { unique: true } },
+  { collection: 'wishlist', key: { userId: 1, addedAt: -1 } },
+  { collection: 'orders', key: { userId: 1, createdAt: -1 } },
+  { collection: 'reviews', key: { bookId: 1, status: 1 } },
+  { collection: 'reviews', key: { status: 1, timestamp: 1 } },
+  // Seeded reviews have no userId, so only reviews written by accounts are constrained
+  {
+    collection: 'reviews',
+    key: { userId: 1, bookId: 1 },
+    options: { unique: true, partialFilterExpression: { userId: { $exists: true } } },
+  },
+  { collection: 'review_votes', key: { reviewId: 1, userId: 1 }, options: { unique: true } },
+  { collection: 'review_votes', key: { userId: 1 } },
+];
+
+// Create every index in MONGO_INDEXES. Each one is attempted even when another fails (e.g. a
+// unique index over existing duplicates); the failures are thrown together at the end.
+export async function ensureIndexes(db: Db): Promise<void> {
+  const results = await Promise.allSettled(
+    MONGO_INDEXES.map(({ collection, key, options }) => db.collection(collection).createIndex(key, options ?? {}))
+  );
+  const failures = results.flatMap((result, index) =>
+    result.status === 'rejected'
+      ? [`${MONGO_INDEXES[index].collection} ${JSON.stringify(MONGO_INDEXES[index].key)}: ${result.reason}`]
+      : []
+  );
+  if (failures.length > 0) {
+    throw new Error(`Could not create ${failures.length} MongoDB index(es):\n${failures.join('\n')}`);
+  }
+}
@@ -0,0 +1,160 @@
+// src/app/lib/repositories/mongo/orders.ts
+import { Collection, ObjectId, WithId } from 'mongodb';
+import { connectToDatabase, withTransaction } from '../../mongodb';
+import { Book, DiscountLine, Order, OrderItem, StockIssue } from '@/app/types';
+import { OrderRepository } from '../types';
+
+// Define the shape of the order document in the database
+// This is separate from the Order type to handle ObjectId
+interface OrderItemDocument extends Omit<OrderItem, 'bookId'> {
+  bookId: ObjectId;
+}
+
+interface OrderDocument extends Omit<Order, 'id' | 'items' | 'discounts' | 'discountTotal' | 'shipping' | 'tax'> {
+  items: OrderItemDocument[];
+  discounts?: DiscountLine[]; // Missing on orders placed before promotions existed
+  discountTotal?: number;
+  shipping?: number; // Missing on orders placed before shipping and tax were charged
+  tax?: number;
+}
+
+// Thrown inside the transaction to roll back when a line is short of stock
+class StockShortage extends Error {
+  constructor(readonly issue: StockIssue) {
+    super(`Insufficient stock for book ${issue.bookId}`);
+  }
+}
+
+// Helper function to get the 'orders' collection
+async function getOrdersCollection(): Promise<Collection<OrderDocument>> {
+  const { db } = await connectToDatabase();
+  return db.collection<OrderDocument>('orders');
+}
+
+// Helper to map MongoDB's _id to our desired id field
+function mapMongoId(doc: WithId<OrderDocument>): Order {
+  const { _id, ...rest } = doc;
+  return {
+    id: _id.toHexString(),
+    ...rest,
+    items: rest.items.map((item) => ({ ...item, bookId: item.bookId.toHexString() })),
+    discounts: rest.discounts ?? [],
+    discountTotal: rest.discountTotal ?? 0,
+    shipping: rest.shipping ?? 0,
+    tax: rest.tax ?? 0,
+  };
+}
+
+export const mongoOrderRepository: OrderRepository = {
+  // READ: Get all orders, newest first
+  async findAll() {
+    const collection = await getOrdersCollection();
+    const documents = await collection.find({}).sort({ createdAt: -1 }).toArray();
+    return documents.map(mapMongoId);
+  },
+
+  // READ: Get a user's orders, newest first
+  async findByUserId(userId) {
+    const collection = await getOrdersCollection();
+    const documents = await collection.find({ userId }).sort({ createdAt: -1 }).toArray();
+    return documents.map(mapMongoId);
+  },
+
+  // READ: Get a single order by its ID
+  async findById(id) {
+    if (!ObjectId.isValid(id)) {
+      return null; // Invalid ID format
+    }
+    const collection = await getOrdersCollection();
+    const document = await collection.findOne({ _id: new ObjectId(id) });
+    return document ? mapMongoId(document) : null;
+  },
+
+  // CREATE: Take each line out of stock and insert the order in one transaction
+  async create(orderData) {
+    const invalidItem = orderData.items.find((item) => !ObjectId.isValid(item.bookId));
+    if (invalidItem) {
+      return {
+        issue: { bookId: invalidItem.bookId, reason: 'not_found', requested: invalidItem.quantity, available: 0 },
+      };
+    }
+
+    const orderDocument: OrderDocument = {
+      ...orderData,
+      items: orderData.items.map((item) => ({ ...item, bookId: new ObjectId(item.bookId) })),
+    };
+
+    try {
+      return await withTransaction(async (session, db) => {
+        const books = db.collection<Omit<Book, 'id'>>('books');
+
+        for (const item of orderDocument.items) {
+          // Only decrement when enough units are on hand, or the book can be backordered
+          const result = await books.updateOne(
+            {
+              _id: item.bookId,
+              $or: [{ stock: { $gte: item.quantity } }, { allowBackorder: true }],
+            },
+            { $inc: { stock: -item.quantity } },
+            { session }
+          );
+          if (result.matchedCount === 0) {
+            const book = await books.findOne({ _id: item.bookId }, { session });
+            throw new StockShortage({
+              bookId: item.bookId.toHexString(),
+              reason: book ? 'insufficient_stock' : 'not_found',
+              requested: item.quantity,
+              available: book?.stock ?? 0,
+            });
+          }
+        }
+
+        const collection = db.collection<OrderDocument>('orders');
+        const result = await collection.insertOne(orderDocument, { session });
+        const newOrder = await collection.findOne({ _id: result.insertedId }, { session });
+        if (!newOrder) {
+          throw new Error('Failed to create and retrieve the new order.');
+        }
+        return { order: mapMongoId(newOrder) };
+      });
+    } catch (err) {
+      if (err instanceof StockShortage) {
+        return { issue: err.issue };
+      }
+      throw err;
+    }
+  },
+
+  // UPDATE: Move an order to a new status, restocking on cancellation
+  async updateStatus(id, from, to) {
+    if (!ObjectId.isValid(id)) {
+      return null;
+    }
+    const timestamp = new Date().toISOString();
+
+    return withTransaction(async (session, db) => {
+      // Matching on the current status guards against two concurrent transitions
+      const updated = await db.collection<OrderDocument>('orders').findOneAndUpdate(
+        { _id: new ObjectId(id), status: from },
+        {
+          $set: { status: to, updatedAt: timestamp },
+          $push: { statusHistory: { status: to, timestamp } },
+        },
+        { returnDocument: 'after', session }
+      );
+      if (!updated) {
+        return null;
+      }
+
+      if (to === 'cancelled') {
+        await db.collection('books').bulkWrite(
+          updated.items.map((item) => ({
+            updateOne: { filter: { _id: item.bookId }, update: { $inc: { stock: item.quantity } } },
+          })),
+          { session }
+        );
+      }
+      return mapMongoId(updated);
+    });
+  },
+};
@@ -0,0 +1,35 @@
+// src/app/lib/repositories/mongo/promotions.ts
+import { Collection, WithId } from 'mongodb';
+import { connectToDatabase } from '../../mongodb';
+import { Promotion } from '@/app/types';
+import { PromotionRepository } from '../types';
+
+type PromotionDocument = Omit<Promotion, 'id'>;
+
+// Helper function to get the 'promotions' collection
+async function getPromotionsCollection(): Promise<Collection<PromotionDocument>> {
+  const { db } = await connectToDatabase();
+  return db.collection<PromotionDocument>('promotions');
+}
+
+// Helper to map MongoDB's _id to our desired id field
+function mapMongoId(doc: WithId<PromotionDocument>): Promotion {
+  const { _id, ...rest } = doc;
+  return { id: _id.toHexString(), ...rest };
+}
+
+export const mongoPromotionRepository: PromotionRepository = {
+  // READ: Get every promotion
+  async findAll() {
+    const collection = await getPromotionsCollection();
+    const documents = await collection.find({}).toArray();
+    return documents.map(mapMongoId);
+  },
+
+  // READ: Get the promotion with this code
+  async findByCode(code) {
+    const collection = await getPromotionsCollection();
+    const document = await collection.findOne({ code });
+    return document ? mapMongoId(document) : null;
+  },
+};
@@ -0,0 +1,421 @@
+// src/app/lib/repositories/mongo/reviews.ts
+import { ClientSession, Collection, Db, Document, Filter, MongoServerError, ObjectId, UpdateFilter, WithId } from 'mongodb';
+import { connectToDatabase, withTransaction } from '../../mongodb';
+import { roundRating } from '../../ratings';
+import { REVIEW_SORT_KEYS } from '../../reviews';
+import { Review, ReviewCursor, ReviewSort, ReviewStatus, ReviewVote, StarRating, VoteValue } from '@/app/types';
+import { ReviewRepository } from '../types';
+
+// Define the shape of the review document in the database
+// This is separate from the Review type to handle ObjectId
+interface ReviewDocument {
+  bookId: ObjectId;
+  userId?: string;
+  author: string;
+  rating: number;
+  title: string;
+  comment: string;
+  timestamp: string;
+  verified: boolean;
+  status?: ReviewStatus; // Missing on reviews stored before moderation existed
+  moderationReason?: string;
+  moderatedAt?: string;
+  helpfulCount?: number; // Missing on reviews stored before voting existed
+  unhelpfulCount?: number;
+}
+
+// One document per user and review (unique { reviewId, userId } index)
+interface ReviewVoteDocument {
+  reviewId: ObjectId;
+  userId: string;
+  value: VoteValue;
+  createdAt: string;
+}
+
+const COUNT_FIELDS: Record<VoteValue, 'helpfulCount' | 'unhelpfulCount'> = {
+  helpful: 'helpfulCount',
+  unhelpful: 'unhelpfulCount',
+};
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+// Reviews stored before moderation existed have no status and count as approved
+function statusFilter(status?: ReviewStatus): Filter<ReviewDocument> {
+  if (!status) {
+    return {};
+  }
+  return status === 'approved' ? { status: { $nin: ['pending', 'rejected'] } } : { status };
+}
+
+// Reviews after the cursor in the sort order: for each sort key, equal on the keys before it
+// and strictly past the cursor on this one (with _id as the final tie-breaker)
+function afterCursorFilter(sort: ReviewSort, cursor: ReviewCursor): Filter<Document> {
+  const keys = [...REVIEW_SORT_KEYS[sort], { key: '_id', direction: -1 }];
+  const values = [...cursor.values, new ObjectId(cursor.id)];
+  return {
+    $or: keys.map(({ key, direction }, i) => ({
+      ...Object.fromEntries(keys.slice(0, i).map((previous, j) => [previous.key, values[j]])),
+      [key]: { [direction === 1 ? '$gt' : '$lt']: values[i] },
+    })),
+  };
+}
+
+// Helper function to get the 'reviews' collection
+async function getReviewsCollection(): Promise<Collection<ReviewDocument>> {
+  const { db } = await connectToDatabase();
+  return db.collection<ReviewDocument>('reviews');
+}
+
+// Recompute a book's average rating and review count from its approved reviews
+async function recalculateBookStats(db: Db, bookId: ObjectId, session: ClientSession): Promise<void> {
+  const [stats] = await db
+    .collection<ReviewDocument>('reviews')
+    .aggregate<{ average: number; count: number }>(
+      [
+        { $match: { bookId, ...statusFilter('approved') } },
+        { $group: { _id: null, average: { $avg: '$rating' }, count: { $sum: 1 } } },
+      ],
+      { session }
+    )
+    .toArray();
+
+  await db.collection('books').updateOne(
+    { _id: bookId },
+    { $set: { rating: stats ? roundRating(stats.average) : 0, reviewCount: stats?.count ?? 0 } },
+    { session }
+  );
+}
+
+// Recompute rating and reviewCount for every book in `db`. Returns the number of books updated.
+// Also used by the seed script, which connects to its own database.
+export async function rebuildAllBookStats(db: Db): Promise<number> {
+  const stats = await db
+    .collection<ReviewDocument>('reviews')
+    .aggregate<{ _id: ObjectId; average: number; count: number }>([
+      { $match: statusFilter('approved') },
+      { $group: { _id: '$bookId', average: { $avg: '$rating' }, count: { $sum: 1 } } },
+    ])
+    .toArray();
+  const statsByBook = new Map(stats.map((s) => [s._id.toHexString(), s]));
+
+  const books = await db.collection('books').find({}, { projection: { _id: 1 } }).toArray();
+  if (books.length === 0) {
+    return 0;
+  }
+
+  // Books without reviews are reset to 0 / 0
+  const result = await db.collection('books').bulkWrite(
+    books.map(({ _id }) => {
+      const bookStats = statsByBook.get(_id.toHexString());
+      return {
+        updateOne: {
+          filter: { _id },
+          update: {
+            $set: {
+              rating: bookStats ? roundRating(bookStats.average) : 0,
+              reviewCount: bookStats?.count ?? 0,
+            },
+          },
+        },
+      };
+    })
+  );
+  return result.matchedCount;
+}
+
+// Helper to map MongoDB's _id to our desired id field
+function mapMongoId(doc: WithId<ReviewDocument>): Review {
+  const { _id, ...rest } = doc;
+  return {
+    id: _id.toHexString(),
+    ...rest,
+    bookId: rest.bookId.toHexString(), // Convert bookId back to string
+    status: rest.status ?? 'approved',
+    helpfulCount: rest.helpfulCount ?? 0,
+    unhelpfulCount: rest.unhelpfulCount ?? 0,
+  };
+}
+
+export const mongoReviewRepository: ReviewRepository = {
+  // READ: Get all reviews, optionally only those with a given status
+  async findAll(status) {
+    const collection = await getReviewsCollection();
+    const documents = await collection.find(statusFilter(status)).toArray();
+    return documents.map(mapMongoId);
+  },
+
+  // READ: Get a single review by its ID
+  async findById(id) {
+    if (!ObjectId.isValid(id)) {
+      return null; // Invalid ID format
+    }
+    const collection = await getReviewsCollection();
+    const document = await collection.findOne({ _id: new ObjectId(id) });
+    return document ? mapMongoId(document) : null;
+  },
+
+  // READ: Get all reviews for a specific book, optionally only those with a given status
+  async findByBookId(bookId, status) {
+    if (!ObjectId.isValid(bookId)) {
+      return null; // Invalid bookId format
+    }
+    const collection = await getReviewsCollection();
+    const documents = await collection.find({ bookId: new ObjectId(bookId), ...statusFilter(status) }).toArray();
+    return documents.map(mapMongoId);
+  },
+
+  // READ: Get one page of a book's reviews. The helpfulness score is computed in the pipeline.
+  async findPage({ bookId, sort, limit, rating, cursor }, status) {
+    if (!ObjectId.isValid(bookId)) {
+      return null;
+    }
+    if (cursor && !ObjectId.isValid(cursor.id)) {
+      return { reviews: [], hasMore: false };
+    }
+    const collection = await getReviewsCollection();
+    const documents = await collection
+      .aggregate<WithId<ReviewDocument>>([
+        { $match: { bookId: new ObjectId(bookId), ...statusFilter(status), ...(rating ? { rating } : {}) } },
+        {
+          $addFields: {
+            score: { $subtract: [{ $ifNull: ['$helpfulCount', 0] }, { $ifNull: ['$unhelpfulCount', 0] }] },
+          },
+        },
+        ...(cursor ? [{ $match: afterCursorFilter(sort, cursor) }] : []),
+        { $sort: { ...Object.fromEntries(REVIEW_SORT_KEYS[sort].map(({ key, direction }) => [key, direction])), _id: -1 } },
+        { $limit: limit + 1 },
+        { $project: { score: 0 } },
+      ])
+      .toArray();
+    return { reviews: documents.slice(0, limit).map(mapMongoId), hasMore: documents.length > limit };
+  },
+
+  // READ: Count a book's reviews per star value
+  async countByRating(bookId, status) {
+    if (!ObjectId.isValid(bookId)) {
+      return null;
+    }
+    const collection = await getReviewsCollection();
+    const groups = await collection
+      .aggregate<{ _id: number; count: number }>([
+        { $match: { bookId: new ObjectId(bookId), ...statusFilter(status) } },
+        { $group: { _id: '$rating', count: { $sum: 1 } } },
+      ])
+      .toArray();
+    const counts: Record<StarRating, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+    for (const { _id, count } of groups) {
+      if (_id in counts) counts[_id as StarRating] = count;
+    }
+    return counts;
+  },
+
+  // READ: Get a user's review of a book
+  async findByUserAndBook(userId, bookId) {
+    if (!ObjectId.isValid(bookId)) {
+      return null;
+    }
+    const collection = await getReviewsCollection();
+    const document = await collection.findOne({ userId, bookId: new ObjectId(bookId) });
+    return document ? mapMongoId(document) : null;
+  },
+
+  // CREATE: Add a new review and refresh the book's rating in the same transaction
+  // (one review per user and book)
+  async create(reviewData) {
+    // Convert string bookId to ObjectId before insertion
+    const reviewDocument: ReviewDocument = {
+      ...reviewData,
+      bookId: new ObjectId(reviewData.bookId),
+      timestamp: new Date().toISOString(), // Ensure timestamp is current
+      verified: reviewData.verified || false,
+      helpfulCount: 0,
+      unhelpfulCount: 0,
+    };
+
+    if (reviewDocument.userId) {
+      const collection = await getReviewsCollection();
+      if (await collection.findOne({ userId: reviewDocument.userId, bookId: reviewDocument.bookId })) {
+        return null;
+      }
+    }
+
+    try {
+      return await withTransaction(async (session, db) => {
+        const collection = db.collection<ReviewDocument>('reviews');
+        const result = await collection.insertOne(reviewDocument, { session });
+        await recalculateBookStats(db, reviewDocument.bookId, session);
+
+        // Fetch the newly created document to return it
+        const newReview = await collection.findOne({ _id: result.insertedId }, { session });
+        if (!newReview) {
+          throw new Error('Failed to create and retrieve the new review.');
+        }
+        return mapMongoId(newReview);
+      });
+    } catch (err) {
+      // The unique (userId, bookId) index catches a submission racing this one
+      if (err instanceof MongoServerError && err.code === DUPLICATE_KEY_ERROR) {
+        return null;
+      }
+      throw err;
+    }
+  },
+
+  // UPDATE: Modify an existing review and refresh the affected book ratings
+  async update(id, updates) {
+    if (!ObjectId.isValid(id)) {
+      return null;
+    }
+
+    // Destructure bookId (string) from the rest of the updates
+    const { bookId, ...restOfUpdates } = updates;
+
+    // Create a DB-compatible update object with all properties EXCEPT bookId
+    const dbUpdates: Partial<ReviewDocument> = { ...restOfUpdates };
+
+    // If bookId was provided and is valid, convert it to ObjectId and add to dbUpdates
+    if (bookId && ObjectId.isValid(bookId)) {
+      dbUpdates.bookId = new ObjectId(bookId);
+    }
+
+    return withTransaction(async (session, db) => {
+      const collection = db.collection<ReviewDocument>('reviews');
+      const before = await collection.findOneAndUpdate(
+        { _id: new ObjectId(id) },
+        { $set: dbUpdates },
+        { returnDocument: 'before', session }
+      );
+      if (!before) {
+        return null;
+      }
+
+      // If the review moved to another book, both books need new stats
+      await recalculateBookStats(db, before.bookId, session);
+      if (dbUpdates.bookId && !dbUpdates.bookId.equals(before.bookId)) {
+        await recalculateBookStats(db, dbUpdates.bookId, session);
+      }
+
+      const updated = await collection.findOne({ _id: before._id }, { session });
+      return updated ? mapMongoId(updated) : null;
+    });
+  },
+
+  // DELETE: Remove a review and refresh the book's rating
+  async delete(id) {
+    if (!ObjectId.isValid(id)) {
+      return false;
+    }
+    return withTransaction(async (session, db) => {
+      const deleted = await db
+        .collection<ReviewDocument>('reviews')
+        .findOneAndDelete({ _id: new ObjectId(id) }, { session });
+      if (!deleted) {
+        return false;
+      }
+      await db.collection<ReviewVoteDocument>('review_votes').deleteMany({ reviewId: deleted._id }, { session });
+      await recalculateBookStats(db, deleted.bookId, session);
+      return true;
+    });
+  },
+
+  // UPDATE: Approve or reject several reviews and refresh the affected book ratings in one transaction
+  async setStatus(ids, status, reason) {
+    const objectIds = ids.filter((id) => ObjectId.isValid(id)).map((id) => new ObjectId(id));
+    if (objectIds.length === 0) {
+      return [];
+    }
+
+    const update: UpdateFilter<ReviewDocument> =
+      status === 'rejected' && reason
+        ? { $set: { status, moderatedAt: new Date().toISOString(), moderationReason: reason } }
+        : { $set: { status, moderatedAt: new Date().toISOString() }, $unset: { moderationReason: '' } };
+
+    return withTransaction(async (session, db) => {
+      const collection = db.collection<ReviewDocument>('reviews');
+      const filter = { _id: { $in: objectIds } };
+      await collection.updateMany(filter, update, { session });
+
+      const updated = await collection.find(filter, { session }).toArray();
+      const bookIds = new Map(updated.map((review) => [review.bookId.toHexString(), review.bookId]));
+      for (const bookId of bookIds.values()) {
+        await recalculateBookStats(db, bookId, session);
+      }
+      return updated.map(mapMongoId);
+    });
+  },
+
+  // UPDATE: Flag a user's reviews of these books as verified purchases
+  async markVerified(userId, bookIds) {
+    const objectIds = bookIds.filter((id) => ObjectId.isValid(id)).map((id) => new ObjectId(id));
+    if (objectIds.length === 0) {
+      return 0;
+    }
+    const collection = await getReviewsCollection();
+    const result = await collection.updateMany(
+      { userId, bookId: { $in: objectIds }, verified: { $ne: true } },
+      { $set: { verified: true } }
+    );
+    return result.modifiedCount;
+  },
+
+  // UPDATE: Record, change or withdraw a user's vote and update the review's counts in one transaction
+  async setVote(reviewId, userId, value) {
+    if (!ObjectId.isValid(reviewId)) {
+      return null;
+    }
+    const _id = new ObjectId(reviewId);
+
+    return withTransaction(async (session, db) => {
+      const collection = db.collection<ReviewDocument>('reviews');
+      const votes = db.collection<ReviewVoteDocument>('review_votes');
+      if (!(await collection.findOne({ _id }, { session }))) {
+        return null;
+      }
+
+      const previous = await votes.findOneAndDelete({ reviewId: _id, userId }, { session });
+      const increments: Partial<Record<'helpfulCount' | 'unhelpfulCount', number>> = {};
+      if (previous) {
+        increments[COUNT_FIELDS[previous.value]] = -1;
+      }
+      if (value) {
+        await votes.insertOne({ reviewId: _id, userId, value, createdAt: new Date().toISOString() }, { session });
+        const field = COUNT_FIELDS[value];
+        increments[field] = (increments[field] ?? 0) + 1;
+      }
+
+      const updated = await collection.findOneAndUpdate(
+        { _id },
+        { $inc: increments },
+        { returnDocument: 'after', session }
+      );
+      return updated ? mapMongoId(updated) : null;
+    });
+  },
+
+  // READ: Get the user's votes on any of these reviews
+  async findVotes(userId, reviewIds) {
+    const objectIds = reviewIds.filter((id) => ObjectId.isValid(id)).map((id) => new ObjectId(id));
+    if (objectIds.length === 0) {
+      return [];
+    }
+    const { db } = await connectToDatabase();
+    const documents = await db
+      .collection<ReviewVoteDocument>('review_votes')
+      .find({ userId, reviewId: { $in: objectIds } })
+      .toArray();
+    return documents.map(
+      ({ reviewId, userId, value, createdAt }): ReviewVote => ({
+        reviewId: reviewId.toHexString(),
+        userId,
+        value,
+        createdAt,
+      })
+    );
+  },
+
+  // Recompute rating and reviewCount for every book
+  async rebuildBookStats() {
+    const { db } = await connectToDatabase();
+    return rebuildAllBookStats(db);
+  },
+};
@@ -0,0 +1,113 @@
+// src/app/lib/repositories/mongo/users.ts
+import { Collection, MongoServerError, ObjectId, WithId } from 'mongodb';
+import { connectToDatabase } from '../../mongodb';
+import { SessionRepository, UserRecord, UserRepository } from '../types';
+
+// Define the shape of the user document in the database
+type UserDocument = Omit<UserRecord, 'id'>;
+
+// expiresAt is a Date so the TTL index (see the seed script) can remove expired sessions
+interface SessionDocument {
+  tokenHash: string;
+  userId: string;
+  expiresAt: Date;
+}
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+// Helper function to get the 'users' collection
+async function getUsersCollection(): Promise<Collection<UserDocument>> {
+  const { db } = await connectToDatabase();
+  return db.collection<UserDocument>('users');
+}
+
+// Helper function to get the 'sessions' collection
+async function getSessionsCollection(): Promise<Collection<SessionDocument>> {
+  const { db } = await connectToDatabase();
+  return db.collection<SessionDocument>('sessions');
+}
+
+// Helper to map MongoDB's _id to our desired id field
+function mapMongoId(doc: WithId<UserDocument>): UserRecord {
+  const { _id, ...rest } = doc;
+  // Accounts created before roles existed are customers
+  return { id: _id.toHexString(), ...rest, role: rest.role ?? 'customer' };
+}
+
+export const mongoUserRepository: UserRepository = {
+  // READ: Get a single user by ID
+  async findById(id) {
+    if (!ObjectId.isValid(id)) {
+      return null; // Invalid ID format
+    }
+    const collection = await getUsersCollection();
+    const document = await collection.findOne({ _id: new ObjectId(id) });
+    return document ? mapMongoId(document) : null;
+  },
+
+  // READ: Get a single user by (lower-cased) email
+  async findByEmail(email) {
+    const collection = await getUsersCollection();
+    const document = await collection.findOne({ email });
+    return document ? mapMongoId(document) : null;
+  },
+
+  // CREATE: Register a user unless the email is taken
+  async create(userData) {
+    const collection = await getUsersCollection();
+    if (await collection.findOne({ email: userData.email })) {
+      return null;
+    }
+    try {
+      const result = await collection.insertOne({ ...userData });
+      return { ...userData, id: result.insertedId.toHexString() };
+    } catch (err) {
+      // The unique email index catches a registration racing this one
+      if (err instanceof MongoServerError && err.code === DUPLICATE_KEY_ERROR) {
+        return null;
+      }
+      throw err;
+    }
+  },
+
+  // UPDATE: Change a user's role
+  async setRole(email, role) {
+    const collection = await getUsersCollection();
+    const document = await collection.findOneAndUpdate(
+      { email },
+      { $set: { role } },
+      { returnDocument: 'after' }
+    );
+    return document ? mapMongoId(document) : null;
+  },
+};
+
+export const mongoSessionRepository: SessionRepository = {
+  // CREATE: Store a new session
+  async create(session) {
+    const collection = await getSessionsCollection();
+    await collection.insertOne({ ...session, expiresAt: new Date(session.expiresAt) });
+  },
+
+  // READ: Get a session that has not expired yet
+  // (the TTL monitor only runs once a minute, so expiry is checked here too)
+  async findByTokenHash(tokenHash) {
+    const collection = await getSessionsCollection();
+    const document = await collection.findOne({ tokenHash, expiresAt: { $gt: new Date() } });
+    if (!document) {
+      return null;
+    }
+    return {
+      tokenHash: document.tokenHash,
+      userId: document.userId,
+      expiresAt: document.expiresAt.toISOString(),
+    };
+  },
+
+  // DELETE: End a session
+  async delete(tokenHash) {
+    const collection = await getSessionsCollection();
+    const result = await collection.deleteOne({ tokenHash });
+    return result.deletedCount === 1;
+  },
+};
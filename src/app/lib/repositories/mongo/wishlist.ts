@@ -0,0 +1,75 @@
+// src/app/lib/repositories/mongo/wishlist.ts
+import { Collection, MongoServerError, ObjectId, WithId } from 'mongodb';
+import { connectToDatabase } from '../../mongodb';
+import { WishlistItem } from '@/app/types';
+import { WishlistRepository } from '../types';
+
+// Define the shape of the wishlist item in the database
+// This is separate from the WishlistItem type to handle ObjectId
+interface WishlistItemDocument {
+  userId: string;
+  bookId: ObjectId;
+  addedAt: string;
+}
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+// Helper function to get the 'wishlist' collection
+async function getWishlistCollection(): Promise<Collection<WishlistItemDocument>> {
+  const { db } = await connectToDatabase();
+  return db.collection<WishlistItemDocument>('wishlist');
+}
+
+// Helper to map MongoDB's _id to our desired id field
+function mapMongoId(doc: WithId<WishlistItemDocument>): WishlistItem {
+  const { _id, ...rest } = doc;
+  return {
+    id: _id.toHexString(),
+    ...rest,
+    bookId: rest.bookId.toHexString(), // Convert bookId back to string
+  };
+}
+
+export const mongoWishlistRepository: WishlistRepository = {
+  // READ: Get a user's wishlist, newest first
+  async findByUserId(userId) {
+    const collection = await getWishlistCollection();
+    const documents = await collection.find({ userId }).sort({ addedAt: -1 }).toArray();
+    return documents.map(mapMongoId);
+  },
+
+  // CREATE: Add a book to the wishlist (no-op when it is already there)
+  async add(userId, bookId) {
+    if (!ObjectId.isValid(bookId)) {
+      throw new Error('Invalid Book ID');
+    }
+    const collection = await getWishlistCollection();
+    const filter = { userId, bookId: new ObjectId(bookId) };
+    try {
+      const result = await collection.findOneAndUpdate(
+        filter,
+        { $setOnInsert: { addedAt: new Date().toISOString() } },
+        { upsert: true, returnDocument: 'after' }
+      );
+      if (!result) throw new Error('Failed to add wishlist item');
+      return mapMongoId(result);
+    } catch (err) {
+      // Two concurrent upserts for the same book: the unique index lets one insert, the other reads it
+      if (err instanceof MongoServerError && err.code === DUPLICATE_KEY_ERROR) {
+        const existing = await collection.findOne(filter);
+        if (existing) return mapMongoId(existing);
+      }
+      throw err;
+    }
+  },
+
+  // DELETE: Remove a book from the wishlist
+  async remove(userId, bookId) {
+    if (!ObjectId.isValid(bookId)) {
+      return false;
+    }
+    const collection = await getWishlistCollection();
+    const result = await collection.deleteOne({ userId, bookId: new ObjectId(bookId) });
+    return result.deletedCount === 1;
+  },
+};
@@ -0,0 +1,168 @@
+// src/app/lib/repositories/types.ts
+import {
+  Book,
+  BookFacets,
+  BookQuery,
+  CartItem,
+  CartOwner,
+  Order,
+  OrderStatus,
+  PaginatedBooks,
+  Promotion,
+  Review,
+  ReviewQuery,
+  ReviewStatus,
+  ReviewVote,
+  StarRating,
+  StockIssue,
+  Role,
+  SearchCandidateFilter,
+  User,
+  VoteValue,
+  WishlistItem,
+} from '@/app/types';
+
+// Storage contracts shared by every backend (MongoDB, in-memory).
+// Services talk to these interfaces only, so the backend can be swapped by configuration.
+
+export interface BookRepository {
+  findAll(): Promise<Book[]>;
+  // Filter, sort and paginate the catalog (GET /api/books)
+  findPage(query: BookQuery): Promise<PaginatedBooks>;
+  // Facet counts for the books matching the query (paging and sorting are ignored)
+  findFacets(query: BookQuery): Promise<BookFacets>;
+  // Books that may match a free-text search, narrowed in the store before they are ranked
+  findSearchCandidates(filter: SearchCandidateFilter): Promise<Book[]>;
+  findById(id: string): Promise<Book | null>;
+  create(bookData: Omit<Book, 'id'>): Promise<Book>;
+  update(id: string, updates: Partial<Omit<Book, 'id'>>): Promise<Book | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+// Only approved reviews count toward a book's rating and reviewCount
+export interface ReviewRepository {
+  // Pass a status to only get reviews in that moderation state
+  findAll(status?: ReviewStatus): Promise<Review[]>;
+  findById(id: string): Promise<Review | null>;
+  // Returns null when the bookId is not a valid ID for this backend
+  findByBookId(bookId: string, status?: ReviewStatus): Promise<Review[] | null>;
+  // Up to query.limit reviews of a book after query.cursor, in query.sort order (see REVIEW_SORT_KEYS).
+  // `hasMore` tells whether another page follows. Returns null when the bookId is not valid.
+  findPage(query: ReviewQuery, status?: ReviewStatus): Promise<{ reviews: Review[]; hasMore: boolean } | null>;
+  // Number of a book's reviews per star value. Returns null when the bookId is not valid.
+  countByRating(bookId: string, status?: ReviewStatus): Promise<Record<StarRating, number> | null>;
+  // A user's review of a book in any moderation state (there is at most one)
+  findByUserAndBook(userId: string, bookId: string): Promise<Review | null>;
+  // Writes also recompute the parent book's rating and reviewCount atomically.
+  // Returns null when the user has already reviewed the book. Vote counts start at 0.
+  create(reviewData: Omit<Review, 'id' | 'helpfulCount' | 'unhelpfulCount'>): Promise<Review | null>;
+  update(id: string, updates: Partial<Omit<Review, 'id'>>): Promise<Review | null>;
+  delete(id: string): Promise<boolean>;
+  // Approve or reject several reviews at once; `reason` is kept for rejections only.
+  // Returns the reviews that were updated (unknown ids are skipped).
+  setStatus(ids: string[], status: ReviewStatus, reason?: string): Promise<Review[]>;
+  // Flag a user's reviews of these books as verified purchases; returns how many changed
+  markVerified(userId: string, bookIds: string[]): Promise<number>;
+  // Record, change or (with null) withdraw a user's vote and update the review's vote counts.
+  // Returns null when the review does not exist.
+  setVote(reviewId: string, userId: string, value: VoteValue | null): Promise<Review | null>;
+  // The user's votes on any of these reviews
+  findVotes(userId: string, reviewIds: string[]): Promise<ReviewVote[]>;
+  // Recompute rating and reviewCount for every book; returns the number of books updated
+  rebuildBookStats(): Promise<number>;
+}
+
+// Every cart operation is scoped to one owner (user or guest); items owned by someone else are treated as missing.
+// An owner has two lists: the active cart and the items saved for later. A book appears at most once per list.
+export interface CartRepository {
+  // The active cart (saved-for-later items are left out)
+  findAll(owner: CartOwner): Promise<CartItem[]>;
+  findSaved(owner: CartOwner): Promise<CartItem[]>;
+  // Adds the item, or increases the quantity when the book is already in that list (the active cart by default)
+  addItem(owner: CartOwner, itemData: { bookId: string; quantity: number; savedForLater?: boolean }): Promise<CartItem>;
+  updateQuantity(owner: CartOwner, cartItemId: string, quantity: number): Promise<CartItem | null>;
+  // Moves an item to the other list. When that list already has the book, the quantities are
+  // combined into its item, which is returned instead. Returns null when the item is missing.
+  setSavedForLater(owner: CartOwner, cartItemId: string, savedForLater: boolean): Promise<CartItem | null>;
+  // Removes an item from either list
+  removeItem(owner: CartOwner, cartItemId: string): Promise<boolean>;
+  // Empties the active cart; saved-for-later items are kept
+  clear(owner: CartOwner): Promise<number>;
+  // Coupon codes applied to the owner's cart, in the order they were entered
+  findCouponCodes(owner: CartOwner): Promise<string[]>;
+  // Replaces the owner's codes; an empty list removes them
+  setCouponCodes(owner: CartOwner, codes: string[]): Promise<void>;
+}
+
+// Promotions are read-only here; the seed data defines them
+export interface PromotionRepository {
+  findAll(): Promise<Promotion[]>;
+  // Pass a normalized (upper-case) code
+  findByCode(code: string): Promise<Promotion | null>;
+}
+
+// Wishlists belong to signed-in users and hold each book once
+export interface WishlistRepository {
+  // Newest first
+  findByUserId(userId: string): Promise<WishlistItem[]>;
+  // Adds the book, or returns the existing item when it is already on the wishlist
+  add(userId: string, bookId: string): Promise<WishlistItem>;
+  // Returns false when the book was not on the wishlist
+  remove(userId: string, bookId: string): Promise<boolean>;
+}
+
+// Stock is re-checked when the order is written, so placing an order can still fail on a line
+export type CreateOrderResult = { order: Order } | { issue: StockIssue };
+
+export interface OrderRepository {
+  // Newest first
+  findAll(): Promise<Order[]>;
+  findByUserId(userId: string): Promise<Order[]>;
+  findById(id: string): Promise<Order | null>;
+  // Inserts the order and takes every line out of stock atomically.
+  // Nothing is written when any line cannot be fulfilled.
+  create(orderData: Omit<Order, 'id'>): Promise<CreateOrderResult>;
+  // Moves the order from `from` to `to`. Returns null when the order does not exist
+  // or is no longer in `from`. Cancelling puts the units back in stock.
+  updateStatus(id: string, from: OrderStatus, to: OrderStatus): Promise<Order | null>;
+}
+
+// A stored account, including the password hash. Only the services see this; routes return User.
+export interface UserRecord extends User {
+  passwordHash: string;
+}
+
+export interface UserRepository {
+  findById(id: string): Promise<UserRecord | null>;
+  // Emails are stored lower-cased, so pass a normalized address
+  findByEmail(email: string): Promise<UserRecord | null>;
+  // Returns null when the email is already registered
+  create(userData: Omit<UserRecord, 'id'>): Promise<UserRecord | null>;
+  // Returns null when no user has that email
+  setRole(email: string, role: Role): Promise<UserRecord | null>;
+}
+
+// Sessions are looked up by a hash of the cookie token, so a leaked table cannot be replayed
+export interface SessionRecord {
+  tokenHash: string;
+  userId: string;
+  expiresAt: string;
+}
+
+export interface SessionRepository {
+  create(session: SessionRecord): Promise<void>;
+  // Expired sessions are treated as missing
+  findByTokenHash(tokenHash: string): Promise<SessionRecord | null>;
+  delete(tokenHash: string): Promise<boolean>;
+}
+
+export interface Repositories {
+  books: BookRepository;
+  reviews: ReviewRepository;
+  cart: CartRepository;
+  wishlist: WishlistRepository;
+  promotions: PromotionRepository;
+  orders: OrderRepository;
+  users: UserRepository;
+  sessions: SessionRepository;
+}
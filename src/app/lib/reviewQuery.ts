@@ -0,0 +1,61 @@
+// src/app/lib/reviewQuery.ts
+import { ReviewCursor, ReviewQuery } from '@/app/types';
+import { isReviewSort, isStarRating, REVIEW_SORT_KEYS, REVIEW_SORTS } from './reviews';
+
+export const DEFAULT_REVIEW_PAGE_SIZE = 10;
+export const MAX_REVIEW_PAGE_SIZE = 50;
+
+// Cursors are opaque to clients: base64url-encoded JSON of a ReviewCursor
+export function encodeReviewCursor(cursor: ReviewCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+// Returns null when the string is not a cursor for this sort (e.g. it was made for another sort)
+export function decodeReviewCursor(value: string, sort: ReviewQuery['sort']): ReviewCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    const keys = REVIEW_SORT_KEYS[sort];
+    if (
+      typeof cursor?.id !== 'string' ||
+      !Array.isArray(cursor.values) ||
+      cursor.values.length !== keys.length ||
+      keys.some(({ key }, i) => typeof cursor.values[i] !== (key === 'timestamp' ? 'string' : 'number'))
+    ) {
+      return null;
+    }
+    return { values: cursor.values, id: cursor.id };
+  } catch {
+    return null;
+  }
+}
+
+// Parse the query string of GET /api/reviews?bookId=... into a ReviewQuery.
+// Returns an error message instead when a parameter is present but invalid.
+export function parseReviewQuery(
+  bookId: string,
+  searchParams: URLSearchParams
+): { query: ReviewQuery } | { error: string } {
+  const sort = searchParams.get('sort') || 'newest';
+  if (!isReviewSort(sort)) {
+    return { error: `sort must be one of: ${REVIEW_SORTS.join(', ')}` };
+  }
+
+  const limit = parseInt(searchParams.get('limit') || String(DEFAULT_REVIEW_PAGE_SIZE), 10);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_REVIEW_PAGE_SIZE) {
+    return { error: `limit must be an integer between 1 and ${MAX_REVIEW_PAGE_SIZE}` };
+  }
+
+  const ratingParam = searchParams.get('rating');
+  const rating = ratingParam === null ? undefined : Number(ratingParam);
+  if (rating !== undefined && !isStarRating(rating)) {
+    return { error: 'rating must be 1, 2, 3, 4 or 5' };
+  }
+
+  const cursorParam = searchParams.get('cursor');
+  const cursor = cursorParam ? decodeReviewCursor(cursorParam, sort) : undefined;
+  if (cursor === null) {
+    return { error: 'Invalid cursor' };
+  }
+
+  return { query: { bookId, sort, limit, rating, cursor } };
+}
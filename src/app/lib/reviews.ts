@@ -0,0 +1,75 @@
+// src/app/lib/reviews.ts
+import { Review, ReviewCursor, ReviewSort, ReviewStatus, StarRating, VoteValue } from '../types';
+
+export const REVIEW_STATUSES: ReviewStatus[] = ['pending', 'approved', 'rejected'];
+
+export function isReviewStatus(value: unknown): value is ReviewStatus {
+  return typeof value === 'string' && (REVIEW_STATUSES as string[]).includes(value);
+}
+
+// Only approved reviews are public and count toward a book's rating
+export function isPublished(review: Pick<Review, 'status'>): boolean {
+  return review.status === 'approved';
+}
+
+export const REVIEW_SORTS: ReviewSort[] = ['helpful', 'newest', 'highest', 'lowest'];
+
+export function isReviewSort(value: unknown): value is ReviewSort {
+  return typeof value === 'string' && (REVIEW_SORTS as string[]).includes(value);
+}
+
+export function isVoteValue(value: unknown): value is VoteValue {
+  return value === 'helpful' || value === 'unhelpful';
+}
+
+// Helpful votes minus unhelpful votes
+export function helpfulnessScore(review: Pick<Review, 'helpfulCount' | 'unhelpfulCount'>): number {
+  return review.helpfulCount - review.unhelpfulCount;
+}
+
+export type ReviewSortKey = 'score' | 'rating' | 'timestamp'; // score = helpfulnessScore
+
+// What each sort orders by (1 ascending, -1 descending). Ties go to the newer review, then to
+// the higher id, so every review has a fixed position and a page cursor can point between two.
+export const REVIEW_SORT_KEYS: Record<ReviewSort, { key: ReviewSortKey; direction: 1 | -1 }[]> = {
+  helpful: [{ key: 'score', direction: -1 }, { key: 'timestamp', direction: -1 }],
+  newest: [{ key: 'timestamp', direction: -1 }],
+  highest: [{ key: 'rating', direction: -1 }, { key: 'timestamp', direction: -1 }],
+  lowest: [{ key: 'rating', direction: 1 }, { key: 'timestamp', direction: -1 }],
+};
+
+function sortValue(review: Review, key: ReviewSortKey): number | string {
+  if (key === 'score') return helpfulnessScore(review);
+  return review[key];
+}
+
+function compareValues(a: number | string, b: number | string): number {
+  if (a === b) return 0;
+  return a < b ? -1 : 1;
+}
+
+// The cursor that points just after this review in the given sort
+export function toReviewCursor(review: Review, sort: ReviewSort): ReviewCursor {
+  return { values: REVIEW_SORT_KEYS[sort].map(({ key }) => sortValue(review, key)), id: review.id };
+}
+
+// Negative when the review comes before the cursor position, positive when after it
+export function compareToCursor(review: Review, cursor: ReviewCursor, sort: ReviewSort): number {
+  const keys = REVIEW_SORT_KEYS[sort];
+  for (let i = 0; i < keys.length; i++) {
+    const order = compareValues(sortValue(review, keys[i].key), cursor.values[i]) * keys[i].direction;
+    if (order !== 0) return order;
+  }
+  return -compareValues(review.id, cursor.id);
+}
+
+// Returns a sorted copy (see REVIEW_SORT_KEYS)
+export function sortReviews(reviews: Review[], sort: ReviewSort): Review[] {
+  return [...reviews].sort((a, b) => compareToCursor(a, toReviewCursor(b, sort), sort));
+}
+
+export const STAR_RATINGS: StarRating[] = [5, 4, 3, 2, 1];
+
+export function isStarRating(value: unknown): value is StarRating {
+  return typeof value === 'number' && (STAR_RATINGS as number[]).includes(value);
+}
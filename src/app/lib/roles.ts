@@ -0,0 +1,19 @@
+// src/app/lib/roles.ts
+import { Role, User } from '../types';
+
+export const ROLES: Role[] = ['customer', 'staff', 'admin'];
+
+// Roles that can manage the catalog, orders and other people's reviews
+export const STAFF_ROLES: Role[] = ['staff', 'admin'];
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as string[]).includes(value);
+}
+
+export function hasRole(user: Pick<User, 'role'> | null | undefined, roles: Role[]): boolean {
+  return !!user && roles.includes(user.role);
+}
+
+export function isStaff(user: Pick<User, 'role'> | null | undefined): boolean {
+  return hasRole(user, STAFF_ROLES);
+}
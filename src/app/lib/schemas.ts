@@ -0,0 +1,146 @@
+// src/app/lib/schemas.ts
+// Request body schemas for the Book, Review, CartItem, coupon, WishlistItem, Order and auth routes (see lib/validation.ts)
+import { Book, CartItem, OrderStatus, Review, ReviewStatus, ShippingAddress, VoteValue, WishlistItem } from '../types';
+import { EMAIL_PATTERN, MIN_PASSWORD_LENGTH } from './accounts';
+import { ORDER_STATUSES } from './orders';
+import { omitFields, Schema } from './validation';
+
+// Every Book field except the id. The routes validate against editableBookSchema below.
+export type BookInput = Omit<Book, 'id'>;
+
+export const bookSchema: Schema<BookInput> = {
+  title: { type: 'string', minLength: 1, maxLength: 200 },
+  author: { type: 'string', minLength: 1, maxLength: 200 },
+  description: { type: 'string', minLength: 1, maxLength: 5000 },
+  price: { type: 'number', min: 0 },
+  image: { type: 'string', minLength: 1, maxLength: 500 },
+  isbn: {
+    type: 'string',
+    pattern: /^(?:\d[- ]?){9}[\dX]$|^(?:\d[- ]?){12}\d$/i,
+    patternMessage: 'Must be an ISBN-10 or ISBN-13.',
+  },
+  genre: { type: 'stringArray', minItems: 1, maxItems: 10, maxItemLength: 50 },
+  tags: { type: 'stringArray', maxItems: 20, maxItemLength: 50, default: [] },
+  datePublished: { type: 'date' },
+  pages: { type: 'number', integer: true, min: 1 },
+  language: { type: 'string', minLength: 1, maxLength: 50 },
+  publisher: { type: 'string', minLength: 1, maxLength: 200 },
+  rating: { type: 'number', min: 0, max: 5, default: 0 },
+  reviewCount: { type: 'number', integer: true, min: 0, default: 0 },
+  stock: { type: 'number', integer: true, min: 0 },
+  allowBackorder: { type: 'boolean', default: false }, // Backorders are opt-in
+  featured: { type: 'boolean', default: false },
+};
+
+// The fields staff can set, in the back-office, the API and the import. rating and reviewCount
+// are recomputed from the approved reviews, so they are never taken from a request.
+export type EditableBookInput = Omit<BookInput, 'rating' | 'reviewCount'>;
+
+export const editableBookSchema: Schema<EditableBookInput> = omitFields(bookSchema, ['rating', 'reviewCount']);
+
+// What a client may send for a review. id, userId and timestamp are set by the server.
+export type ReviewInput = Pick<Review, 'bookId' | 'author' | 'rating' | 'title' | 'comment' | 'verified'>;
+
+export const reviewSchema: Schema<ReviewInput> = {
+  bookId: { type: 'string', minLength: 1, maxLength: 100 },
+  author: { type: 'string', minLength: 1, maxLength: 100, optional: true }, // Defaults to the account name
+  rating: { type: 'number', integer: true, min: 1, max: 5 },
+  title: { type: 'string', minLength: 1, maxLength: 200 },
+  comment: { type: 'string', minLength: 1, maxLength: 5000 },
+  verified: { type: 'boolean', optional: true }, // Ignored: derived from the reviewer's orders
+};
+
+// POST /api/reviews/moderation (staff): approve or reject reviews in bulk
+export type ModerationInput = { ids: string[]; status: Exclude<ReviewStatus, 'pending'>; reason?: string };
+
+export const moderationSchema: Schema<ModerationInput> = {
+  ids: { type: 'stringArray', minItems: 1, maxItems: 100, maxItemLength: 100 },
+  status: { type: 'enum', values: ['approved', 'rejected'] },
+  reason: { type: 'string', minLength: 1, maxLength: 500, optional: true }, // Required when rejecting
+};
+
+// POST /api/reviews/:id/vote. A null (or missing) vote withdraws the user's vote.
+export type VoteInput = { vote?: VoteValue | null };
+
+export const voteSchema: Schema<VoteInput> = {
+  vote: { type: 'enum', values: ['helpful', 'unhelpful'], optional: true },
+};
+
+// POST /api/cart
+export type CartItemInput = Pick<CartItem, 'bookId' | 'quantity'>;
+
+export const cartItemSchema: Schema<CartItemInput> = {
+  bookId: { type: 'string', minLength: 1, maxLength: 100 },
+  quantity: { type: 'number', integer: true, min: 1 },
+};
+
+// PUT /api/cart (a quantity of 0 removes the item)
+export type CartItemUpdateInput = { cartItemId: CartItem['id']; quantity: CartItem['quantity'] };
+
+export const cartItemUpdateSchema: Schema<CartItemUpdateInput> = {
+  cartItemId: { type: 'string', minLength: 1, maxLength: 100 },
+  quantity: { type: 'number', integer: true, min: 0 },
+};
+
+// POST /api/cart/saved and POST /api/cart/saved/move-to-cart
+export type CartItemRefInput = { cartItemId: CartItem['id'] };
+
+export const cartItemRefSchema: Schema<CartItemRefInput> = {
+  cartItemId: { type: 'string', minLength: 1, maxLength: 100 },
+};
+
+// POST /api/cart/coupons
+export type CouponInput = { code: string };
+
+export const couponSchema: Schema<CouponInput> = {
+  code: { type: 'string', minLength: 1, maxLength: 50 },
+};
+
+// POST /api/wishlist and POST /api/wishlist/move-to-cart
+export type WishlistItemInput = Pick<WishlistItem, 'bookId'>;
+
+export const wishlistItemSchema: Schema<WishlistItemInput> = {
+  bookId: { type: 'string', minLength: 1, maxLength: 100 },
+};
+
+// Where an order ships. Optional lines may be sent empty; the route leaves them out.
+export const shippingAddressSchema: Schema<ShippingAddress> = {
+  fullName: { type: 'string', minLength: 1, maxLength: 200 },
+  email: { type: 'string', maxLength: 254, pattern: EMAIL_PATTERN, patternMessage: 'Must be an email address.' },
+  addressLine1: { type: 'string', minLength: 1, maxLength: 200 },
+  addressLine2: { type: 'string', maxLength: 200, optional: true },
+  city: { type: 'string', minLength: 1, maxLength: 100 },
+  postalCode: { type: 'string', maxLength: 20, optional: true },
+  country: { type: 'string', minLength: 1, maxLength: 100 },
+};
+
+// POST /api/orders. The items come from the signed-in user's cart.
+export type OrderInput = { shippingAddress: ShippingAddress };
+
+export const orderSchema: Schema<OrderInput> = {
+  shippingAddress: { type: 'object', schema: shippingAddressSchema },
+};
+
+// PATCH /api/orders/:id
+export type OrderStatusInput = { status: OrderStatus };
+
+export const orderStatusSchema: Schema<OrderStatusInput> = {
+  status: { type: 'enum', values: ORDER_STATUSES },
+};
+
+// POST /api/auth/register
+export type RegisterInput = { name: string; email: string; password: string };
+
+export const registerSchema: Schema<RegisterInput> = {
+  name: { type: 'string', minLength: 1, maxLength: 100 },
+  email: { type: 'string', maxLength: 254, pattern: EMAIL_PATTERN, patternMessage: 'Must be an email address.' },
+  password: { type: 'string', minLength: MIN_PASSWORD_LENGTH, maxLength: 200, raw: true },
+};
+
+// POST /api/auth/login. Only presence is checked: a wrong email or password is a 401, not a 400.
+export type LoginInput = { email: string; password: string };
+
+export const loginSchema: Schema<LoginInput> = {
+  email: { type: 'string', minLength: 1, maxLength: 254 },
+  password: { type: 'string', minLength: 1, maxLength: 200, raw: true },
+};
@@ -0,0 +1,79 @@
+// src/app/lib/services/auth.ts
+import { createHash, randomBytes } from 'crypto';
+import { getRepositories, UserRecord } from '../repositories';
+import { hashPassword, verifyPassword } from '../passwords';
+import { Role, User } from '@/app/types';
+
+// How long a sign-in lasts
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export type RegisterResult = { user: User } | { error: 'email_taken' };
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// Copy the public fields so the password hash never leaves the service layer
+function toUser(user: UserRecord): User {
+  return { id: user.id, name: user.name, email: user.email, role: user.role, createdAt: user.createdAt };
+}
+
+// READ: Get a single user by ID
+export async function getUserById(id: string): Promise<User | null> {
+  const user = await getRepositories().users.findById(id);
+  return user ? toUser(user) : null;
+}
+
+// CREATE: Register a new user
+export async function registerUser(data: { name: string; email: string; password: string }): Promise<RegisterResult> {
+  const user = await getRepositories().users.create({
+    name: data.name.trim(),
+    email: normalizeEmail(data.email),
+    passwordHash: await hashPassword(data.password),
+    role: 'customer', // Staff and admins are promoted with `npm run set-role`
+    createdAt: new Date().toISOString(),
+  });
+  return user ? { user: toUser(user) } : { error: 'email_taken' };
+}
+
+// UPDATE: Give the account with this email a new role. Returns null for an unknown email.
+export async function setUserRole(email: string, role: Role): Promise<User | null> {
+  const user = await getRepositories().users.setRole(normalizeEmail(email), role);
+  return user ? toUser(user) : null;
+}
+
+// READ: Check an email and password. Returns null for an unknown email or a wrong password alike.
+export async function authenticate(email: string, password: string): Promise<User | null> {
+  const user = await getRepositories().users.findByEmail(normalizeEmail(email));
+  if (!user || !(await verifyPassword(password, user.passwordHash))) {
+    return null;
+  }
+  return toUser(user);
+}
+
+// CREATE: Start a session and return the token to put in the cookie
+export async function createSession(userId: string): Promise<{ token: string; expiresAt: Date }> {
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+  await getRepositories().sessions.create({
+    tokenHash: hashToken(token),
+    userId,
+    expiresAt: expiresAt.toISOString(),
+  });
+  return { token, expiresAt };
+}
+
+// READ: Resolve a session cookie to its user
+export async function getUserBySessionToken(token: string): Promise<User | null> {
+  const session = await getRepositories().sessions.findByTokenHash(hashToken(token));
+  return session ? getUserById(session.userId) : null;
+}
+
+// DELETE: End a session
+export async function deleteSession(token: string): Promise<boolean> {
+  return getRepositories().sessions.delete(hashToken(token));
+}
@@ -1,72 +1,136 @@
 // src/lib/services/books.ts
-import { Collection, ObjectId } from 'mongodb';
-import { connectToDatabase } from '../mongodb';
-import { Book } from '@/app/types'; // Assuming your type is exported from here
-
-// Helper function to get the 'books' collection
-async function getBooksCollection(): Promise<Collection<Omit<Book, 'id'>>> {
-  const { db } = await connectToDatabase();
-  // We use Omit<Book, 'id'> because MongoDB uses `_id` and we'll map it to `id`
-  return db.collection<Omit<Book, 'id'>>('books');
+import { getRepositories } from '../repositories';
+import { Book, BookFacets, BookImportReport, BookImportRowResult, BookQuery, PaginatedBooks } from '@/app/types';
+import { countFacets } from '../facets';
+import { MAX_PAGE_SIZE } from '../bookQuery';
+import { normalizeIsbn } from '../bookImport';
+import { editableBookSchema } from '../schemas';
+import { validate, validatePartial } from '../validation';
+import { findMatchingBooks } from './search'; // Assuming your type is exported from here
+
+// READ: Get all books
+export async function getAllBooks(): Promise<Book[]> {
+  return getRepositories().books.findAll();
 }
 
-// Helper to map MongoDB's _id to our desired id field
-function mapMongoId(doc: any): Book {
-  const { _id, ...rest } = doc;
-  return { id: _id.toHexString(), ...rest } as Book;
+// READ: Get a filtered, sorted page of books
+export async function getBooksPage(query: BookQuery): Promise<PaginatedBooks> {
+  return getRepositories().books.findPage(query);
 }
 
-// READ: Get all books
-export async function getAllBooks(): Promise<Book[]> {
-  const collection = await getBooksCollection();
-  const documents = await collection.find({}).toArray();
-  return documents.map(mapMongoId);
+// READ: Every book matching the query's search and filters, in its sort order.
+// The catalog is read a page at a time, so page and limit are ignored.
+export async function* streamBooks(query: BookQuery): AsyncGenerator<Book> {
+  for (let page = 1; ; page++) {
+    const result = await getRepositories().books.findPage({ ...query, page, limit: MAX_PAGE_SIZE });
+    yield* result.books;
+    if (page >= result.totalPages) return;
+  }
+}
+
+// READ: Get facet counts for the current query
+// A search term (q) is matched the same way as /api/search, so the counts agree with the search results
+export async function getFacets(query: BookQuery): Promise<BookFacets> {
+  if (query.q) {
+    const matching = (await findMatchingBooks(query.q)).filter(
+      (book) => query.featured === undefined || book.featured === query.featured
+    );
+    return countFacets(matching, query.filters);
+  }
+  return getRepositories().books.findFacets(query);
 }
 
 // READ: Get a single book by its ID
 export async function getBookById(id: string): Promise<Book | null> {
-  if (!ObjectId.isValid(id)) {
-    return null; // Invalid ID format
-  }
-  const collection = await getBooksCollection();
-  const document = await collection.findOne({ _id: new ObjectId(id) });
-  return document ? mapMongoId(document) : null;
+  return getRepositories().books.findById(id);
 }
 
 // CREATE: Add a new book
 // The input `bookData` should not include an `id`
 export async function createBook(bookData: Omit<Book, 'id'>): Promise<Book> {
-  const collection = await getBooksCollection();
-  const result = await collection.insertOne(bookData);
-  
-  // Fetch the newly created document to return it
-  const newBook = await collection.findOne({ _id: result.insertedId });
-  if (!newBook) {
-    throw new Error('Failed to create and retrieve the new book.');
-  }
-  return mapMongoId(newBook);
+  return getRepositories().books.create(bookData);
 }
 
 // UPDATE: Modify an existing book
 export async function updateBook(id: string, updates: Partial<Omit<Book, 'id'>>): Promise<Book | null> {
-  if (!ObjectId.isValid(id)) {
-    return null;
-  }
-  const collection = await getBooksCollection();
-  const result = await collection.findOneAndUpdate(
-    { _id: new ObjectId(id) },
-    { $set: updates },
-    { returnDocument: 'after' } // Returns the document after the update
-  );
-  return result ? mapMongoId(result) : null;
+  return getRepositories().books.update(id, updates);
 }
 
 // DELETE: Remove a book
 export async function deleteBook(id: string): Promise<boolean> {
-  if (!ObjectId.isValid(id)) {
-    return false;
+  return getRepositories().books.delete(id);
+}
+
+// IMPORT: Create or update books from the records of an import file (see lib/bookImport.ts).
+// Records are matched to existing books by ISBN. A match is updated with just the fields the
+// record has; any other record has to be a complete book. Rows with errors are skipped and
+// reported; with dryRun nothing is written.
+export async function importBooks(records: unknown[], dryRun: boolean): Promise<BookImportReport> {
+  const repository = getRepositories().books;
+  const booksByIsbn = new Map<string, Book[]>();
+  for (const book of await repository.findAll()) {
+    const isbn = normalizeIsbn(book.isbn);
+    booksByIsbn.set(isbn, [...(booksByIsbn.get(isbn) ?? []), book]);
   }
-  const collection = await getBooksCollection();
-  const result = await collection.deleteOne({ _id: new ObjectId(id) });
-  return result.deletedCount === 1;
-}
\ No newline at end of file
+  const rowsByIsbn = new Map<string, number>(); // First row of the file with each ISBN
+
+  const rows: BookImportRowResult[] = [];
+  for (const [index, record] of records.entries()) {
+    const row = index + 1;
+    const fields = (typeof record === 'object' && record !== null ? record : {}) as Record<string, unknown>;
+    const result = {
+      row,
+      isbn: typeof fields.isbn === 'string' ? fields.isbn : undefined,
+      title: typeof fields.title === 'string' ? fields.title : undefined,
+    };
+
+    const parsed = validatePartial(editableBookSchema, record);
+    if ('errors' in parsed) {
+      rows.push({ ...result, action: 'error', errors: parsed.errors });
+      continue;
+    }
+    if (!parsed.data.isbn) {
+      rows.push({ ...result, action: 'error', errors: { isbn: 'Is required.' } });
+      continue;
+    }
+
+    const isbn = normalizeIsbn(parsed.data.isbn);
+    const firstRow = rowsByIsbn.get(isbn);
+    if (firstRow !== undefined) {
+      rows.push({ ...result, action: 'error', errors: { isbn: `Same ISBN as row ${firstRow}.` } });
+      continue;
+    }
+    rowsByIsbn.set(isbn, row);
+
+    const matches = booksByIsbn.get(isbn) ?? [];
+    if (matches.length > 1) {
+      rows.push({ ...result, action: 'error', errors: { isbn: `Matches ${matches.length} books in the catalog; fix their ISBNs first.` } });
+      continue;
+    }
+
+    const existing = matches[0];
+    if (existing) {
+      if (!dryRun) await repository.update(existing.id, parsed.data);
+      rows.push({ ...result, title: parsed.data.title ?? existing.title, action: 'update', bookId: existing.id });
+      continue;
+    }
+
+    const complete = validate(editableBookSchema, record);
+    if ('errors' in complete) {
+      rows.push({ ...result, action: 'error', errors: complete.errors });
+      continue;
+    }
+    // Like a book added in the back-office, it starts without a rating
+    const created = dryRun ? null : await repository.create({ ...complete.data, rating: 0, reviewCount: 0 });
+    rows.push({ ...result, action: 'create', bookId: created?.id });
+  }
+
+  return {
+    dryRun,
+    total: rows.length,
+    created: rows.filter((result) => result.action === 'create').length,
+    updated: rows.filter((result) => result.action === 'update').length,
+    failed: rows.filter((result) => result.action === 'error').length,
+    rows,
+  };
+}
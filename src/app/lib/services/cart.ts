@@ -1,119 +1,130 @@
 // src/app/lib/services/cart.ts
-import { Collection, ObjectId } from 'mongodb';
-import { connectToDatabase } from '../mongodb';
-import { CartItem } from '@/app/types'; // Assuming your type is exported from here
+import { getRepositories } from '../repositories';
+import { canFulfill } from '../inventory';
+import { MAX_COUPON_CODES } from '../promotions';
+import { CartItem, CartOwner, StockIssue } from '@/app/types'; // Assuming your type is exported from here
 
-// Define the shape of the cart item in the database
-// This is separate from the CartItem type to handle ObjectId
-interface CartItemDocument {
-  bookId: ObjectId; // Store bookId as ObjectId
-  quantity: number;
-  addedAt: string;
-}
+// Cart writes are checked against stock; a rejected write reports why instead of an item
+export type CartWriteResult = { item: CartItem } | { issue: StockIssue };
 
-// Define the shape of the item returned by the service
-// This matches the external CartItem interface
-type CartItemWithId = CartItem;
+// READ: Get the owner's active cart items (what the total and checkout use)
+export async function getCart(owner: CartOwner): Promise<CartItem[]> {
+  return getRepositories().cart.findAll(owner);
+}
 
-// Helper function to get the 'cart' collection
-async function getCartCollection(): Promise<Collection<CartItemDocument>> {
-  const { db } = await connectToDatabase();
-  return db.collection<CartItemDocument>('cart');
+// READ: Get the owner's saved-for-later items
+export async function getSavedForLater(owner: CartOwner): Promise<CartItem[]> {
+  return getRepositories().cart.findSaved(owner);
 }
 
-// Helper to map MongoDB's _id to our desired id field
-function mapMongoId(doc: any): CartItemWithId {
-  const { _id, ...rest } = doc;
-  return { 
-    id: _id.toHexString(), 
-    ...rest,
-    bookId: rest.bookId.toHexString(), // Convert bookId back to string
-  } as CartItemWithId;
+// VALIDATE: Check whether `quantity` units of a book can be sold. Returns null when they can.
+export async function checkStock(bookId: string, quantity: number): Promise<StockIssue | null> {
+  const book = await getRepositories().books.findById(bookId);
+  if (!book) {
+    return { bookId, reason: 'not_found', requested: quantity, available: 0 };
+  }
+  if (!canFulfill(book, quantity)) {
+    return { bookId, reason: 'insufficient_stock', requested: quantity, available: book.stock };
+  }
+  return null;
 }
 
-// READ: Get all cart items
-export async function getCart(): Promise<CartItemWithId[]> {
-  const collection = await getCartCollection();
-  const documents = await collection.find({}).toArray(); // Find all, no userId filter
-  return documents.map(mapMongoId);
+// VALIDATE: Check every cart item against current stock (used before checkout)
+export async function validateCart(owner: CartOwner): Promise<StockIssue[]> {
+  const cartItems = await getCart(owner);
+  const issues = await Promise.all(cartItems.map((item) => checkStock(item.bookId, item.quantity)));
+  return issues.filter((issue): issue is StockIssue => issue !== null);
 }
 
 // CREATE: Add an item to the cart, or update quantity if it already exists
-export async function addCartItem(itemData: { bookId: string, quantity: number }): Promise<CartItemWithId> {
-  if (!ObjectId.isValid(itemData.bookId)) {
-    throw new Error('Invalid Book ID');
+export async function addCartItem(owner: CartOwner, itemData: { bookId: string, quantity: number }): Promise<CartWriteResult> {
+  // The stock check covers what is already in the cart plus the new units
+  const existing = (await getCart(owner)).find((item) => item.bookId === itemData.bookId);
+  const issue = await checkStock(itemData.bookId, (existing?.quantity ?? 0) + itemData.quantity);
+  if (issue) {
+    return { issue };
   }
+  return { item: await getRepositories().cart.addItem(owner, itemData) };
+}
 
-  const collection = await getCartCollection();
-  const bookObjectId = new ObjectId(itemData.bookId);
-
-  // Check if the item already exists in the cart
-  const existingItem = await collection.findOne({
-    bookId: bookObjectId, // Find by bookId only
-  });
-
-  if (existingItem) {
-    // Update quantity
-    const newQuantity = existingItem.quantity + itemData.quantity;
-    const result = await collection.findOneAndUpdate(
-      { _id: existingItem._id },
-      { $set: { quantity: newQuantity } }, // Removed $setOnInsert, not needed here
-      { returnDocument: 'after' }
-    );
-    if (!result) throw new Error('Failed to update cart item');
-    return mapMongoId(result);
-  } else {
-    // Insert new item
-    const newItemDocument: CartItemDocument = {
-      bookId: bookObjectId,
-      quantity: itemData.quantity,
-      addedAt: new Date().toISOString(),
-    };
-    const result = await collection.insertOne(newItemDocument);
-    
-    // Fetch and return the new item
-    const newItem = await collection.findOne({ _id: result.insertedId });
-    if (!newItem) throw new Error('Failed to create and retrieve cart item');
-    return mapMongoId(newItem);
+// UPDATE: Update a cart item's quantity. Returns null if the item was removed or not found.
+export async function updateCartItemQuantity(owner: CartOwner, cartItemId: string, quantity: number): Promise<CartWriteResult | null> {
+  if (quantity <= 0) {
+    // If quantity is 0 or less, remove the item
+    await removeCartItem(owner, cartItemId);
+    return null;
+  }
+  const existing = (await getCart(owner)).find((item) => item.id === cartItemId);
+  if (!existing) {
+    return null;
+  }
+  const issue = await checkStock(existing.bookId, quantity);
+  if (issue) {
+    return { issue };
   }
+  const item = await getRepositories().cart.updateQuantity(owner, cartItemId, quantity);
+  return item ? { item } : null;
 }
 
-// UPDATE: Update a cart item's quantity
-export async function updateCartItemQuantity(cartItemId: string, quantity: number): Promise<CartItemWithId | null> {
-  if (!ObjectId.isValid(cartItemId)) {
+// MOVE: Park an active cart item under the cart. Returns null when the item is not in the active cart.
+export async function saveForLater(owner: CartOwner, cartItemId: string): Promise<CartItem | null> {
+  const existing = (await getCart(owner)).find((item) => item.id === cartItemId);
+  if (!existing) {
     return null;
   }
-  if (quantity <= 0) {
-    // If quantity is 0 or less, remove the item
-    await removeCartItem(cartItemId);
+  return getRepositories().cart.setSavedForLater(owner, cartItemId, true);
+}
+
+// MOVE: Put a saved-for-later item back in the active cart. Returns null when the item is not saved for later.
+// Stock is checked like addCartItem; when the cart cannot take it the item stays saved.
+export async function moveSavedItemToCart(owner: CartOwner, cartItemId: string): Promise<CartWriteResult | null> {
+  const saved = (await getSavedForLater(owner)).find((item) => item.id === cartItemId);
+  if (!saved) {
     return null;
   }
-
-  const collection = await getCartCollection();
-  const result = await collection.findOneAndUpdate(
-    { _id: new ObjectId(cartItemId) }, // Find by _id only
-    { $set: { quantity: quantity } },
-    { returnDocument: 'after' }
-  );
-  return result ? mapMongoId(result) : null;
+  const inCart = (await getCart(owner)).find((item) => item.bookId === saved.bookId);
+  const issue = await checkStock(saved.bookId, (inCart?.quantity ?? 0) + saved.quantity);
+  if (issue) {
+    return { issue };
+  }
+  const item = await getRepositories().cart.setSavedForLater(owner, cartItemId, false);
+  return item ? { item } : null;
 }
 
 // DELETE: Remove a specific item from the cart
-export async function removeCartItem(cartItemId: string): Promise<boolean> {
-  if (!ObjectId.isValid(cartItemId)) {
-    return false;
-  }
-  const collection = await getCartCollection();
-  const result = await collection.deleteOne({ 
-    _id: new ObjectId(cartItemId), // Delete by _id only
-  });
-  return result.deletedCount === 1;
+export async function removeCartItem(owner: CartOwner, cartItemId: string): Promise<boolean> {
+  return getRepositories().cart.removeItem(owner, cartItemId);
 }
 
 // DELETE: Clear all items from the cart
-export async function clearCart(): Promise<number> {
-  const collection = await getCartCollection();
-  const result = await collection.deleteMany({}); // Delete all
-  return result.deletedCount;
+export async function clearCart(owner: CartOwner): Promise<number> {
+  return getRepositories().cart.clear(owner);
 }
 
+// MERGE: Move a guest's cart into a user's cart on sign-in. Returns the number of items moved.
+// Books in both carts are combined the same way addCartItem combines them (quantities are added).
+// Saved-for-later items are merged into the user's saved-for-later list the same way, and the
+// guest's coupon codes are added to the user's (up to MAX_COUPON_CODES).
+// Stock is not checked so nothing the guest picked is lost; validateCart flags any shortfall before checkout.
+export async function mergeGuestCart(guestId: string, userId: string): Promise<number> {
+  const { cart } = getRepositories();
+  const guestItems = await cart.findAll({ guestId });
+  for (const item of guestItems) {
+    await cart.addItem({ userId }, { bookId: item.bookId, quantity: item.quantity });
+  }
+  await cart.clear({ guestId });
+
+  const savedItems = await cart.findSaved({ guestId });
+  for (const item of savedItems) {
+    await cart.addItem({ userId }, { bookId: item.bookId, quantity: item.quantity, savedForLater: true });
+    await cart.removeItem({ guestId }, item.id);
+  }
+
+  const guestCodes = await cart.findCouponCodes({ guestId });
+  if (guestCodes.length > 0) {
+    const userCodes = await cart.findCouponCodes({ userId });
+    await cart.setCouponCodes({ userId }, [...new Set([...userCodes, ...guestCodes])].slice(0, MAX_COUPON_CODES));
+    await cart.setCouponCodes({ guestId }, []);
+  }
+  return guestItems.length + savedItems.length;
+}
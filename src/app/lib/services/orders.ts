@@ -0,0 +1,130 @@
+// src/app/lib/services/orders.ts
+import { getRepositories } from '../repositories';
+import { canTransition, COMPLETED_ORDER_STATUSES, roundMoney } from '../orders';
+import { clearCart, getCart, validateCart } from './cart';
+import { clearCouponCodes, priceLines } from './promotions';
+import { markPurchasedBooksReviewed } from './reviews';
+import { resolveRegion, summarizeCart } from '../pricing';
+import { Book, Order, OrderItem, OrderStatus, ShippingAddress, StockIssue } from '@/app/types';
+
+export type PlaceOrderResult =
+  | { order: Order }
+  | { error: 'empty_cart' }
+  | { error: 'insufficient_stock'; issues: StockIssue[] };
+
+export type UpdateOrderStatusResult =
+  | { order: Order }
+  | { error: 'not_found' }
+  | { error: 'invalid_transition'; from: OrderStatus };
+
+// READ: Get all orders, newest first
+export async function getAllOrders(): Promise<Order[]> {
+  return getRepositories().orders.findAll();
+}
+
+// READ: Get a user's orders, newest first
+export async function getOrdersByUserId(userId: string): Promise<Order[]> {
+  return getRepositories().orders.findByUserId(userId);
+}
+
+// READ: Get a single order by its ID
+export async function getOrderById(id: string): Promise<Order | null> {
+  return getRepositories().orders.findById(id);
+}
+
+// CREATE: Turn the user's cart into a pending order, then empty the cart.
+// Applied coupon codes that take nothing off (e.g. expired since) are dropped silently.
+// Shipping and tax follow the region of the shipping address's country.
+export async function placeOrder(userId: string, shippingAddress: ShippingAddress): Promise<PlaceOrderResult> {
+  const cartItems = await getCart({ userId });
+  if (cartItems.length === 0) {
+    return { error: 'empty_cart' };
+  }
+
+  // Report every problem line at once so the customer can fix the cart in one go
+  const issues = await validateCart({ userId });
+  if (issues.length > 0) {
+    return { error: 'insufficient_stock', issues };
+  }
+
+  // Snapshot the title, author and price of each book as they are right now
+  const { books } = getRepositories();
+  const items: OrderItem[] = [];
+  const lines: { book: Book; quantity: number }[] = [];
+  for (const cartItem of cartItems) {
+    const book = await books.findById(cartItem.bookId);
+    if (!book) {
+      return {
+        error: 'insufficient_stock',
+        issues: [{ bookId: cartItem.bookId, reason: 'not_found', requested: cartItem.quantity, available: 0 }],
+      };
+    }
+    items.push({
+      bookId: book.id,
+      title: book.title,
+      author: book.author,
+      unitPrice: book.price,
+      quantity: cartItem.quantity,
+      lineTotal: roundMoney(book.price * cartItem.quantity),
+    });
+    lines.push({ book, quantity: cartItem.quantity });
+  }
+
+  const subtotal = roundMoney(items.reduce((sum, item) => sum + item.lineTotal, 0));
+  const pricing = await priceLines({ userId }, lines);
+  const { discounts, discountTotal, shipping, tax, total } = summarizeCart(
+    pricing,
+    lines,
+    resolveRegion(shippingAddress.country)
+  );
+  const now = new Date().toISOString();
+  const result = await getRepositories().orders.create({
+    userId,
+    items,
+    subtotal,
+    discounts,
+    discountTotal,
+    shipping,
+    tax,
+    total,
+    status: 'pending',
+    statusHistory: [{ status: 'pending', timestamp: now }],
+    shippingAddress,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  // Stock can still run out between the check above and the write
+  if ('issue' in result) {
+    return { error: 'insufficient_stock', issues: [result.issue] };
+  }
+
+  await clearCart({ userId });
+  await clearCouponCodes({ userId });
+  return { order: result.order };
+}
+
+// UPDATE: Move an order along its lifecycle (see ORDER_STATUS_TRANSITIONS)
+export async function updateOrderStatus(id: string, status: OrderStatus): Promise<UpdateOrderStatusResult> {
+  const { orders } = getRepositories();
+  const order = await orders.findById(id);
+  if (!order) {
+    return { error: 'not_found' };
+  }
+  if (!canTransition(order.status, status)) {
+    return { error: 'invalid_transition', from: order.status };
+  }
+
+  const updated = await orders.updateStatus(id, order.status, status);
+  if (!updated) {
+    // Another request changed the status first
+    const current = await orders.findById(id);
+    return current ? { error: 'invalid_transition', from: current.status } : { error: 'not_found' };
+  }
+
+  // Reviews written before the order arrived become verified purchases now
+  if (COMPLETED_ORDER_STATUSES.includes(status)) {
+    await markPurchasedBooksReviewed(updated.userId, updated.items.map((item) => item.bookId));
+  }
+  return { order: updated };
+}
@@ -0,0 +1,15 @@
+// src/app/lib/services/pricing.ts
+import { priceCart } from '../promotions';
+import { summarizeCart } from '../pricing';
+import { getCartLines, priceLines } from './promotions';
+import { CartOwner, CartSummary, PricingRegion } from '@/app/types';
+
+// READ: What the owner's active cart costs delivered to `region`: items, discounts, shipping and tax.
+// Checkout and the order API use the same numbers.
+export async function getCartSummary(owner: CartOwner | null, region: PricingRegion): Promise<CartSummary> {
+  if (!owner) {
+    return summarizeCart(priceCart([], [], []), [], region); // No cart started yet
+  }
+  const lines = await getCartLines(owner);
+  return summarizeCart(await priceLines(owner, lines), lines, region);
+}
@@ -0,0 +1,74 @@
+// src/app/lib/services/promotions.ts
+import { getRepositories } from '../repositories';
+import { MAX_COUPON_CODES, normalizeCouponCode, PricedLine, priceCart } from '../promotions';
+import { getCart } from './cart';
+import { Book, CartOwner, CartPricing, CouponIssue } from '@/app/types';
+
+// A code is only kept on the cart when it takes something off right now
+export type ApplyCouponResult = { pricing: CartPricing } | { issue: CouponIssue };
+
+// READ: The owner's active cart lines with their books, for the promotion and shipping rules.
+// Books removed from the catalog are left out (validateCart reports them).
+export async function getCartLines(owner: CartOwner): Promise<{ book: Book; quantity: number }[]> {
+  const { books } = getRepositories();
+  const lines: { book: Book; quantity: number }[] = [];
+  for (const item of await getCart(owner)) {
+    const book = await books.findById(item.bookId);
+    if (book) lines.push({ book, quantity: item.quantity });
+  }
+  return lines;
+}
+
+// READ: Price these lines with the automatic promotions and the owner's coupon codes (extra codes are tried too)
+export async function priceLines(owner: CartOwner, lines: PricedLine[], extraCodes: string[] = []): Promise<CartPricing> {
+  const { cart, promotions } = getRepositories();
+  const codes = [...(await cart.findCouponCodes(owner)), ...extraCodes];
+  const [all, coupons] = await Promise.all([
+    promotions.findAll(),
+    Promise.all(codes.map(async (code) => ({ code, promotion: await promotions.findByCode(code) }))),
+  ]);
+  return priceCart(lines, all.filter((promotion) => !promotion.code), coupons);
+}
+
+// READ: Price the owner's active cart
+export async function getCartPricing(owner: CartOwner): Promise<CartPricing> {
+  return priceLines(owner, await getCartLines(owner));
+}
+
+// CREATE: Apply a coupon code to the owner's cart. Applying a code twice is a no-op.
+export async function applyCouponCode(owner: CartOwner, rawCode: string): Promise<ApplyCouponResult> {
+  const code = normalizeCouponCode(rawCode);
+  const { cart } = getRepositories();
+  const codes = await cart.findCouponCodes(owner);
+  if (codes.includes(code)) {
+    return { pricing: await getCartPricing(owner) };
+  }
+  if (codes.length >= MAX_COUPON_CODES) {
+    return { issue: { code, reason: 'too_many_codes' } };
+  }
+
+  const pricing = await priceLines(owner, await getCartLines(owner), [code]);
+  const issue = pricing.couponIssues.find((item) => item.code === code);
+  if (issue) {
+    return { issue };
+  }
+  await cart.setCouponCodes(owner, [...codes, code]);
+  return { pricing };
+}
+
+// DELETE: Take a coupon code off the owner's cart. Returns null when it was not applied.
+export async function removeCouponCode(owner: CartOwner, rawCode: string): Promise<CartPricing | null> {
+  const code = normalizeCouponCode(rawCode);
+  const { cart } = getRepositories();
+  const codes = await cart.findCouponCodes(owner);
+  if (!codes.includes(code)) {
+    return null;
+  }
+  await cart.setCouponCodes(owner, codes.filter((item) => item !== code));
+  return getCartPricing(owner);
+}
+
+// DELETE: Take every coupon code off the owner's cart (after an order used them)
+export async function clearCouponCodes(owner: CartOwner): Promise<void> {
+  await getRepositories().cart.setCouponCodes(owner, []);
+}
@@ -1,121 +1,149 @@
 // src/app/lib/services/reviews.ts
-import { Collection, ObjectId } from 'mongodb';
-import { connectToDatabase } from '../mongodb';
-import { Review } from '@/app/types'; // Assuming your type is exported from here
-
-// Define the shape of the review document in the database
-// This is separate from the Review type to handle ObjectId
-interface ReviewDocument {
-  bookId: ObjectId;
-  author: string;
-  rating: number;
-  title: string;
-  comment: string;
-  timestamp: string;
-  verified: boolean;
-}
+import { getRepositories } from '../repositories';
+import { COMPLETED_ORDER_STATUSES } from '../orders';
+import {
+  RatingSummary,
+  Review,
+  ReviewPage,
+  ReviewQuery,
+  ReviewStatus,
+  VoteValue,
+} from '@/app/types'; // Assuming your type is exported from here
+import { roundRating } from '../ratings';
+import { STAR_RATINGS, toReviewCursor } from '../reviews';
+import { encodeReviewCursor } from '../reviewQuery';
 
-// Helper function to get the 'reviews' collection
-async function getReviewsCollection(): Promise<Collection<ReviewDocument>> {
-  const { db } = await connectToDatabase();
-  return db.collection<ReviewDocument>('reviews');
-}
+export type CreateReviewResult =
+  | { review: Review }
+  | { error: 'duplicate'; existing: Review }
+  | { error: 'book_not_found' };
 
-// Helper to map MongoDB's _id to our desired id field
-function mapMongoId(doc: any): Review {
-  const { _id, ...rest } = doc;
-  return { 
-    id: _id.toHexString(), 
-    ...rest,
-    bookId: rest.bookId.toHexString(), // Convert bookId back to string
-  } as Review;
+// READ: Get all published (approved) reviews
+export async function getAllReviews(): Promise<Review[]> {
+  return getRepositories().reviews.findAll('approved');
 }
 
-// READ: Get all reviews
-export async function getAllReviews(): Promise<Review[]> {
-  const collection = await getReviewsCollection();
-  const documents = await collection.find({}).toArray();
-  return documents.map(mapMongoId);
+// READ: Get every review in a moderation state, oldest first (the moderation queue)
+export async function getReviewsByStatus(status: ReviewStatus): Promise<Review[]> {
+  const reviews = await getRepositories().reviews.findAll(status);
+  return reviews.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
 }
 
 // READ: Get a single review by its ID
 export async function getReviewById(id: string): Promise<Review | null> {
-  if (!ObjectId.isValid(id)) {
-    return null; // Invalid ID format
+  return getRepositories().reviews.findById(id);
+}
+
+// READ: Get one page of a book's published (approved) reviews.
+// Returns null when the bookId is not a valid ID.
+export async function getReviewPage(query: ReviewQuery): Promise<ReviewPage | null> {
+  const page = await getRepositories().reviews.findPage(query, 'approved');
+  if (!page) {
+    return null;
   }
-  const collection = await getReviewsCollection();
-  const document = await collection.findOne({ _id: new ObjectId(id) });
-  return document ? mapMongoId(document) : null;
+  const last = page.reviews[page.reviews.length - 1];
+  return {
+    reviews: page.reviews,
+    nextCursor: page.hasMore && last ? encodeReviewCursor(toReviewCursor(last, query.sort)) : null,
+    limit: query.limit,
+  };
 }
 
-// READ: Get all reviews for a specific book
-export async function getReviewsByBookId(bookId: string): Promise<Review[] | null> {
-  if (!ObjectId.isValid(bookId)) {
-    return null; // Invalid bookId format
+// READ: Star distribution and average of a book's published reviews.
+// Returns null when the bookId is not a valid ID.
+export async function getRatingSummary(bookId: string): Promise<RatingSummary | null> {
+  const distribution = await getRepositories().reviews.countByRating(bookId, 'approved');
+  if (!distribution) {
+    return null;
   }
-  const collection = await getReviewsCollection();
-  // This query is now valid because the collection is Collection<ReviewDocument>
-  const documents = await collection.find({ bookId: new ObjectId(bookId) }).toArray();
-  return documents.map(mapMongoId);
+  const total = STAR_RATINGS.reduce((sum, stars) => sum + distribution[stars], 0);
+  const sum = STAR_RATINGS.reduce((acc, stars) => acc + stars * distribution[stars], 0);
+  return { bookId, average: total > 0 ? roundRating(sum / total) : 0, total, distribution };
 }
 
-// CREATE: Add a new review
-// The input `reviewData` comes from the API, matching Omit<Review, 'id'> (with bookId: string)
-export async function createReview(reviewData: Omit<Review, 'id'>): Promise<Review> {
-  const collection = await getReviewsCollection();
-  
-  // Convert string bookId to ObjectId before insertion
-  const reviewDocument: ReviewDocument = {
-    ...reviewData,
-    bookId: new ObjectId(reviewData.bookId),
-    timestamp: new Date().toISOString(), // Ensure timestamp is current
-    verified: reviewData.verified || false,
-  };
+// READ: Whether the user has a completed order containing the book
+export async function hasPurchasedBook(userId: string, bookId: string): Promise<boolean> {
+  const orders = await getRepositories().orders.findByUserId(userId);
+  return orders.some(
+    (order) => COMPLETED_ORDER_STATUSES.includes(order.status) && order.items.some((item) => item.bookId === bookId)
+  );
+}
+
+// READ: Get a user's review of a book in any moderation state (there is at most one)
+export async function getUserReviewForBook(userId: string, bookId: string): Promise<Review | null> {
+  return getRepositories().reviews.findByUserAndBook(userId, bookId);
+}
 
-  // This insert is now valid because reviewDocument matches ReviewDocument
-  const result = await collection.insertOne(reviewDocument);
-  
-  // Fetch the newly created document to return it
-  const newReview = await collection.findOne({ _id: result.insertedId });
-  if (!newReview) {
-    throw new Error('Failed to create and retrieve the new review.');
+// CREATE: Add a new review. Each user can review a book once; a second attempt returns the existing review.
+// The input `reviewData` comes from the API, matching Omit<Review, 'id'> (with bookId: string).
+// `verified` is never taken from the client: it is set when the reviewer has bought the book.
+export async function createReview(
+  reviewData: Omit<Review, 'id' | 'verified' | 'helpfulCount' | 'unhelpfulCount'>
+): Promise<CreateReviewResult> {
+  const { books, reviews } = getRepositories();
+  if (!(await books.findById(reviewData.bookId))) {
+    return { error: 'book_not_found' };
+  }
+  const verified = reviewData.userId ? await hasPurchasedBook(reviewData.userId, reviewData.bookId) : false;
+  const review = await reviews.create({ ...reviewData, verified });
+  if (review) {
+    return { review };
   }
-  return mapMongoId(newReview);
+  const existing = await reviews.findByUserAndBook(reviewData.userId!, reviewData.bookId);
+  if (!existing) {
+    throw new Error('Review was rejected as a duplicate, but the existing review could not be found.');
+  }
+  return { error: 'duplicate', existing };
 }
 
 // UPDATE: Modify an existing review
-export async function updateReview(id: string, updates: Partial<Omit<Review, 'id'>>): Promise<Review | null> {
-  if (!ObjectId.isValid(id)) {
-    return null;
+// Moving a review to another book re-checks the purchase against that book
+export async function updateReview(
+  id: string,
+  updates: Partial<Omit<Review, 'id' | 'verified' | 'helpfulCount' | 'unhelpfulCount'>>
+): Promise<Review | null> {
+  const { reviews } = getRepositories();
+  if (updates.bookId) {
+    const existing = await reviews.findById(id);
+    if (existing?.userId && existing.bookId !== updates.bookId) {
+      return reviews.update(id, { ...updates, verified: await hasPurchasedBook(existing.userId, updates.bookId) });
+    }
   }
-  const collection = await getReviewsCollection();
-  
-  // Destructure bookId (string) from the rest of the updates
-  const { bookId, ...restOfUpdates } = updates;
+  return reviews.update(id, updates);
+}
 
-  // Create a DB-compatible update object with all properties EXCEPT bookId
-  const dbUpdates: Partial<ReviewDocument> & { [key: string]: any } = { ...restOfUpdates };
+// UPDATE: Mark the user's existing reviews of these books as verified (called when an order completes)
+export async function markPurchasedBooksReviewed(userId: string, bookIds: string[]): Promise<number> {
+  return getRepositories().reviews.markVerified(userId, bookIds);
+}
 
-  // If bookId was provided and is valid, convert it to ObjectId and add to dbUpdates
-  if (bookId && ObjectId.isValid(bookId)) {
-    dbUpdates.bookId = new ObjectId(bookId);
-  }
+// UPDATE: Approve or reject reviews in bulk. Returns the reviews that were updated.
+export async function moderateReviews(
+  ids: string[],
+  status: Exclude<ReviewStatus, 'pending'>,
+  reason?: string
+): Promise<Review[]> {
+  return getRepositories().reviews.setStatus(ids, status, reason);
+}
 
-  const result = await collection.findOneAndUpdate(
-    { _id: new ObjectId(id) },
-    { $set: dbUpdates },
-    { returnDocument: 'after' } // Returns the document after the update
-  );
-  return result ? mapMongoId(result) : null;
+// UPDATE: Vote a review helpful or unhelpful, or withdraw the vote with null.
+// Each user has one vote per review; voting again replaces it. Returns null when the review does not exist.
+export async function voteOnReview(reviewId: string, userId: string, value: VoteValue | null): Promise<Review | null> {
+  return getRepositories().reviews.setVote(reviewId, userId, value);
+}
+
+// READ: The user's votes on these reviews, keyed by review ID
+export async function getUserVotes(userId: string, reviewIds: string[]): Promise<Record<string, VoteValue>> {
+  const votes = await getRepositories().reviews.findVotes(userId, reviewIds);
+  return Object.fromEntries(votes.map((vote) => [vote.reviewId, vote.value]));
 }
 
 // DELETE: Remove a review
 export async function deleteReview(id: string): Promise<boolean> {
-  if (!ObjectId.isValid(id)) {
-    return false;
-  }
-  const collection = await getReviewsCollection();
-  const result = await collection.deleteOne({ _id: new ObjectId(id) });
-  return result.deletedCount === 1;
+  return getRepositories().reviews.delete(id);
 }
 
+// MAINTENANCE: Recompute rating and reviewCount for every book from the reviews collection
+export async function rebuildBookRatings(): Promise<number> {
+  return getRepositories().reviews.rebuildBookStats();
+}
@@ -0,0 +1,252 @@
+// src/app/lib/services/search.ts
+import { getRepositories } from '../repositories';
+import {
+  Book,
+  BookHighlights,
+  FacetFilters,
+  HighlightSegment,
+  SearchCandidateFilter,
+  SearchField,
+  SearchHit,
+  SearchResponse,
+} from '@/app/types';
+import { matchesFacetFilters } from '../facets';
+
+// How much a hit in each field is worth. Title and author hits rank above description hits.
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 10,
+  author: 8,
+  isbn: 8,
+  tags: 5,
+  publisher: 3,
+  description: 2,
+};
+
+// Match quality multipliers
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.75;
+const FUZZY_MATCH = 0.5;
+
+// Bonus when the whole query appears verbatim in one of these fields
+const PHRASE_BONUS: Partial<Record<SearchField, number>> = {
+  title: 15,
+  author: 12,
+};
+
+// Characters of context kept on each side of the first hit in a description snippet
+const SNIPPET_CONTEXT = 60;
+const SNIPPET_LENGTH = 160;
+
+const ISBN_QUERY = /^[0-9xX\-\s]+$/;
+
+interface Token {
+  text: string; // lower-cased token
+  start: number;
+  end: number;
+}
+
+// Split text into word tokens (letters and digits, any script) with their offsets
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const start = match.index ?? 0;
+    tokens.push({ text: match[0].toLowerCase(), start, end: start + match[0].length });
+  }
+  return tokens;
+}
+
+// Number of typos tolerated for a query term of this length
+function allowedTypos(term: string): number {
+  if (term.length >= 8) return 2;
+  if (term.length >= 4) return 1;
+  return 0;
+}
+
+// Levenshtein distance with an early exit once `max` is exceeded
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// How well a single field token matches a query term (0 = no match)
+function matchQuality(token: string, term: string): number {
+  if (token === term) return EXACT_MATCH;
+  if (term.length >= 3 && token.startsWith(term)) return PREFIX_MATCH;
+  const typos = allowedTypos(term);
+  if (typos > 0) {
+    // Compare against the token's prefix too, so "quantm" still finds "quantum-computing"
+    const distance = Math.min(
+      editDistance(token, term, typos),
+      editDistance(token.slice(0, term.length), term, typos)
+    );
+    if (distance <= typos) return FUZZY_MATCH;
+  }
+  return 0;
+}
+
+function normalizeIsbn(value: string): string {
+  return value.replace(/[^0-9xX]/g, '').toLowerCase();
+}
+
+function fieldText(book: Book, field: SearchField): string {
+  return field === 'tags' ? book.tags.join(', ') : book[field];
+}
+
+// Turn a (slice of a) field into highlight segments, marking the matched token ranges
+function toSegments(text: string, ranges: Array<[number, number]>, from = 0, to = text.length): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let cursor = from;
+  for (const [start, end] of ranges) {
+    // Skip ranges outside the window or already covered (a token can match several terms)
+    if (end <= Math.max(from, cursor) || start >= to) continue;
+    if (start > cursor) segments.push({ text: text.slice(cursor, start), match: false });
+    segments.push({ text: text.slice(Math.max(start, cursor), Math.min(end, to)), match: true });
+    cursor = Math.min(end, to);
+  }
+  if (cursor < to) segments.push({ text: text.slice(cursor, to), match: false });
+  return segments;
+}
+
+// Cut a window of the description around the first hit
+function snippetSegments(text: string, ranges: Array<[number, number]>): HighlightSegment[] {
+  if (text.length <= SNIPPET_LENGTH) return toSegments(text, ranges);
+
+  let from = Math.max(0, ranges[0][0] - SNIPPET_CONTEXT);
+  // Start on a word boundary
+  if (from > 0) {
+    const space = text.indexOf(' ', from);
+    from = space === -1 || space > ranges[0][0] ? from : space + 1;
+  }
+  const to = Math.min(text.length, from + SNIPPET_LENGTH);
+
+  const segments = toSegments(text, ranges, from, to);
+  if (from > 0) segments.unshift({ text: '…', match: false });
+  if (to < text.length) segments.push({ text: '…', match: false });
+  return segments;
+}
+
+// Split a term into one fragment more than the typos it tolerates. Each typo changes at most one
+// fragment, so any token that matchQuality accepts for the term contains at least one of them intact.
+function termFragments(term: string): string[] {
+  const count = allowedTypos(term) + 1;
+  const size = Math.ceil(term.length / count);
+  return Array.from({ length: count }, (_, i) => term.slice(i * size, (i + 1) * size)).filter(Boolean);
+}
+
+// The store-side filter for a query: a superset of the books scoreBook accepts, so only those are read and ranked
+function candidateFilter(terms: string[], rawQuery: string): SearchCandidateFilter {
+  const digits = normalizeIsbn(rawQuery);
+  return {
+    terms: terms.map(termFragments),
+    isbnDigits: ISBN_QUERY.test(rawQuery) && digits.length >= 4 ? digits : undefined,
+  };
+}
+
+// Score one book against the query terms. Returns null unless every term matched some field.
+function scoreBook(book: Book, terms: string[], rawQuery: string): SearchHit | null {
+  const matchedTerms = new Set<string>();
+  const highlights: BookHighlights = {};
+  let score = 0;
+
+  for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+    const text = fieldText(book, field);
+    const ranges: Array<[number, number]> = [];
+    let fieldScore = 0;
+
+    if (field === 'isbn') {
+      // ISBNs are matched on their digits, ignoring hyphens, and only for ISBN-looking queries
+      const digits = normalizeIsbn(rawQuery);
+      if (ISBN_QUERY.test(rawQuery) && digits.length >= 4 && normalizeIsbn(text).includes(digits)) {
+        fieldScore = digits.length >= 10 ? EXACT_MATCH * 2 : EXACT_MATCH;
+        ranges.push([0, text.length]);
+        terms.forEach((term) => matchedTerms.add(term));
+      }
+    } else {
+      const tokens = tokenize(text);
+      for (const term of terms) {
+        let best = 0;
+        for (const token of tokens) {
+          const quality = matchQuality(token.text, term);
+          if (quality > 0) {
+            ranges.push([token.start, token.end]);
+            best = Math.max(best, quality);
+          }
+        }
+        if (best > 0) {
+          matchedTerms.add(term);
+          fieldScore += best;
+        }
+      }
+    }
+
+    if (fieldScore > 0) {
+      score += fieldScore * FIELD_WEIGHTS[field];
+      ranges.sort((a, b) => a[0] - b[0]);
+      highlights[field] = field === 'description' ? snippetSegments(text, ranges) : toSegments(text, ranges);
+    }
+  }
+
+  if (matchedTerms.size < terms.length) {
+    return null;
+  }
+
+  const phrase = rawQuery.toLowerCase();
+  for (const [field, bonus] of Object.entries(PHRASE_BONUS) as [SearchField, number][]) {
+    if (fieldText(book, field).toLowerCase().includes(phrase)) {
+      score += bonus;
+    }
+  }
+
+  return { book, score: Math.round(score * 100) / 100, highlights };
+}
+
+// Score the books that may match and keep the ones that do, best first
+async function rankBooks(query: string): Promise<SearchHit[]> {
+  const terms = [...new Set(tokenize(query).map((token) => token.text))];
+  if (terms.length === 0) {
+    return [];
+  }
+  const books = await getRepositories().books.findSearchCandidates(candidateFilter(terms, query));
+  return books
+    .map((book) => scoreBook(book, terms, query))
+    .filter((hit): hit is SearchHit => hit !== null)
+    // Highest score first, then title for a stable order
+    .sort((a, b) => b.score - a.score || a.book.title.localeCompare(b.book.title));
+}
+
+// Every book matching a free-text query, ignoring facet filters (used for facet counts)
+export async function findMatchingBooks(rawQuery: string): Promise<Book[]> {
+  const hits = await rankBooks(rawQuery.trim());
+  return hits.map((hit) => hit.book);
+}
+
+// Rank the catalog against a free-text query
+export async function searchBooks(
+  rawQuery: string,
+  options: { page: number; limit: number; filters?: FacetFilters }
+): Promise<SearchResponse> {
+  const query = rawQuery.trim();
+  const hits = (await rankBooks(query)).filter((hit) => matchesFacetFilters(hit.book, options.filters ?? {}));
+
+  const start = (options.page - 1) * options.limit;
+  return {
+    query,
+    results: hits.slice(start, start + options.limit),
+    page: options.page,
+    limit: options.limit,
+    totalItems: hits.length,
+    totalPages: Math.ceil(hits.length / options.limit),
+  };
+}
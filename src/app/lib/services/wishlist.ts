@@ -0,0 +1,40 @@
+// src/app/lib/services/wishlist.ts
+import { getRepositories } from '../repositories';
+import { addCartItem, CartWriteResult } from './cart';
+import { WishlistItem } from '@/app/types';
+
+// READ: Get a user's wishlist, newest first
+export async function getWishlist(userId: string): Promise<WishlistItem[]> {
+  return getRepositories().wishlist.findByUserId(userId);
+}
+
+// CREATE: Add a book to the wishlist. Returns null when the book does not exist.
+// Adding a book that is already on the wishlist returns the existing item.
+export async function addToWishlist(userId: string, bookId: string): Promise<WishlistItem | null> {
+  const { books, wishlist } = getRepositories();
+  if (!(await books.findById(bookId))) {
+    return null;
+  }
+  return wishlist.add(userId, bookId);
+}
+
+// DELETE: Remove a book from the wishlist
+export async function removeFromWishlist(userId: string, bookId: string): Promise<boolean> {
+  return getRepositories().wishlist.remove(userId, bookId);
+}
+
+// MOVE: Put one copy of a wishlisted book in the user's cart and take it off the wishlist.
+// Returns null when the book is not on the wishlist. When the cart rejects it (out of stock,
+// or removed from the catalog) the book stays on the wishlist and the stock issue is returned.
+export async function moveWishlistItemToCart(userId: string, bookId: string): Promise<CartWriteResult | null> {
+  const { wishlist } = getRepositories();
+  const onWishlist = (await wishlist.findByUserId(userId)).some((item) => item.bookId === bookId);
+  if (!onWishlist) {
+    return null;
+  }
+  const result = await addCartItem({ userId }, { bookId, quantity: 1 });
+  if ('item' in result) {
+    await wishlist.remove(userId, bookId);
+  }
+  return result;
+}
@@ -0,0 +1,82 @@
+// src/app/lib/session.ts
+// Session and guest cookie helpers for route handlers
+import { randomBytes } from 'crypto';
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { createSession, deleteSession, getUserBySessionToken, SESSION_TTL_MS } from './services/auth';
+import { mergeGuestCart } from './services/cart';
+import { CartOwner, User } from '../types';
+
+export const SESSION_COOKIE = 'amana_session';
+// Identifies an anonymous visitor's cart until they sign in
+export const GUEST_COOKIE = 'amana_guest';
+
+const COOKIE_OPTIONS = {
+  httpOnly: true,
+  sameSite: 'lax',
+  secure: process.env.NODE_ENV === 'production',
+  path: '/',
+} as const;
+
+// The signed-in user for the current request, or null
+export async function getCurrentUser(): Promise<User | null> {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  return token ? getUserBySessionToken(token) : null;
+}
+
+// Start a session for `userId` and set the cookie on the response.
+// A guest cart from before signing in is merged into the account cart.
+export async function startSession(userId: string): Promise<void> {
+  const cookieStore = await cookies();
+  const { token, expiresAt } = await createSession(userId);
+  cookieStore.set(SESSION_COOKIE, token, { ...COOKIE_OPTIONS, expires: expiresAt });
+
+  const guestId = cookieStore.get(GUEST_COOKIE)?.value;
+  if (guestId) {
+    await mergeGuestCart(guestId, userId);
+    cookieStore.delete(GUEST_COOKIE);
+  }
+}
+
+// End the current session (if any) and clear the cookie
+export async function endSession(): Promise<void> {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(SESSION_COOKIE)?.value;
+  if (token) {
+    await deleteSession(token);
+  }
+  cookieStore.delete(SESSION_COOKIE);
+}
+
+// Whose cart this request works on: the signed-in user, otherwise the guest cookie.
+// Null for a visitor who has not started a cart yet.
+export async function getCartOwner(): Promise<CartOwner | null> {
+  const user = await getCurrentUser();
+  if (user) {
+    return { userId: user.id };
+  }
+  const guestId = (await cookies()).get(GUEST_COOKIE)?.value;
+  return guestId ? { guestId } : null;
+}
+
+// Like getCartOwner, but gives a new visitor a guest cookie so they can start a cart
+export async function getOrCreateCartOwner(): Promise<CartOwner> {
+  const owner = await getCartOwner();
+  if (owner) {
+    return owner;
+  }
+  const guestId = randomBytes(24).toString('base64url');
+  (await cookies()).set(GUEST_COOKIE, guestId, {
+    ...COOKIE_OPTIONS,
+    expires: new Date(Date.now() + SESSION_TTL_MS),
+  });
+  return { guestId };
+}
+
+export function signInRequiredResponse() {
+  return NextResponse.json({ error: 'You need to sign in first.' }, { status: 401 });
+}
+
+export function forbiddenResponse() {
+  return NextResponse.json({ error: 'You do not have permission to do that.' }, { status: 403 });
+}
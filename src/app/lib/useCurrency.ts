@@ -0,0 +1,35 @@
+// src/app/lib/useCurrency.ts
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { CurrencyCode } from '../types';
+import { BASE_CURRENCY } from '../data/currencies';
+import { CURRENCY_CHANGED_EVENT, formatPrice, getStoredCurrency } from './currency';
+import { DEFAULT_LOCALE } from './i18n';
+import { useTranslation } from './useTranslation';
+
+// The visitor's display currency and a formatter bound to it. The first render uses the base
+// currency (as the server does); the stored choice is picked up after mounting and whenever
+// the Navbar selector changes it. formatBase is for amounts that are always shown in the base
+// currency, such as order totals and catalog prices in the admin.
+export function useCurrency(): {
+  currency: CurrencyCode;
+  format: (amount: number) => string;
+  formatBase: (amount: number) => string;
+} {
+  const [currency, setCurrency] = useState<CurrencyCode>(BASE_CURRENCY);
+  const { locale } = useTranslation();
+  // English keeps each currency's regional format; other languages format in their own
+  const formatLocale = locale === DEFAULT_LOCALE ? undefined : locale;
+
+  useEffect(() => {
+    setCurrency(getStoredCurrency());
+    const handler = () => setCurrency(getStoredCurrency());
+    window.addEventListener(CURRENCY_CHANGED_EVENT, handler);
+    return () => window.removeEventListener(CURRENCY_CHANGED_EVENT, handler);
+  }, []);
+
+  const format = useCallback((amount: number) => formatPrice(amount, currency, formatLocale), [currency, formatLocale]);
+  const formatBase = useCallback((amount: number) => formatPrice(amount, BASE_CURRENCY, formatLocale), [formatLocale]);
+  return { currency, format, formatBase };
+}
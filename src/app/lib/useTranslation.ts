@@ -0,0 +1,35 @@
+// src/app/lib/useTranslation.ts
+'use client';
+
+import { useMemo } from 'react';
+import { useParams } from 'next/navigation';
+import { Locale } from '../types';
+import { createTranslator, DEFAULT_LOCALE, formatDate, formatNumber, getDirection, isLocale, localizePath, Translator } from './i18n';
+
+interface TranslationTools {
+  locale: Locale;
+  dir: 'ltr' | 'rtl';
+  t: Translator;
+  localize: (path: string) => string; // Prefix an app path with the current locale
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatDate: (timestamp: string, options?: Intl.DateTimeFormatOptions) => string;
+}
+
+// The page's locale comes from the [locale] route segment, so any client component can read
+// it without a provider.
+export function useTranslation(): TranslationTools {
+  const params = useParams<{ locale?: string }>();
+  const locale = isLocale(params?.locale) ? params.locale : DEFAULT_LOCALE;
+
+  return useMemo(
+    () => ({
+      locale,
+      dir: getDirection(locale),
+      t: createTranslator(locale),
+      localize: (path: string) => localizePath(locale, path),
+      formatNumber: (value: number, options?: Intl.NumberFormatOptions) => formatNumber(value, locale, options),
+      formatDate: (timestamp: string, options?: Intl.DateTimeFormatOptions) => formatDate(timestamp, locale, options),
+    }),
+    [locale]
+  );
+}
@@ -0,0 +1,156 @@
+// src/app/lib/validation.ts
+// A small schema validator for JSON request bodies. It has no server-only imports,
+// so forms can run the same checks as the API routes before submitting.
+
+interface BaseRule {
+  optional?: boolean; // May be left out (or null)
+}
+
+export type FieldRule =
+  // raw strings (passwords) are checked and kept exactly as sent instead of trimmed
+  | (BaseRule & { type: 'string'; minLength?: number; maxLength?: number; pattern?: RegExp; patternMessage?: string; raw?: boolean; default?: string })
+  | (BaseRule & { type: 'number'; min?: number; max?: number; integer?: boolean; default?: number })
+  | (BaseRule & { type: 'boolean'; default?: boolean })
+  | (BaseRule & { type: 'stringArray'; minItems?: number; maxItems?: number; maxItemLength?: number; default?: string[] })
+  | (BaseRule & { type: 'date'; default?: string }) // YYYY-MM-DD or a full ISO timestamp
+  | (BaseRule & { type: 'enum'; values: readonly string[]; default?: string })
+  // A nested object checked against its own schema; its errors are reported as "field.subfield"
+  | (BaseRule & { type: 'object'; schema: Record<string, FieldRule>; default?: never });
+
+// One rule per property of T. Keyed by the type itself, so adding a field to a type in
+// types/index.ts is a compile error until its schema covers it.
+export type Schema<T> = { [K in keyof T]-?: FieldRule };
+
+// Field name -> message ("body" when the payload itself is not a JSON object)
+export type FieldErrors = Record<string, string>;
+
+export type ValidationResult<T> = { data: T } | { errors: FieldErrors };
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:\d{2})?)?$/;
+
+// Returns an error message, or null when the value is acceptable
+function checkValue(rule: FieldRule, value: unknown): string | null {
+  switch (rule.type) {
+    case 'string': {
+      if (typeof value !== 'string') return 'Must be a string.';
+      const length = (rule.raw ? value : value.trim()).length;
+      if (rule.minLength !== undefined && length < rule.minLength) {
+        return rule.minLength === 1 ? 'Must not be empty.' : `Must be at least ${rule.minLength} characters.`;
+      }
+      if (rule.maxLength !== undefined && length > rule.maxLength) return `Must be at most ${rule.maxLength} characters.`;
+      if (rule.pattern && !rule.pattern.test(value.trim())) return rule.patternMessage ?? 'Has an invalid format.';
+      return null;
+    }
+    case 'number': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return 'Must be a number.';
+      if (rule.integer && !Number.isInteger(value)) return 'Must be a whole number.';
+      if (rule.min !== undefined && value < rule.min) return `Must be at least ${rule.min}.`;
+      if (rule.max !== undefined && value > rule.max) return `Must be at most ${rule.max}.`;
+      return null;
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'Must be true or false.';
+    case 'stringArray': {
+      if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) return 'Must be a list of strings.';
+      if (rule.maxItemLength !== undefined && value.some((item: string) => item.trim().length > rule.maxItemLength!)) {
+        return `Each entry must be at most ${rule.maxItemLength} characters.`;
+      }
+      if (value.some((item: string) => !item.trim())) return 'Entries must not be empty.';
+      if (rule.minItems !== undefined && value.length < rule.minItems) {
+        return rule.minItems === 1 ? 'Must have at least one entry.' : `Must have at least ${rule.minItems} entries.`;
+      }
+      if (rule.maxItems !== undefined && value.length > rule.maxItems) return `Must have at most ${rule.maxItems} entries.`;
+      return null;
+    }
+    case 'date':
+      if (typeof value !== 'string' || !ISO_DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+        return 'Must be a date (YYYY-MM-DD).';
+      }
+      return null;
+    case 'enum':
+      return typeof value === 'string' && rule.values.includes(value) ? null : `Must be one of: ${rule.values.join(', ')}.`;
+    case 'object':
+      return isPlainObject(value) ? null : 'Must be an object.';
+  }
+}
+
+// Strings are stored trimmed (unless raw); list entries too
+function normalizeValue(rule: FieldRule, value: unknown): unknown {
+  if (rule.type === 'string') return rule.raw ? value : (value as string).trim();
+  if (rule.type === 'stringArray') return (value as string[]).map((item) => item.trim());
+  return value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function runSchema<T>(schema: Schema<T>, input: unknown, partial: boolean): ValidationResult<Partial<T>> {
+  if (!isPlainObject(input)) {
+    return { errors: { body: 'Expected a JSON object.' } };
+  }
+
+  const rules = schema as Record<string, FieldRule>;
+  const errors: FieldErrors = {};
+  const data: Record<string, unknown> = {};
+
+  for (const key of Object.keys(input)) {
+    if (!(key in rules)) {
+      errors[key] = 'Unknown field.';
+    }
+  }
+
+  for (const [key, rule] of Object.entries(rules)) {
+    const value = input[key];
+    if (value === undefined || value === null) {
+      // Partial payloads (updates) only touch the fields they include
+      if (partial) continue;
+      if (rule.default !== undefined) {
+        data[key] = structuredClone(rule.default);
+      } else if (!rule.optional) {
+        errors[key] = 'Is required.';
+      }
+      continue;
+    }
+    const message = checkValue(rule, value);
+    if (message) {
+      errors[key] = message;
+    } else if (rule.type === 'object') {
+      const nested = runSchema(rule.schema, value, false);
+      if ('errors' in nested) {
+        for (const [field, fieldMessage] of Object.entries(nested.errors)) {
+          errors[`${key}.${field}`] = fieldMessage;
+        }
+      } else {
+        data[key] = nested.data;
+      }
+    } else {
+      data[key] = normalizeValue(rule, value);
+    }
+  }
+
+  return Object.keys(errors).length > 0 ? { errors } : { data: data as Partial<T> };
+}
+
+// Check a complete payload (creates). Fields with a default are filled in when missing.
+export function validate<T>(schema: Schema<T>, input: unknown): ValidationResult<T> {
+  return runSchema(schema, input, false) as ValidationResult<T>;
+}
+
+// Check a partial payload (updates). At least one known field has to be present.
+export function validatePartial<T>(schema: Schema<T>, input: unknown): ValidationResult<Partial<T>> {
+  const result = runSchema(schema, input, true);
+  if ('data' in result && Object.keys(result.data).length === 0) {
+    return { errors: { body: 'Nothing to update.' } };
+  }
+  return result;
+}
+
+// The same schema without some fields, e.g. for a form that does not edit them
+export function omitFields<T, K extends keyof T>(schema: Schema<T>, keys: K[]): Schema<Omit<T, K>> {
+  const rest: Record<string, FieldRule> = { ...(schema as Record<string, FieldRule>) };
+  for (const key of keys) {
+    delete rest[key as string];
+  }
+  return rest as Schema<Omit<T, K>>;
+}
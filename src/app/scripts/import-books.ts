@@ -0,0 +1,78 @@
+// src/app/scripts/import-books.ts
+import * as dotenv from "dotenv";
+import { readFile } from "fs/promises";
+import { extname } from "path";
+import { getDataStore } from "../lib/repositories";
+import { importBooks } from "../lib/services/books";
+import { connectToDatabase } from "../lib/mongodb";
+import { isBookImportFormat, parseBookImport } from "../lib/bookImport";
+
+// Load environment variables from .env.local
+// (the data store is chosen when the repositories are first used, so this runs in time)
+dotenv.config({ path: ".env.local" });
+
+/**
+ * Import books from a CSV or JSON file
+ * - Usage: npm run import:books -- <file.csv|file.json> [--dry-run]
+ * - Books are matched by ISBN: existing books are updated, new ones created
+ * - Rows with errors are reported and skipped; --dry-run only reports
+ * - MongoDB only (MONGODB_URI): the memory store would be thrown away when the script exits
+ */
+async function importBooksFromFile() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes("--dry-run");
+  const file = args.find((arg) => !arg.startsWith("--"));
+  const format = file ? extname(file).slice(1).toLowerCase() : "";
+  if (!file || !isBookImportFormat(format)) {
+    console.error("Usage: npm run import:books -- <file.csv|file.json> [--dry-run]");
+    process.exit(1);
+  }
+
+  console.log(`\n📥 IMPORTING BOOKS${dryRun ? " (DRY RUN)" : ""}`);
+  console.log("═".repeat(50));
+
+  const dataStore = getDataStore();
+  console.log(`   📍 Data store: ${dataStore}`);
+  // The memory store only lives as long as this process: nothing would be saved, and a dry run
+  // would compare the file with the seed catalog instead of the real one
+  if (dataStore !== "mongo") {
+    console.error("   ❌ The import needs MongoDB: set MONGODB_URI (or use POST /api/books/import on a running server).");
+    process.exit(1);
+  }
+  console.log(`   📄 File: ${file}`);
+
+  try {
+    const parsed = parseBookImport(await readFile(file, "utf8"), format);
+    if ("error" in parsed) {
+      console.error(`   ❌ ${parsed.error}`);
+      process.exit(1);
+    }
+
+    const report = await importBooks(parsed.records, dryRun);
+    for (const result of report.rows) {
+      const label = `Row ${result.row}${result.isbn ? ` (${result.isbn})` : ""}`;
+      if (result.action === "error") {
+        const messages = Object.entries(result.errors ?? {}).map(([field, message]) => `${field}: ${message}`);
+        console.log(`   ❌ ${label} ${messages.join(" ")}`);
+      } else {
+        console.log(`   ${result.action === "create" ? "➕" : "✏️ "} ${label} ${result.action} "${result.title}"`);
+      }
+    }
+
+    console.log("═".repeat(50));
+    console.log(
+      `   ${dryRun ? "Would create" : "Created"} ${report.created}, ${dryRun ? "update" : "updated"} ${report.updated}, skipped ${report.failed} of ${report.total} rows`
+    );
+    if (report.failed > 0) process.exitCode = 1;
+
+    const { client } = await connectToDatabase();
+    await client.close();
+    console.log("   ✅ Connection closed.");
+  } catch (err) {
+    console.error("❌ Error importing books:", err);
+    process.exit(1);
+  }
+}
+
+// Run the import
+importBooksFromFile();
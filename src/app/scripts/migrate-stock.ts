@@ -0,0 +1,43 @@
+// src/app/scripts/migrate-stock.ts
+import * as dotenv from "dotenv";
+import { getDataStore } from "../lib/repositories";
+import { LEGACY_IN_STOCK_UNITS, migrateLegacyStock } from "../lib/repositories/mongo/books";
+import { connectToDatabase } from "../lib/mongodb";
+
+// Load environment variables from .env.local
+// (the data store is chosen when the repositories are first used, so this runs in time)
+dotenv.config({ path: ".env.local" });
+
+/**
+ * Migrate book stock
+ * - Books stored before stock tracking only have an inStock flag
+ * - Gives them stock (LEGACY_IN_STOCK_UNITS when in stock, otherwise 0) and allowBackorder: false
+ * - Leaves every other book, review, cart and order alone; safe to run more than once
+ * - MongoDB only: the memory store is always seeded with stock
+ */
+async function migrateStock() {
+  console.log("\n📦 MIGRATING BOOK STOCK");
+  console.log("═".repeat(50));
+
+  const dataStore = getDataStore();
+  console.log(`   📍 Data store: ${dataStore}`);
+  if (dataStore !== "mongo") {
+    console.error("   ❌ Nothing to migrate: set MONGODB_URI to migrate a MongoDB database.");
+    process.exit(1);
+  }
+
+  try {
+    const updatedCount = await migrateLegacyStock();
+    console.log(`   ✅ Added stock to ${updatedCount} books (${LEGACY_IN_STOCK_UNITS} units for books that were in stock)`);
+
+    const { client } = await connectToDatabase();
+    await client.close();
+    console.log("   ✅ Connection closed.");
+  } catch (err) {
+    console.error("❌ Error migrating book stock:", err);
+    process.exit(1);
+  }
+}
+
+// Run the migration
+migrateStock();
@@ -0,0 +1,40 @@
+// src/app/scripts/rebuild-ratings.ts
+import * as dotenv from "dotenv";
+import { getDataStore } from "../lib/repositories";
+import { rebuildBookRatings } from "../lib/services/reviews";
+import { connectToDatabase } from "../lib/mongodb";
+
+// Load environment variables from .env.local
+// (the data store is chosen when the repositories are first used, so this runs in time)
+dotenv.config({ path: ".env.local" });
+
+/**
+ * Rebuild book ratings
+ * - Recomputes every book's rating and reviewCount from its reviews
+ * - Use after importing or editing reviews outside the API
+ * - Runs against the configured data store (DATA_STORE / MONGODB_URI)
+ */
+async function rebuildRatings() {
+  console.log("\n🔁 REBUILDING BOOK RATINGS");
+  console.log("═".repeat(50));
+
+  const dataStore = getDataStore();
+  console.log(`   📍 Data store: ${dataStore}`);
+
+  try {
+    const updatedCount = await rebuildBookRatings();
+    console.log(`   ✅ Recomputed rating and reviewCount for ${updatedCount} books`);
+
+    if (dataStore === "mongo") {
+      const { client } = await connectToDatabase();
+      await client.close();
+      console.log("   ✅ Connection closed.");
+    }
+  } catch (err) {
+    console.error("❌ Error rebuilding book ratings:", err);
+    process.exit(1);
+  }
+}
+
+// Run the rebuild
+rebuildRatings();
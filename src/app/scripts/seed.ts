@@ -3,7 +3,10 @@ import { MongoClient, Db, Collection, ObjectId } from "mongodb";
 import * as dotenv from "dotenv";
 import { books as localBooks } from "../data/books";
 import { reviews as localReviews } from "../data/reviews";
-import { Book, Review } from "../types";
+import { promotions as localPromotions } from "../data/promotions";
+import { Book, Promotion, Review } from "../types";
+import { rebuildAllBookStats } from "../lib/repositories/mongo/reviews";
+import { ensureIndexes, MONGO_INDEXES } from "../lib/repositories/mongo/indexes";
 
 // Load environment variables from .env.local
 dotenv.config({ path: ".env.local" });
@@ -15,7 +18,14 @@ const DATABASE_NAME = "amana-bookstore";
 const COLLECTIONS = {
   BOOKS: "books",
   REVIEWS: "reviews",
+  REVIEW_VOTES: "review_votes",
   CART: "cart",
+  CART_COUPONS: "cart_coupons",
+  PROMOTIONS: "promotions",
+  WISHLIST: "wishlist",
+  ORDERS: "orders",
+  USERS: "users",
+  SESSIONS: "sessions",
 };
 
 if (!MONGODB_URI) {
@@ -108,6 +118,9 @@ async function seedReviews(
     console.log("🗑️  Clearing existing reviews...");
     const deleteResult = await reviewsCollection.deleteMany({});
     console.log(`   ✅ Deleted ${deleteResult.deletedCount} existing reviews`);
+    // Votes point at the old review ids
+    const votesResult = await db.collection(COLLECTIONS.REVIEW_VOTES).deleteMany({});
+    console.log(`   ✅ Deleted ${votesResult.deletedCount} existing review votes`);
 
     // Step 2: Transform reviews data with new bookId references
     console.log("🔄 Transforming review data and mapping bookIds...");
@@ -155,6 +168,56 @@ async function seedReviews(
   }
 }
 
+/**
+ * Sync book ratings with the seeded reviews
+ * - The static book data carries placeholder rating/reviewCount values
+ * - Recomputes both fields from the reviews collection
+ */
+async function syncBookRatings(db: Db): Promise<void> {
+  console.log("\n🔁 SYNCING BOOK RATINGS...");
+  console.log("═".repeat(50));
+
+  try {
+    const updatedCount = await rebuildAllBookStats(db);
+    console.log(`   ✅ Recomputed rating and reviewCount for ${updatedCount} books`);
+  } catch (err) {
+    console.error("❌ Error syncing book ratings:", err);
+    throw err;
+  }
+}
+
+/**
+ * Seed the promotions collection
+ * - Clears existing promotions
+ * - Removes 'id' field (MongoDB uses _id)
+ * - Coupon codes applied to carts are kept; codes that no longer exist
+ *   are reported as invalid on the cart page
+ */
+async function seedPromotions(db: Db): Promise<void> {
+  console.log("\n🏷️  SEEDING PROMOTIONS COLLECTION...");
+  console.log("═".repeat(50));
+
+  const promotionsCollection = db.collection(COLLECTIONS.PROMOTIONS);
+
+  try {
+    console.log("🗑️  Clearing existing promotions...");
+    const deleteResult = await promotionsCollection.deleteMany({});
+    console.log(`   ✅ Deleted ${deleteResult.deletedCount} existing promotions`);
+
+    const promotionsToInsert = localPromotions.map((promotion: Promotion) => {
+      const promotionWithoutId: Partial<Promotion> = { ...promotion };
+      delete promotionWithoutId.id;
+      return promotionWithoutId;
+    });
+    console.log(`📥 Inserting ${promotionsToInsert.length} promotions into database...`);
+    const insertResult = await promotionsCollection.insertMany(promotionsToInsert);
+    console.log(`   ✅ Successfully inserted ${insertResult.insertedCount} promotions!`);
+  } catch (err) {
+    console.error("❌ Error seeding promotions:", err);
+    throw err;
+  }
+}
+
 /**
  * Initialize the cart collection
  * - Creates an empty collection (no pre-seed data)
@@ -177,8 +240,18 @@ async function initializeCart(db: Db): Promise<void> {
       console.log("   ℹ️  Cart collection already exists");
     }
 
-    // Show cart collection status
     const cartCollection = db.collection(COLLECTIONS.CART);
+
+    // Items from before carts had owners can never be reached
+    const orphanResult = await cartCollection.deleteMany({
+      userId: { $exists: false },
+      guestId: { $exists: false },
+    });
+    if (orphanResult.deletedCount > 0) {
+      console.log(`   🗑️  Removed ${orphanResult.deletedCount} cart items without an owner`);
+    }
+
+    // Show cart collection status
     const cartCount = await cartCollection.countDocuments();
     console.log(
       `   📊 Cart collection has ${cartCount} items (will be populated by users)`
@@ -189,6 +262,33 @@ async function initializeCart(db: Db): Promise<void> {
   }
 }
 
+/**
+ * Create the indexes used by accounts, carts, promotions, wishlists, orders and reviews
+ * - Unique email per user
+ * - Sessions are looked up by token hash and removed by MongoDB once expired (TTL index)
+ * - Carts (user or guest), their coupon codes, wishlists and orders are always queried by owner
+ * - Promotions are looked up by coupon code (automatic promotions have none)
+ * - Reviews are listed per book and per moderation status; one review per user and book
+ * - One helpfulness vote per user and review
+ * - Existing users, sessions and orders are kept
+ */
+async function createIndexes(db: Db): Promise<void> {
+  console.log("\n🔑 ENSURING INDEXES...");
+  console.log("═".repeat(50));
+
+  try {
+    // The same indexes the app creates when it connects (see repositories/mongo/indexes.ts)
+    await ensureIndexes(db);
+    for (const { collection, key, options } of MONGO_INDEXES) {
+      const fields = Object.keys(key).join(" + ");
+      console.log(`   ✅ ${collection}: ${options?.unique ? "unique " : ""}${fields}${options?.expireAfterSeconds !== undefined ? " (TTL)" : ""}`);
+    }
+  } catch (err) {
+    console.error("❌ Error creating indexes:", err);
+    throw err;
+  }
+}
+
 /**
  * Main seed function
  * - Orchestrates all seeding operations
@@ -222,7 +322,10 @@ async function seedDatabase() {
     // Seed collections in order - books first to get ID mapping
     const bookIdMapping = await seedBooks(db);
     await seedReviews(db, bookIdMapping);
+    await syncBookRatings(db);
+    await seedPromotions(db);
     await initializeCart(db);
+    await createIndexes(db);
 
     // Summary Phase
     console.log("\n" + "╔".repeat(50));
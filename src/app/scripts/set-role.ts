@@ -0,0 +1,55 @@
+// src/app/scripts/set-role.ts
+import * as dotenv from "dotenv";
+import { getDataStore } from "../lib/repositories";
+import { setUserRole } from "../lib/services/auth";
+import { connectToDatabase } from "../lib/mongodb";
+import { ROLES, isRole } from "../lib/roles";
+
+// Load environment variables from .env.local
+// (the data store is chosen when the repositories are first used, so this runs in time)
+dotenv.config({ path: ".env.local" });
+
+/**
+ * Set a user's role
+ * - Usage: npm run set-role -- <email> <customer|staff|admin>
+ * - The account has to be registered first
+ * - MongoDB only (MONGODB_URI): the memory store would be thrown away when the script exits
+ */
+async function setRole() {
+  const [email, role] = process.argv.slice(2);
+  if (!email || !isRole(role)) {
+    console.error(`Usage: npm run set-role -- <email> <${ROLES.join("|")}>`);
+    process.exit(1);
+  }
+
+  console.log("\n🔑 SETTING USER ROLE");
+  console.log("═".repeat(50));
+
+  const dataStore = getDataStore();
+  console.log(`   📍 Data store: ${dataStore}`);
+  // The memory store only lives as long as this process, so the new role would never be saved
+  if (dataStore !== "mongo") {
+    console.error("   ❌ Changing roles needs MongoDB: set MONGODB_URI.");
+    process.exit(1);
+  }
+
+  try {
+    const user = await setUserRole(email, role);
+    if (user) {
+      console.log(`   ✅ ${user.email} is now ${user.role}`);
+    } else {
+      console.error(`   ❌ No user with email ${email}`);
+      process.exitCode = 1;
+    }
+
+    const { client } = await connectToDatabase();
+    await client.close();
+    console.log("   ✅ Connection closed.");
+  } catch (err) {
+    console.error("❌ Error setting user role:", err);
+    process.exit(1);
+  }
+}
+
+// Run the update
+setRole();
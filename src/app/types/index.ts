@@ -16,24 +16,371 @@ export interface Book {
   publisher: string;
   rating: number;
   reviewCount: number;
-  inStock: boolean;
+  stock: number; // Units on hand
+  allowBackorder: boolean; // Keep selling once stock reaches 0
   featured: boolean;
 }
 
+// Derived from Book.stock and Book.allowBackorder (see lib/inventory.ts)
+export type Availability = 'in_stock' | 'low_stock' | 'out_of_stock' | 'backorder';
+
+// Why a requested quantity of a book cannot be sold
+export interface StockIssue {
+  bookId: string;
+  reason: 'not_found' | 'insufficient_stock';
+  requested: number;
+  available: number;
+}
+
+// Exactly one of userId / guestId is set
 export interface CartItem {
   id: string;
+  userId?: string; // A signed-in user's cart
+  guestId?: string; // An anonymous visitor's cart, identified by the guest cookie
   bookId: string;
   quantity: number;
   addedAt: string;
+  // Parked under the cart: kept between visits, but left out of the total and of checkout
+  savedForLater: boolean;
+}
+
+// Whose cart an operation works on
+export type CartOwner = { userId: string } | { guestId: string };
+
+// A book a signed-in user saved for later. Each book is on a user's wishlist at most once.
+export interface WishlistItem {
+  id: string;
+  userId: string;
+  bookId: string;
+  addedAt: string;
+}
+
+// How a promotion takes money off the items it applies to. buy_x_get_y makes the cheapest
+// freeQuantity units of every (buyQuantity + freeQuantity) eligible units free.
+export type PromotionRule =
+  | { kind: 'percentage'; percentOff: number }
+  | { kind: 'fixed'; amountOff: number }
+  | { kind: 'buy_x_get_y'; buyQuantity: number; freeQuantity: number };
+
+export type PromotionKind = PromotionRule['kind'];
+
+// Books in any of these genres or from any of these publishers. No scope means the whole cart.
+export interface PromotionScope {
+  genres?: string[];
+  publishers?: string[];
+}
+
+export interface Promotion {
+  id: string;
+  code?: string; // Entered at the cart (stored upper-case); promotions without a code apply automatically
+  description: string;
+  rule: PromotionRule;
+  scope?: PromotionScope;
+  minSpend?: number; // Measured on the eligible items before any discount
+  startsAt?: string;
+  expiresAt?: string;
+  active: boolean;
+}
+
+// What one promotion took off the cart
+export interface DiscountLine {
+  promotionId: string;
+  code?: string;
+  description: string;
+  amount: number;
+  bookIds: string[]; // The items it was taken off
+}
+
+// Why a coupon code takes nothing off the cart
+export type CouponIssueReason =
+  | 'not_found'
+  | 'inactive'
+  | 'not_started'
+  | 'expired'
+  | 'no_eligible_items'
+  | 'min_spend'
+  | 'min_quantity'
+  | 'too_many_codes';
+
+export interface CouponIssue {
+  code: string;
+  reason: CouponIssueReason;
+  minSpend?: number; // For min_spend
+  minQuantity?: number; // For min_quantity
+}
+
+// The active cart after promotions. Applied codes that currently take nothing off stay
+// applied (e.g. until the minimum spend is reached) and are listed in couponIssues.
+export interface CartPricing {
+  subtotal: number;
+  discounts: DiscountLine[];
+  discountTotal: number;
+  total: number;
+  couponCodes: string[];
+  couponIssues: CouponIssue[];
+}
+
+// How shipping to a region is charged. Weight is estimated from the page count (see lib/pricing.ts).
+export type ShippingRule =
+  | { kind: 'flat'; amount: number }
+  | { kind: 'weight'; base: number; perKg: number } // Per started kilogram
+  | { kind: 'pages'; base: number; per100Pages: number }; // Per started 100 pages
+
+// Tax and shipping for one destination (see data/regions.ts)
+export interface PricingRegion {
+  id: string;
+  name: string;
+  countries: string[]; // Country names and ISO codes that ship here
+  taxRate: number; // 0.05 = 5%
+  taxShipping: boolean; // Whether shipping is taxed too
+  shipping: ShippingRule;
+  freeShippingThreshold?: number; // Items total (after discounts) from which shipping is free
+}
+
+// What the cart costs delivered to a region: the items after discounts, plus shipping, plus tax
+export interface CartSummary extends Omit<CartPricing, 'total'> {
+  itemsTotal: number; // subtotal - discountTotal
+  regionId: string;
+  regionName: string;
+  shipping: number;
+  freeShippingThreshold?: number;
+  taxRate: number;
+  tax: number;
+  total: number;
 }
 
+// Currencies prices can be shown in. Stored prices and orders are always in the base currency (USD).
+export type CurrencyCode = 'USD' | 'JOD' | 'SAR' | 'AED' | 'EGP';
+
+export interface Currency {
+  code: CurrencyCode;
+  name: string;
+  locale: string; // Used for number formatting, e.g. 'en-JO'
+  rate: number; // Units of this currency per 1 USD
+}
+
+// UI languages. Every page lives under its locale prefix, e.g. /ar/cart (see lib/i18n.ts).
+export type Locale = 'en' | 'ar';
+
+// A message that depends on a count ({count}); the form is picked with Intl.PluralRules
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+// New reviews wait in the moderation queue; only approved reviews are shown and rated
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
 export interface Review {
   id: string;
   bookId: string;
+  userId?: string; // Account that wrote the review (reviews imported from the seed data have none)
   author: string;
   rating: number;
   title: string;
   comment: string;
   timestamp: string;
   verified: boolean;
+  status: ReviewStatus;
+  moderationReason?: string; // Why the review was rejected, shown to its author
+  moderatedAt?: string;
+  helpfulCount: number; // Kept in sync with the votes (see ReviewVote)
+  unhelpfulCount: number;
+}
+
+export type VoteValue = 'helpful' | 'unhelpful';
+
+// One per user and review; changing your mind replaces the vote
+export interface ReviewVote {
+  reviewId: string;
+  userId: string;
+  value: VoteValue;
+  createdAt: string;
+}
+
+// Sort orders for a book's reviews (GET /api/reviews?bookId=...&sort=...)
+export type ReviewSort = 'helpful' | 'newest' | 'highest' | 'lowest';
+
+export type StarRating = 1 | 2 | 3 | 4 | 5;
+
+// Position after the last review of a page: its sort values (see REVIEW_SORT_KEYS) and id
+export interface ReviewCursor {
+  values: (number | string)[];
+  id: string;
+}
+
+// Query options accepted by GET /api/reviews?bookId=...
+export interface ReviewQuery {
+  bookId: string;
+  sort: ReviewSort;
+  limit: number;
+  rating?: StarRating; // Only reviews with this many stars
+  cursor?: ReviewCursor;
+}
+
+// Response body of GET /api/reviews?bookId=...; pass nextCursor back as ?cursor= for the next page
+export interface ReviewPage {
+  reviews: Review[];
+  nextCursor: string | null;
+  limit: number;
+}
+
+// Response body of GET /api/reviews/summary
+export interface RatingSummary {
+  bookId: string;
+  average: number;
+  total: number;
+  distribution: Record<StarRating, number>; // Published reviews per star value
+}
+
+export type BookSortField = 'title' | 'author' | 'datePublished' | 'rating' | 'reviewCount' | 'price';
+
+export type SortOrder = 'asc' | 'desc';
+
+export type FacetName = 'genre' | 'language' | 'publisher' | 'price' | 'year' | 'rating';
+
+// Selected facet values. Values within a facet are OR-ed, facets are AND-ed together.
+// Price and rating use band values (see PRICE_BANDS / RATING_BANDS in lib/facets.ts).
+export type FacetFilters = Partial<Record<FacetName, string[]>>;
+
+export interface FacetCount {
+  value: string;
+  label: string;
+  count: number;
+}
+
+// Response body of GET /api/books/facets
+export type BookFacets = Record<FacetName, FacetCount[]>;
+
+// Query options accepted by GET /api/books
+export interface BookQuery {
+  page: number;
+  limit: number;
+  filters: FacetFilters;
+  q?: string;
+  featured?: boolean;
+  sortBy: BookSortField;
+  sortOrder: SortOrder;
+}
+
+export interface PaginatedBooks {
+  books: Book[];
+  page: number;
+  limit: number;
+  totalItems: number;
+  totalPages: number;
+}
+
+// File formats accepted by POST /api/books/import and the import:books script
+export type BookImportFormat = 'csv' | 'json';
+
+// What an import did (or, in a dry run, would do) with one record of the file
+export interface BookImportRowResult {
+  row: number; // 1-based position among the records (the CSV header row is not counted)
+  isbn?: string;
+  title?: string;
+  action: 'create' | 'update' | 'error';
+  bookId?: string; // The book updated, or created (not known for new books in a dry run)
+  errors?: Record<string, string>; // Field name -> message, when action is 'error'
+}
+
+// Response body of POST /api/books/import
+export interface BookImportReport {
+  dryRun: boolean; // Nothing was written
+  total: number;
+  created: number;
+  updated: number;
+  failed: number; // Rows with errors are skipped; the others are still imported
+  rows: BookImportRowResult[];
+}
+
+// File formats of GET /api/books/export. onix is an ONIX for Books 3.0 message (see lib/bookExport.ts).
+export type BookExportFormat = 'csv' | 'json' | 'onix';
+
+// A piece of a highlighted field; `match` marks text that matched the search query
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export type SearchField = 'title' | 'author' | 'description' | 'tags' | 'publisher' | 'isbn';
+
+export type BookHighlights = Partial<Record<SearchField, HighlightSegment[]>>;
+
+// What a book needs to be scored by the search (see candidateFilter in lib/services/search.ts).
+// A candidate contains, for every term, at least one of its fragments in the title, author, tags,
+// publisher or description (case-insensitive), or has an ISBN containing isbnDigits.
+export interface SearchCandidateFilter {
+  terms: string[][]; // Fragments of each query term, lower-cased
+  isbnDigits?: string; // Set for ISBN-looking queries
+}
+
+export interface SearchHit {
+  book: Book;
+  score: number;
+  highlights: BookHighlights;
+}
+
+// Response body of GET /api/search
+export interface SearchResponse {
+  query: string;
+  results: SearchHit[];
+  page: number;
+  limit: number;
+  totalItems: number;
+  totalPages: number;
+}
+
+export type OrderStatus = 'pending' | 'paid' | 'shipped' | 'delivered' | 'cancelled';
+
+// A line of an order. Title, author and price are copied from the book when the
+// order is placed so later catalog edits do not change past orders.
+export interface OrderItem {
+  bookId: string;
+  title: string;
+  author: string;
+  unitPrice: number;
+  quantity: number;
+  lineTotal: number;
+}
+
+export interface ShippingAddress {
+  fullName: string;
+  email: string;
+  addressLine1: string;
+  addressLine2?: string;
+  city: string;
+  postalCode?: string;
+  country: string;
+}
+
+export interface OrderStatusChange {
+  status: OrderStatus;
+  timestamp: string;
+}
+
+export interface Order {
+  id: string;
+  userId: string;
+  items: OrderItem[];
+  subtotal: number;
+  discounts: DiscountLine[]; // Promotions applied when the order was placed
+  discountTotal: number;
+  shipping: number;
+  tax: number; // At the rate of the shipping address's region
+  total: number;
+  status: OrderStatus;
+  statusHistory: OrderStatusChange[];
+  shippingAddress: ShippingAddress;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// customer: shops and reviews; staff: manages the catalog, orders and reviews; admin: staff plus deletions
+export type Role = 'customer' | 'staff' | 'admin';
+
+// A registered account as exposed by the API (the password hash never leaves the server)
+export interface User {
+  id: string;
+  name: string;
+  email: string;
+  role: Role;
+  createdAt: string;
 }
@@ -0,0 +1,26 @@
+// src/middleware.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_LOCALE, isLocale, LOCALE_COOKIE, matchAcceptLanguage, splitLocalePath } from './app/lib/i18n';
+
+// Pages live under a locale prefix (/en/..., /ar/...). Links and bookmarks without one are
+// redirected to the visitor's language: the saved choice, then the browser's, then English.
+export function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  if (splitLocalePath(pathname).locale) {
+    return NextResponse.next();
+  }
+
+  const cookieLocale = request.cookies.get(LOCALE_COOKIE)?.value;
+  const locale = isLocale(cookieLocale)
+    ? cookieLocale
+    : matchAcceptLanguage(request.headers.get('accept-language')) ?? DEFAULT_LOCALE;
+
+  const url = request.nextUrl.clone();
+  url.pathname = pathname === '/' ? `/${locale}` : `/${locale}${pathname}`;
+  return NextResponse.redirect(url);
+}
+
+export const config = {
+  // Not the API, Next.js internals or files such as /favicon.ico
+  matcher: ['/((?!api|_next|.*\\..*).*)'],
+};